@@ -15,6 +15,8 @@ const nextConfig = {
   },
 
   experimental: {
+    // Needed for src/instrumentation.ts (scheduler worker)
+    instrumentationHook: true,
     optimizePackageImports: ['lucide-react', 'recharts'],
   },
 
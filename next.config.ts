@@ -17,6 +17,8 @@ const nextConfig: NextConfig = {
 
   experimental: {
     typedRoutes: true,
+    // Needed for src/instrumentation.ts (scheduler worker)
+    instrumentationHook: true,
     optimizePackageImports: ['lucide-react', 'recharts', 'framer-motion'],
   },
 
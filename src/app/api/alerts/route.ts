@@ -2,28 +2,7 @@
 import { type NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { createServerClient, getCurrentUserId, AuthError } from '@/lib/supabase'
-
-// ─── Webhook URL validator (blocca SSRF) ──────────────────────────────────────
-function isSafeWebhookUrl(url: string): boolean {
-  try {
-    const { hostname } = new URL(url)
-    const blocked = [
-      'localhost',
-      '127.0.0.1',
-      '0.0.0.0',
-      '::1',
-      '169.254.169.254', // AWS metadata
-      'metadata.google.internal', // GCP metadata
-    ]
-    if (blocked.includes(hostname)) return false
-    if (hostname.startsWith('192.168.')) return false
-    if (hostname.startsWith('10.')) return false
-    if (hostname.startsWith('172.16.') || hostname.startsWith('172.31.')) return false
-    return true
-  } catch {
-    return false
-  }
-}
+import { isPublicUrl } from '@/lib/safe-fetch'
 
 // ─── Validation schemas ───────────────────────────────────────────────────────
 
@@ -53,7 +32,8 @@ const createAlertSchema = z.object({
   webhook_url: z
     .string()
     .url()
-    .refine(isSafeWebhookUrl, 'Webhook URL must be a public internet address')
+    // Resolved addresses are checked again on every delivery (safeFetch)
+    .refine(isPublicUrl, 'Webhook URL must be a public internet address')
     .optional()
     .nullable(),
 })
@@ -0,0 +1,70 @@
+// PATH: src/app/api/analytics/route.ts
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerClient, getCurrentUserId, AuthError } from '@/lib/supabase'
+import { getAnalyticsSummary } from '@/lib/services/analytics'
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+const querySchema = z.object({
+  brand_id: z.string().uuid().optional(),
+  days: z.coerce.number().int().min(1).max(90).default(30),
+})
+
+function err(message: string, status = 500) {
+  return NextResponse.json({ success: false, message }, { status })
+}
+
+// ─── GET /api/analytics ───────────────────────────────────────────────────────
+// Health, visibility and citation series, per-engine breakdown and optimizer
+// scan distributions, with the same totals for the preceding period.
+// ?brand_id=uuid (default: all brands)  ?days=30 (1-90)
+export async function GET(req: NextRequest) {
+  let userId: string
+  try {
+    userId = await getCurrentUserId(req.headers.get('authorization'))
+  } catch (e) {
+    if (e instanceof AuthError)
+      return NextResponse.json({ success: false, message: e.message }, { status: 401 })
+    return err('Authentication failed')
+  }
+
+  const { searchParams } = new URL(req.url)
+  const parsed = querySchema.safeParse({
+    brand_id: searchParams.get('brand_id') ?? undefined,
+    days: searchParams.get('days') ?? undefined,
+  })
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      },
+      { status: 422 },
+    )
+  }
+
+  const db = createServerClient()
+
+  if (parsed.data.brand_id) {
+    const { data: brand } = await db
+      .from('brands')
+      .select('id')
+      .eq('id', parsed.data.brand_id)
+      .eq('user_id', userId)
+      .single()
+
+    if (!brand) return err('Brand not found', 404)
+  }
+
+  try {
+    const summary = await getAnalyticsSummary(db, userId, {
+      days: parsed.data.days,
+      brandId: parsed.data.brand_id,
+    })
+    return NextResponse.json({ success: true, data: summary, timestamp: Date.now() })
+  } catch (e) {
+    return err(e instanceof Error ? e.message : 'Failed to load analytics')
+  }
+}
@@ -2,11 +2,15 @@
 import { type NextRequest, NextResponse } from 'next/server'
 import { analyzeTextSchema } from '@/lib/validations'
 import { analyzeContent } from '@/lib/services/gemini'
+import { recordScan } from '@/lib/services/scans'
 import { checkRateLimit, getClientIp } from '@/lib/ratelimit'
+import { UnsafeUrlError } from '@/lib/safe-fetch'
+import { getOptionalUserId } from '@/lib/supabase'
 import type { ApiResponse, AnalysisResult } from '@/types'
 
 // ─── POST /api/analyze ────────────────────────────────────────────────────────
-// Analyzes text or URL content for AIO visibility.
+// Analyzes text or URL content for AIO visibility. Signed-in users' results are
+// also saved to `analysis_scans`.
 // Rate limited: 20 requests per minute per IP.
 export async function POST(req: NextRequest) {
   // ── Rate limit ────────────────────────────────────────────────────────────
@@ -52,16 +56,20 @@ export async function POST(req: NextRequest) {
     )
   }
 
-  const { input, mode, engine } = parsed.data
+  const { input, mode, engine, model } = parsed.data
 
   // ── Analyze ───────────────────────────────────────────────────────────────
   try {
-    const result = await analyzeContent(input, mode, engine, input)
+    const userId = await getOptionalUserId(req.headers.get('authorization'))
+    const result = await analyzeContent(input, mode, engine, input, { userId }, model)
+    if (userId) await recordScan(userId, result, engine)
 
     const response: ApiResponse<AnalysisResult> = {
       data: result,
       success: true,
-      message: 'Analysis complete',
+      message: result.generatedBy?.fallback
+        ? `Analysis complete — the selected model was unavailable, ${result.generatedBy.model} was used`
+        : 'Analysis complete',
       timestamp: Date.now(),
     }
 
@@ -74,6 +82,9 @@ export async function POST(req: NextRequest) {
       },
     })
   } catch (error: unknown) {
+    if (error instanceof UnsafeUrlError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 422 })
+    }
     console.error('[/api/analyze] Error:', error)
     const message = error instanceof Error ? error.message : 'Analysis failed'
     return NextResponse.json({ success: false, message }, { status: 500 })
@@ -0,0 +1,72 @@
+// PATH: src/app/api/brands/[id]/health-scores/route.ts
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerClient, getCurrentUserId, AuthError } from '@/lib/supabase'
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+const querySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+})
+
+interface Params {
+  params: { id: string }
+}
+
+function err(message: string, status = 500) {
+  return NextResponse.json({ success: false, message }, { status })
+}
+
+// ─── GET /api/brands/[id]/health-scores ───────────────────────────────────────
+// Daily health scores of a brand, oldest first, with the per-component
+// breakdown of each score.
+// ?days=30 (1-365)
+export async function GET(req: NextRequest, { params }: Params) {
+  let userId: string
+  try {
+    userId = await getCurrentUserId(req.headers.get('authorization'))
+  } catch (e) {
+    if (e instanceof AuthError)
+      return NextResponse.json({ success: false, message: e.message }, { status: 401 })
+    return err('Authentication failed')
+  }
+
+  const { searchParams } = new URL(req.url)
+  const parsed = querySchema.safeParse({ days: searchParams.get('days') ?? undefined })
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      },
+      { status: 422 },
+    )
+  }
+
+  const db = createServerClient()
+
+  const { data: brand } = await db
+    .from('brands')
+    .select('id')
+    .eq('id', params.id)
+    .eq('user_id', userId)
+    .single()
+
+  if (!brand) return err('Brand not found', 404)
+
+  const since = new Date(Date.now() - (parsed.data.days - 1) * 86_400_000)
+    .toISOString()
+    .split('T')[0]!
+
+  const { data, error } = await db
+    .from('brand_health_scores')
+    .select('*')
+    .eq('brand_id', params.id)
+    .eq('user_id', userId)
+    .gte('date', since)
+    .order('date', { ascending: true })
+
+  if (error) return err(error.message)
+  return NextResponse.json({ success: true, data, timestamp: Date.now() })
+}
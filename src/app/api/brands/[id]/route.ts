@@ -2,6 +2,9 @@
 import { type NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { createServerClient, getCurrentUserId, AuthError } from '@/lib/supabase'
+import { scoringProfileSchema } from '@/lib/services/scoring'
+import { recomputeHealthScores } from '@/lib/services/health-scores'
+import type { Brand } from '@/types'
 
 // ─── Validation ───────────────────────────────────────────────────────────────
 
@@ -17,6 +20,7 @@ const updateBrandSchema = z.object({
     .string()
     .regex(/^#[0-9a-fA-F]{6}$/)
     .optional(),
+  scoring_profile: scoringProfileSchema.nullable().optional(),
   is_active: z.boolean().optional(),
 })
 
@@ -52,6 +56,7 @@ export async function GET(req: NextRequest, { params }: Params) {
 }
 
 // ─── PUT /api/brands/[id] ─────────────────────────────────────────────────────
+// Changing `scoring_profile` (null = default) recomputes the stored health scores.
 export async function PUT(req: NextRequest, { params }: Params) {
   let userId: string
   try {
@@ -92,7 +97,22 @@ export async function PUT(req: NextRequest, { params }: Params) {
 
   if (error) return err(error.message)
   if (!data) return err('Brand not found', 404)
-  return NextResponse.json({ success: true, data, timestamp: Date.now() })
+
+  if (parsed.data.scoring_profile === undefined) {
+    return NextResponse.json({ success: true, data, timestamp: Date.now() })
+  }
+
+  try {
+    const days = await recomputeHealthScores(db, data as Brand, userId)
+    return NextResponse.json({
+      success: true,
+      data,
+      message: `Health scores recomputed for ${days} days`,
+      timestamp: Date.now(),
+    })
+  } catch (e) {
+    return err(e instanceof Error ? e.message : 'Failed to recompute health scores')
+  }
 }
 
 // ─── DELETE /api/brands/[id] ──────────────────────────────────────────────────
@@ -3,6 +3,7 @@ import { type NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { createServerClient, getCurrentUserId, AuthError } from '@/lib/supabase'
 import { slugify } from '@/lib/utils'
+import { scoringProfileSchema } from '@/lib/services/scoring'
 
 // ─── Validation ───────────────────────────────────────────────────────────────
 
@@ -19,6 +20,7 @@ const brandSchema = z.object({
     .regex(/^#[0-9a-fA-F]{6}$/, 'Must be a valid hex color')
     .optional()
     .default('#6366f1'),
+  scoring_profile: scoringProfileSchema.optional(),
 })
 
 function err(message: string, status = 500) {
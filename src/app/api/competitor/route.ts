@@ -3,6 +3,8 @@ import { type NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { analyzeCompetitor } from '@/lib/services/gemini'
 import { checkRateLimit, getClientIp } from '@/lib/ratelimit'
+import { UnsafeUrlError } from '@/lib/safe-fetch'
+import { getOptionalUserId } from '@/lib/supabase'
 
 // ─── Validation ───────────────────────────────────────────────────────────────
 
@@ -55,12 +57,13 @@ export async function POST(req: NextRequest) {
   }
 
   const { primaryUrl, competitorUrls } = parsed.data
+  const attribution = { userId: await getOptionalUserId(req.headers.get('authorization')) }
 
   try {
     // Analyze all URLs in parallel
     const [primary, ...competitors] = await Promise.all([
-      analyzeCompetitor(primaryUrl),
-      ...competitorUrls.map(analyzeCompetitor),
+      analyzeCompetitor(primaryUrl, attribution),
+      ...competitorUrls.map((url) => analyzeCompetitor(url, attribution)),
     ])
 
     return NextResponse.json({
@@ -69,6 +72,9 @@ export async function POST(req: NextRequest) {
       timestamp: Date.now(),
     })
   } catch (error: unknown) {
+    if (error instanceof UnsafeUrlError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 422 })
+    }
     console.error('[/api/competitor] Error:', error)
     const message = error instanceof Error ? error.message : 'Comparison failed'
     return NextResponse.json({ success: false, message }, { status: 500 })
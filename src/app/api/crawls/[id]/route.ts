@@ -0,0 +1,54 @@
+// PATH: src/app/api/crawls/[id]/route.ts
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerClient, getCurrentUserId, AuthError } from '@/lib/supabase'
+import { deleteSiteCrawl, getSiteCrawl } from '@/lib/services/crawler'
+
+interface Params {
+  params: { id: string }
+}
+
+function err(message: string, status = 500) {
+  return NextResponse.json({ success: false, message }, { status })
+}
+
+// ─── GET /api/crawls/[id] ─────────────────────────────────────────────────────
+// One crawl with its progress, its pages and (once finished) the site report.
+export async function GET(req: NextRequest, { params }: Params) {
+  let userId: string
+  try {
+    userId = await getCurrentUserId(req.headers.get('authorization'))
+  } catch (e) {
+    if (e instanceof AuthError)
+      return NextResponse.json({ success: false, message: e.message }, { status: 401 })
+    return err('Authentication failed')
+  }
+
+  try {
+    const crawl = await getSiteCrawl(createServerClient(), userId, params.id)
+    if (!crawl) return err('Crawl not found', 404)
+    return NextResponse.json({ success: true, data: crawl, timestamp: Date.now() })
+  } catch (e) {
+    return err(e instanceof Error ? e.message : 'Failed to load crawl')
+  }
+}
+
+// ─── DELETE /api/crawls/[id] ──────────────────────────────────────────────────
+// Deletes the crawl and its pages. A running crawl stops after its current pages.
+export async function DELETE(req: NextRequest, { params }: Params) {
+  let userId: string
+  try {
+    userId = await getCurrentUserId(req.headers.get('authorization'))
+  } catch (e) {
+    if (e instanceof AuthError)
+      return NextResponse.json({ success: false, message: e.message }, { status: 401 })
+    return err('Authentication failed')
+  }
+
+  try {
+    const deleted = await deleteSiteCrawl(createServerClient(), userId, params.id)
+    if (!deleted) return err('Crawl not found', 404)
+    return NextResponse.json({ success: true, data: null, timestamp: Date.now() })
+  } catch (e) {
+    return err(e instanceof Error ? e.message : 'Failed to delete crawl')
+  }
+}
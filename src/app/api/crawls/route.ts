@@ -0,0 +1,141 @@
+// PATH: src/app/api/crawls/route.ts
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerClient, getCurrentUserId, AuthError } from '@/lib/supabase'
+import { checkRateLimit } from '@/lib/ratelimit'
+import { isPublicUrl } from '@/lib/safe-fetch'
+import { crawlCreateSchema, searchSchema } from '@/lib/validations'
+import {
+  CrawlConflictError,
+  createSiteCrawl,
+  listSiteCrawls,
+  resolveCrawlTarget,
+} from '@/lib/services/crawler'
+import type { ApiResponse, PaginatedResponse, SiteCrawl } from '@/types'
+
+function err(message: string, status = 500) {
+  return NextResponse.json({ success: false, message }, { status })
+}
+
+// ─── GET /api/crawls ──────────────────────────────────────────────────────────
+// The user's site crawls, newest first.  ?page=1  ?perPage=20
+export async function GET(req: NextRequest) {
+  let userId: string
+  try {
+    userId = await getCurrentUserId(req.headers.get('authorization'))
+  } catch (e) {
+    if (e instanceof AuthError)
+      return NextResponse.json({ success: false, message: e.message }, { status: 401 })
+    return err('Authentication failed')
+  }
+
+  const { searchParams } = new URL(req.url)
+  const parsed = searchSchema.safeParse({
+    page: searchParams.get('page') ?? undefined,
+    perPage: searchParams.get('perPage') ?? undefined,
+  })
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      },
+      { status: 422 },
+    )
+  }
+
+  const { page, perPage } = parsed.data
+  try {
+    const { crawls, total } = await listSiteCrawls(createServerClient(), userId, page, perPage)
+    const response: PaginatedResponse<SiteCrawl> = {
+      success: true,
+      data: crawls,
+      pagination: { page, perPage, total, totalPages: Math.ceil(total / perPage) },
+      timestamp: Date.now(),
+    }
+    return NextResponse.json(response)
+  } catch (e) {
+    return err(e instanceof Error ? e.message : 'Failed to load crawls')
+  }
+}
+
+// ─── POST /api/crawls ─────────────────────────────────────────────────────────
+// Starts a site crawl in the background and returns it at once (202).
+// Poll GET /api/crawls/[id] for progress and the report.
+// Rate limited: 5 crawls per hour per user, one running at a time.
+export async function POST(req: NextRequest) {
+  let userId: string
+  try {
+    userId = await getCurrentUserId(req.headers.get('authorization'))
+  } catch (e) {
+    if (e instanceof AuthError)
+      return NextResponse.json({ success: false, message: e.message }, { status: 401 })
+    return err('Authentication failed')
+  }
+
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return err('Invalid JSON body', 400)
+  }
+
+  const parsed = crawlCreateSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      },
+      { status: 422 },
+    )
+  }
+
+  let start: string
+  try {
+    start = resolveCrawlTarget(parsed.data.url).start
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Validation failed',
+        details: { url: ['Enter a domain, a page URL or a sitemap.xml URL'] },
+      },
+      { status: 422 },
+    )
+  }
+  if (!isPublicUrl(start)) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Validation failed',
+        details: { url: ['The site must be a public internet address'] },
+      },
+      { status: 422 },
+    )
+  }
+
+  const rl = await checkRateLimit(`crawl:${userId}`, 5, 60 * 60_000)
+  if (!rl.success) {
+    return err(
+      `Crawl limit reached. Try again in ${Math.ceil((rl.resetAt - Date.now()) / 60_000)} min.`,
+      429,
+    )
+  }
+
+  try {
+    const crawl = await createSiteCrawl(createServerClient(), userId, parsed.data)
+    const response: ApiResponse<SiteCrawl> = {
+      success: true,
+      data: crawl,
+      message: `Crawl queued — up to ${crawl.max_pages} pages`,
+      timestamp: Date.now(),
+    }
+    return NextResponse.json(response, { status: 202 })
+  } catch (e) {
+    if (e instanceof CrawlConflictError) return err(e.message, 409)
+    console.error('[/api/crawls] Error:', e)
+    return err(e instanceof Error ? e.message : 'Failed to start crawl')
+  }
+}
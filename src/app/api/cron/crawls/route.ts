@@ -0,0 +1,43 @@
+// PATH: src/app/api/cron/crawls/route.ts
+// Crawl tick — starts queued site crawls and runs them to the end.
+// Needed where the request that creates a crawl cannot keep running after its
+// response (Vercel); on long-lived hosts crawls start at once (CRAWL_INLINE).
+// Protected by CRON_SECRET (Vercel Cron sends it as a Bearer token).
+
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { runQueuedCrawls } from '@/lib/services/crawler'
+
+export const dynamic = 'force-dynamic'
+// A crawl of up to 50 pages must finish within one invocation
+export const maxDuration = 300
+
+function err(message: string, status = 500) {
+  return NextResponse.json({ success: false, message }, { status })
+}
+
+function isAuthorized(req: NextRequest): boolean {
+  const secret = process.env['CRON_SECRET']
+  // Without a secret the endpoint is open only outside production
+  if (!secret) return process.env.NODE_ENV !== 'production'
+  return req.headers.get('authorization') === `Bearer ${secret}`
+}
+
+// ─── GET /api/cron/crawls ─────────────────────────────────────────────────────
+// Called every minute by the cron schedule in vercel.json.
+export async function GET(req: NextRequest) {
+  if (!isAuthorized(req)) return err('Invalid or missing cron secret', 401)
+
+  try {
+    const started = await runQueuedCrawls(createServerClient())
+    return NextResponse.json({
+      success: true,
+      data: { started },
+      message: `Crawl tick: ${started} queued crawls run`,
+      timestamp: Date.now(),
+    })
+  } catch (e) {
+    console.error('[/api/cron/crawls] Error:', e)
+    return err(e instanceof Error ? e.message : 'Crawl tick failed')
+  }
+}
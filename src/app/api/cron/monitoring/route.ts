@@ -0,0 +1,50 @@
+// PATH: src/app/api/cron/monitoring/route.ts
+// Scheduler tick — runs every prompt whose run_frequency is due.
+// Protected by CRON_SECRET (Vercel Cron sends it as a Bearer token).
+
+import { type NextRequest, NextResponse } from 'next/server'
+import { runScheduledPrompts } from '@/lib/services/scheduler'
+import type { SchedulerTrigger } from '@/types'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+function err(message: string, status = 500) {
+  return NextResponse.json({ success: false, message }, { status })
+}
+
+function isAuthorized(req: NextRequest): boolean {
+  const secret = process.env['CRON_SECRET']
+  // Without a secret the endpoint is open only outside production
+  if (!secret) return process.env.NODE_ENV !== 'production'
+  return req.headers.get('authorization') === `Bearer ${secret}`
+}
+
+async function tick(req: NextRequest, trigger: SchedulerTrigger) {
+  if (!isAuthorized(req)) return err('Invalid or missing cron secret', 401)
+
+  try {
+    const run = await runScheduledPrompts(trigger)
+    return NextResponse.json({
+      success: run.status === 'completed',
+      data: run,
+      message: `Scheduler tick: ${run.prompts_run}/${run.prompts_due} due prompts run`,
+      timestamp: Date.now(),
+    })
+  } catch (e) {
+    console.error('[/api/cron/monitoring] Error:', e)
+    return err(e instanceof Error ? e.message : 'Scheduler tick failed')
+  }
+}
+
+// ─── GET /api/cron/monitoring ─────────────────────────────────────────────────
+// Called by the cron schedule in vercel.json.
+export async function GET(req: NextRequest) {
+  return tick(req, 'cron')
+}
+
+// ─── POST /api/cron/monitoring ────────────────────────────────────────────────
+// Manual trigger (same secret), e.g. `curl -X POST -H "Authorization: Bearer …"`.
+export async function POST(req: NextRequest) {
+  return tick(req, 'manual')
+}
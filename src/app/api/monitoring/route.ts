@@ -2,18 +2,18 @@
 import { type NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { createServerClient, getCurrentUserId, AuthError } from '@/lib/supabase'
-import { runMonitoringCheck, calculateHealthScore } from '@/lib/services/monitoring'
-import { shouldTriggerAlert, buildAlertEvent, dispatchAlert } from '@/lib/services/alerts'
-import type { Brand, Prompt, MonitoringResult, AlertRule } from '@/types'
+import { MonitoringPipeline, resolveEngines } from '@/lib/services/pipeline'
+import { MONITORING_ENGINE_IDS } from '@/lib/engine-catalog'
+import type { Brand, Prompt } from '@/types'
 
 // ─── Validation ───────────────────────────────────────────────────────────────
 
 const runSchema = z.object({
   prompt_id: z.string().uuid(),
   engines: z
-    .array(z.enum(['chatgpt', 'gemini', 'perplexity']))
+    .array(z.enum(MONITORING_ENGINE_IDS))
     .min(1)
-    .max(3)
+    .max(MONITORING_ENGINE_IDS.length)
     .optional(),
 })
 
@@ -68,169 +68,29 @@ export async function POST(req: NextRequest) {
   const brand = prompt.brand as Brand
 
   // ── Resolve engines ───────────────────────────────────────────────────────
-  const validEngines = ['chatgpt', 'gemini', 'perplexity'] as const
-  type Engine = typeof validEngines[number]
-
-  const requestedEngines = parsed.data.engines ?? (prompt.engines as string[])
-  const engines = requestedEngines.filter((e): e is Engine =>
-    (validEngines as readonly string[]).includes(e),
-  )
+  const engines = resolveEngines(parsed.data.engines ?? (prompt.engines as string[]))
 
   if (engines.length === 0) {
     return err('No valid engines specified', 400)
   }
 
-  // ── Fetch previous results per change detection ───────────────────────────
-  const { data: previousResults } = await db
-    .from('monitoring_results')
-    .select('*')
-    .eq('prompt_id', prompt.id)
-    .in('engine', engines)
-    .order('created_at', { ascending: false })
-    .limit(engines.length)
-
-  // ── FIX N+1: fetch alert rules UNA VOLTA sola prima del loop ─────────────
-  const { data: rules } = await db
-    .from('alert_rules')
-    .select('*')
-    .eq('brand_id', brand.id)
-    .eq('is_active', true)
-
-  const results: MonitoringResult[] = []
-  const errors: string[] = []
-
-  // ── Run engines in parallel ───────────────────────────────────────────────
-  await Promise.all(
-    engines.map(async (engine) => {
-      try {
-        const resultData = await runMonitoringCheck(prompt as Prompt, brand, engine, userId)
-        const truncatedData = {
-          ...resultData,
-          response_text:
-            resultData.response_text.length > 5000
-              ? resultData.response_text.slice(0, 5000) + '…'
-              : resultData.response_text,
-        }
-
-        const { data: saved, error: insertError } = await db
-          .from('monitoring_results')
-          .insert(truncatedData)
-          .select()
-          .single()
-
-        if (insertError || !saved) {
-          console.error(`[monitoring] DB insert error for ${engine}:`, insertError)
-          errors.push(`${engine}: DB insert failed`)
-          return
-        }
-
-        results.push(saved as MonitoringResult)
-
-        // ── Evaluate alert rules (usa rules già fetchate) ───────────────────
-        if (rules && rules.length > 0) {
-          const previousResult = (previousResults as MonitoringResult[])?.find(
-            (r) => r.engine === engine,
-          )
-
-          for (const rule of rules as AlertRule[]) {
-            const shouldFire = shouldTriggerAlert(rule, {
-              result: saved as MonitoringResult,
-              previousResult,
-              brand,
-            })
-
-            if (shouldFire) {
-              const event = buildAlertEvent(rule, saved as MonitoringResult, brand)
-
-              const { data: savedEvent } = await db
-                .from('alert_events')
-                .insert({ ...event, user_id: userId })
-                .select()
-                .single()
-
-              if (savedEvent) {
-                // FIX: log errori dispatchAlert invece di ignorarli silenziosamente
-                let channelsSent: string[] = []
-                try {
-                  channelsSent = await dispatchAlert(
-                    savedEvent as Parameters<typeof dispatchAlert>[0],
-                    rule,
-                    brand,
-                  )
-                } catch (dispatchErr) {
-                  console.error(
-                    `[monitoring] dispatchAlert failed for rule ${rule.id}:`,
-                    dispatchErr,
-                  )
-                }
-
-                await db
-                  .from('alert_events')
-                  .update({ channels_sent: channelsSent })
-                  .eq('id', savedEvent.id)
-
-                await db
-                  .from('alert_rules')
-                  .update({ last_fired_at: new Date().toISOString() })
-                  .eq('id', rule.id)
-              }
-            }
-          }
-        }
-      } catch (engineErr) {
-        const msg = engineErr instanceof Error ? engineErr.message : String(engineErr)
-        console.error(`[monitoring] Engine ${engine} failed:`, engineErr)
-        errors.push(`${engine}: ${msg}`)
-      }
-    }),
-  )
-
-  // ── Update prompt last_run_at ─────────────────────────────────────────────
-  await db
-    .from('prompts')
-    .update({ last_run_at: new Date().toISOString() })
-    .eq('id', prompt.id)
-
-  // ── Upsert daily brand health score ──────────────────────────────────────
-  if (results.length > 0) {
-    const avgVisibility =
-      results.reduce((a, r) => a + r.visibility_score, 0) / results.length
-
-    const mentionedResults = results.filter((r) => r.brand_mentioned)
-    const avgSentiment =
-      mentionedResults.length > 0
-        ? mentionedResults.reduce((a, r) => a + (r.sentiment_score ?? 0), 0) /
-          mentionedResults.length
-        : 0
-
-    const hallucinationRate =
-      results.filter((r) => r.has_hallucination).length / results.length
-
-    const healthScore = calculateHealthScore(avgVisibility, avgSentiment, hallucinationRate)
-
-    await db.from('brand_health_scores').upsert(
-      {
-        brand_id: brand.id,
-        user_id: userId,
-        date: new Date().toISOString().split('T')[0],
-        visibility_score: avgVisibility,
-        sentiment_score: avgSentiment,
-        hallucination_rate: hallucinationRate,
-        mention_count: mentionedResults.length,
-        health_score: healthScore,
-      },
-      { onConflict: 'brand_id,date' },
-    )
-  }
+  // ── Run pipeline ──────────────────────────────────────────────────────────
+  const report = await new MonitoringPipeline(db).run(prompt as Prompt, brand, engines, {
+    trigger: 'manual',
+  })
+  const { results, errors } = report
 
   return NextResponse.json({
     success: true,
     data: {
+      runId: report.runId,
       results,
       enginesRun: engines.length,
       enginesSucceeded: results.length,
       enginesFailed: errors.length,
       errors: errors.length > 0 ? errors : undefined,
+      alertsFired: report.alertsFired,
+      healthScore: report.healthScore,
     },
     message: `Monitoring complete: ${results.length}/${engines.length} engines succeeded`,
     timestamp: Date.now(),
@@ -253,6 +113,7 @@ export async function GET(req: NextRequest) {
 
   const brandId = searchParams.get('brand_id')
   const engine = searchParams.get('engine')
+  const responseMode = searchParams.get('response_mode')
   const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') ?? '50')))
   const page = Math.max(1, parseInt(searchParams.get('page') ?? '1'))
   const offset = (page - 1) * limit
@@ -266,6 +127,9 @@ export async function GET(req: NextRequest) {
 
   if (brandId) query = query.eq('brand_id', brandId)
   if (engine) query = query.eq('engine', engine)
+  if (responseMode === 'native' || responseMode === 'simulated') {
+    query = query.eq('response_mode', responseMode)
+  }
 
   const { data, error, count } = await query
 
@@ -282,4 +146,4 @@ export async function GET(req: NextRequest) {
     },
     timestamp: Date.now(),
   })
-}
\ No newline at end of file
+}
@@ -0,0 +1,87 @@
+// PATH: src/app/api/monitoring/runs/[id]/route.ts
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerClient, getCurrentUserId, AuthError } from '@/lib/supabase'
+import { MonitoringPipeline, resolveEngines } from '@/lib/services/pipeline'
+import type { Brand, MonitoringRun, Prompt } from '@/types'
+
+interface Params {
+  params: { id: string }
+}
+
+function err(message: string, status = 500) {
+  return NextResponse.json({ success: false, message }, { status })
+}
+
+// ─── GET /api/monitoring/runs/[id] ────────────────────────────────────────────
+export async function GET(req: NextRequest, { params }: Params) {
+  let userId: string
+  try {
+    userId = await getCurrentUserId(req.headers.get('authorization'))
+  } catch (e) {
+    if (e instanceof AuthError)
+      return NextResponse.json({ success: false, message: e.message }, { status: 401 })
+    return err('Authentication failed')
+  }
+
+  const db = createServerClient()
+  const { data, error } = await db
+    .from('monitoring_runs')
+    .select('*, prompt:prompts(text), brand:brands(name, color), items:monitoring_run_items(*)')
+    .eq('id', params.id)
+    .eq('user_id', userId)
+    .single()
+
+  if (error || !data) return err('Run not found', 404)
+  return NextResponse.json({ success: true, data, timestamp: Date.now() })
+}
+
+// ─── POST /api/monitoring/runs/[id] ───────────────────────────────────────────
+// Retries the engines that failed in this run. Creates a new run with
+// trigger "retry" pointing back to the original one.
+export async function POST(req: NextRequest, { params }: Params) {
+  let userId: string
+  try {
+    userId = await getCurrentUserId(req.headers.get('authorization'))
+  } catch (e) {
+    if (e instanceof AuthError)
+      return NextResponse.json({ success: false, message: e.message }, { status: 401 })
+    return err('Authentication failed')
+  }
+
+  const db = createServerClient()
+
+  const { data: run } = await db
+    .from('monitoring_runs')
+    .select('*')
+    .eq('id', params.id)
+    .eq('user_id', userId)
+    .single()
+
+  if (!run) return err('Run not found', 404)
+
+  const failedEngines = resolveEngines((run as MonitoringRun).engines_failed ?? [])
+  if (failedEngines.length === 0) return err('This run has no failed engines to retry', 400)
+
+  const { data: prompt } = await db
+    .from('prompts')
+    .select('*, brand:brands(*)')
+    .eq('id', run.prompt_id)
+    .eq('user_id', userId)
+    .single()
+
+  if (!prompt) return err('Prompt not found or access denied', 404)
+
+  const report = await new MonitoringPipeline(db).run(
+    prompt as Prompt,
+    prompt.brand as Brand,
+    failedEngines,
+    { trigger: 'retry', retryOf: run.id as string },
+  )
+
+  return NextResponse.json({
+    success: true,
+    data: report,
+    message: `Retry complete: ${report.results.length}/${failedEngines.length} engines succeeded`,
+    timestamp: Date.now(),
+  })
+}
@@ -0,0 +1,61 @@
+// PATH: src/app/api/monitoring/runs/route.ts
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerClient, getCurrentUserId, AuthError } from '@/lib/supabase'
+
+function err(message: string, status = 500) {
+  return NextResponse.json({ success: false, message }, { status })
+}
+
+// ─── GET /api/monitoring/runs ─────────────────────────────────────────────────
+// Run history with per-engine items.
+// ?brand_id=uuid  ?prompt_id=uuid  ?status=completed|partial|failed|running
+// ?page=1  ?limit=20
+export async function GET(req: NextRequest) {
+  let userId: string
+  try {
+    userId = await getCurrentUserId(req.headers.get('authorization'))
+  } catch (e) {
+    if (e instanceof AuthError)
+      return NextResponse.json({ success: false, message: e.message }, { status: 401 })
+    return err('Authentication failed')
+  }
+
+  const db = createServerClient()
+  const { searchParams } = new URL(req.url)
+
+  const brandId = searchParams.get('brand_id')
+  const promptId = searchParams.get('prompt_id')
+  const status = searchParams.get('status')
+  const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') ?? '20')))
+  const page = Math.max(1, parseInt(searchParams.get('page') ?? '1'))
+  const offset = (page - 1) * limit
+
+  let query = db
+    .from('monitoring_runs')
+    .select('*, prompt:prompts(text), brand:brands(name, color), items:monitoring_run_items(*)', {
+      count: 'exact',
+    })
+    .eq('user_id', userId)
+    .order('started_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+
+  if (brandId) query = query.eq('brand_id', brandId)
+  if (promptId) query = query.eq('prompt_id', promptId)
+  if (status) query = query.eq('status', status)
+
+  const { data, error, count } = await query
+
+  if (error) return err(error.message)
+
+  return NextResponse.json({
+    success: true,
+    data,
+    pagination: {
+      page,
+      perPage: limit,
+      total: count ?? 0,
+      totalPages: Math.ceil((count ?? 0) / limit),
+    },
+    timestamp: Date.now(),
+  })
+}
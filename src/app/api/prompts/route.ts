@@ -2,6 +2,7 @@
 import { type NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { createServerClient, getCurrentUserId, AuthError } from '@/lib/supabase'
+import { DEFAULT_PROMPT_ENGINES, MONITORING_ENGINE_IDS } from '@/lib/engine-catalog'
 
 // ─── Validation ───────────────────────────────────────────────────────────────
 
@@ -14,10 +15,12 @@ const promptSchema = z.object({
     .enum(['awareness', 'comparison', 'alternative', 'features', 'custom'])
     .optional(),
   engines: z
-    .array(z.enum(['chatgpt', 'gemini', 'perplexity']))
+    .array(z.enum(MONITORING_ENGINE_IDS))
     .min(1)
-    .default(['chatgpt', 'gemini', 'perplexity']),
+    .default(DEFAULT_PROMPT_ENGINES),
   run_frequency: z.enum(['hourly', 'daily', 'weekly']).default('daily'),
+  /** answers per engine per run; >1 enables significance-based alerts */
+  sample_count: z.number().int().min(1).max(10).default(1),
 })
 
 function err(message: string, status = 500) {
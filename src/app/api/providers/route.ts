@@ -1,8 +1,15 @@
 // PATH: src/app/api/providers/route.ts
-// GET /api/providers — stato di configurazione di tutti i provider AI.
+// GET /api/providers — stato di configurazione di tutti i provider AI,
+// catena di fallback attiva per ogni task, stato live dei circuit breaker
+// e modalità (nativa o simulata) di ogni engine monitorato.
 
 import { NextResponse } from 'next/server'
-import { getProviderStatus } from '@/lib/services/ai-router'
+import { getProviderCircuits, getProviderStatus } from '@/lib/services/ai-router'
+import { getTaskChains } from '@/lib/services/providers'
+import { getEngineStatus } from '@/lib/services/engines'
+
+// Lo stato dei circuit breaker è live: niente rendering statico
+export const dynamic = 'force-dynamic'
 
 export async function GET() {
   const status = getProviderStatus()
@@ -12,6 +19,9 @@ export async function GET() {
     success: true,
     data: {
       providers: status,
+      chains: getTaskChains(),
+      health: getProviderCircuits(),
+      engines: getEngineStatus(),
       configuredCount,
       totalCount: Object.keys(status).length,
       recommendation:
@@ -0,0 +1,88 @@
+// PATH: src/app/api/rewrite/route.ts
+import { type NextRequest, NextResponse } from 'next/server'
+import { rewriteSchema } from '@/lib/validations'
+import { rewriteContent } from '@/lib/services/gemini'
+import { checkRateLimit, getClientIp } from '@/lib/ratelimit'
+import { UnsafeUrlError } from '@/lib/safe-fetch'
+import { getOptionalUserId } from '@/lib/supabase'
+import type { ApiResponse, RewriteResult } from '@/types'
+
+// ─── POST /api/rewrite ────────────────────────────────────────────────────────
+// Rewrites analyzed text or URL content for the target engine, applying the
+// analysis suggestions, and re-analyzes the rewrite for a before/after comparison.
+// Rate limited: 5 requests per minute per IP (each one is two AI calls).
+export async function POST(req: NextRequest) {
+  // ── Rate limit ────────────────────────────────────────────────────────────
+  const ip = getClientIp(req.headers)
+  const rl = await checkRateLimit(`rewrite:${ip}`, 5, 60_000)
+
+  if (!rl.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: `Rate limit exceeded. Try again in ${Math.ceil((rl.resetAt - Date.now()) / 1000)}s.`,
+      },
+      {
+        status: 429,
+        headers: {
+          'X-RateLimit-Limit': '5',
+          'X-RateLimit-Remaining': '0',
+          'X-RateLimit-Reset': String(rl.resetAt),
+          'Retry-After': String(Math.ceil((rl.resetAt - Date.now()) / 1000)),
+        },
+      },
+    )
+  }
+
+  // ── Parse body ────────────────────────────────────────────────────────────
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ success: false, message: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  // ── Validate ──────────────────────────────────────────────────────────────
+  const parsed = rewriteSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      },
+      { status: 422 },
+    )
+  }
+
+  const { input, mode, engine, model, suggestions } = parsed.data
+
+  // ── Rewrite + re-analyze ──────────────────────────────────────────────────
+  try {
+    const userId = await getOptionalUserId(req.headers.get('authorization'))
+    const rewrite = await rewriteContent(input, mode, engine, suggestions, { userId }, model)
+
+    const response: ApiResponse<RewriteResult> = {
+      data: rewrite,
+      success: true,
+      message: 'Rewrite complete',
+      timestamp: Date.now(),
+    }
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'X-RateLimit-Limit': '5',
+        'X-RateLimit-Remaining': String(rl.remaining),
+        'X-RateLimit-Reset': String(rl.resetAt),
+      },
+    })
+  } catch (error: unknown) {
+    if (error instanceof UnsafeUrlError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 422 })
+    }
+    console.error('[/api/rewrite] Error:', error)
+    const message = error instanceof Error ? error.message : 'Rewrite failed'
+    return NextResponse.json({ success: false, message }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+// PATH: src/app/api/scans/[id]/route.ts
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerClient, getCurrentUserId, AuthError } from '@/lib/supabase'
+import { deleteScans, getScan } from '@/lib/services/scans'
+
+interface Params {
+  params: { id: string }
+}
+
+function err(message: string, status = 500) {
+  return NextResponse.json({ success: false, message }, { status })
+}
+
+// ─── GET /api/scans/[id] ──────────────────────────────────────────────────────
+// One saved scan with its full AnalysisResult.
+export async function GET(req: NextRequest, { params }: Params) {
+  let userId: string
+  try {
+    userId = await getCurrentUserId(req.headers.get('authorization'))
+  } catch (e) {
+    if (e instanceof AuthError)
+      return NextResponse.json({ success: false, message: e.message }, { status: 401 })
+    return err('Authentication failed')
+  }
+
+  try {
+    const scan = await getScan(createServerClient(), userId, params.id)
+    if (!scan) return err('Scan not found', 404)
+    return NextResponse.json({ success: true, data: scan, timestamp: Date.now() })
+  } catch (e) {
+    return err(e instanceof Error ? e.message : 'Failed to load scan')
+  }
+}
+
+// ─── DELETE /api/scans/[id] ───────────────────────────────────────────────────
+export async function DELETE(req: NextRequest, { params }: Params) {
+  let userId: string
+  try {
+    userId = await getCurrentUserId(req.headers.get('authorization'))
+  } catch (e) {
+    if (e instanceof AuthError)
+      return NextResponse.json({ success: false, message: e.message }, { status: 401 })
+    return err('Authentication failed')
+  }
+
+  try {
+    const deleted = await deleteScans(createServerClient(), userId, params.id)
+    if (deleted === 0) return err('Scan not found', 404)
+    return NextResponse.json({ success: true, data: null, timestamp: Date.now() })
+  } catch (e) {
+    return err(e instanceof Error ? e.message : 'Failed to delete scan')
+  }
+}
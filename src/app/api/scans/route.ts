@@ -0,0 +1,129 @@
+// PATH: src/app/api/scans/route.ts
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerClient, getCurrentUserId, AuthError } from '@/lib/supabase'
+import { scanImportSchema, scanSearchSchema } from '@/lib/validations'
+import { deleteScans, importScans, listScans } from '@/lib/services/scans'
+import type {
+  AnalysisScan,
+  AnalysisScanSummary,
+  PaginatedResponse,
+  ScanHistoryEntry,
+} from '@/types'
+
+function err(message: string, status = 500) {
+  return NextResponse.json({ success: false, message }, { status })
+}
+
+// ─── GET /api/scans ───────────────────────────────────────────────────────────
+// Saved optimizer scans, newest first (summaries; ?withResult=true for full results).
+// ?query=text (matches the source)  ?engine=chatgpt  ?intent=Commercial
+// ?sort=date|score  ?page=1  ?perPage=20
+export async function GET(req: NextRequest) {
+  let userId: string
+  try {
+    userId = await getCurrentUserId(req.headers.get('authorization'))
+  } catch (e) {
+    if (e instanceof AuthError)
+      return NextResponse.json({ success: false, message: e.message }, { status: 401 })
+    return err('Authentication failed')
+  }
+
+  const { searchParams } = new URL(req.url)
+  const parsed = scanSearchSchema.safeParse({
+    query: searchParams.get('query') ?? undefined,
+    page: searchParams.get('page') ?? undefined,
+    perPage: searchParams.get('perPage') ?? undefined,
+    engine: searchParams.get('engine') ?? undefined,
+    intent: searchParams.get('intent') ?? undefined,
+    sort: searchParams.get('sort') ?? undefined,
+    withResult: searchParams.get('withResult') ?? undefined,
+  })
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      },
+      { status: 422 },
+    )
+  }
+
+  const { page, perPage } = parsed.data
+  try {
+    const { scans, total } = await listScans(createServerClient(), userId, parsed.data)
+    const response: PaginatedResponse<AnalysisScanSummary | AnalysisScan> = {
+      success: true,
+      data: scans,
+      pagination: { page, perPage, total, totalPages: Math.ceil(total / perPage) },
+      timestamp: Date.now(),
+    }
+    return NextResponse.json(response)
+  } catch (e) {
+    return err(e instanceof Error ? e.message : 'Failed to load scans')
+  }
+}
+
+// ─── POST /api/scans ──────────────────────────────────────────────────────────
+// Uploads the local scan history after login. Scans already on the server are skipped.
+export async function POST(req: NextRequest) {
+  let userId: string
+  try {
+    userId = await getCurrentUserId(req.headers.get('authorization'))
+  } catch (e) {
+    if (e instanceof AuthError)
+      return NextResponse.json({ success: false, message: e.message }, { status: 401 })
+    return err('Authentication failed')
+  }
+
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return err('Invalid JSON body', 400)
+  }
+
+  const parsed = scanImportSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      },
+      { status: 422 },
+    )
+  }
+
+  try {
+    const entries: ScanHistoryEntry[] = parsed.data.scans
+    const imported = await importScans(createServerClient(), userId, entries)
+    return NextResponse.json({
+      success: true,
+      data: { imported, skipped: entries.length - imported },
+      timestamp: Date.now(),
+    })
+  } catch (e) {
+    return err(e instanceof Error ? e.message : 'Failed to import scans')
+  }
+}
+
+// ─── DELETE /api/scans ────────────────────────────────────────────────────────
+// Deletes all of the user's saved scans.
+export async function DELETE(req: NextRequest) {
+  let userId: string
+  try {
+    userId = await getCurrentUserId(req.headers.get('authorization'))
+  } catch (e) {
+    if (e instanceof AuthError)
+      return NextResponse.json({ success: false, message: e.message }, { status: 401 })
+    return err('Authentication failed')
+  }
+
+  try {
+    const deleted = await deleteScans(createServerClient(), userId)
+    return NextResponse.json({ success: true, data: { deleted }, timestamp: Date.now() })
+  } catch (e) {
+    return err(e instanceof Error ? e.message : 'Failed to delete scans')
+  }
+}
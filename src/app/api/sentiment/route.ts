@@ -62,13 +62,14 @@ export async function POST(req: NextRequest) {
   if (!brand) return err('Brand not found or access denied', 404)
 
   const result: Record<string, unknown> = {}
+  const attribution = { userId, brandId: brand_id }
 
   // Run analyses in parallel where possible
   const tasks: Promise<void>[] = []
 
   if (mode !== 'hallucination') {
     tasks.push(
-      analyzeSentiment(text, brand.name).then((s) => {
+      analyzeSentiment(text, brand.name, attribution).then((s) => {
         result['sentiment'] = s
       }),
     )
@@ -76,7 +77,7 @@ export async function POST(req: NextRequest) {
 
   if (mode !== 'sentiment') {
     tasks.push(
-      detectHallucinations(text, brand.name, known_facts).then((h) => {
+      detectHallucinations(text, brand.name, known_facts, attribution).then((h) => {
         result['hallucination'] = h
       }),
     )
@@ -0,0 +1,76 @@
+// PATH: src/app/api/share-of-voice/route.ts
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerClient, getCurrentUserId, AuthError } from '@/lib/supabase'
+import { getShareOfVoice } from '@/lib/services/share-of-voice'
+import { MONITORING_ENGINE_IDS } from '@/lib/engine-catalog'
+import type { Brand } from '@/types'
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+const querySchema = z.object({
+  brand_id: z.string().uuid(),
+  days: z.coerce.number().int().min(1).max(90).default(30),
+  engine: z.enum(MONITORING_ENGINE_IDS).optional(),
+  prompt_id: z.string().uuid().optional(),
+})
+
+function err(message: string, status = 500) {
+  return NextResponse.json({ success: false, message }, { status })
+}
+
+// ─── GET /api/share-of-voice ──────────────────────────────────────────────────
+// Position-weighted share of voice of a brand versus its competitors, overall
+// and per day, engine and prompt.
+// ?brand_id=uuid  ?days=30 (1-90)  ?engine=chatgpt  ?prompt_id=uuid
+export async function GET(req: NextRequest) {
+  let userId: string
+  try {
+    userId = await getCurrentUserId(req.headers.get('authorization'))
+  } catch (e) {
+    if (e instanceof AuthError)
+      return NextResponse.json({ success: false, message: e.message }, { status: 401 })
+    return err('Authentication failed')
+  }
+
+  const { searchParams } = new URL(req.url)
+  const parsed = querySchema.safeParse({
+    brand_id: searchParams.get('brand_id') ?? undefined,
+    days: searchParams.get('days') ?? undefined,
+    engine: searchParams.get('engine') ?? undefined,
+    prompt_id: searchParams.get('prompt_id') ?? undefined,
+  })
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      },
+      { status: 422 },
+    )
+  }
+
+  const db = createServerClient()
+
+  const { data: brand } = await db
+    .from('brands')
+    .select('id, name, competitors, color')
+    .eq('id', parsed.data.brand_id)
+    .eq('user_id', userId)
+    .single()
+
+  if (!brand) return err('Brand not found', 404)
+
+  try {
+    const summary = await getShareOfVoice(
+      db,
+      userId,
+      brand as Pick<Brand, 'id' | 'name' | 'competitors' | 'color'>,
+      { days: parsed.data.days, engine: parsed.data.engine, promptId: parsed.data.prompt_id },
+    )
+    return NextResponse.json({ success: true, data: summary, timestamp: Date.now() })
+  } catch (e) {
+    return err(e instanceof Error ? e.message : 'Failed to load share of voice')
+  }
+}
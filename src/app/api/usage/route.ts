@@ -0,0 +1,34 @@
+// PATH: src/app/api/usage/route.ts
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerClient, getCurrentUserId, AuthError } from '@/lib/supabase'
+import { getUsageSummary } from '@/lib/services/usage'
+
+function err(message: string, status = 500) {
+  return NextResponse.json({ success: false, message }, { status })
+}
+
+// ─── GET /api/usage ───────────────────────────────────────────────────────────
+// AI token usage and estimated cost for the current user, plus today's
+// app-wide use of each provider's free-tier budget.
+// ?days=30 (1-90)  ?brand_id=uuid
+export async function GET(req: NextRequest) {
+  let userId: string
+  try {
+    userId = await getCurrentUserId(req.headers.get('authorization'))
+  } catch (e) {
+    if (e instanceof AuthError)
+      return NextResponse.json({ success: false, message: e.message }, { status: 401 })
+    return err('Authentication failed')
+  }
+
+  const { searchParams } = new URL(req.url)
+  const days = Math.min(90, Math.max(1, parseInt(searchParams.get('days') ?? '30') || 30))
+  const brandId = searchParams.get('brand_id') ?? undefined
+
+  try {
+    const summary = await getUsageSummary(createServerClient(), userId, { days, brandId })
+    return NextResponse.json({ success: true, data: summary, timestamp: Date.now() })
+  } catch (e) {
+    return err(e instanceof Error ? e.message : 'Failed to load usage')
+  }
+}
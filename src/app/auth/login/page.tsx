@@ -9,6 +9,7 @@ import { Shield, Eye, EyeOff, Loader2 } from 'lucide-react'
 import { APP_NAME } from '@/lib/constants'
 import { supabase } from '@/lib/supabase'
 import { loginSchema } from '@/lib/validations'
+import { syncScanHistory } from '@/lib/store'
 
 export default function LoginPage() {
   const router = useRouter()
@@ -36,7 +37,7 @@ export default function LoginPage() {
     setLoading(true)
 
     try {
-      const { error: authError } = await supabase.auth.signInWithPassword({
+      const { data, error: authError } = await supabase.auth.signInWithPassword({
         email: parsed.data.email,
         password: parsed.data.password,
       })
@@ -53,6 +54,13 @@ export default function LoginPage() {
         return
       }
 
+      // Upload scans made while signed out; a failed sync must not block the login
+      if (data.session) {
+        await syncScanHistory(data.session.access_token).catch((err) =>
+          console.warn('[login] Scan history not synced:', err),
+        )
+      }
+
       // Success — redirect to dashboard
       router.push('/dashboard')
       router.refresh()
@@ -1,6 +1,6 @@
 'use client'
 
-import { useMemo } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import {
   LineChart,
   Line,
@@ -16,45 +16,24 @@ import {
   Pie,
   Cell,
 } from 'recharts'
-import { TrendingUp, TrendingDown, Minus } from 'lucide-react'
+import { TrendingUp, TrendingDown, Minus, Loader2, RefreshCw } from 'lucide-react'
 import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
 import { Badge } from '@/components/ui/index'
-import { useAppStore } from '@/lib/store'
-import { formatDate } from '@/lib/utils'
+import { ShareOfVoiceChart } from '@/components/charts/ShareOfVoiceChart'
+import { useAnalytics } from '@/hooks'
+import { getEngineColor, getEngineLabel } from '@/lib/engine-catalog'
+import { formatDate, formatNumber } from '@/lib/utils'
 import { cn } from '@/lib/utils'
+import type { Brand } from '@/types'
 
-// ─── Static Demo Data ─────────────────────────────────────────────────────────
-
-const GROWTH_DATA = [
-  { month: 'Sep', visibility: 52, citations: 320, traditional: 68 },
-  { month: 'Oct', visibility: 58, citations: 440, traditional: 67 },
-  { month: 'Nov', visibility: 61, citations: 520, traditional: 65 },
-  { month: 'Dec', visibility: 67, citations: 680, traditional: 63 },
-  { month: 'Jan', visibility: 74, citations: 890, traditional: 61 },
-  { month: 'Feb', visibility: 84, citations: 1240, traditional: 59 },
-]
-
-const ENGINE_DATA = [
-  { engine: 'ChatGPT', score: 89, citations: 512, color: '#10b981' },
-  { engine: 'Gemini', score: 74, citations: 380, color: '#3b82f6' },
-  { engine: 'Perplexity', score: 82, citations: 241, color: '#a855f7' },
-  { engine: 'Claude', score: 91, citations: 107, color: '#f97316' },
-]
-
-const INTENT_DATA = [
-  { name: 'Informational', value: 48, color: '#6366f1' },
-  { name: 'Commercial', value: 22, color: '#10b981' },
-  { name: 'Transactional', value: 18, color: '#f97316' },
-  { name: 'Navigational', value: 12, color: '#a855f7' },
-]
-
-const CONTENT_DATA = [
-  { type: 'Articles', aio: 88, traditional: 72 },
-  { type: 'Guides', aio: 92, traditional: 68 },
-  { type: 'Product', aio: 71, traditional: 81 },
-  { type: 'Landing', aio: 65, traditional: 76 },
-  { type: 'Blog', aio: 84, traditional: 70 },
-]
+const INTENT_COLORS: Record<string, string> = {
+  Informational: '#6366f1',
+  Commercial: '#10b981',
+  Transactional: '#f97316',
+  Navigational: '#a855f7',
+  Mixed: '#eab308',
+}
 
 // ─── Tooltip Style ────────────────────────────────────────────────────────────
 
@@ -73,34 +52,42 @@ const tooltipStyle = {
 function StatCard({
   title,
   value,
-  change,
+  previous,
+  days,
+  prefix = '',
   suffix = '',
+  lowerIsBetter = false,
 }: {
   title: string
-  value: string | number
-  change: number
+  value: number | null
+  previous: number | null
+  days: number
+  prefix?: string
   suffix?: string
+  lowerIsBetter?: boolean
 }) {
-  const isPos = change > 0
-  const isNeutral = change === 0
-  const TrendIcon = isNeutral ? Minus : isPos ? TrendingUp : TrendingDown
+  const change =
+    value === null || previous === null ? null : Math.round((value - previous) * 10) / 10
+  const improved = change !== null && (lowerIsBetter ? change < 0 : change > 0)
+  const isNeutral = change === null || change === 0
+  const TrendIcon = isNeutral ? Minus : change > 0 ? TrendingUp : TrendingDown
 
   return (
     <Card className="p-5">
       <p className="mb-3 text-sm font-medium text-gray-400">{title}</p>
       <p className="text-3xl font-black text-white">
-        {value}
-        {suffix}
+        {value === null ? '—' : `${prefix}${formatNumber(value)}${suffix}`}
       </p>
       <div
         className={cn(
           'mt-2 flex items-center gap-1 text-xs font-bold',
-          isPos ? 'text-emerald-400' : isNeutral ? 'text-gray-500' : 'text-red-400',
+          isNeutral ? 'text-gray-500' : improved ? 'text-emerald-400' : 'text-red-400',
         )}
       >
         <TrendIcon className="h-3.5 w-3.5" />
-        {isPos ? '+' : ''}
-        {change}% vs last month
+        {change === null
+          ? `No data for the previous ${days}d`
+          : `${change > 0 ? '+' : ''}${change} vs previous ${days}d`}
       </div>
     </Card>
   )
@@ -109,234 +96,384 @@ function StatCard({
 // ─── Page ─────────────────────────────────────────────────────────────────────
 
 export default function AnalyticsPage() {
-  const scanHistory = useAppStore((s) => s.scanHistory)
+  const [brands, setBrands] = useState<Brand[]>([])
+  const [selectedBrand, setSelectedBrand] = useState('')
+  const [days, setDays] = useState(30)
+  const { summary, loading, error, reload } = useAnalytics(selectedBrand, days)
+
+  useEffect(() => {
+    fetch('/api/brands')
+      .then((r) => r.json())
+      .then((json: { success: boolean; data?: Brand[] }) => {
+        setBrands(json.data ?? [])
+        if (json.data?.[0]) setSelectedBrand((b) => b || json.data![0]!.id)
+      })
+      .catch(() => setBrands([]))
+  }, [])
+
+  const trendData = useMemo(
+    () =>
+      (summary?.daily ?? []).map((d) => ({
+        date: d.date.slice(5),
+        visibility: d.visibility_score,
+        health: d.health_score,
+        scans: d.scan_score,
+        citations: d.citations,
+      })),
+    [summary],
+  )
 
-  // Derive real stats from scan history if available
-  const avgScore = useMemo(() => {
-    if (scanHistory.length === 0) return 84
-    return Math.round(scanHistory.reduce((a, s) => a + s.visibilityScore, 0) / scanHistory.length)
-  }, [scanHistory])
+  const engineData = useMemo(
+    () =>
+      (summary?.byEngine ?? []).map((e) => ({
+        engine: getEngineLabel(e.engine),
+        score: e.health_score,
+        visibility: e.visibility_score,
+        color: getEngineColor(e.engine),
+      })),
+    [summary],
+  )
+
+  const intentData = useMemo(
+    () =>
+      (summary?.intents ?? []).map((i) => ({
+        name: i.intent,
+        value: Math.round(i.share * 100),
+        scans: i.scans,
+        color: INTENT_COLORS[i.intent] ?? '#6b7280',
+      })),
+    [summary],
+  )
 
-  const totalScans = scanHistory.length
+  const totals = summary?.totals
+  const previous = summary?.previous
+  const totalScans = totals?.scans ?? 0
 
   return (
     <div className="animate-in space-y-8">
       {/* Header */}
-      <div className="flex items-center justify-between">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
         <div>
           <h1 className="text-3xl font-black tracking-tight text-white">Analytics</h1>
           <p className="mt-1 text-gray-400">
             Cross-platform AI visibility metrics and trend analysis.
           </p>
         </div>
-        {totalScans > 0 && (
-          <Badge variant="brand">
-            {totalScans} scan{totalScans > 1 ? 's' : ''} in history
-          </Badge>
-        )}
+        <div className="flex items-center gap-2">
+          {totalScans > 0 && (
+            <Badge variant="brand">
+              {totalScans} scan{totalScans > 1 ? 's' : ''} in {days}d
+            </Badge>
+          )}
+          <select
+            className="rounded-xl border border-gray-800 bg-black/40 px-3 py-2 text-xs text-white outline-none focus:border-brand-500"
+            value={selectedBrand}
+            onChange={(e) => setSelectedBrand(e.target.value)}
+          >
+            <option value="">All brands</option>
+            {brands.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.name}
+              </option>
+            ))}
+          </select>
+          {[7, 30, 90].map((d) => (
+            <button
+              key={d}
+              className={cn(
+                'rounded-xl border px-3 py-2 text-xs font-bold transition-all',
+                days === d
+                  ? 'border-brand-500/50 bg-brand-500/15 text-brand-400'
+                  : 'border-gray-800 text-gray-500 hover:text-gray-300',
+              )}
+              onClick={() => setDays(d)}
+            >
+              {d}d
+            </button>
+          ))}
+          <Button variant="outline" onClick={reload}>
+            <RefreshCw className={cn('h-4 w-4', loading && 'animate-spin')} />
+          </Button>
+        </div>
       </div>
 
-      {/* KPI Row */}
-      <div className="grid grid-cols-2 gap-4 xl:grid-cols-4">
-        <StatCard title="AI Visibility Score" value={avgScore} change={12} suffix="%" />
-        <StatCard title="Direct Citations" value="2,847" change={23} />
-        <StatCard title="AEO Authority" value={91} change={5} suffix="/100" />
-        <StatCard title="Avg. Rank Position" value="#2.4" change={-0.3} />
-      </div>
+      {error && (
+        <Card className="border-red-500/20 bg-red-500/10 p-4 text-sm text-red-400">{error}</Card>
+      )}
 
-      {/* Visibility Growth vs Traditional SEO */}
-      <Card className="p-6">
-        <div className="mb-6 flex items-center justify-between">
-          <div>
-            <h2 className="text-lg font-bold text-white">AI Visibility vs Traditional SEO</h2>
-            <p className="text-sm text-gray-500">6-month convergence trend</p>
-          </div>
-          <div className="flex items-center gap-4 text-xs">
-            <span className="flex items-center gap-1.5 font-semibold text-brand-400">
-              <span className="inline-block h-2 w-4 rounded bg-brand-500" /> AI Visibility
-            </span>
-            <span className="flex items-center gap-1.5 font-semibold text-gray-500">
-              <span className="inline-block h-2 w-4 rounded bg-gray-600" /> Traditional SEO
-            </span>
-          </div>
+      {loading && !summary ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-brand-400" />
         </div>
-        <ResponsiveContainer height={280} width="100%">
-          <LineChart data={GROWTH_DATA}>
-            <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" />
-            <XAxis dataKey="month" tick={{ fontSize: 11, fill: '#6b7280' }} />
-            <YAxis tick={{ fontSize: 11, fill: '#6b7280' }} />
-            <Tooltip {...tooltipStyle} />
-            <Line
-              dataKey="visibility"
-              dot={{ fill: '#6366f1', strokeWidth: 2 }}
-              name="AI Visibility"
-              stroke="#6366f1"
-              strokeWidth={2.5}
-              type="monotone"
+      ) : summary ? (
+        <>
+          {/* KPI Row */}
+          <div className="grid grid-cols-2 gap-4 xl:grid-cols-4">
+            <StatCard
+              days={days}
+              previous={previous?.visibility ?? null}
+              suffix="%"
+              title="AI Visibility Score"
+              value={totals?.visibility ?? null}
+            />
+            <StatCard
+              days={days}
+              previous={previous?.citations ?? null}
+              title="Brand Citations"
+              value={totals?.citations ?? null}
             />
-            <Line
-              dataKey="traditional"
-              dot={false}
-              name="Traditional SEO"
-              stroke="#374151"
-              strokeDasharray="4 4"
-              strokeWidth={2}
-              type="monotone"
+            <StatCard
+              days={days}
+              previous={previous?.healthScore ?? null}
+              suffix="/100"
+              title="Health Score"
+              value={totals?.healthScore ?? null}
             />
-          </LineChart>
-        </ResponsiveContainer>
-      </Card>
+            <StatCard
+              lowerIsBetter
+              days={days}
+              prefix="#"
+              previous={previous?.avgPosition ?? null}
+              title="Avg. Rank Position"
+              value={totals?.avgPosition ?? null}
+            />
+          </div>
 
-      {/* Middle row */}
-      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
-        {/* Engine Performance Bar */}
-        <Card className="p-6">
-          <h2 className="mb-6 text-lg font-bold text-white">Engine Performance</h2>
-          <ResponsiveContainer height={220} width="100%">
-            <BarChart data={ENGINE_DATA} layout="vertical">
-              <CartesianGrid horizontal={false} stroke="#1f2937" />
-              <XAxis domain={[0, 100]} tick={{ fontSize: 10, fill: '#6b7280' }} type="number" />
-              <YAxis
-                dataKey="engine"
-                tick={{ fontSize: 11, fill: '#9ca3af' }}
-                type="category"
-                width={70}
-              />
-              <Tooltip {...tooltipStyle} />
-              <Bar dataKey="score" name="Score" radius={[0, 4, 4, 0]}>
-                {ENGINE_DATA.map((entry) => (
-                  <Cell key={entry.engine} fill={entry.color} />
-                ))}
-              </Bar>
-            </BarChart>
-          </ResponsiveContainer>
-        </Card>
+          {/* Share of voice */}
+          {selectedBrand ? (
+            <ShareOfVoiceChart brandId={selectedBrand} />
+          ) : (
+            <Card className="p-6 text-center text-sm text-gray-500">
+              Select a brand to compare its share of voice with its competitors.
+            </Card>
+          )}
 
-        {/* Intent Distribution Pie */}
-        <Card className="p-6">
-          <h2 className="mb-6 text-lg font-bold text-white">Content Intent Distribution</h2>
-          <div className="flex items-center gap-6">
-            <ResponsiveContainer height={200} width="60%">
-              <PieChart>
-                <Pie
-                  cx="50%"
-                  cy="50%"
-                  data={INTENT_DATA}
-                  dataKey="value"
-                  innerRadius={55}
-                  outerRadius={85}
-                  paddingAngle={3}
-                >
-                  {INTENT_DATA.map((entry) => (
-                    <Cell key={entry.name} fill={entry.color} />
-                  ))}
-                </Pie>
-                <Tooltip {...tooltipStyle} formatter={(v) => [`${v}%`, 'Share']} />
-              </PieChart>
-            </ResponsiveContainer>
-            <div className="flex-1 space-y-3">
-              {INTENT_DATA.map((d) => (
-                <div key={d.name} className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <span className="h-2.5 w-2.5 rounded-full" style={{ background: d.color }} />
-                    <span className="text-xs text-gray-400">{d.name}</span>
+          {/* Visibility & health trend */}
+          <Card className="p-6">
+            <div className="mb-6 flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-bold text-white">Visibility & Health Trend</h2>
+                <p className="text-sm text-gray-500">
+                  Daily monitoring averages and optimizer scan scores
+                </p>
+              </div>
+            </div>
+            {trendData.length === 0 ? (
+              <p className="py-12 text-center text-sm text-gray-600">No data in this period.</p>
+            ) : (
+              <ResponsiveContainer height={280} width="100%">
+                <LineChart data={trendData}>
+                  <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" />
+                  <XAxis dataKey="date" tick={{ fontSize: 11, fill: '#6b7280' }} />
+                  <YAxis domain={[0, 100]} tick={{ fontSize: 11, fill: '#6b7280' }} />
+                  <Tooltip {...tooltipStyle} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Line
+                    connectNulls
+                    dataKey="visibility"
+                    dot={{ fill: '#6366f1', strokeWidth: 2 }}
+                    name="AI Visibility"
+                    stroke="#6366f1"
+                    strokeWidth={2.5}
+                    type="monotone"
+                  />
+                  <Line
+                    connectNulls
+                    dataKey="health"
+                    dot={false}
+                    name="Health Score"
+                    stroke="#10b981"
+                    strokeWidth={2}
+                    type="monotone"
+                  />
+                  <Line
+                    connectNulls
+                    dataKey="scans"
+                    dot={false}
+                    name="Scan Score"
+                    stroke="#6b7280"
+                    strokeDasharray="4 4"
+                    strokeWidth={2}
+                    type="monotone"
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </Card>
+
+          {/* Middle row */}
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            {/* Engine Performance Bar */}
+            <Card className="p-6">
+              <h2 className="mb-6 text-lg font-bold text-white">Engine Performance</h2>
+              {engineData.length === 0 ? (
+                <p className="py-12 text-center text-sm text-gray-600">No engine data yet.</p>
+              ) : (
+                <ResponsiveContainer height={220} width="100%">
+                  <BarChart data={engineData} layout="vertical">
+                    <CartesianGrid horizontal={false} stroke="#1f2937" />
+                    <XAxis
+                      domain={[0, 100]}
+                      tick={{ fontSize: 10, fill: '#6b7280' }}
+                      type="number"
+                    />
+                    <YAxis
+                      dataKey="engine"
+                      tick={{ fontSize: 11, fill: '#9ca3af' }}
+                      type="category"
+                      width={90}
+                    />
+                    <Tooltip {...tooltipStyle} />
+                    <Bar dataKey="score" name="Health score" radius={[0, 4, 4, 0]}>
+                      {engineData.map((entry) => (
+                        <Cell key={entry.engine} fill={entry.color} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+            </Card>
+
+            {/* Intent Distribution Pie */}
+            <Card className="p-6">
+              <h2 className="mb-6 text-lg font-bold text-white">Content Intent Distribution</h2>
+              {intentData.length === 0 ? (
+                <p className="py-12 text-center text-sm text-gray-600">
+                  Run optimizer scans while signed in to see intent distribution.
+                </p>
+              ) : (
+                <div className="flex items-center gap-6">
+                  <ResponsiveContainer height={200} width="60%">
+                    <PieChart>
+                      <Pie
+                        cx="50%"
+                        cy="50%"
+                        data={intentData}
+                        dataKey="value"
+                        innerRadius={55}
+                        outerRadius={85}
+                        paddingAngle={3}
+                      >
+                        {intentData.map((entry) => (
+                          <Cell key={entry.name} fill={entry.color} />
+                        ))}
+                      </Pie>
+                      <Tooltip {...tooltipStyle} formatter={(v) => [`${v}%`, 'Share']} />
+                    </PieChart>
+                  </ResponsiveContainer>
+                  <div className="flex-1 space-y-3">
+                    {intentData.map((d) => (
+                      <div key={d.name} className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <span
+                            className="h-2.5 w-2.5 rounded-full"
+                            style={{ background: d.color }}
+                          />
+                          <span className="text-xs text-gray-400">{d.name}</span>
+                        </div>
+                        <span className="text-xs font-bold text-white">{d.value}%</span>
+                      </div>
+                    ))}
                   </div>
-                  <span className="text-xs font-bold text-white">{d.value}%</span>
                 </div>
-              ))}
-            </div>
+              )}
+            </Card>
           </div>
-        </Card>
-      </div>
 
-      {/* Content Type Performance */}
-      <Card className="p-6">
-        <div className="mb-6 flex items-center justify-between">
-          <h2 className="text-lg font-bold text-white">AIO vs Traditional by Content Type</h2>
-          <div className="flex items-center gap-4 text-xs">
-            <span className="flex items-center gap-1.5 font-semibold text-brand-400">
-              <span className="inline-block h-2 w-4 rounded bg-brand-500" /> AIO Score
-            </span>
-            <span className="flex items-center gap-1.5 font-semibold text-gray-500">
-              <span className="inline-block h-2 w-4 rounded bg-gray-600" /> Traditional
-            </span>
-          </div>
-        </div>
-        <ResponsiveContainer height={240} width="100%">
-          <BarChart data={CONTENT_DATA}>
-            <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" />
-            <XAxis dataKey="type" tick={{ fontSize: 11, fill: '#6b7280' }} />
-            <YAxis domain={[50, 100]} tick={{ fontSize: 11, fill: '#6b7280' }} />
-            <Tooltip {...tooltipStyle} />
-            <Legend wrapperStyle={{ fontSize: 12 }} />
-            <Bar dataKey="aio" fill="#6366f1" name="AIO Score" radius={[4, 4, 0, 0]} />
-            <Bar dataKey="traditional" fill="#374151" name="Traditional" radius={[4, 4, 0, 0]} />
-          </BarChart>
-        </ResponsiveContainer>
-      </Card>
+          {/* Content Type Performance */}
+          <Card className="p-6">
+            <h2 className="mb-6 text-lg font-bold text-white">AIO Score by Content Type</h2>
+            {summary.contentTypes.length === 0 ? (
+              <p className="py-12 text-center text-sm text-gray-600">No optimizer scans yet.</p>
+            ) : (
+              <ResponsiveContainer height={240} width="100%">
+                <BarChart data={summary.contentTypes}>
+                  <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" />
+                  <XAxis dataKey="contentType" tick={{ fontSize: 11, fill: '#6b7280' }} />
+                  <YAxis domain={[0, 100]} tick={{ fontSize: 11, fill: '#6b7280' }} />
+                  <Tooltip {...tooltipStyle} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Bar
+                    dataKey="avgScore"
+                    fill="#6366f1"
+                    name="Avg. AIO Score"
+                    radius={[4, 4, 0, 0]}
+                  />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </Card>
 
-      {/* Citations Growth */}
-      <Card className="p-6">
-        <h2 className="mb-6 text-lg font-bold text-white">Monthly Citation Volume</h2>
-        <ResponsiveContainer height={200} width="100%">
-          <BarChart data={GROWTH_DATA}>
-            <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" />
-            <XAxis dataKey="month" tick={{ fontSize: 11, fill: '#6b7280' }} />
-            <YAxis tick={{ fontSize: 11, fill: '#6b7280' }} />
-            <Tooltip {...tooltipStyle} />
-            <Bar dataKey="citations" fill="#10b981" name="Citations" radius={[4, 4, 0, 0]} />
-          </BarChart>
-        </ResponsiveContainer>
-      </Card>
+          {/* Citations */}
+          <Card className="p-6">
+            <h2 className="mb-6 text-lg font-bold text-white">Daily Brand Citations</h2>
+            {trendData.length === 0 ? (
+              <p className="py-12 text-center text-sm text-gray-600">No data in this period.</p>
+            ) : (
+              <ResponsiveContainer height={200} width="100%">
+                <BarChart data={trendData}>
+                  <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" />
+                  <XAxis dataKey="date" tick={{ fontSize: 11, fill: '#6b7280' }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 11, fill: '#6b7280' }} />
+                  <Tooltip {...tooltipStyle} />
+                  <Bar dataKey="citations" fill="#10b981" name="Citations" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </Card>
 
-      {/* Scan history table */}
-      {scanHistory.length > 0 && (
-        <Card className="p-6">
-          <h2 className="mb-4 text-lg font-bold text-white">Recent Scan Activity</h2>
-          <div className="overflow-x-auto">
-            <table className="w-full text-sm">
-              <thead>
-                <tr className="border-b border-gray-800">
-                  {['Source', 'Engine', 'Score', 'Intent', 'Date'].map((h) => (
-                    <th
-                      key={h}
-                      className="pb-3 text-left text-[10px] font-black uppercase tracking-widest text-gray-500"
-                    >
-                      {h}
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody>
-                {scanHistory.slice(0, 10).map((scan) => (
-                  <tr key={scan.id} className="border-b border-gray-800/50">
-                    <td className="max-w-[180px] truncate py-3 text-gray-300">{scan.source}</td>
-                    <td className="py-3">
-                      <Badge variant="brand">{scan.engine}</Badge>
-                    </td>
-                    <td className="py-3">
-                      <span
-                        className={cn(
-                          'font-bold',
-                          scan.visibilityScore >= 80
-                            ? 'text-emerald-400'
-                            : scan.visibilityScore >= 50
-                              ? 'text-brand-400'
-                              : 'text-red-400',
-                        )}
-                      >
-                        {scan.visibilityScore}
-                      </span>
-                    </td>
-                    <td className="py-3 text-gray-400">{scan.intent}</td>
-                    <td className="py-3 text-xs text-gray-500">{formatDate(scan.timestamp)}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </Card>
-      )}
+          {/* Scan history table */}
+          {summary.recentScans.length > 0 && (
+            <Card className="p-6">
+              <h2 className="mb-4 text-lg font-bold text-white">Recent Scan Activity</h2>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-800">
+                      {['Source', 'Engine', 'Score', 'Intent', 'Date'].map((h) => (
+                        <th
+                          key={h}
+                          className="pb-3 text-left text-[10px] font-black uppercase tracking-widest text-gray-500"
+                        >
+                          {h}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.recentScans.map((scan) => (
+                      <tr key={scan.id} className="border-b border-gray-800/50">
+                        <td className="max-w-[180px] truncate py-3 text-gray-300">{scan.source}</td>
+                        <td className="py-3">
+                          <Badge variant="brand">{scan.engine}</Badge>
+                        </td>
+                        <td className="py-3">
+                          <span
+                            className={cn(
+                              'font-bold',
+                              scan.visibility_score >= 80
+                                ? 'text-emerald-400'
+                                : scan.visibility_score >= 50
+                                  ? 'text-brand-400'
+                                  : 'text-red-400',
+                            )}
+                          >
+                            {scan.visibility_score}
+                          </span>
+                        </td>
+                        <td className="py-3 text-gray-400">{scan.intent}</td>
+                        <td className="py-3 text-xs text-gray-500">
+                          {formatDate(scan.created_at)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          )}
+        </>
+      ) : null}
     </div>
   )
 }
@@ -0,0 +1,377 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import Link from 'next/link'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts'
+import { ArrowLeft, Loader2, RotateCcw, Save, Activity } from 'lucide-react'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { cn } from '@/lib/utils'
+import {
+  DEFAULT_SCORING_PROFILE,
+  HEALTH_COMPONENTS,
+  resolveScoringProfile,
+} from '@/lib/services/scoring'
+import toast from 'react-hot-toast'
+import type { Brand, BrandHealthScore, HealthComponent, ScoreCurve, ScoringProfile } from '@/types'
+
+const TOOLTIP_STYLE = {
+  contentStyle: {
+    background: '#0f172a',
+    border: '1px solid #1f2937',
+    borderRadius: 8,
+    fontSize: 12,
+  },
+  labelStyle: { color: '#e2e8f0', fontWeight: 700 },
+}
+
+const COMPONENT_META: Record<HealthComponent, { label: string; hint: string; color: string }> = {
+  visibility: { label: 'Visibility', hint: 'Average visibility score', color: '#6366f1' },
+  sentiment: { label: 'Sentiment', hint: 'Sentiment of answers mentioning you', color: '#10b981' },
+  hallucination: {
+    label: 'Hallucinations',
+    hint: 'Penalty for answers with false claims',
+    color: '#ef4444',
+  },
+  citations: { label: 'Citations', hint: 'Answers citing your domains', color: '#0ea5e9' },
+  share_of_voice: {
+    label: 'Share of voice',
+    hint: 'Position-weighted share versus competitors',
+    color: '#f59e0b',
+  },
+}
+
+const CURVES: Array<{ id: ScoreCurve; label: string }> = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'quadratic', label: 'Quadratic' },
+  { id: 'sqrt', label: 'Square root' },
+]
+
+function formatValue(component: HealthComponent, value: number): string {
+  if (component === 'visibility') return `${Math.round(value)}/100`
+  if (component === 'sentiment') return `${value > 0 ? '+' : ''}${value.toFixed(2)}`
+  return `${Math.round(value * 100)}%`
+}
+
+export default function BrandHealthPage({ params }: { params: { id: string } }) {
+  const [brand, setBrand] = useState<Brand | null>(null)
+  const [scores, setScores] = useState<BrandHealthScore[]>([])
+  const [profile, setProfile] = useState<ScoringProfile>(DEFAULT_SCORING_PROFILE)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [selectedDate, setSelectedDate] = useState<string | null>(null)
+
+  const loadScores = useCallback(async () => {
+    const res = await fetch(`/api/brands/${params.id}/health-scores?days=90`)
+    const json = (await res.json()) as { success: boolean; data?: BrandHealthScore[] }
+    setScores(json.success ? (json.data ?? []) : [])
+  }, [params.id])
+
+  useEffect(() => {
+    setLoading(true)
+    Promise.all([
+      fetch(`/api/brands/${params.id}`)
+        .then((r) => r.json())
+        .then((json: { success: boolean; data?: Brand; message?: string }) => {
+          if (!json.success || !json.data) throw new Error(json.message)
+          setBrand(json.data)
+          setProfile(resolveScoringProfile(json.data.scoring_profile))
+        }),
+      loadScores(),
+    ])
+      .catch((err) =>
+        toast.error(err instanceof Error && err.message ? err.message : 'Failed to load brand'),
+      )
+      .finally(() => setLoading(false))
+  }, [params.id, loadScores])
+
+  const selected = scores.find((s) => s.date === selectedDate) ?? scores[scores.length - 1] ?? null
+
+  const chartData = useMemo(
+    () => scores.map((s) => ({ date: s.date.slice(5), fullDate: s.date, score: s.health_score })),
+    [scores],
+  )
+
+  const totalWeight = HEALTH_COMPONENTS.filter((c) => profile.components[c].enabled).reduce(
+    (a, c) => a + profile.components[c].weight,
+    0,
+  )
+
+  const updateComponent = (
+    component: HealthComponent,
+    patch: Partial<ScoringProfile['components'][HealthComponent]>,
+  ) =>
+    setProfile((p) => ({
+      ...p,
+      components: { ...p.components, [component]: { ...p.components[component], ...patch } },
+    }))
+
+  const saveProfile = async (next: ScoringProfile | null) => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/brands/${params.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scoring_profile: next }),
+      })
+      const json = (await res.json()) as { success: boolean; data?: Brand; message?: string }
+      if (!json.success || !json.data) throw new Error(json.message)
+      setBrand(json.data)
+      setProfile(resolveScoringProfile(json.data.scoring_profile))
+      await loadScores()
+      toast.success(json.message ?? 'Scoring profile saved')
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : 'Failed to save profile')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-brand-400" />
+      </div>
+    )
+  }
+
+  if (!brand) {
+    return (
+      <Card className="p-12 text-center text-sm text-gray-500">
+        Brand not found.{' '}
+        <Link className="text-brand-400 hover:underline" href="/dashboard/brands">
+          Back to brands
+        </Link>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="animate-in space-y-8">
+      <div>
+        <Link
+          className="mb-3 inline-flex items-center gap-1.5 text-xs text-gray-500 hover:text-gray-300"
+          href="/dashboard/brands"
+        >
+          <ArrowLeft className="h-3.5 w-3.5" /> Brands
+        </Link>
+        <h1 className="text-3xl font-black tracking-tight text-white">{brand.name}</h1>
+        <p className="mt-1 text-gray-400">Health score history and how it is calculated.</p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Trend */}
+        <Card className="p-6 lg:col-span-2">
+          <h2 className="mb-6 text-lg font-bold text-white">Health score (90d)</h2>
+          {chartData.length === 0 ? (
+            <p className="py-12 text-center text-sm text-gray-600">
+              No health scores yet — run the brand&apos;s prompts first.
+            </p>
+          ) : (
+            <ResponsiveContainer height={240} width="100%">
+              <LineChart
+                data={chartData}
+                onClick={(e: { activePayload?: Array<{ payload: { fullDate: string } }> }) => {
+                  const date = e?.activePayload?.[0]?.payload.fullDate
+                  if (date) setSelectedDate(date)
+                }}
+              >
+                <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 11, fill: '#6b7280' }} />
+                <YAxis domain={[0, 100]} tick={{ fontSize: 11, fill: '#6b7280' }} />
+                <Tooltip {...TOOLTIP_STYLE} />
+                <Line
+                  dataKey="score"
+                  dot={{ r: 2 }}
+                  name="Health score"
+                  stroke={brand.color}
+                  strokeWidth={2}
+                  type="monotone"
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </Card>
+
+        {/* What drove the score */}
+        <Card className="p-6">
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-sm font-bold uppercase tracking-widest text-gray-500">
+              Score breakdown
+            </h2>
+            {selected && <span className="text-xs text-gray-500">{selected.date}</span>}
+          </div>
+          {!selected ? (
+            <p className="text-sm text-gray-600">Nothing to explain yet.</p>
+          ) : (
+            <>
+              <div className="mb-5 flex items-end gap-2">
+                <Activity className="mb-1 h-5 w-5 text-brand-400" />
+                <span className="text-4xl font-black text-white">{selected.health_score}</span>
+                <span className="mb-1 text-xs text-gray-500">
+                  / 100 · {selected.result_count} answers
+                </span>
+              </div>
+              <div className="space-y-3">
+                {(selected.score_components ?? [])
+                  .slice()
+                  .sort((a, b) => b.contribution - a.contribution)
+                  .map((c) => (
+                    <div key={c.component}>
+                      <div className="mb-1 flex items-center justify-between text-xs">
+                        <span className="font-bold text-gray-300">
+                          {COMPONENT_META[c.component].label}
+                          <span className="ml-1.5 font-normal text-gray-500">
+                            {formatValue(c.component, c.value)}
+                          </span>
+                        </span>
+                        <span className="text-gray-500">
+                          <span className="font-bold text-white">+{c.contribution}</span> ·{' '}
+                          {c.score} × {Math.round(c.weight * 100)}%
+                        </span>
+                      </div>
+                      <div className="h-1.5 overflow-hidden rounded-full bg-gray-800">
+                        <div
+                          className="h-full rounded-full"
+                          style={{
+                            width: `${c.score}%`,
+                            background: COMPONENT_META[c.component].color,
+                          }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+              </div>
+              <p className="mt-4 text-[11px] text-gray-600">
+                Each component is scored 0-100 and weighted; the contributions add up to the health
+                score. Click a day on the chart to explain it.
+              </p>
+            </>
+          )}
+        </Card>
+      </div>
+
+      {/* Formula */}
+      <Card className="p-6">
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-white">Score formula</h2>
+            <p className="text-sm text-gray-500">
+              {brand.scoring_profile ? 'Custom profile' : 'Default profile'} · saving recomputes
+              every stored day
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              disabled={saving || !brand.scoring_profile}
+              variant="outline"
+              onClick={() => saveProfile(null)}
+            >
+              <RotateCcw className="h-4 w-4" /> Reset to default
+            </Button>
+            <Button
+              disabled={totalWeight <= 0}
+              loading={saving}
+              onClick={() => saveProfile(profile)}
+            >
+              <Save className="h-4 w-4" /> Save & recompute
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {HEALTH_COMPONENTS.map((component) => {
+            const config = profile.components[component]
+            const share = config.enabled && totalWeight > 0 ? config.weight / totalWeight : 0
+            return (
+              <div
+                key={component}
+                className={cn(
+                  'grid items-center gap-4 rounded-xl border border-gray-800 p-4 md:grid-cols-[1fr_2fr_auto]',
+                  !config.enabled && 'opacity-50',
+                )}
+              >
+                <label className="flex cursor-pointer items-center gap-3">
+                  <input
+                    checked={config.enabled}
+                    className="accent-brand-500"
+                    type="checkbox"
+                    onChange={(e) => updateComponent(component, { enabled: e.target.checked })}
+                  />
+                  <span>
+                    <span className="block text-sm font-bold text-white">
+                      {COMPONENT_META[component].label}
+                    </span>
+                    <span className="block text-xs text-gray-500">
+                      {COMPONENT_META[component].hint}
+                    </span>
+                  </span>
+                </label>
+                <div className="flex items-center gap-3">
+                  <input
+                    className="flex-1 accent-brand-500"
+                    disabled={!config.enabled}
+                    max={1}
+                    min={0}
+                    step={0.05}
+                    type="range"
+                    value={config.weight}
+                    onChange={(e) => updateComponent(component, { weight: Number(e.target.value) })}
+                  />
+                  <span className="w-24 text-right text-xs text-gray-400">
+                    {config.weight.toFixed(2)} · {Math.round(share * 100)}%
+                  </span>
+                </div>
+                <select
+                  className="rounded-xl border border-gray-800 bg-black/40 px-3 py-2 text-xs text-white outline-none focus:border-brand-500"
+                  disabled={!config.enabled}
+                  value={config.curve}
+                  onChange={(e) =>
+                    updateComponent(component, { curve: e.target.value as ScoreCurve })
+                  }
+                >
+                  {CURVES.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="mt-4 flex items-center gap-3 text-xs text-gray-500">
+          <span>Hallucination penalty at 100% rate</span>
+          <input
+            className="w-20 rounded-lg border border-gray-800 bg-black/40 px-2 py-1 text-white outline-none focus:border-brand-500"
+            max={100}
+            min={0}
+            type="number"
+            value={profile.hallucination_penalty}
+            onChange={(e) =>
+              setProfile((p) => ({
+                ...p,
+                hallucination_penalty: Math.min(100, Math.max(0, Number(e.target.value) || 0)),
+              }))
+            }
+          />
+          <span>points</span>
+        </div>
+        <p className="mt-3 text-[11px] text-gray-600">
+          Curves reshape a component before weighting: quadratic rewards only high values (or, for
+          hallucinations, punishes frequent errors much more than occasional ones), square root
+          rewards early gains.
+        </p>
+      </Card>
+    </div>
+  )
+}
@@ -18,12 +18,28 @@ import { Badge } from '@/components/ui/index'
 import { exportToJson } from '@/lib/export'
 import { cn } from '@/lib/utils'
 import type { CompetitorResult } from '@/lib/services/gemini'
+import type { PageSignals } from '@/types'
 
 // ─── Colors for competitors ───────────────────────────────────────────────────
 
 const COMPETITOR_COLORS = ['#6366f1', '#10b981', '#f97316', '#a855f7']
 const RANK_BADGES = ['🥇', '🥈', '🥉', '4️⃣']
 
+// Page structure rows of the signals table (the same signals the engines reward)
+const SIGNAL_ROWS: Array<{ label: string; value: (s: PageSignals) => string }> = [
+  { label: 'Words', value: (s) => String(s.wordCount) },
+  { label: 'H1', value: (s) => s.h1 ?? '—' },
+  { label: 'Headings', value: (s) => String(s.headingCount) },
+  { label: 'Meta description', value: (s) => (s.description ? '✓' : '—') },
+  { label: 'Author', value: (s) => s.author ?? '—' },
+  { label: 'Published', value: (s) => s.published?.slice(0, 10) ?? '—' },
+  { label: 'Updated', value: (s) => s.modified?.slice(0, 10) ?? '—' },
+  { label: 'Schema markup', value: (s) => s.schemaTypes.join(', ') || '—' },
+  { label: 'FAQ entries', value: (s) => String(s.faqCount) },
+  { label: 'Lists / tables', value: (s) => `${s.listCount} / ${s.tableCount}` },
+  { label: 'Images without alt', value: (s) => String(s.imagesWithoutAlt) },
+]
+
 // ─── Score Ring (compact) ─────────────────────────────────────────────────────
 
 function ScoreRing({ score, color }: { score: number; color: string }) {
@@ -428,6 +444,48 @@ export default function CompetitorPage() {
               </table>
             </div>
           </Card>
+
+          {/* Page signals */}
+          {rankedResults.some((r) => r.signals) && (
+            <Card className="p-6">
+              <h2 className="mb-5 text-lg font-bold text-white">Page Signals</h2>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-800">
+                      <th className="pb-3 text-left text-[10px] font-black uppercase tracking-widest text-gray-500">
+                        Signal
+                      </th>
+                      {rankedResults.map((r, i) => (
+                        <th
+                          key={r.url}
+                          className="pb-3 text-center text-[10px] font-black uppercase tracking-widest"
+                          style={{ color: COMPETITOR_COLORS[i] ?? '#6b7280' }}
+                        >
+                          {r.isPrimary ? 'Your Site' : `Competitor ${i}`}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {SIGNAL_ROWS.map((row) => (
+                      <tr key={row.label} className="border-b border-gray-800/50">
+                        <td className="py-2.5 text-xs text-gray-400">{row.label}</td>
+                        {rankedResults.map((r) => (
+                          <td
+                            key={r.url}
+                            className="max-w-[180px] truncate py-2.5 text-center text-xs text-gray-200"
+                          >
+                            {r.signals ? row.value(r.signals) : '—'}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          )}
         </div>
       )}
     </div>
@@ -1,14 +1,29 @@
 'use client'
 
-import { useState, useMemo } from 'react'
-import { Clock, Search, Trash2, ChevronDown, ChevronUp, Download, Filter, AlertCircle } from 'lucide-react'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Clock, Search, Trash2, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, Download, Filter, AlertCircle, Loader2 } from 'lucide-react'
 import { Card } from '@/components/ui/Card'
 import { Button } from '@/components/ui/Button'
 import { Badge } from '@/components/ui/index'
+import { useDebounce } from '@/hooks'
 import { useAppStore } from '@/lib/store'
 import { exportHistoryToCsv, exportToJson } from '@/lib/export'
 import { formatRelativeTime, formatDate, cn } from '@/lib/utils'
-import type { ScanHistoryEntry, EngineId } from '@/types'
+import toast from 'react-hot-toast'
+import type { AnalysisScan, AnalysisScanSummary, EngineId, IntentType, PaginatedResponse, ScanHistoryEntry } from '@/types'
+
+const PER_PAGE = 20
+
+// Export rows use the client-side history shape
+function toHistoryEntry(scan: AnalysisScan): ScanHistoryEntry {
+  return {
+    ...scan.result,
+    id: scan.id,
+    engine: scan.engine,
+    model: (scan.result as Partial<ScanHistoryEntry>).model ?? scan.result.generatedBy?.requested ?? 'default',
+    timestamp: new Date(scan.created_at).getTime(),
+  }
+}
 
 // ─── Score Ring Mini ──────────────────────────────────────────────────────────
 
@@ -35,28 +50,49 @@ function MiniRing({ score }: { score: number }) {
 
 // ─── History Entry Card ───────────────────────────────────────────────────────
 
-function HistoryCard({ entry, onDelete }: { entry: ScanHistoryEntry; onDelete: () => void }) {
+function HistoryCard({ scan, onDelete }: { scan: AnalysisScanSummary; onDelete: () => void }) {
   const [expanded, setExpanded] = useState(false)
+  const [detail, setDetail] = useState<AnalysisScan | null>(null)
+  const [loadingDetail, setLoadingDetail] = useState(false)
+
+  const toggle = async () => {
+    setExpanded((v) => !v)
+    if (detail || loadingDetail) return
+    setLoadingDetail(true)
+    try {
+      const res = await fetch(`/api/scans/${scan.id}`)
+      const json = (await res.json()) as { success: boolean; data?: AnalysisScan; message?: string }
+      if (!json.success || !json.data) throw new Error(json.message)
+      setDetail(json.data)
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : 'Failed to load scan')
+      setExpanded(false)
+    } finally {
+      setLoadingDetail(false)
+    }
+  }
+
+  const entry = detail?.result
 
   return (
     <div className="rounded-2xl border border-gray-800 bg-gray-900/50 transition-all hover:border-gray-700">
       {/* Header row */}
       <div className="flex items-center gap-4 p-4">
-        <MiniRing score={entry.visibilityScore} />
+        <MiniRing score={scan.visibility_score} />
         <div className="min-w-0 flex-1">
           <div className="flex items-center gap-2 mb-0.5">
-            <Badge variant="brand">{entry.engine}</Badge>
-            <Badge variant="default">{entry.type}</Badge>
+            <Badge variant="brand">{scan.engine}</Badge>
+            <Badge variant="default">{scan.type}</Badge>
             <Badge variant={
-              entry.intent === 'Informational' ? 'info' :
-              entry.intent === 'Commercial' ? 'success' :
-              entry.intent === 'Transactional' ? 'warning' : 'default'
+              scan.intent === 'Informational' ? 'info' :
+              scan.intent === 'Commercial' ? 'success' :
+              scan.intent === 'Transactional' ? 'warning' : 'default'
             }>
-              {entry.intent}
+              {scan.intent}
             </Badge>
           </div>
-          <p className="truncate text-sm font-semibold text-gray-200">{entry.source}</p>
-          <p className="text-[10px] text-gray-600">{formatRelativeTime(entry.timestamp)} · {formatDate(entry.timestamp)}</p>
+          <p className="truncate text-sm font-semibold text-gray-200">{scan.source}</p>
+          <p className="text-[10px] text-gray-600">{formatRelativeTime(scan.created_at)} · {formatDate(scan.created_at)}</p>
         </div>
         <div className="flex items-center gap-2">
           <button
@@ -67,7 +103,7 @@ function HistoryCard({ entry, onDelete }: { entry: ScanHistoryEntry; onDelete: (
           </button>
           <button
             className="rounded-lg p-1.5 text-gray-600 transition-colors hover:text-gray-300"
-            onClick={() => setExpanded((v) => !v)}
+            onClick={toggle}
           >
             {expanded ? <ChevronUp className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
           </button>
@@ -75,7 +111,12 @@ function HistoryCard({ entry, onDelete }: { entry: ScanHistoryEntry; onDelete: (
       </div>
 
       {/* Expanded detail */}
-      {expanded && (
+      {expanded && !entry && (
+        <div className="flex justify-center border-t border-gray-800 py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-brand-400" />
+        </div>
+      )}
+      {expanded && entry && (
         <div className="border-t border-gray-800 px-4 pb-4 pt-3 animate-in">
           <p className="mb-3 text-xs leading-relaxed text-gray-400">{entry.summary}</p>
 
@@ -148,32 +189,112 @@ const ENGINE_OPTIONS: Array<{ label: string; value: 'all' | EngineId }> = [
   { label: 'Claude', value: 'claude' },
 ]
 
+const INTENT_OPTIONS: IntentType[] = ['Informational', 'Commercial', 'Transactional', 'Navigational', 'Mixed']
+
 // ─── Page ─────────────────────────────────────────────────────────────────────
 
 export default function HistoryPage() {
-  const { scanHistory, removeScan, clearHistory } = useAppStore()
+  const [scans, setScans] = useState<AnalysisScanSummary[]>([])
+  const [pagination, setPagination] = useState<PaginatedResponse<AnalysisScanSummary>['pagination'] | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
   const [search, setSearch] = useState('')
   const [engineFilter, setEngineFilter] = useState<'all' | EngineId>('all')
+  const [intentFilter, setIntentFilter] = useState<IntentType | ''>('')
   const [sortBy, setSortBy] = useState<'date' | 'score'>('date')
+  const [page, setPage] = useState(1)
   const [confirmClear, setConfirmClear] = useState(false)
+  const debouncedSearch = useDebounce(search)
+  // Local copies of deleted scans would be uploaded again at the next login
+  const forgetLocalScan = useAppStore((s) => s.removeScan)
+  const clearLocalHistory = useAppStore((s) => s.clearHistory)
+
+  const params = useCallback((extra: Record<string, string> = {}) => {
+    const p = new URLSearchParams({ sort: sortBy, ...extra })
+    if (debouncedSearch.trim()) p.set('query', debouncedSearch.trim())
+    if (engineFilter !== 'all') p.set('engine', engineFilter)
+    if (intentFilter) p.set('intent', intentFilter)
+    return p.toString()
+  }, [debouncedSearch, engineFilter, intentFilter, sortBy])
+
+  // Only the latest request may update the list: a filter change on page N
+  // fetches twice (page N, then page 1), and the first answer must not win
+  const request = useRef<AbortController | null>(null)
+  useEffect(() => () => request.current?.abort(), [])
+
+  const loadScans = useCallback(async () => {
+    request.current?.abort()
+    const controller = new AbortController()
+    request.current = controller
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/scans?${params({ page: String(page), perPage: String(PER_PAGE) })}`, { signal: controller.signal })
+      const json = (await res.json()) as PaginatedResponse<AnalysisScanSummary> & { message?: string }
+      if (controller.signal.aborted) return
+      if (!json.success) throw new Error(json.message || 'Failed to load scans')
+      setScans(json.data)
+      setPagination(json.pagination)
+    } catch (err) {
+      if (controller.signal.aborted) return
+      setError(err instanceof Error ? err.message : 'Failed to load scans')
+    } finally {
+      if (!controller.signal.aborted) setLoading(false)
+    }
+  }, [params, page])
+
+  useEffect(() => { void loadScans() }, [loadScans])
+
+  // A new filter starts again from the first page
+  useEffect(() => { setPage(1) }, [debouncedSearch, engineFilter, intentFilter, sortBy])
+
+  const removeScan = async (scan: AnalysisScanSummary) => {
+    try {
+      const res = await fetch(`/api/scans/${scan.id}`, { method: 'DELETE' })
+      const json = (await res.json()) as { success: boolean; message?: string }
+      if (!json.success) throw new Error(json.message)
+      if (scan.client_id) forgetLocalScan(scan.client_id)
+      toast.success('Scan deleted')
+      void loadScans()
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : 'Failed to delete scan')
+    }
+  }
+
+  const clearHistory = async () => {
+    setConfirmClear(false)
+    try {
+      const res = await fetch('/api/scans', { method: 'DELETE' })
+      const json = (await res.json()) as { success: boolean; data?: { deleted: number }; message?: string }
+      if (!json.success) throw new Error(json.message)
+      clearLocalHistory()
+      toast.success(`${json.data?.deleted ?? 0} scans deleted`)
+      setPage(1)
+      void loadScans()
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : 'Failed to clear history')
+    }
+  }
 
-  const filtered = useMemo(() => {
-    return scanHistory
-      .filter((s) => {
-        const matchSearch = !search || s.source.toLowerCase().includes(search.toLowerCase())
-        const matchEngine = engineFilter === 'all' || s.engine === engineFilter
-        return matchSearch && matchEngine
-      })
-      .sort((a, b) => sortBy === 'date'
-        ? b.timestamp - a.timestamp
-        : b.visibilityScore - a.visibilityScore,
-      )
-  }, [scanHistory, search, engineFilter, sortBy])
-
-  const avgScore = useMemo(() => {
-    if (scanHistory.length === 0) return 0
-    return Math.round(scanHistory.reduce((a, s) => a + s.visibilityScore, 0) / scanHistory.length)
-  }, [scanHistory])
+  // Exports the first 100 scans matching the current filters, with full results
+  const exportScans = async (format: 'csv' | 'json') => {
+    try {
+      const res = await fetch(`/api/scans?${params({ perPage: '100', withResult: 'true' })}`)
+      const json = (await res.json()) as PaginatedResponse<AnalysisScan> & { message?: string }
+      if (!json.success) throw new Error(json.message)
+      const entries = json.data.map(toHistoryEntry)
+      if (format === 'csv') exportHistoryToCsv(entries)
+      else exportToJson(entries, 'scan-history')
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : 'Export failed')
+    }
+  }
+
+  const total = pagination?.total ?? 0
+  const hasFilters = !!debouncedSearch.trim() || engineFilter !== 'all' || !!intentFilter
+  const pageAvg = scans.length > 0
+    ? Math.round(scans.reduce((a, s) => a + s.visibility_score, 0) / scans.length)
+    : 0
 
   return (
     <div className="animate-in space-y-6">
@@ -183,27 +304,19 @@ export default function HistoryPage() {
           <h1 className="text-3xl font-black tracking-tight text-white">Scan History</h1>
           <p className="mt-1 text-gray-400">All your previous content analyses — searchable and filterable.</p>
         </div>
-        {scanHistory.length > 0 && (
+        {total > 0 && (
           <div className="flex items-center gap-2">
-            <Button
-              size="sm"
-              variant="outline"
-              onClick={() => exportHistoryToCsv(scanHistory)}
-            >
+            <Button size="sm" variant="outline" onClick={() => exportScans('csv')}>
               <Download className="h-4 w-4" />
               CSV
             </Button>
-            <Button
-              size="sm"
-              variant="outline"
-              onClick={() => exportToJson(scanHistory, 'scan-history')}
-            >
+            <Button size="sm" variant="outline" onClick={() => exportScans('json')}>
               <Download className="h-4 w-4" />
               JSON
             </Button>
             {confirmClear ? (
               <>
-                <Button size="sm" variant="danger" onClick={() => { clearHistory(); setConfirmClear(false) }}>
+                <Button size="sm" variant="danger" onClick={clearHistory}>
                   Confirm clear
                 </Button>
                 <Button size="sm" variant="ghost" onClick={() => setConfirmClear(false)}>Cancel</Button>
@@ -218,13 +331,20 @@ export default function HistoryPage() {
         )}
       </div>
 
+      {error && (
+        <div className="flex items-center gap-3 rounded-2xl border border-red-500/20 bg-red-500/10 p-4 text-sm text-red-400">
+          <AlertCircle className="h-5 w-5 shrink-0" />
+          {error}
+        </div>
+      )}
+
       {/* Stats row */}
-      {scanHistory.length > 0 && (
+      {total > 0 && (
         <div className="grid grid-cols-3 gap-4">
           {[
-            { label: 'Total Scans', value: scanHistory.length },
-            { label: 'Avg. Score', value: `${avgScore}/100` },
-            { label: 'Engines Used', value: [...new Set(scanHistory.map((s) => s.engine))].length },
+            { label: hasFilters ? 'Matching Scans' : 'Total Scans', value: total },
+            { label: 'Avg. Score (this page)', value: `${pageAvg}/100` },
+            { label: 'Engines (this page)', value: [...new Set(scans.map((s) => s.engine))].length },
           ].map(({ label, value }) => (
             <Card key={label} className="p-4 text-center">
               <p className="text-2xl font-black text-white">{value}</p>
@@ -235,7 +355,7 @@ export default function HistoryPage() {
       )}
 
       {/* Filters */}
-      {scanHistory.length > 0 && (
+      {(total > 0 || hasFilters) && (
         <Card className="p-4">
           <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
             <div className="relative flex-1">
@@ -247,7 +367,7 @@ export default function HistoryPage() {
                 onChange={(e) => setSearch(e.target.value)}
               />
             </div>
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center gap-2">
               <Filter className="h-4 w-4 text-gray-600" />
               {ENGINE_OPTIONS.map((opt) => (
                 <button
@@ -263,6 +383,14 @@ export default function HistoryPage() {
                   {opt.label}
                 </button>
               ))}
+              <select
+                className="rounded-xl border border-gray-800 bg-black/40 px-3 py-1.5 text-xs text-white outline-none"
+                value={intentFilter}
+                onChange={(e) => setIntentFilter(e.target.value as IntentType | '')}
+              >
+                <option value="">All intents</option>
+                {INTENT_OPTIONS.map((i) => <option key={i} value={i}>{i}</option>)}
+              </select>
               <select
                 className="rounded-xl border border-gray-800 bg-black/40 px-3 py-1.5 text-xs text-white outline-none"
                 value={sortBy}
@@ -276,8 +404,14 @@ export default function HistoryPage() {
         </Card>
       )}
 
+      {loading && scans.length === 0 && (
+        <div className="flex justify-center py-24">
+          <Loader2 className="h-8 w-8 animate-spin text-brand-400" />
+        </div>
+      )}
+
       {/* Empty state */}
-      {scanHistory.length === 0 && (
+      {!loading && !error && total === 0 && !hasFilters && (
         <div className="flex flex-col items-center justify-center py-24 text-center">
           <div className="mb-6 flex h-20 w-20 items-center justify-center rounded-3xl border border-gray-800 bg-gray-900">
             <Clock className="h-10 w-10 text-gray-700" />
@@ -290,23 +424,38 @@ export default function HistoryPage() {
       )}
 
       {/* Results */}
-      {filtered.length > 0 && (
-        <div className="space-y-3">
-          {filtered.map((entry) => (
+      {scans.length > 0 && (
+        <div className={cn('space-y-3', loading && 'opacity-60')}>
+          {scans.map((scan) => (
             <HistoryCard
-              key={entry.id}
-              entry={entry}
-              onDelete={() => removeScan(entry.id)}
+              key={scan.id}
+              scan={scan}
+              onDelete={() => removeScan(scan)}
             />
           ))}
         </div>
       )}
 
-      {filtered.length === 0 && scanHistory.length > 0 && (
+      {!loading && total === 0 && hasFilters && (
         <div className="py-12 text-center text-gray-500">
           No results match your filters.
         </div>
       )}
+
+      {/* Pagination */}
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-center gap-3">
+          <Button disabled={page <= 1 || loading} size="sm" variant="outline" onClick={() => setPage((p) => p - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-xs text-gray-500">
+            Page {pagination.page} of {pagination.totalPages}
+          </span>
+          <Button disabled={page >= pagination.totalPages || loading} size="sm" variant="outline" onClick={() => setPage((p) => p + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
     </div>
   )
 }
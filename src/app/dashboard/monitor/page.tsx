@@ -5,8 +5,9 @@ import { Shield, Zap, Globe, Brain, RefreshCw, CheckCircle2, AlertTriangle, XCir
 import { Card } from '@/components/ui/Card'
 import { Badge } from '@/components/ui/index'
 import { Button } from '@/components/ui/Button'
-import { getEngineSignals } from '@/lib/services/gemini'
+import { getEngineSignals } from '@/lib/services/audit'
 import { cn } from '@/lib/utils'
+import { ENGINE_CATALOG, isMonitoringEngine } from '@/lib/engine-catalog'
 
 // ─── Engine data ──────────────────────────────────────────────────────────────
 
@@ -122,6 +123,7 @@ function EngineCard({ engine }: { engine: typeof ENGINES[0] }) {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {isMonitoringEngine(engine.id) && <Badge variant="brand">Tracked</Badge>}
             <span className={cn('inline-block h-2 w-2 rounded-full animate-pulse', status.dot)} />
             <Badge variant={status.color as 'success' | 'warning' | 'danger'}>{status.label}</Badge>
           </div>
@@ -231,6 +233,18 @@ export default function MonitorPage() {
         </div>
       </div>
 
+      {/* Engines tracked by brand monitoring (src/lib/engine-catalog.ts) */}
+      <Card className="flex flex-wrap items-center gap-3 p-4">
+        <span className="text-xs font-bold uppercase tracking-widest text-gray-600">Tracked in monitoring:</span>
+        {ENGINE_CATALOG.map((e) => (
+          <span key={e.id} className="flex items-center gap-1.5 text-xs font-semibold text-gray-300">
+            <span className="h-2 w-2 rounded-full" style={{ background: e.color }} />
+            {e.label}
+            <span className="text-gray-600">· {e.vendor}</span>
+          </span>
+        ))}
+      </Card>
+
       {/* Engine cards */}
       <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
         {ENGINES.map((engine) => (
@@ -5,19 +5,15 @@ import { Shield, AlertTriangle, CheckCircle2, XCircle, ChevronDown, ChevronUp, L
 import { Card } from '@/components/ui/Card'
 import { Button } from '@/components/ui/Button'
 import { Badge } from '@/components/ui/index'
+import { ShareOfVoiceChart } from '@/components/charts/ShareOfVoiceChart'
 import { formatRelativeTime, cn } from '@/lib/utils'
+import { ENGINE_CATALOG, getEngineColor, getEngineLabel } from '@/lib/engine-catalog'
 import toast from 'react-hot-toast'
 import type { Brand, MonitoringResult } from '@/types'
 
-const ENGINE_COLORS: Record<string, string> = {
-  chatgpt: '#10b981',
-  gemini: '#3b82f6',
-  perplexity: '#a855f7',
-}
-
 function ResultCard({ result }: { result: MonitoringResult }) {
   const [expanded, setExpanded] = useState(false)
-  const engineColor = ENGINE_COLORS[result.engine] ?? '#6366f1'
+  const engineColor = getEngineColor(result.engine)
 
   return (
     <div className="rounded-2xl border border-gray-800 bg-gray-900/40 transition-all hover:border-gray-700">
@@ -49,6 +45,17 @@ function ResultCard({ result }: { result: MonitoringResult }) {
             {result.mention_position && (
               <Badge variant="info">Position #{result.mention_position}</Badge>
             )}
+            <Badge variant={result.response_mode === 'native' ? 'info' : 'warning'}>
+              {result.response_mode === 'native' ? 'Native' : 'Simulated'}
+            </Badge>
+            {result.mention_disagreements.length > 0 && (
+              <Badge variant="warning">Mentions disputed</Badge>
+            )}
+            {result.sample_count > 1 && (
+              <Badge variant="outline">
+                {Math.round(result.mention_rate * 100)}% of {result.sample_count} samples
+              </Badge>
+            )}
           </div>
           <p className="truncate text-xs text-gray-500">"{result.prompt_text}"</p>
         </div>
@@ -84,6 +91,42 @@ function ResultCard({ result }: { result: MonitoringResult }) {
             </div>
           </div>
 
+          {/* Sample statistics */}
+          {result.sample_stats && (
+            <div>
+              <p className="mb-2 text-[10px] font-black uppercase tracking-widest text-gray-600">Sample Statistics (95% CI)</p>
+              <div className="grid grid-cols-3 gap-2 text-xs">
+                <div className="rounded-lg border border-gray-800 bg-black/30 px-3 py-2">
+                  <p className="text-gray-500">Mention rate</p>
+                  <p className="font-bold text-gray-200">
+                    {Math.round(result.sample_stats.mention_rate.rate * 100)}%
+                    <span className="ml-1 font-normal text-gray-600">
+                      ({Math.round(result.sample_stats.mention_rate.ci_low * 100)}–{Math.round(result.sample_stats.mention_rate.ci_high * 100)}%)
+                    </span>
+                  </p>
+                </div>
+                <div className="rounded-lg border border-gray-800 bg-black/30 px-3 py-2">
+                  <p className="text-gray-500">Visibility</p>
+                  <p className="font-bold text-gray-200">
+                    {result.sample_stats.visibility.mean.toFixed(1)}
+                    <span className="ml-1 font-normal text-gray-600">
+                      ({result.sample_stats.visibility.ci_low.toFixed(1)}–{result.sample_stats.visibility.ci_high.toFixed(1)})
+                    </span>
+                  </p>
+                </div>
+                <div className="rounded-lg border border-gray-800 bg-black/30 px-3 py-2">
+                  <p className="text-gray-500">Sentiment</p>
+                  <p className="font-bold text-gray-200">
+                    {result.sample_stats.sentiment.mean.toFixed(2)}
+                    <span className="ml-1 font-normal text-gray-600">
+                      ({result.sample_stats.sentiment.ci_low.toFixed(2)}–{result.sample_stats.sentiment.ci_high.toFixed(2)})
+                    </span>
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Competitor mentions */}
           {result.competitor_mentions.length > 0 && (
             <div>
@@ -99,6 +142,21 @@ function ResultCard({ result }: { result: MonitoringResult }) {
             </div>
           )}
 
+          {/* Extractor vs LLM analysis */}
+          {result.mention_disagreements.length > 0 && (
+            <div>
+              <p className="mb-2 text-[10px] font-black uppercase tracking-widest text-amber-700">Mention Disagreements</p>
+              <div className="space-y-1 text-xs">
+                {result.mention_disagreements.map((d) => (
+                  <p key={d.field} className="text-gray-400">
+                    <span className="font-bold text-gray-300">{d.field.replace(/_/g, ' ')}</span>
+                    {' · '}text match: {JSON.stringify(d.extracted)} · LLM: {JSON.stringify(d.analysis)}
+                  </p>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Hallucination flags */}
           {result.hallucination_flags.length > 0 && (
             <div>
@@ -131,7 +189,10 @@ function ResultCard({ result }: { result: MonitoringResult }) {
             </div>
           )}
 
-          <p className="text-[10px] text-gray-700">{formatRelativeTime(result.created_at)}</p>
+          <p className="text-[10px] text-gray-700">
+            {formatRelativeTime(result.created_at)}
+            {result.response_provider && ` · ${result.response_mode} via ${result.response_provider}`}
+          </p>
         </div>
       )}
     </div>
@@ -144,6 +205,7 @@ export default function MonitoringPage() {
   const [loading, setLoading] = useState(true)
   const [selectedBrand, setSelectedBrand] = useState('')
   const [selectedEngine, setSelectedEngine] = useState('')
+  const [selectedMode, setSelectedMode] = useState('')
   const [pagination, setPagination] = useState({ total: 0, page: 1, totalPages: 1 })
 
   const loadData = useCallback(async () => {
@@ -151,7 +213,7 @@ export default function MonitoringPage() {
     try {
       const [brandsRes, resultsRes] = await Promise.all([
         fetch('/api/brands'),
-        fetch(`/api/monitoring?${selectedBrand ? `brand_id=${selectedBrand}&` : ''}${selectedEngine ? `engine=${selectedEngine}&` : ''}limit=30`),
+        fetch(`/api/monitoring?${selectedBrand ? `brand_id=${selectedBrand}&` : ''}${selectedEngine ? `engine=${selectedEngine}&` : ''}${selectedMode ? `response_mode=${selectedMode}&` : ''}limit=30`),
       ])
       const bJson = await brandsRes.json() as { success: boolean; data?: Brand[] }
       const rJson = await resultsRes.json() as { success: boolean; data?: MonitoringResult[]; pagination?: typeof pagination }
@@ -163,7 +225,7 @@ export default function MonitoringPage() {
     } finally {
       setLoading(false)
     }
-  }, [selectedBrand, selectedEngine])
+  }, [selectedBrand, selectedEngine, selectedMode])
 
   useEffect(() => { void loadData() }, [loadData])
 
@@ -192,7 +254,7 @@ export default function MonitoringPage() {
           { label: 'Total Results', value: pagination.total, icon: Shield, color: 'text-brand-400' },
           { label: 'Mention Rate', value: `${mentionRate}%`, icon: CheckCircle2, color: 'text-emerald-400' },
           { label: 'Hallucinations', value: hallucinationCount, icon: AlertTriangle, color: 'text-red-400' },
-          { label: 'Engines Active', value: 3, icon: XCircle, color: 'text-purple-400' },
+          { label: 'Engines Tracked', value: ENGINE_CATALOG.length, icon: XCircle, color: 'text-purple-400' },
         ].map((s) => (
           <Card key={s.label} className="p-5 text-center">
             <s.icon className={cn('mx-auto mb-2 h-6 w-6', s.color)} />
@@ -217,7 +279,7 @@ export default function MonitoringPage() {
         </div>
         <div className="flex items-center gap-2">
           <span className="text-xs font-bold uppercase tracking-widest text-gray-600">Engine:</span>
-          {['', 'chatgpt', 'gemini', 'perplexity'].map((e) => (
+          {['', ...ENGINE_CATALOG.map((c) => c.id)].map((e) => (
             <button
               key={e}
               className={cn(
@@ -228,12 +290,31 @@ export default function MonitoringPage() {
               )}
               onClick={() => setSelectedEngine(e)}
             >
-              {e || 'All'}
+              {e ? getEngineLabel(e) : 'All'}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-600">Answers:</span>
+          {['', 'native', 'simulated'].map((m) => (
+            <button
+              key={m}
+              className={cn(
+                'rounded-xl border px-3 py-1.5 text-xs font-bold capitalize transition-all',
+                selectedMode === m
+                  ? 'border-brand-500/50 bg-brand-500/15 text-brand-400'
+                  : 'border-gray-800 text-gray-500 hover:text-gray-300',
+              )}
+              onClick={() => setSelectedMode(m)}
+            >
+              {m || 'All'}
             </button>
           ))}
         </div>
       </Card>
 
+      {selectedBrand && <ShareOfVoiceChart brandId={selectedBrand} engine={selectedEngine || undefined} />}
+
       {/* Results */}
       {loading ? (
         <div className="flex justify-center py-16"><Loader2 className="h-8 w-8 animate-spin text-brand-400" /></div>
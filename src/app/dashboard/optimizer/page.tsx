@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useMemo } from 'react'
 import {
   FileSearch,
   Link2,
@@ -17,6 +17,9 @@ import {
   Users,
   BookOpen,
   Mic,
+  ListChecks,
+  Globe,
+  Wand2,
 } from 'lucide-react'
 import {
   RadarChart,
@@ -30,11 +33,27 @@ import { Card } from '@/components/ui/Card'
 import { Button } from '@/components/ui/Button'
 import { Badge } from '@/components/ui/index'
 import { useAppStore } from '@/lib/store'
-import { useToggle, useClipboard, useKeywordAnalysis } from '@/hooks'
+import {
+  useToggle,
+  useClipboard,
+  useKeywordAnalysis,
+  useSiteCrawl,
+  type SiteCrawlDetails,
+} from '@/hooks'
 import { exportAnalysisToCsv } from '@/lib/export'
 import { cn } from '@/lib/utils'
+import { diffText } from '@/lib/diff'
 import { ENGINES, ANALYSIS_MODELS } from '@/lib/constants'
-import type { AnalysisResult, EngineId, ModelId } from '@/types'
+import { getEngineLabel } from '@/lib/engine-catalog'
+import type {
+  AnalysisMode,
+  AnalysisResult,
+  AuditReport,
+  EngineId,
+  ModelId,
+  RewriteResult,
+  SiteCrawl,
+} from '@/types'
 
 // ─── Score Ring ───────────────────────────────────────────────────────────────
 
@@ -118,6 +137,358 @@ function EngineCard({ breakdown }: { breakdown: AnalysisResult['engineBreakdown'
   )
 }
 
+// ─── Audit Card ───────────────────────────────────────────────────────────────
+
+const AUDIT_BADGE = {
+  pass: { variant: 'success', label: 'pass' },
+  fail: { variant: 'danger', label: 'fail' },
+  not_applicable: { variant: 'default', label: 'n/a' },
+} as const
+
+function AuditCard({ audit }: { audit: AuditReport }) {
+  return (
+    <Card className="p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5 text-brand-400" />
+          <h2 className="text-lg font-bold text-white">On-page Audit</h2>
+          <Badge variant="default">
+            {audit.passed}/{audit.passed + audit.failed} passed
+          </Badge>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {audit.byEngine.map((e) => (
+            <span
+              key={e.engine}
+              className="rounded-lg border border-gray-800 bg-gray-900/50 px-2.5 py-1 text-xs text-gray-400"
+            >
+              {getEngineLabel(e.engine)}{' '}
+              <span className="font-bold text-white">{e.score ?? '—'}</span>
+            </span>
+          ))}
+          <span className="text-2xl font-black text-white">{audit.score ?? '—'}</span>
+        </div>
+      </div>
+      <div className="space-y-2">
+        {audit.checks.map((check) => (
+          <div
+            key={check.id}
+            className="rounded-lg border border-gray-800/50 bg-gray-900/30 px-3 py-2.5"
+          >
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-sm font-medium text-gray-200">{check.label}</span>
+              <Badge variant={AUDIT_BADGE[check.status].variant}>
+                {AUDIT_BADGE[check.status].label}
+              </Badge>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">{check.evidence}</p>
+            {check.status === 'fail' && (
+              <p className="mt-1 text-xs text-amber-400/90">{check.recommendation}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  )
+}
+
+// ─── Rewrite ──────────────────────────────────────────────────────────────────
+
+const delta = (before: number | null, after: number | null) =>
+  before === null || after === null ? null : after - before
+
+function ScoreDelta({ value }: { value: number | null }) {
+  if (value === null || value === 0) return <span className="text-gray-600">±0</span>
+  return (
+    <span className={value > 0 ? 'text-emerald-400' : 'text-red-400'}>
+      {value > 0 ? '+' : ''}
+      {value}
+    </span>
+  )
+}
+
+function RewritePanel({ before, rewrite }: { before: AnalysisResult; rewrite: RewriteResult }) {
+  const { copied, copy } = useClipboard()
+  const segments = useMemo(
+    () => diffText(rewrite.original, rewrite.rewritten),
+    [rewrite.original, rewrite.rewritten],
+  )
+  const after = rewrite.result
+
+  const rows = [
+    { label: 'Overall', before: before.visibilityScore, after: after.visibilityScore },
+    ...before.engineBreakdown.map((b) => ({
+      label: b.engine,
+      before: b.score,
+      after:
+        after.engineBreakdown.find((a) => a.engine.toLowerCase() === b.engine.toLowerCase())
+          ?.score ?? null,
+    })),
+    {
+      label: 'On-page audit',
+      before: before.audit?.score ?? null,
+      after: after.audit?.score ?? null,
+    },
+  ]
+
+  return (
+    <Card className="p-6">
+      <div className="mb-5 flex items-center justify-between">
+        <h2 className="text-lg font-bold text-white">
+          <Wand2 className="mr-2 inline h-5 w-5 text-brand-400" />
+          Rewrite
+        </h2>
+        <Button size="sm" variant="secondary" onClick={() => copy(rewrite.rewritten)}>
+          {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+          {copied ? 'Copied' : 'Copy rewrite'}
+        </Button>
+      </div>
+      {rewrite.truncated && (
+        <p className="-mt-2 mb-5 text-xs text-amber-400/90">
+          The content is longer than the rewrite limit: only its first{' '}
+          {rewrite.original.length.toLocaleString()} characters were rewritten, and the
+          &quot;After&quot; scores cover that part only.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        {/* Before / after scores */}
+        <div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] font-black uppercase tracking-widest text-gray-500">
+                <th className="pb-2 text-left">Score</th>
+                <th className="pb-2 text-right">Before</th>
+                <th className="pb-2 text-right">After</th>
+                <th className="pb-2 text-right">Δ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.label} className="border-t border-gray-800/60">
+                  <td className="py-2 text-gray-300">{row.label}</td>
+                  <td className="py-2 text-right text-gray-400">{row.before ?? '—'}</td>
+                  <td className="py-2 text-right font-bold text-white">{row.after ?? '—'}</td>
+                  <td className="py-2 text-right font-bold">
+                    <ScoreDelta value={delta(row.before, row.after)} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rewrite.changes.length > 0 && (
+            <ul className="mt-4 space-y-1.5">
+              {rewrite.changes.map((c, i) => (
+                <li key={i} className="text-xs text-gray-400">
+                  • {c}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Side-by-side diff */}
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:col-span-2">
+          {(['before', 'after'] as const).map((side) => (
+            <div key={side} className="min-w-0">
+              <p className="mb-2 text-[10px] font-black uppercase tracking-widest text-gray-500">
+                {side === 'before' ? 'Original' : 'Rewritten'}
+              </p>
+              <div className="max-h-[480px] overflow-y-auto whitespace-pre-wrap break-words rounded-xl border border-gray-800 bg-black/40 p-4 text-sm leading-relaxed text-gray-300">
+                {segments.map((seg, i) =>
+                  seg.type === 'equal' ? (
+                    <span key={i}>{seg.text}</span>
+                  ) : seg.type === 'delete' && side === 'before' ? (
+                    <del key={i} className="rounded bg-red-500/15 text-red-300">
+                      {seg.text}
+                    </del>
+                  ) : seg.type === 'insert' && side === 'after' ? (
+                    <ins
+                      key={i}
+                      className="rounded bg-emerald-500/15 text-emerald-300 no-underline"
+                    >
+                      {seg.text}
+                    </ins>
+                  ) : null,
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </Card>
+  )
+}
+
+// ─── Site Crawl ───────────────────────────────────────────────────────────────
+
+const MAX_PAGES_OPTIONS = [5, 10, 25, 50]
+
+const scoreColor = (score: number | null) =>
+  score === null
+    ? 'text-gray-500'
+    : score >= 80
+      ? 'text-emerald-400'
+      : score >= 50
+        ? 'text-brand-400'
+        : 'text-red-400'
+
+function SiteCrawlPanel({ crawl }: { crawl: SiteCrawlDetails }) {
+  const active = crawl.status === 'queued' || crawl.status === 'running'
+  const progress =
+    crawl.pages_found > 0 ? Math.round((crawl.pages_done / crawl.pages_found) * 100) : 0
+  const report = crawl.report
+  const pages = [...crawl.pages].sort(
+    (a, b) => (a.visibility_score ?? -1) - (b.visibility_score ?? -1),
+  )
+
+  return (
+    <div className="animate-in space-y-6">
+      {/* Progress */}
+      <Card className="p-6">
+        <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Globe className="h-5 w-5 text-brand-400" />
+            <h2 className="truncate text-lg font-bold text-white">{crawl.root_url}</h2>
+            <Badge
+              variant={
+                crawl.status === 'completed'
+                  ? 'success'
+                  : crawl.status === 'failed'
+                    ? 'danger'
+                    : 'brand'
+              }
+            >
+              {crawl.status}
+            </Badge>
+          </div>
+          <span className="text-xs text-gray-500">
+            {crawl.pages_done}/{crawl.pages_found} pages
+            {crawl.pages_failed > 0 && ` · ${crawl.pages_failed} failed`}
+            {crawl.pages_blocked > 0 && ` · ${crawl.pages_blocked} blocked by robots.txt`}
+            {crawl.discovery && ` · via ${crawl.discovery === 'sitemap' ? 'sitemap' : 'links'}`}
+          </span>
+        </div>
+        <div className="h-1.5 w-full overflow-hidden rounded-full bg-gray-800">
+          <div
+            className={cn(
+              'h-full rounded-full transition-all duration-700',
+              crawl.status === 'failed' ? 'bg-rose-500' : 'bg-brand-500',
+            )}
+            style={{ width: `${active ? progress : 100}%` }}
+          />
+        </div>
+        {crawl.error && <p className="mt-3 text-sm text-red-400">{crawl.error}</p>}
+      </Card>
+
+      {report && (
+        <>
+          {/* Site scores */}
+          <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+            {[
+              { label: 'Avg. Visibility', value: report.averageScore },
+              { label: 'Avg. Audit Score', value: report.averageAuditScore },
+              { label: 'Pages Analyzed', value: report.pagesAnalyzed },
+              { label: 'Pages Failed', value: report.pagesFailed },
+            ].map((stat) => (
+              <Card key={stat.label} className="p-5">
+                <p className="text-[10px] font-black uppercase tracking-widest text-gray-500">
+                  {stat.label}
+                </p>
+                <p className="mt-1 text-2xl font-black text-white">{stat.value ?? '—'}</p>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            {/* Worst pages */}
+            <Card className="p-6">
+              <h2 className="mb-4 text-lg font-bold text-white">Worst Pages</h2>
+              <div className="space-y-2">
+                {report.worstPages.map((p) => (
+                  <div
+                    key={p.url}
+                    className="flex items-center justify-between gap-3 rounded-lg border border-gray-800/50 bg-gray-900/30 px-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium text-gray-200">
+                        {p.title ?? p.url}
+                      </p>
+                      <p className="truncate text-xs text-gray-600">{p.url}</p>
+                    </div>
+                    <span className={cn('text-lg font-black', scoreColor(p.visibilityScore))}>
+                      {p.visibilityScore}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+
+            {/* Common issues */}
+            <Card className="p-6">
+              <h2 className="mb-4 text-lg font-bold text-white">Common Issues</h2>
+              {report.commonIssues.length === 0 ? (
+                <p className="text-sm text-gray-600">Every page passes the on-page audit.</p>
+              ) : (
+                <div className="space-y-2">
+                  {report.commonIssues.map((issue) => (
+                    <div
+                      key={issue.id}
+                      className="rounded-lg border border-gray-800/50 bg-gray-900/30 px-3 py-2.5"
+                    >
+                      <div className="flex items-center justify-between gap-3">
+                        <span className="text-sm font-medium text-gray-200">{issue.label}</span>
+                        <Badge variant="danger">
+                          {issue.failedPages} pages · {Math.round(issue.share * 100)}%
+                        </Badge>
+                      </div>
+                      <p className="mt-1 text-xs text-amber-400/90">{issue.recommendation}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+          </div>
+        </>
+      )}
+
+      {/* Per-page scores */}
+      {pages.length > 0 && (
+        <Card className="overflow-x-auto p-6">
+          <h2 className="mb-4 text-lg font-bold text-white">Pages</h2>
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="text-[10px] font-black uppercase tracking-widest text-gray-500">
+                <th className="pb-2">Page</th>
+                <th className="pb-2 text-right">Visibility</th>
+                <th className="pb-2 text-right">Audit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pages.map((p) => (
+                <tr key={p.id} className="border-t border-gray-800/60">
+                  <td className="max-w-md py-2 pr-3">
+                    <p className="truncate text-gray-200">{p.title ?? p.url}</p>
+                    <p className="truncate text-xs text-gray-600">
+                      {p.status === 'failed' ? p.error : p.url}
+                    </p>
+                  </td>
+                  <td className={cn('py-2 text-right font-bold', scoreColor(p.visibility_score))}>
+                    {p.visibility_score ?? '—'}
+                  </td>
+                  <td className={cn('py-2 text-right font-bold', scoreColor(p.audit_score))}>
+                    {p.audit_score ?? '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+      )}
+    </div>
+  )
+}
+
 // ─── Keyword Row ──────────────────────────────────────────────────────────────
 
 function KeywordRow({ kw }: { kw: { word: string; impact: number; difficulty: number } }) {
@@ -137,16 +508,24 @@ function KeywordRow({ kw }: { kw: { word: string; impact: number; difficulty: nu
 
 export default function OptimizerPage() {
   const [input, setInput] = useState('')
-  const [mode, setMode] = useState<'text' | 'url'>('text')
+  const [mode, setMode] = useState<AnalysisMode>('text')
+  const [maxPages, setMaxPages] = useState(10)
+  const [crawlId, setCrawlId] = useState<string | null>(null)
   const [engine, setEngine] = useState<EngineId>('all')
   const [model, setModel] = useState<ModelId>('default')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [result, setResult] = useState<AnalysisResult | null>(null)
+  const [rewriteEngine, setRewriteEngine] = useState<EngineId>('all')
+  const [rewriting, setRewriting] = useState(false)
+  const [rewriteError, setRewriteError] = useState<string | null>(null)
+  const [rewrite, setRewrite] = useState<RewriteResult | null>(null)
   const { value: showDetails, toggle: toggleDetails } = useToggle(false)
 
   const { copied, copy } = useClipboard()
   const addScan = useAppStore((s) => s.addScan)
+  const { crawl, error: crawlError } = useSiteCrawl(crawlId)
+  const crawling = crawl?.status === 'queued' || crawl?.status === 'running'
 
   const { radarData } = useKeywordAnalysis(
     result?.keywords ?? [],
@@ -159,6 +538,28 @@ export default function OptimizerPage() {
     setLoading(true)
     setError(null)
     setResult(null)
+    setRewrite(null)
+    setRewriteError(null)
+
+    // Site mode starts a background crawl; useSiteCrawl polls its progress
+    if (mode === 'site') {
+      try {
+        const res = await fetch('/api/crawls', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ url: input.trim(), maxPages, engine, model }),
+        })
+        const json = (await res.json()) as { success: boolean; data?: SiteCrawl; message?: string }
+        if (!json.success || !json.data)
+          throw new Error(json.message ?? 'Could not start the crawl')
+        setCrawlId(json.data.id)
+      } catch (err: unknown) {
+        setError(err instanceof Error ? err.message : 'Something went wrong')
+      } finally {
+        setLoading(false)
+      }
+      return
+    }
 
     try {
       const res = await fetch('/api/analyze', {
@@ -178,13 +579,47 @@ export default function OptimizerPage() {
       }
 
       setResult(json.data)
+      setRewriteEngine(engine)
       addScan(json.data, engine, model)
     } catch (err: unknown) {
       setError(err instanceof Error ? err.message : 'Something went wrong')
     } finally {
       setLoading(false)
     }
-  }, [input, mode, engine, model, addScan])
+  }, [input, mode, maxPages, engine, model, addScan])
+
+  // Rewrites the analyzed content (not the current input, which may have changed since)
+  const handleRewrite = useCallback(async () => {
+    if (!result) return
+    setRewriting(true)
+    setRewriteError(null)
+    setRewrite(null)
+
+    try {
+      const res = await fetch('/api/rewrite', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          input: result.source,
+          mode: result.type,
+          engine: rewriteEngine,
+          model,
+          suggestions: result.suggestions.slice(0, 10),
+        }),
+      })
+      const json = (await res.json()) as {
+        success: boolean
+        data?: RewriteResult
+        message?: string
+      }
+      if (!json.success || !json.data) throw new Error(json.message ?? 'Rewrite failed')
+      setRewrite(json.data)
+    } catch (err: unknown) {
+      setRewriteError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setRewriting(false)
+    }
+  }, [result, rewriteEngine, model])
 
   const charCount = input.length
   const charLimit = 15000
@@ -203,7 +638,7 @@ export default function OptimizerPage() {
       <Card className="p-6">
         {/* Mode Toggle */}
         <div className="mb-6 flex items-center gap-2">
-          {(['text', 'url'] as const).map((m) => (
+          {(['text', 'url', 'site'] as const).map((m) => (
             <button
               key={m}
               className={cn(
@@ -214,8 +649,14 @@ export default function OptimizerPage() {
               )}
               onClick={() => setMode(m)}
             >
-              {m === 'text' ? <FileSearch className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}
-              {m === 'text' ? 'Paste Text' : 'Analyze URL'}
+              {m === 'text' ? (
+                <FileSearch className="h-4 w-4" />
+              ) : m === 'url' ? (
+                <Link2 className="h-4 w-4" />
+              ) : (
+                <Globe className="h-4 w-4" />
+              )}
+              {m === 'text' ? 'Paste Text' : m === 'url' ? 'Analyze URL' : 'Crawl Site'}
             </button>
           ))}
         </div>
@@ -245,8 +686,12 @@ export default function OptimizerPage() {
         ) : (
           <input
             className="w-full rounded-xl border border-gray-800 bg-black/40 px-4 py-3 text-sm text-white placeholder-gray-600 outline-none transition-all focus:border-brand-500 focus:ring-1 focus:ring-brand-500"
-            placeholder="https://example.com/your-page"
-            type="url"
+            placeholder={
+              mode === 'url'
+                ? 'https://example.com/your-page'
+                : 'example.com or https://example.com/sitemap.xml'
+            }
+            type={mode === 'url' ? 'url' : 'text'}
             value={input}
             onChange={(e) => setInput(e.target.value)}
           />
@@ -295,15 +740,41 @@ export default function OptimizerPage() {
             </select>
           </div>
 
+          {/* Pages per crawl */}
+          {mode === 'site' && (
+            <div className="space-y-1">
+              <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">
+                Max Pages
+              </label>
+              <select
+                className="rounded-xl border border-gray-800 bg-black/40 px-3 py-2 text-sm text-white outline-none focus:border-brand-500"
+                value={maxPages}
+                onChange={(e) => setMaxPages(Number(e.target.value))}
+              >
+                {MAX_PAGES_OPTIONS.map((n) => (
+                  <option key={n} value={n}>
+                    {n} pages
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <Button
             className="sm:w-48"
-            disabled={!input.trim()}
+            disabled={!input.trim() || (mode === 'site' && crawling)}
             loading={loading}
             size="lg"
             onClick={handleAnalyze}
           >
             <Sparkles className="h-5 w-5" />
-            {loading ? 'Analyzing...' : 'Analyze'}
+            {mode === 'site'
+              ? crawling
+                ? 'Crawling...'
+                : 'Start Crawl'
+              : loading
+                ? 'Analyzing...'
+                : 'Analyze'}
           </Button>
         </div>
 
@@ -316,8 +787,16 @@ export default function OptimizerPage() {
         )}
       </Card>
 
+      {/* Site crawl */}
+      {mode === 'site' && crawlError && !crawl && (
+        <Card className="border-red-500/20 bg-red-500/10 p-4 text-sm text-red-400">
+          {crawlError}
+        </Card>
+      )}
+      {mode === 'site' && crawl && <SiteCrawlPanel crawl={crawl} />}
+
       {/* Results */}
-      {result && (
+      {result && mode !== 'site' && (
         <div className="animate-in space-y-6">
           {/* Top row: score + summary */}
           <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
@@ -327,6 +806,19 @@ export default function OptimizerPage() {
               <p className="mt-4 text-center text-sm font-semibold text-gray-400">
                 Overall Visibility Score
               </p>
+              {result.generatedBy && (
+                <p
+                  className="mt-1 text-center text-[10px] text-gray-600"
+                  title={
+                    result.generatedBy.fallback
+                      ? 'The selected model was unavailable; the default chain answered'
+                      : undefined
+                  }
+                >
+                  Analyzed by {result.generatedBy.model}
+                  {result.generatedBy.fallback && ' (fallback)'}
+                </p>
+              )}
               <div className="mt-4 flex gap-2">
                 <Button
                   size="sm"
@@ -401,6 +893,9 @@ export default function OptimizerPage() {
             </div>
           </div>
 
+          {/* Rule-based audit (older scans in the history have none) */}
+          {result.audit && <AuditCard audit={result.audit} />}
+
           {/* Keywords + Radar */}
           <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
             {/* Keywords */}
@@ -493,7 +988,35 @@ export default function OptimizerPage() {
                 </div>
               ))}
             </div>
+
+            {/* Rewrite for an engine */}
+            <div className="mt-6 flex flex-col gap-3 border-t border-gray-800 pt-5 sm:flex-row sm:items-center">
+              <span className="text-sm text-gray-400">Rewrite applying these suggestions for</span>
+              <div className="flex flex-1 flex-wrap gap-2">
+                {ENGINES.map((e) => (
+                  <button
+                    key={e.id}
+                    className={cn(
+                      'rounded-lg border px-3 py-1.5 text-xs font-bold transition-all',
+                      rewriteEngine === e.id
+                        ? 'border-brand-500/50 bg-brand-500/15 text-brand-400'
+                        : 'border-gray-800 text-gray-500 hover:border-gray-600 hover:text-gray-300',
+                    )}
+                    onClick={() => setRewriteEngine(e.id)}
+                  >
+                    {e.label}
+                  </button>
+                ))}
+              </div>
+              <Button loading={rewriting} onClick={handleRewrite}>
+                <Wand2 className="h-4 w-4" />
+                {rewriting ? 'Rewriting...' : 'Rewrite'}
+              </Button>
+            </div>
+            {rewriteError && <p className="mt-3 text-sm text-red-400">{rewriteError}</p>}
           </Card>
+
+          {rewrite && <RewritePanel before={result} rewrite={rewrite} />}
         </div>
       )}
     </div>
@@ -1,7 +1,8 @@
 'use client'
 
+import { useEffect, useState } from 'react'
 import Link from 'next/link'
-import { Globe, Zap, ShieldCheck, Activity, ArrowRight, FileSearch, GitCompare, Clock } from 'lucide-react'
+import { Globe, ShieldCheck, MessageSquare, Activity, ArrowRight, FileSearch, GitCompare, Clock, Loader2 } from 'lucide-react'
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid,
   Tooltip, ResponsiveContainer,
@@ -9,24 +10,10 @@ import {
 import { Card } from '@/components/ui/Card'
 import { Badge } from '@/components/ui/index'
 import { Button } from '@/components/ui/Button'
-import { useAppStore } from '@/lib/store'
+import { useAnalytics } from '@/hooks'
+import { getEngineColor, getEngineLabel } from '@/lib/engine-catalog'
 import { cn } from '@/lib/utils'
-
-const GROWTH_DATA = [
-  { month: 'Sep', visibility: 52, citations: 320 },
-  { month: 'Oct', visibility: 58, citations: 440 },
-  { month: 'Nov', visibility: 61, citations: 520 },
-  { month: 'Dec', visibility: 67, citations: 680 },
-  { month: 'Jan', visibility: 74, citations: 890 },
-  { month: 'Feb', visibility: 84, citations: 1240 },
-]
-
-const ENGINE_STATS = [
-  { name: 'ChatGPT', score: 89, color: '#10b981' },
-  { name: 'Gemini', score: 74, color: '#3b82f6' },
-  { name: 'Perplexity', score: 82, color: '#a855f7' },
-  { name: 'Claude', score: 91, color: '#f97316' },
-]
+import type { Brand } from '@/types'
 
 const QUICK_ACTIONS = [
   { label: 'Analyze Content', href: '/dashboard/optimizer', icon: FileSearch, desc: 'Run a new AIO audit' },
@@ -34,28 +21,77 @@ const QUICK_ACTIONS = [
   { label: 'View History', href: '/dashboard/history', icon: Clock, desc: 'Browse past scans' },
 ]
 
+// Change versus the previous period, in the metric's own unit
+function delta(current: number | null, previous: number | null): number | null {
+  return current === null || previous === null ? null : Math.round((current - previous) * 10) / 10
+}
+
 export default function DashboardPage() {
-  const scanHistory = useAppStore((s) => s.scanHistory)
-  const scanCount = scanHistory.length
+  const [brands, setBrands] = useState<Brand[]>([])
+  const [selectedBrand, setSelectedBrand] = useState('')
+  const [days, setDays] = useState(30)
+  const { summary, loading, error } = useAnalytics(selectedBrand, days)
+
+  useEffect(() => {
+    fetch('/api/brands')
+      .then((r) => r.json())
+      .then((json: { success: boolean; data?: Brand[] }) => setBrands(json.data ?? []))
+      .catch(() => setBrands([]))
+  }, [])
 
-  const avgScore = scanCount > 0
-    ? Math.round(scanHistory.reduce((a, s) => a + s.visibilityScore, 0) / scanCount)
-    : 84
+  const totals = summary?.totals
+  const previous = summary?.previous
+  const mentionRate = totals?.mentionRate ?? null
 
   const stats = [
-    { title: 'AI Visibility', value: `${avgScore}%`, change: 12, icon: Globe, accent: 'text-brand-400', bg: 'bg-brand-500/10' },
-    { title: 'Scans Run', value: scanCount || '0', change: scanCount, icon: Zap, accent: 'text-emerald-400', bg: 'bg-emerald-500/10' },
-    { title: 'AEO Authority', value: '91/100', change: 5, icon: ShieldCheck, accent: 'text-blue-400', bg: 'bg-blue-500/10' },
-    { title: 'Avg. Position', value: '#2.4', change: -0.3, icon: Activity, accent: 'text-purple-400', bg: 'bg-purple-500/10' },
+    { title: 'Health Score', value: totals?.healthScore ?? null, suffix: '/100', change: delta(totals?.healthScore ?? null, previous?.healthScore ?? null), icon: ShieldCheck, accent: 'text-blue-400', bg: 'bg-blue-500/10' },
+    { title: 'AI Visibility', value: totals?.visibility ?? null, suffix: '%', change: delta(totals?.visibility ?? null, previous?.visibility ?? null), icon: Globe, accent: 'text-brand-400', bg: 'bg-brand-500/10' },
+    { title: 'Mention Rate', value: mentionRate === null ? null : Math.round(mentionRate * 100), suffix: '%', change: delta(mentionRate === null ? null : mentionRate * 100, previous?.mentionRate == null ? null : previous.mentionRate * 100), icon: MessageSquare, accent: 'text-emerald-400', bg: 'bg-emerald-500/10' },
+    // Lower is better: a negative change is an improvement
+    { title: 'Avg. Position', value: totals?.avgPosition ?? null, prefix: '#', change: delta(totals?.avgPosition ?? null, previous?.avgPosition ?? null), inverse: true, icon: Activity, accent: 'text-purple-400', bg: 'bg-purple-500/10' },
   ]
 
+  const chartData = (summary?.daily ?? []).map((d) => ({
+    date: d.date.slice(5),
+    visibility: d.visibility_score,
+    health: d.health_score,
+  }))
+
   return (
     <div className="animate-in space-y-8">
-      <div className="flex flex-col gap-1">
-        <h1 className="text-3xl font-black tracking-tight text-white">Overview</h1>
-        <p className="text-gray-400">Your AI search visibility performance at a glance.</p>
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex flex-col gap-1">
+          <h1 className="text-3xl font-black tracking-tight text-white">Overview</h1>
+          <p className="text-gray-400">Your AI search visibility performance at a glance.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            className="rounded-xl border border-gray-800 bg-black/40 px-3 py-2 text-xs text-white outline-none focus:border-brand-500"
+            value={selectedBrand}
+            onChange={(e) => setSelectedBrand(e.target.value)}
+          >
+            <option value="">All brands</option>
+            {brands.map((b) => <option key={b.id} value={b.id}>{b.name}</option>)}
+          </select>
+          {[7, 30, 90].map((d) => (
+            <button
+              key={d}
+              className={cn(
+                'rounded-xl border px-3 py-2 text-xs font-bold transition-all',
+                days === d ? 'border-brand-500/50 bg-brand-500/15 text-brand-400' : 'border-gray-800 text-gray-500 hover:text-gray-300',
+              )}
+              onClick={() => setDays(d)}
+            >
+              {d}d
+            </button>
+          ))}
+        </div>
       </div>
 
+      {error && (
+        <Card className="border-red-500/20 bg-red-500/10 p-4 text-sm text-red-400">{error}</Card>
+      )}
+
       {/* KPIs */}
       <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 xl:grid-cols-4">
         {stats.map((stat) => (
@@ -64,12 +100,16 @@ export default function DashboardPage() {
               <div className={`${stat.bg} rounded-lg p-2.5`}>
                 <stat.icon className={`h-5 w-5 ${stat.accent}`} />
               </div>
-              <Badge variant={stat.change >= 0 ? 'success' : 'danger'}>
-                {stat.change > 0 ? '+' : ''}{stat.change}{typeof stat.change === 'number' && Math.abs(stat.change) < 10 ? '%' : ''}
-              </Badge>
+              {stat.change !== null && stat.change !== 0 && (
+                <Badge variant={(stat.change > 0) !== !!stat.inverse ? 'success' : 'danger'}>
+                  {stat.change > 0 ? '+' : ''}{stat.change}
+                </Badge>
+              )}
             </div>
             <p className="text-sm font-medium text-gray-400">{stat.title}</p>
-            <p className="mt-1 text-2xl font-black text-white">{stat.value}</p>
+            <p className="mt-1 text-2xl font-black text-white">
+              {loading && !summary ? <Loader2 className="h-6 w-6 animate-spin text-gray-600" /> : stat.value === null ? '—' : `${stat.prefix ?? ''}${stat.value}${stat.suffix ?? ''}`}
+            </p>
           </Card>
         ))}
       </div>
@@ -78,59 +118,69 @@ export default function DashboardPage() {
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
         <Card className="lg:col-span-2 p-6">
           <div className="mb-6 flex items-center justify-between">
-            <h2 className="text-lg font-bold text-white">Visibility Growth</h2>
+            <h2 className="text-lg font-bold text-white">Visibility Trend</h2>
             <Link href="/dashboard/analytics">
               <Button size="sm" variant="ghost">
                 Full analytics <ArrowRight className="h-3.5 w-3.5" />
               </Button>
             </Link>
           </div>
-          <ResponsiveContainer height={240} width="100%">
-            <LineChart data={GROWTH_DATA}>
-              <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" />
-              <XAxis dataKey="month" tick={{ fontSize: 11, fill: '#6b7280' }} />
-              <YAxis tick={{ fontSize: 11, fill: '#6b7280' }} />
-              <Tooltip
-                contentStyle={{ background: '#0f172a', border: '1px solid #1f2937', borderRadius: 8 }}
-                labelStyle={{ color: '#e2e8f0' }}
-              />
-              <Line dataKey="visibility" dot={false} name="AI Visibility" stroke="#6366f1" strokeWidth={2.5} type="monotone" />
-              <Line dataKey="citations" dot={false} name="Citations" stroke="#10b981" strokeWidth={2} type="monotone" />
-            </LineChart>
-          </ResponsiveContainer>
+          {chartData.length === 0 ? (
+            <p className="py-20 text-center text-sm text-gray-600">
+              No monitoring data in this period — run your prompts to start tracking.
+            </p>
+          ) : (
+            <ResponsiveContainer height={240} width="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 11, fill: '#6b7280' }} />
+                <YAxis domain={[0, 100]} tick={{ fontSize: 11, fill: '#6b7280' }} />
+                <Tooltip
+                  contentStyle={{ background: '#0f172a', border: '1px solid #1f2937', borderRadius: 8 }}
+                  labelStyle={{ color: '#e2e8f0' }}
+                />
+                <Line connectNulls dataKey="visibility" dot={false} name="AI Visibility" stroke="#6366f1" strokeWidth={2.5} type="monotone" />
+                <Line connectNulls dataKey="health" dot={false} name="Health Score" stroke="#10b981" strokeWidth={2} type="monotone" />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
         </Card>
 
         <Card className="p-6">
           <h2 className="mb-6 text-lg font-bold text-white">Engine Scores</h2>
-          <div className="space-y-5">
-            {ENGINE_STATS.map((engine) => (
-              <div key={engine.name}>
-                <div className="mb-1.5 flex justify-between text-sm font-medium">
-                  <span className="text-gray-300">{engine.name}</span>
-                  <span className="font-bold text-white">{engine.score}%</span>
-                </div>
-                <div className="h-1.5 w-full overflow-hidden rounded-full bg-gray-800">
-                  <div
-                    className="h-full rounded-full transition-all duration-700"
-                    style={{ width: `${engine.score}%`, backgroundColor: engine.color }}
-                  />
+          {(summary?.byEngine ?? []).length === 0 ? (
+            <p className="text-sm text-gray-600">No engine data yet.</p>
+          ) : (
+            <div className="space-y-5">
+              {summary!.byEngine.map((engine) => (
+                <div key={engine.engine}>
+                  <div className="mb-1.5 flex justify-between text-sm font-medium">
+                    <span className="text-gray-300">{getEngineLabel(engine.engine)}</span>
+                    <span className="font-bold text-white">{Math.round(engine.health_score)}</span>
+                  </div>
+                  <div className="h-1.5 w-full overflow-hidden rounded-full bg-gray-800">
+                    <div
+                      className="h-full rounded-full transition-all duration-700"
+                      style={{ width: `${engine.health_score}%`, backgroundColor: getEngineColor(engine.engine) }}
+                    />
+                  </div>
                 </div>
-              </div>
-            ))}
-          </div>
+              ))}
+            </div>
+          )}
 
           {/* Recent scans */}
-          {scanCount > 0 && (
+          {(summary?.recentScans ?? []).length > 0 && (
             <div className="mt-6 border-t border-gray-800 pt-5">
               <p className="mb-3 text-[10px] font-black uppercase tracking-widest text-gray-500">Recent Scans</p>
               <div className="space-y-2">
-                {scanHistory.slice(0, 3).map((s) => (
+                {summary!.recentScans.slice(0, 3).map((s) => (
                   <div key={s.id} className="flex items-center justify-between rounded-lg border border-gray-800 bg-gray-900/40 px-3 py-2">
                     <p className="max-w-[120px] truncate text-xs text-gray-300">{s.source}</p>
                     <span className={cn(
                       'text-xs font-bold',
-                      s.visibilityScore >= 80 ? 'text-emerald-400' : s.visibilityScore >= 50 ? 'text-brand-400' : 'text-red-400',
-                    )}>{s.visibilityScore}</span>
+                      s.visibility_score >= 80 ? 'text-emerald-400' : s.visibility_score >= 50 ? 'text-brand-400' : 'text-red-400',
+                    )}>{s.visibility_score}</span>
                   </div>
                 ))}
               </div>
@@ -7,6 +7,7 @@ import { Card } from '@/components/ui/Card'
 import { Button } from '@/components/ui/Button'
 import { Badge } from '@/components/ui/index'
 import { formatRelativeTime, cn } from '@/lib/utils'
+import { DEFAULT_PROMPT_ENGINES, ENGINE_CATALOG, getEngineLabel } from '@/lib/engine-catalog'
 import toast from 'react-hot-toast'
 import type { Brand, Prompt, MonitoringEngine } from '@/types'
 
@@ -52,7 +53,7 @@ function PromptCard({
             <Badge variant="default">{prompt.language}</Badge>
             {prompt.engines.map((e) => (
               <Badge key={e} variant="default">
-                {e}
+                {getEngineLabel(e)}
               </Badge>
             ))}
           </div>
@@ -80,7 +81,10 @@ function PromptCard({
           <Clock className="h-3 w-3" />
           {prompt.last_run_at ? `Last run ${formatRelativeTime(prompt.last_run_at)}` : 'Never run'}
         </div>
-        <span className="capitalize">{prompt.run_frequency} schedule</span>
+        <span className="capitalize">
+          {prompt.run_frequency} schedule
+          {prompt.sample_count > 1 && ` · ×${prompt.sample_count} samples`}
+        </span>
       </div>
     </Card>
   )
@@ -99,9 +103,10 @@ function PromptsPageContent() {
   const [form, setForm] = useState({
     text: '',
     category: 'awareness' as Prompt['category'],
-    engines: ['chatgpt', 'gemini', 'perplexity'] as MonitoringEngine[],
+    engines: DEFAULT_PROMPT_ENGINES,
     language: 'en',
     run_frequency: 'daily' as Prompt['run_frequency'],
+    sample_count: 1,
   })
   const [creating, setCreating] = useState(false)
 
@@ -146,9 +151,10 @@ function PromptsPageContent() {
       setForm({
         text: '',
         category: 'awareness',
-        engines: ['chatgpt', 'gemini', 'perplexity'],
+        engines: DEFAULT_PROMPT_ENGINES,
         language: 'en',
         run_frequency: 'daily',
+        sample_count: 1,
       })
       toast.success('Prompt created')
     } catch (err) {
@@ -300,7 +306,7 @@ function PromptsPageContent() {
               />
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-3 gap-4">
               <div>
                 <label className="mb-2 block text-xs font-bold uppercase tracking-widest text-gray-500">
                   Category
@@ -341,14 +347,31 @@ function PromptsPageContent() {
                   ))}
                 </select>
               </div>
+
+              <div>
+                <label className="mb-2 block text-xs font-bold uppercase tracking-widest text-gray-500">
+                  Samples per Run
+                </label>
+                <select
+                  className="w-full rounded-xl border border-gray-800 bg-black/40 px-4 py-3 text-sm text-white outline-none focus:border-brand-500"
+                  value={form.sample_count}
+                  onChange={(e) => setForm((f) => ({ ...f, sample_count: Number(e.target.value) }))}
+                >
+                  {[1, 3, 5, 10].map((n) => (
+                    <option key={n} value={n}>
+                      {n === 1 ? '1 (single answer)' : `${n} (with confidence intervals)`}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
 
             <div>
               <label className="mb-2 block text-xs font-bold uppercase tracking-widest text-gray-500">
                 Engines to Monitor
               </label>
-              <div className="flex gap-2">
-                {(['chatgpt', 'gemini', 'perplexity'] as MonitoringEngine[]).map((engine) => (
+              <div className="flex flex-wrap gap-2">
+                {ENGINE_CATALOG.map(({ id: engine, label }) => (
                   <button
                     key={engine}
                     className={cn(
@@ -359,7 +382,7 @@ function PromptsPageContent() {
                     )}
                     onClick={() => toggleEngine(engine)}
                   >
-                    {engine}
+                    {label}
                   </button>
                 ))}
               </div>
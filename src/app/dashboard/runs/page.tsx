@@ -0,0 +1,342 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  History,
+  ChevronDown,
+  ChevronUp,
+  Loader2,
+  RefreshCw,
+  RotateCcw,
+  CheckCircle2,
+  XCircle,
+  Timer,
+  Cpu,
+} from 'lucide-react'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Badge } from '@/components/ui/index'
+import { formatRelativeTime, formatNumber, cn } from '@/lib/utils'
+import toast from 'react-hot-toast'
+import type { Brand, MonitoringRun, MonitoringRunStatus } from '@/types'
+
+const STATUS_VARIANT: Record<MonitoringRunStatus, 'success' | 'warning' | 'danger' | 'info'> = {
+  completed: 'success',
+  partial: 'warning',
+  failed: 'danger',
+  running: 'info',
+}
+
+const TRIGGER_LABEL: Record<string, string> = {
+  manual: 'Manual',
+  scheduler: 'Scheduled',
+  retry: 'Retry',
+}
+
+function formatMs(ms: number | null | undefined): string {
+  if (ms == null) return '—'
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`
+}
+
+function RunCard({
+  run,
+  retrying,
+  onRetry,
+}: {
+  run: MonitoringRun
+  retrying: boolean
+  onRetry: (id: string) => void
+}) {
+  const [expanded, setExpanded] = useState(false)
+  const items = run.items ?? []
+  const totalTokens = items.reduce((a, i) => a + i.total_tokens, 0)
+
+  return (
+    <div className="rounded-2xl border border-gray-800 bg-gray-900/40 transition-all hover:border-gray-700">
+      <div className="flex items-center gap-4 p-4">
+        <div
+          className="h-10 w-1.5 shrink-0 rounded-full"
+          style={{ background: run.brand?.color ?? '#6366f1' }}
+        />
+
+        <div className="min-w-0 flex-1">
+          <div className="mb-1 flex flex-wrap items-center gap-2">
+            <Badge dot variant={STATUS_VARIANT[run.status]}>
+              {run.status}
+            </Badge>
+            <Badge variant="default">{TRIGGER_LABEL[run.trigger] ?? run.trigger}</Badge>
+            {run.brand && <Badge variant="brand">{run.brand.name}</Badge>}
+            <span className="text-xs text-gray-500">
+              {run.engines_succeeded.length}/{run.engines_requested.length} engines
+            </span>
+          </div>
+          <p className="truncate text-xs text-gray-500">"{run.prompt?.text ?? run.prompt_id}"</p>
+        </div>
+
+        <div className="hidden shrink-0 items-center gap-5 text-xs text-gray-500 sm:flex">
+          <span className="flex items-center gap-1.5">
+            <Timer className="h-3.5 w-3.5" />
+            {formatMs(run.duration_ms)}
+          </span>
+          <span className="flex items-center gap-1.5">
+            <Cpu className="h-3.5 w-3.5" />
+            {formatNumber(totalTokens)} tok
+          </span>
+          <span>{formatRelativeTime(run.started_at)}</span>
+        </div>
+
+        {run.engines_failed.length > 0 && (
+          <Button
+            disabled={retrying}
+            loading={retrying}
+            size="sm"
+            variant="outline"
+            onClick={() => onRetry(run.id)}
+          >
+            {!retrying && <RotateCcw className="h-3.5 w-3.5 text-amber-400" />}
+            Retry failed
+          </Button>
+        )}
+
+        <button
+          className="ml-2 text-gray-600 hover:text-gray-300"
+          onClick={() => setExpanded((v) => !v)}
+        >
+          {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="animate-in border-t border-gray-800 px-4 pb-4 pt-3">
+          {items.length === 0 ? (
+            <p className="text-xs text-gray-600">No engine details recorded for this run.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-xs">
+                <thead>
+                  <tr className="text-[10px] font-black uppercase tracking-widest text-gray-600">
+                    <th className="pb-2 pr-4">Engine</th>
+                    <th className="pb-2 pr-4">Status</th>
+                    <th className="pb-2 pr-4">Simulation</th>
+                    <th className="pb-2 pr-4">Analysis</th>
+                    <th className="pb-2 pr-4">Latency</th>
+                    <th className="pb-2 pr-4">Tokens</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800/60">
+                  {items.map((item) => (
+                    <tr key={item.id} className="align-top text-gray-400">
+                      <td className="py-2 pr-4 font-bold capitalize text-gray-200">{item.engine}</td>
+                      <td className="py-2 pr-4">
+                        {item.status === 'succeeded' ? (
+                          <CheckCircle2 className="h-4 w-4 text-emerald-400" />
+                        ) : (
+                          <XCircle className="h-4 w-4 text-red-400" />
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <p className="font-mono">{item.simulation_provider ?? '—'}</p>
+                        <p className="text-gray-600">{formatMs(item.simulation_latency_ms)}</p>
+                      </td>
+                      <td className="py-2 pr-4">
+                        <p className="font-mono">{item.analysis_provider ?? '—'}</p>
+                        <p className="text-gray-600">{formatMs(item.analysis_latency_ms)}</p>
+                      </td>
+                      <td className="py-2 pr-4">{formatMs(item.latency_ms)}</td>
+                      <td className="py-2 pr-4">
+                        {item.total_tokens > 0
+                          ? `${item.prompt_tokens} / ${item.completion_tokens}`
+                          : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {items
+                .filter((i) => i.error)
+                .map((i) => (
+                  <div
+                    key={`${i.id}-error`}
+                    className="mt-3 rounded-lg border border-red-500/20 bg-red-500/5 px-3 py-2 text-xs"
+                  >
+                    <span className="font-bold capitalize text-red-400">{i.engine}:</span>{' '}
+                    <span className="break-words text-red-300">{i.error}</span>
+                  </div>
+                ))}
+            </div>
+          )}
+          {run.retry_of && (
+            <p className="mt-3 text-[10px] text-gray-700">Retry of run {run.retry_of}</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function RunsPage() {
+  const [brands, setBrands] = useState<Brand[]>([])
+  const [runs, setRuns] = useState<MonitoringRun[]>([])
+  const [loading, setLoading] = useState(true)
+  const [retryingId, setRetryingId] = useState<string | null>(null)
+  const [selectedBrand, setSelectedBrand] = useState('')
+  const [selectedStatus, setSelectedStatus] = useState('')
+  const [page, setPage] = useState(1)
+  const [pagination, setPagination] = useState({ total: 0, page: 1, totalPages: 1 })
+
+  const loadData = useCallback(async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: '20' })
+      if (selectedBrand) params.set('brand_id', selectedBrand)
+      if (selectedStatus) params.set('status', selectedStatus)
+
+      const [brandsRes, runsRes] = await Promise.all([
+        fetch('/api/brands'),
+        fetch(`/api/monitoring/runs?${params.toString()}`),
+      ])
+      const bJson = (await brandsRes.json()) as { success: boolean; data?: Brand[] }
+      const rJson = (await runsRes.json()) as {
+        success: boolean
+        data?: MonitoringRun[]
+        pagination?: typeof pagination
+      }
+      setBrands(bJson.data ?? [])
+      setRuns(rJson.data ?? [])
+      if (rJson.pagination) setPagination(rJson.pagination)
+    } catch {
+      toast.error('Failed to load run history')
+    } finally {
+      setLoading(false)
+    }
+  }, [page, selectedBrand, selectedStatus])
+
+  useEffect(() => {
+    void loadData()
+  }, [loadData])
+
+  const handleRetry = async (runId: string) => {
+    setRetryingId(runId)
+    try {
+      const res = await fetch(`/api/monitoring/runs/${runId}`, { method: 'POST' })
+      const json = await res.json()
+      if (!json.success) throw new Error(json.message)
+      toast.success(json.message ?? 'Retry complete')
+      void loadData()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Retry failed')
+    } finally {
+      setRetryingId(null)
+    }
+  }
+
+  return (
+    <div className="animate-in space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-black tracking-tight text-white">Run History</h1>
+          <p className="mt-1 text-gray-400">
+            Every monitoring run with providers, latency and token usage per engine.
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadData}>
+          <RefreshCw className={cn('h-4 w-4', loading && 'animate-spin')} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card className="flex flex-wrap items-center gap-3 p-4">
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-600">Brand:</span>
+          <select
+            className="rounded-xl border border-gray-800 bg-black/40 px-3 py-1.5 text-xs text-white outline-none focus:border-brand-500"
+            value={selectedBrand}
+            onChange={(e) => {
+              setSelectedBrand(e.target.value)
+              setPage(1)
+            }}
+          >
+            <option value="">All brands</option>
+            {brands.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-600">Status:</span>
+          {['', 'completed', 'partial', 'failed'].map((s) => (
+            <button
+              key={s}
+              className={cn(
+                'rounded-xl border px-3 py-1.5 text-xs font-bold transition-all',
+                selectedStatus === s
+                  ? 'border-brand-500/50 bg-brand-500/15 text-brand-400'
+                  : 'border-gray-800 text-gray-500 hover:text-gray-300',
+              )}
+              onClick={() => {
+                setSelectedStatus(s)
+                setPage(1)
+              }}
+            >
+              {s || 'All'}
+            </button>
+          ))}
+        </div>
+      </Card>
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-brand-400" />
+        </div>
+      ) : runs.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-24 text-center">
+          <History className="mb-4 h-16 w-16 text-gray-800" />
+          <h2 className="mb-2 text-xl font-bold text-white">No runs yet</h2>
+          <p className="text-gray-500">
+            Runs appear here when a prompt is run manually or by the scheduler.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="space-y-3">
+            {runs.map((run) => (
+              <RunCard
+                key={run.id}
+                retrying={retryingId === run.id}
+                run={run}
+                onRetry={handleRetry}
+              />
+            ))}
+          </div>
+
+          {pagination.totalPages > 1 && (
+            <div className="flex items-center justify-center gap-3 text-xs text-gray-500">
+              <Button
+                disabled={page <= 1}
+                size="sm"
+                variant="outline"
+                onClick={() => setPage((p) => p - 1)}
+              >
+                Previous
+              </Button>
+              <span>
+                Page {pagination.page} of {pagination.totalPages}
+              </span>
+              <Button
+                disabled={page >= pagination.totalPages}
+                size="sm"
+                variant="outline"
+                onClick={() => setPage((p) => p + 1)}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
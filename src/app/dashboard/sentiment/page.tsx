@@ -15,6 +15,7 @@ import {
 import { Card } from '@/components/ui/Card'
 import { Button } from '@/components/ui/Button'
 import { cn } from '@/lib/utils'
+import { getEngineColor } from '@/lib/engine-catalog'
 import toast from 'react-hot-toast'
 import type { Brand } from '@/types'
 
@@ -64,12 +65,6 @@ const SENTIMENT_CONFIG = {
   },
 }
 
-const ENGINE_COLORS: Record<string, string> = {
-  chatgpt: '#10b981',
-  gemini: '#3b82f6',
-  perplexity: '#a855f7',
-}
-
 const TOOLTIP_STYLE = {
   contentStyle: {
     background: '#0f172a',
@@ -408,7 +403,7 @@ export default function SentimentPage() {
         engine,
         score: parseFloat(d.avg.toFixed(2)),
         count: d.count,
-        color: ENGINE_COLORS[engine] ?? '#6366f1',
+        color: getEngineColor(engine),
       }))
     : []
 
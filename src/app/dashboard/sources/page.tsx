@@ -0,0 +1,322 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts'
+import { Link2, Globe, BadgeCheck, Percent, Loader2, RefreshCw } from 'lucide-react'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Badge } from '@/components/ui/index'
+import { formatNumber, cn } from '@/lib/utils'
+import { ENGINE_CATALOG, getEngineColor, getEngineLabel } from '@/lib/engine-catalog'
+import toast from 'react-hot-toast'
+import type { Brand, MonitoringEngine, SourcesSummary } from '@/types'
+
+const TOOLTIP_STYLE = {
+  contentStyle: {
+    background: '#0f172a',
+    border: '1px solid #1f2937',
+    borderRadius: 8,
+    fontSize: 12,
+  },
+  labelStyle: { color: '#e2e8f0', fontWeight: 700 },
+}
+
+export default function SourcesPage() {
+  const [brands, setBrands] = useState<Brand[]>([])
+  const [summary, setSummary] = useState<SourcesSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [days, setDays] = useState(30)
+  const [selectedBrand, setSelectedBrand] = useState('')
+  const [selectedEngine, setSelectedEngine] = useState<MonitoringEngine | ''>('')
+
+  useEffect(() => {
+    fetch('/api/brands')
+      .then((r) => r.json())
+      .then((json: { success: boolean; data?: Brand[] }) => {
+        const list = json.data ?? []
+        setBrands(list)
+        if (list[0]) setSelectedBrand((b) => b || list[0]!.id)
+        else setLoading(false)
+      })
+      .catch(() => {
+        toast.error('Failed to load brands')
+        setLoading(false)
+      })
+  }, [])
+
+  const loadData = useCallback(async () => {
+    if (!selectedBrand) return
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ brand_id: selectedBrand, days: String(days) })
+      if (selectedEngine) params.set('engine', selectedEngine)
+
+      const res = await fetch(`/api/sources?${params.toString()}`)
+      const json = (await res.json()) as {
+        success: boolean
+        data?: SourcesSummary
+        message?: string
+      }
+      if (!json.success) throw new Error(json.message)
+      setSummary(json.data ?? null)
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : 'Failed to load sources')
+    } finally {
+      setLoading(false)
+    }
+  }, [selectedBrand, days, selectedEngine])
+
+  useEffect(() => {
+    void loadData()
+  }, [loadData])
+
+  const chartData = useMemo(
+    () =>
+      (summary?.daily ?? []).map((d) => ({
+        date: d.date.slice(5),
+        'Other domains': d.citations - d.brandCitations,
+        'Your domains': d.brandCitations,
+      })),
+    [summary],
+  )
+
+  const maxCitations = summary?.topDomains[0]?.citations ?? 1
+
+  return (
+    <div className="animate-in space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-black tracking-tight text-white">Sources</h1>
+          <p className="mt-1 text-gray-400">
+            Which domains AI engines cite when answering your prompts.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            className="rounded-xl border border-gray-800 bg-black/40 px-3 py-2 text-xs text-white outline-none focus:border-brand-500"
+            value={selectedBrand}
+            onChange={(e) => setSelectedBrand(e.target.value)}
+          >
+            {brands.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.name}
+              </option>
+            ))}
+          </select>
+          <select
+            className="rounded-xl border border-gray-800 bg-black/40 px-3 py-2 text-xs text-white outline-none focus:border-brand-500"
+            value={selectedEngine}
+            onChange={(e) => setSelectedEngine(e.target.value as MonitoringEngine | '')}
+          >
+            <option value="">All engines</option>
+            {ENGINE_CATALOG.map((e) => (
+              <option key={e.id} value={e.id}>
+                {e.label}
+              </option>
+            ))}
+          </select>
+          {[7, 30, 90].map((d) => (
+            <button
+              key={d}
+              className={cn(
+                'rounded-xl border px-3 py-2 text-xs font-bold transition-all',
+                days === d
+                  ? 'border-brand-500/50 bg-brand-500/15 text-brand-400'
+                  : 'border-gray-800 text-gray-500 hover:text-gray-300',
+              )}
+              onClick={() => setDays(d)}
+            >
+              {d}d
+            </button>
+          ))}
+          <Button variant="outline" onClick={loadData}>
+            <RefreshCw className={cn('h-4 w-4', loading && 'animate-spin')} />
+          </Button>
+        </div>
+      </div>
+
+      {loading && !summary ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-brand-400" />
+        </div>
+      ) : brands.length === 0 ? (
+        <Card className="p-12 text-center text-sm text-gray-500">
+          Create a brand and run its prompts to see cited sources.
+        </Card>
+      ) : summary ? (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+            {[
+              {
+                label: `Citations (${summary.days}d)`,
+                value: formatNumber(summary.totalCitations),
+                icon: Link2,
+                color: 'text-brand-400',
+              },
+              {
+                label: 'Distinct domains',
+                value: formatNumber(summary.totalDomains),
+                icon: Globe,
+                color: 'text-sky-400',
+              },
+              {
+                label: 'Citations of your domains',
+                value: formatNumber(summary.brandCitations),
+                icon: BadgeCheck,
+                color: 'text-emerald-400',
+              },
+              {
+                label: `Answers citing you (of ${formatNumber(summary.totalResults)})`,
+                value: `${Math.round(summary.brandCitationRate * 100)}%`,
+                icon: Percent,
+                color: 'text-amber-400',
+              },
+            ].map((s) => (
+              <Card key={s.label} className="p-5">
+                <s.icon className={cn('mb-2 h-5 w-5', s.color)} />
+                <p className="text-2xl font-black text-white">{s.value}</p>
+                <p className="text-xs text-gray-500">{s.label}</p>
+              </Card>
+            ))}
+          </div>
+
+          {/* Trend */}
+          <Card className="p-6">
+            <h2 className="mb-6 text-lg font-bold text-white">Citations over time</h2>
+            {chartData.length === 0 ? (
+              <p className="py-12 text-center text-sm text-gray-600">
+                No cited sources in this period.
+              </p>
+            ) : (
+              <ResponsiveContainer height={260} width="100%">
+                <AreaChart data={chartData}>
+                  <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" />
+                  <XAxis dataKey="date" tick={{ fontSize: 11, fill: '#6b7280' }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 11, fill: '#6b7280' }} />
+                  <Tooltip {...TOOLTIP_STYLE} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Area
+                    dataKey="Your domains"
+                    fill="#10b981"
+                    fillOpacity={0.3}
+                    stackId="citations"
+                    stroke="#10b981"
+                    type="monotone"
+                  />
+                  <Area
+                    dataKey="Other domains"
+                    fill="#6366f1"
+                    fillOpacity={0.2}
+                    stackId="citations"
+                    stroke="#6366f1"
+                    type="monotone"
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            )}
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-3">
+            {/* Top domains */}
+            <Card className="p-6 lg:col-span-2">
+              <h2 className="mb-4 text-sm font-bold uppercase tracking-widest text-gray-500">
+                Most cited domains
+              </h2>
+              {summary.topDomains.length === 0 ? (
+                <p className="text-sm text-gray-600">No citations yet.</p>
+              ) : (
+                <div className="space-y-3">
+                  {summary.topDomains.map((d) => (
+                    <div key={d.domain}>
+                      <div className="mb-1 flex items-center justify-between gap-3 text-xs">
+                        <span className="flex min-w-0 items-center gap-2">
+                          <span className="truncate font-bold text-gray-300">{d.domain}</span>
+                          {d.is_brand_domain && <Badge variant="success">Your domain</Badge>}
+                        </span>
+                        <span className="shrink-0 text-gray-500">
+                          {formatNumber(d.citations)} citations · {formatNumber(d.results)} answers
+                          · {d.engines.map(getEngineLabel).join(', ')}
+                        </span>
+                      </div>
+                      <div className="h-1.5 overflow-hidden rounded-full bg-gray-800">
+                        <div
+                          className={cn(
+                            'h-full rounded-full',
+                            d.is_brand_domain ? 'bg-emerald-500' : 'bg-brand-500',
+                          )}
+                          style={{ width: `${(d.citations / maxCitations) * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+
+            <div className="space-y-6">
+              {/* Own domains */}
+              <Card className="p-6">
+                <h2 className="mb-4 text-sm font-bold uppercase tracking-widest text-gray-500">
+                  Your domains
+                </h2>
+                {summary.brandDomains.length === 0 ? (
+                  <p className="text-sm text-gray-600">
+                    Add your domains to the brand to track when engines cite them.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {summary.brandDomains.map((d) => (
+                      <div key={d.domain} className="flex items-center justify-between text-sm">
+                        <span className="truncate font-bold text-gray-300">{d.domain}</span>
+                        {d.citations > 0 ? (
+                          <span className="shrink-0 text-xs text-emerald-400">
+                            {formatNumber(d.citations)} citations
+                          </span>
+                        ) : (
+                          <span className="shrink-0 text-xs text-gray-600">Not cited</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Card>
+
+              {/* By engine */}
+              <Card className="p-6">
+                <h2 className="mb-4 text-sm font-bold uppercase tracking-widest text-gray-500">
+                  By engine
+                </h2>
+                <div className="space-y-3">
+                  {summary.byEngine.map((e) => (
+                    <div key={e.engine} className="flex items-center justify-between text-sm">
+                      <span className="flex items-center gap-2 font-bold text-gray-300">
+                        <span
+                          className="h-2.5 w-2.5 rounded-full"
+                          style={{ background: getEngineColor(e.engine) }}
+                        />
+                        {getEngineLabel(e.engine)}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {formatNumber(e.citations)} · {formatNumber(e.brandCitations)} yours
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            </div>
+          </div>
+        </>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,323 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts'
+import { Coins, Cpu, Activity, DollarSign, Loader2, RefreshCw } from 'lucide-react'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { formatNumber, cn } from '@/lib/utils'
+import toast from 'react-hot-toast'
+import type { Brand, UsageSummary } from '@/types'
+
+const PROVIDER_COLORS: Record<string, string> = {
+  openrouter: '#6366f1',
+  groq: '#f97316',
+  cerebras: '#10b981',
+  gemini: '#3b82f6',
+}
+
+const TOOLTIP_STYLE = {
+  contentStyle: {
+    background: '#0f172a',
+    border: '1px solid #1f2937',
+    borderRadius: 8,
+    fontSize: 12,
+  },
+  labelStyle: { color: '#e2e8f0', fontWeight: 700 },
+}
+
+function formatUsd(n: number): string {
+  if (n === 0) return '$0'
+  return n < 0.01 ? `$${n.toFixed(4)}` : `$${n.toFixed(2)}`
+}
+
+export default function UsagePage() {
+  const [brands, setBrands] = useState<Brand[]>([])
+  const [summary, setSummary] = useState<UsageSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [days, setDays] = useState(30)
+  const [selectedBrand, setSelectedBrand] = useState('')
+
+  const loadData = useCallback(async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ days: String(days) })
+      if (selectedBrand) params.set('brand_id', selectedBrand)
+
+      const [brandsRes, usageRes] = await Promise.all([
+        fetch('/api/brands'),
+        fetch(`/api/usage?${params.toString()}`),
+      ])
+      const bJson = (await brandsRes.json()) as { success: boolean; data?: Brand[] }
+      const uJson = (await usageRes.json()) as {
+        success: boolean
+        data?: UsageSummary
+        message?: string
+      }
+      if (!uJson.success) throw new Error(uJson.message)
+      setBrands(bJson.data ?? [])
+      setSummary(uJson.data ?? null)
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : 'Failed to load AI usage')
+    } finally {
+      setLoading(false)
+    }
+  }, [days, selectedBrand])
+
+  useEffect(() => {
+    void loadData()
+  }, [loadData])
+
+  const providers = useMemo(
+    () => [...new Set(summary?.daily.flatMap((d) => Object.keys(d.byProvider)) ?? [])],
+    [summary],
+  )
+
+  const today = new Date().toISOString().split('T')[0]
+
+  const chartData = useMemo(
+    () =>
+      (summary?.daily ?? []).map((d) => ({
+        date: d.date.slice(5),
+        ...Object.fromEntries(providers.map((p) => [p, d.byProvider[p] ?? 0])),
+      })),
+    [summary, providers],
+  )
+
+  return (
+    <div className="animate-in space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-black tracking-tight text-white">AI Usage</h1>
+          <p className="mt-1 text-gray-400">
+            Tokens and estimated cost per provider, brand and task.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            className="rounded-xl border border-gray-800 bg-black/40 px-3 py-2 text-xs text-white outline-none focus:border-brand-500"
+            value={selectedBrand}
+            onChange={(e) => setSelectedBrand(e.target.value)}
+          >
+            <option value="">All brands</option>
+            {brands.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.name}
+              </option>
+            ))}
+          </select>
+          {[7, 30, 90].map((d) => (
+            <button
+              key={d}
+              className={cn(
+                'rounded-xl border px-3 py-2 text-xs font-bold transition-all',
+                days === d
+                  ? 'border-brand-500/50 bg-brand-500/15 text-brand-400'
+                  : 'border-gray-800 text-gray-500 hover:text-gray-300',
+              )}
+              onClick={() => setDays(d)}
+            >
+              {d}d
+            </button>
+          ))}
+          <Button variant="outline" onClick={loadData}>
+            <RefreshCw className={cn('h-4 w-4', loading && 'animate-spin')} />
+          </Button>
+        </div>
+      </div>
+
+      {loading && !summary ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-brand-400" />
+        </div>
+      ) : summary ? (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+            {[
+              {
+                label: `Spend (${summary.days}d)`,
+                value: formatUsd(summary.totalCost),
+                icon: DollarSign,
+                color: 'text-emerald-400',
+              },
+              {
+                label: 'Spend today',
+                value: formatUsd(summary.daily.find((d) => d.date === today)?.cost ?? 0),
+                icon: Coins,
+                color: 'text-amber-400',
+              },
+              {
+                label: 'Tokens',
+                value: formatNumber(summary.totalTokens),
+                icon: Cpu,
+                color: 'text-brand-400',
+              },
+              {
+                label: 'AI calls',
+                value: formatNumber(summary.totalRequests),
+                icon: Activity,
+                color: 'text-sky-400',
+              },
+            ].map((s) => (
+              <Card key={s.label} className="p-5">
+                <s.icon className={cn('mb-2 h-5 w-5', s.color)} />
+                <p className="text-2xl font-black text-white">{s.value}</p>
+                <p className="text-xs text-gray-500">{s.label}</p>
+              </Card>
+            ))}
+          </div>
+
+          {/* Free-tier budgets */}
+          <Card className="p-6">
+            <h2 className="mb-1 text-lg font-bold text-white">Free-tier budget today</h2>
+            <p className="mb-6 text-xs text-gray-500">
+              App-wide usage of each provider&apos;s daily free quota (resets at midnight UTC).
+            </p>
+            {summary.budgets.length === 0 ? (
+              <p className="text-sm text-gray-600">No AI provider configured.</p>
+            ) : (
+              <div className="space-y-4">
+                {summary.budgets.map((b) => (
+                  <div key={b.provider}>
+                    <div className="mb-1.5 flex items-center justify-between text-xs">
+                      <span className="font-bold text-gray-300">{b.label}</span>
+                      <span className="text-gray-500">
+                        {formatNumber(b.used)} / {formatNumber(b.limit)} {b.unit} ·{' '}
+                        <span
+                          className={cn(
+                            'font-bold',
+                            b.percent >= 90
+                              ? 'text-red-400'
+                              : b.percent >= 70
+                                ? 'text-amber-400'
+                                : 'text-emerald-400',
+                          )}
+                        >
+                          {b.percent}%
+                        </span>
+                      </span>
+                    </div>
+                    <div className="h-2 overflow-hidden rounded-full bg-gray-800">
+                      <div
+                        className={cn(
+                          'h-full rounded-full transition-all',
+                          b.percent >= 90
+                            ? 'bg-red-500'
+                            : b.percent >= 70
+                              ? 'bg-amber-500'
+                              : 'bg-emerald-500',
+                        )}
+                        style={{ width: `${Math.min(100, b.percent)}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+
+          {/* Daily spend */}
+          <Card className="p-6">
+            <h2 className="mb-6 text-lg font-bold text-white">Daily spend by provider</h2>
+            {chartData.length === 0 ? (
+              <p className="py-12 text-center text-sm text-gray-600">
+                No AI calls recorded in this period.
+              </p>
+            ) : (
+              <ResponsiveContainer height={260} width="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" />
+                  <XAxis dataKey="date" tick={{ fontSize: 11, fill: '#6b7280' }} />
+                  <YAxis
+                    tick={{ fontSize: 11, fill: '#6b7280' }}
+                    tickFormatter={(v: number) => `$${v}`}
+                  />
+                  <Tooltip {...TOOLTIP_STYLE} formatter={(v: number) => formatUsd(v)} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  {providers.map((p) => (
+                    <Bar
+                      key={p}
+                      dataKey={p}
+                      fill={PROVIDER_COLORS[p] ?? '#6b7280'}
+                      stackId="cost"
+                    />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </Card>
+
+          {/* Breakdowns */}
+          <div className="grid gap-6 lg:grid-cols-3">
+            <Card className="p-6">
+              <h2 className="mb-4 text-sm font-bold uppercase tracking-widest text-gray-500">
+                By provider
+              </h2>
+              <div className="space-y-3">
+                {summary.byProvider.map((p) => (
+                  <div key={p.provider} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2 font-bold capitalize text-gray-300">
+                      <span
+                        className="h-2.5 w-2.5 rounded-full"
+                        style={{ background: PROVIDER_COLORS[p.provider] ?? '#6b7280' }}
+                      />
+                      {p.provider}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {formatNumber(p.tokens)} tok · {formatUsd(p.cost)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+
+            <Card className="p-6">
+              <h2 className="mb-4 text-sm font-bold uppercase tracking-widest text-gray-500">
+                By brand
+              </h2>
+              <div className="space-y-3">
+                {summary.byBrand.map((b) => (
+                  <div
+                    key={b.brand_id ?? 'none'}
+                    className="flex items-center justify-between text-sm"
+                  >
+                    <span className="truncate font-bold text-gray-300">{b.brand_name}</span>
+                    <span className="shrink-0 text-xs text-gray-500">
+                      {formatNumber(b.tokens)} tok · {formatUsd(b.cost)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+
+            <Card className="p-6">
+              <h2 className="mb-4 text-sm font-bold uppercase tracking-widest text-gray-500">
+                By task
+              </h2>
+              <div className="space-y-3">
+                {summary.byTask.map((t) => (
+                  <div key={t.task} className="flex items-center justify-between text-sm">
+                    <span className="font-bold capitalize text-gray-300">{t.task}</span>
+                    <span className="text-xs text-gray-500">
+                      {formatNumber(t.requests)} calls · {formatUsd(t.cost)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          </div>
+        </>
+      ) : null}
+    </div>
+  )
+}
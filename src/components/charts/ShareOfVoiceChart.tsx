@@ -0,0 +1,177 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts'
+import { Loader2 } from 'lucide-react'
+import { Card } from '@/components/ui/Card'
+import { cn } from '@/lib/utils'
+import type { ShareOfVoiceSummary } from '@/types'
+
+const TOOLTIP_STYLE = {
+  contentStyle: {
+    background: '#0f172a',
+    border: '1px solid #1f2937',
+    borderRadius: 8,
+    fontSize: 12,
+  },
+  labelStyle: { color: '#e2e8f0', fontWeight: 700 },
+}
+
+interface ShareOfVoiceChartProps {
+  brandId: string
+  engine?: string
+  promptId?: string
+  className?: string
+}
+
+/** Stacked-area share of voice of a brand versus its competitors (GET /api/share-of-voice). */
+export function ShareOfVoiceChart({
+  brandId,
+  engine,
+  promptId,
+  className,
+}: ShareOfVoiceChartProps) {
+  const [summary, setSummary] = useState<ShareOfVoiceSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [days, setDays] = useState(30)
+
+  useEffect(() => {
+    let cancelled = false
+    const params = new URLSearchParams({ brand_id: brandId, days: String(days) })
+    if (engine) params.set('engine', engine)
+    if (promptId) params.set('prompt_id', promptId)
+
+    setLoading(true)
+    fetch(`/api/share-of-voice?${params.toString()}`)
+      .then((r) => r.json())
+      .then((json: { success: boolean; data?: ShareOfVoiceSummary }) => {
+        if (!cancelled) setSummary(json.success ? (json.data ?? null) : null)
+      })
+      .catch(() => {
+        if (!cancelled) setSummary(null)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [brandId, engine, promptId, days])
+
+  const chartData = useMemo(
+    () =>
+      (summary?.daily ?? []).map((d) => ({
+        date: d.date.slice(5),
+        ...Object.fromEntries(
+          Object.entries(d.shares).map(([name, share]) => [name, Math.round(share * 1000) / 10]),
+        ),
+      })),
+    [summary],
+  )
+
+  const hasMentions = summary?.entities.some((e) => e.mentions > 0) ?? false
+
+  return (
+    <Card className={cn('p-6', className)}>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-white">Share of Voice</h2>
+          <p className="text-sm text-gray-500">
+            Position-weighted mentions versus your competitors
+            {summary ? ` · ${summary.results} answers` : ''}
+          </p>
+        </div>
+        <div className="flex items-center gap-1.5">
+          {[7, 30, 90].map((d) => (
+            <button
+              key={d}
+              className={cn(
+                'rounded-lg border px-2.5 py-1 text-xs font-bold transition-all',
+                days === d
+                  ? 'border-brand-500/50 bg-brand-500/15 text-brand-400'
+                  : 'border-gray-800 text-gray-500 hover:text-gray-300',
+              )}
+              onClick={() => setDays(d)}
+            >
+              {d}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading && !summary ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-brand-400" />
+        </div>
+      ) : !summary || !hasMentions ? (
+        <p className="py-12 text-center text-sm text-gray-600">
+          No brand or competitor mentions in this period.
+        </p>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-4">
+          <div className="lg:col-span-3">
+            <ResponsiveContainer height={240} width="100%">
+              <AreaChart data={chartData}>
+                <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 11, fill: '#6b7280' }} />
+                <YAxis
+                  domain={[0, 100]}
+                  tick={{ fontSize: 11, fill: '#6b7280' }}
+                  tickFormatter={(v: number) => `${v}%`}
+                />
+                <Tooltip {...TOOLTIP_STYLE} formatter={(v: number) => `${v}%`} />
+                {summary.entities.map((e) => (
+                  <Area
+                    key={e.name}
+                    dataKey={e.name}
+                    fill={e.color}
+                    fillOpacity={e.is_brand ? 0.45 : 0.2}
+                    stackId="sov"
+                    stroke={e.color}
+                    strokeWidth={e.is_brand ? 2 : 1}
+                    type="monotone"
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="space-y-3">
+            {[...summary.entities]
+              .sort((a, b) => b.share - a.share)
+              .map((e) => (
+                <div key={e.name} className="flex items-center justify-between text-xs">
+                  <span className="flex min-w-0 items-center gap-2">
+                    <span
+                      className="h-2.5 w-2.5 shrink-0 rounded-full"
+                      style={{ background: e.color }}
+                    />
+                    <span
+                      className={cn(
+                        'truncate',
+                        e.is_brand ? 'font-black text-white' : 'text-gray-400',
+                      )}
+                    >
+                      {e.name}
+                    </span>
+                  </span>
+                  <span className="shrink-0 text-gray-500">
+                    <span className="font-bold text-white">{Math.round(e.share * 100)}%</span>
+                    {e.avg_position !== null && ` · #${e.avg_position}`}
+                  </span>
+                </div>
+              ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -4,7 +4,7 @@ import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import {
   LayoutDashboard, FileSearch, Globe, BarChart3, GitCompare,
-  Clock, Building2, MessageSquare, Shield, Smile, Bell, X,
+  Clock, Building2, MessageSquare, Shield, Smile, Bell, X, History, Coins, Link2,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useAppStore } from '@/lib/store'
@@ -15,6 +15,7 @@ const NAV_SECTIONS = [
     items: [
       { href: '/dashboard', icon: LayoutDashboard, label: 'Dashboard' },
       { href: '/dashboard/analytics', icon: BarChart3, label: 'Analytics' },
+      { href: '/dashboard/usage', icon: Coins, label: 'AI Usage' },
     ],
   },
   {
@@ -32,7 +33,9 @@ const NAV_SECTIONS = [
       { href: '/dashboard/brands', icon: Building2, label: 'Brands' },
       { href: '/dashboard/prompts', icon: MessageSquare, label: 'Prompts' },
       { href: '/dashboard/monitoring', icon: Shield, label: 'Results' },
+      { href: '/dashboard/runs', icon: History, label: 'Run History' },
       { href: '/dashboard/sentiment', icon: Smile, label: 'Sentiment' },
+      { href: '/dashboard/sources', icon: Link2, label: 'Sources' },
       { href: '/dashboard/alerts', icon: Bell, label: 'Alerts' },
     ],
   },
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
-import type { Keyword, KeywordWithDensity } from '@/types'
+import type { AnalyticsSummary, Keyword, KeywordWithDensity, SiteCrawl, SiteCrawlPageSummary } from '@/types'
 
 // ─── useToggle ────────────────────────────────────────────────────────────────
 
@@ -123,6 +123,94 @@ export function useAsyncFetch<T>(
   }
 }
 
+// ─── useAnalytics ─────────────────────────────────────────────────────────────
+
+interface UseAnalyticsReturn {
+  summary: AnalyticsSummary | null
+  loading: boolean
+  error: string | null
+  reload: () => Promise<void>
+}
+
+/** GET /api/analytics for one brand ('' = all brands); keeps the last summary while reloading. */
+export function useAnalytics(brandId: string, days: number): UseAnalyticsReturn {
+  const [summary, setSummary] = useState<AnalyticsSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ days: String(days) })
+      if (brandId) params.set('brand_id', brandId)
+      const res = await fetch(`/api/analytics?${params.toString()}`)
+      const json = (await res.json()) as { success: boolean; data?: AnalyticsSummary; message?: string }
+      if (!json.success || !json.data) throw new Error(json.message || 'Failed to load analytics')
+      setSummary(json.data)
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load analytics')
+    } finally {
+      setLoading(false)
+    }
+  }, [brandId, days])
+
+  useEffect(() => { void reload() }, [reload])
+
+  return { summary, loading, error, reload }
+}
+
+// ─── useSiteCrawl ─────────────────────────────────────────────────────────────
+
+export type SiteCrawlDetails = SiteCrawl & { pages: SiteCrawlPageSummary[] }
+
+interface UseSiteCrawlReturn {
+  crawl: SiteCrawlDetails | null
+  error: string | null
+}
+
+/** GET /api/crawls/[id], polled every `intervalMs` while the crawl is queued or running. */
+export function useSiteCrawl(crawlId: string | null, intervalMs = 2000): UseSiteCrawlReturn {
+  const [crawl, setCrawl] = useState<SiteCrawlDetails | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setCrawl(null)
+    setError(null)
+    if (!crawlId) return
+
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/crawls/${crawlId}`)
+        const json = (await res.json()) as { success: boolean; data?: SiteCrawlDetails; message?: string }
+        if (!json.success || !json.data) throw new Error(json.message || 'Failed to load crawl')
+        if (cancelled) return
+        setCrawl(json.data)
+        setError(null)
+        if (json.data.status === 'queued' || json.data.status === 'running') {
+          timer = setTimeout(() => void poll(), intervalMs)
+        }
+      } catch (err: unknown) {
+        if (cancelled) return
+        setError(err instanceof Error ? err.message : 'Failed to load crawl')
+        // Keep polling through transient errors
+        timer = setTimeout(() => void poll(), intervalMs * 2)
+      }
+    }
+
+    void poll()
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [crawlId, intervalMs])
+
+  return { crawl, error }
+}
+
 // ─── useKeywordAnalysis ───────────────────────────────────────────────────────
 
 interface SeoScoreDetails {
@@ -0,0 +1,12 @@
+// PATH: src/instrumentation.ts
+// Runs once per server start. Starts the in-process scheduler worker when
+// SCHEDULER_WORKER_ENABLED=true — use it with `next start` on a long-lived host.
+// On serverless deployments leave it off and rely on the cron route instead.
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+  if (process.env['SCHEDULER_WORKER_ENABLED'] !== 'true') return
+
+  const { startSchedulerWorker } = await import('@/lib/services/scheduler')
+  startSchedulerWorker()
+}
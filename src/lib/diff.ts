@@ -0,0 +1,100 @@
+// PATH: src/lib/diff.ts
+//
+// ─── Text diff ───────────────────────────────────────────────────────────────
+//
+// Used by the optimizer's rewrite view to show what changed between the
+// original and the rewritten content.
+//
+// Myers' O(ND) algorithm on word tokens (words and the whitespace between
+// them, so joining the segments gives back both texts). Its trace grows with
+// the square of the edit distance: beyond MAX_EDIT_DISTANCE the texts are
+// compared sentence by sentence instead, which keeps heavy rewrites cheap.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { DiffSegment } from '@/types'
+
+const MAX_EDIT_DISTANCE = 1000
+
+const words = (text: string) => text.match(/\s+|[^\s]+/g) ?? []
+
+const sentences = (text: string) => text.split(/(?<=[.!?]\s+)(?=\S)|(?<=\n)/).filter(Boolean)
+
+/** Edit script from `a` to `b`, or null when more than `maxD` edits are needed. */
+function myers(a: readonly string[], b: readonly string[], maxD: number): DiffSegment[] | null {
+  const n = a.length
+  const m = b.length
+  const max = Math.min(n + m, maxD)
+  const offset = max + 1
+  // v[k + offset] = furthest x reached on diagonal k
+  const v = new Int32Array(2 * max + 3)
+  const trace: Int32Array[] = []
+
+  let found = false
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice())
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[k - 1 + offset]! < v[k + 1 + offset]!)
+          ? v[k + 1 + offset]!
+          : v[k - 1 + offset]! + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[k + offset] = x
+      if (x >= n && y >= m) {
+        found = true
+        break
+      }
+    }
+  }
+  if (!found) return null
+
+  // Walk the trace back from the end, emitting segments in reverse
+  const reversed: DiffSegment[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d]!
+    const k = x - y
+    const prevK =
+      k === -d || (k !== d && vd[k - 1 + offset]! < vd[k + 1 + offset]!) ? k + 1 : k - 1
+    const prevX = vd[prevK + offset]!
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      reversed.push({ type: 'equal', text: a[--x]! })
+      y--
+    }
+    if (d > 0) {
+      if (x === prevX) reversed.push({ type: 'insert', text: b[--y]! })
+      else reversed.push({ type: 'delete', text: a[--x]! })
+    }
+  }
+
+  return merge(reversed.reverse())
+}
+
+// Joins adjacent tokens of the same type into one segment
+function merge(tokens: DiffSegment[]): DiffSegment[] {
+  const segments: DiffSegment[] = []
+  for (const token of tokens) {
+    const last = segments[segments.length - 1]
+    if (last && last.type === token.type) last.text += token.text
+    else segments.push({ ...token })
+  }
+  return segments
+}
+
+/** Word-level diff of two texts, sentence-level when they differ too much. */
+export function diffText(before: string, after: string): DiffSegment[] {
+  return (
+    myers(words(before), words(after), MAX_EDIT_DISTANCE) ??
+    myers(sentences(before), sentences(after), MAX_EDIT_DISTANCE) ??
+    merge([
+      { type: 'delete', text: before },
+      { type: 'insert', text: after },
+    ])
+  )
+}
@@ -0,0 +1,165 @@
+// PATH: src/lib/engine-catalog.ts
+//
+// ─── Monitoring engine catalog ───────────────────────────────────────────────
+//
+// Single source of truth for the AI engines a prompt can be monitored on.
+// The MonitoringEngine type, the API validation enums, the UI engine pickers
+// and colours, the simulation personas and OpenRouter stand-in models, and the
+// native adapter mapping (src/lib/services/engines.ts) are all derived from
+// this list. Adding an engine means adding an entry here.
+//
+// Safe to import from client components: data only, no server dependencies.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface EngineCatalogEntry {
+  id: string
+  label: string
+  vendor: string
+  /** hex colour used by charts and badges */
+  color: string
+  /** pre-selected on new prompts (and the `prompts.engines` DB default) */
+  defaultSelected: boolean
+  /** system prompt used when the answer is simulated on another model */
+  persona: string
+  /** OpenRouter model that stands in for the engine, plus a free fallback */
+  openrouter: {
+    model: string
+    fallbackModel: string
+    inputCostPerMTok: number
+    outputCostPerMTok: number
+  }
+  /** native adapter id in src/lib/services/engines.ts; null = simulated only */
+  native: string | null
+}
+
+export const ENGINE_CATALOG = [
+  {
+    id: 'chatgpt',
+    label: 'ChatGPT',
+    vendor: 'OpenAI',
+    color: '#10b981',
+    defaultSelected: true,
+    persona:
+      'You are ChatGPT, a helpful AI assistant by OpenAI. Answer conversationally and helpfully. Include relevant brands, products, and services where appropriate.',
+    openrouter: {
+      model: 'openai/gpt-4o-mini',
+      fallbackModel: 'meta-llama/llama-3.2-3b-instruct:free',
+      inputCostPerMTok: 0.15,
+      outputCostPerMTok: 0.6,
+    },
+    native: 'openai',
+  },
+  {
+    id: 'gemini',
+    label: 'Gemini',
+    vendor: 'Google',
+    color: '#3b82f6',
+    defaultSelected: true,
+    persona:
+      'You are Google Gemini, a helpful AI assistant by Google. Answer factually with well-structured information. Include relevant brands and services where appropriate.',
+    openrouter: {
+      model: 'google/gemini-flash-1.5',
+      fallbackModel: 'google/gemma-2-9b-it:free',
+      inputCostPerMTok: 0.075,
+      outputCostPerMTok: 0.3,
+    },
+    native: 'gemini-search',
+  },
+  {
+    id: 'perplexity',
+    label: 'Perplexity',
+    vendor: 'Perplexity',
+    color: '#a855f7',
+    defaultSelected: true,
+    persona:
+      'You are Perplexity AI, a search-focused AI assistant. Answer with verified facts, include brand mentions naturally, and reference sources where possible.',
+    openrouter: {
+      // has real web search
+      model: 'perplexity/llama-3.1-sonar-small-128k-online',
+      fallbackModel: 'mistralai/mistral-7b-instruct:free',
+      inputCostPerMTok: 0.2,
+      outputCostPerMTok: 0.2,
+    },
+    native: 'perplexity',
+  },
+  {
+    id: 'claude',
+    label: 'Claude',
+    vendor: 'Anthropic',
+    color: '#f97316',
+    defaultSelected: false,
+    persona:
+      'You are Claude, an AI assistant made by Anthropic. Give balanced, well-reasoned recommendations and explain trade-offs. Include relevant brands, products, and services where appropriate.',
+    openrouter: {
+      model: 'anthropic/claude-3.5-haiku',
+      fallbackModel: 'mistralai/mistral-7b-instruct:free',
+      inputCostPerMTok: 0.8,
+      outputCostPerMTok: 4,
+    },
+    native: 'anthropic',
+  },
+  {
+    id: 'copilot',
+    label: 'Copilot',
+    vendor: 'Microsoft',
+    color: '#06b6d4',
+    defaultSelected: false,
+    persona:
+      'You are Microsoft Copilot, an AI assistant grounded in Bing web search. Answer concisely, summarise what the web says, and name relevant brands and products with their sources.',
+    openrouter: {
+      model: 'openai/gpt-4o',
+      fallbackModel: 'meta-llama/llama-3.2-3b-instruct:free',
+      inputCostPerMTok: 2.5,
+      outputCostPerMTok: 10,
+    },
+    // no public Copilot API
+    native: null,
+  },
+  {
+    id: 'ai_overviews',
+    label: 'AI Overviews',
+    vendor: 'Google Search',
+    color: '#eab308',
+    defaultSelected: false,
+    persona:
+      'You are Google AI Overviews, the AI summary shown above Google Search results. Give a short, scannable overview of the query (bullets welcome) naming the most relevant brands, products, and sources.',
+    openrouter: {
+      model: 'google/gemini-flash-1.5',
+      fallbackModel: 'google/gemma-2-9b-it:free',
+      inputCostPerMTok: 0.075,
+      outputCostPerMTok: 0.3,
+    },
+    native: 'serpapi',
+  },
+] as const satisfies readonly EngineCatalogEntry[]
+
+export type MonitoringEngineId = (typeof ENGINE_CATALOG)[number]['id']
+
+/** Engine ids as a non-empty tuple, for `z.enum()`. */
+export const MONITORING_ENGINE_IDS = ENGINE_CATALOG.map((e) => e.id) as [
+  MonitoringEngineId,
+  ...MonitoringEngineId[],
+]
+
+export const DEFAULT_PROMPT_ENGINES: MonitoringEngineId[] = ENGINE_CATALOG.filter(
+  (e) => e.defaultSelected,
+).map((e) => e.id)
+
+const byId = new Map<string, EngineCatalogEntry>(ENGINE_CATALOG.map((e) => [e.id, e]))
+
+export function isMonitoringEngine(id: string): id is MonitoringEngineId {
+  return byId.has(id)
+}
+
+export function getEngine(id: MonitoringEngineId): EngineCatalogEntry {
+  return byId.get(id)!
+}
+
+/** Label for any stored engine id, including ids later removed from the catalog. */
+export function getEngineLabel(id: string): string {
+  return byId.get(id)?.label ?? id
+}
+
+export function getEngineColor(id: string): string {
+  return byId.get(id)?.color ?? '#6366f1'
+}
@@ -48,6 +48,16 @@ export function exportAnalysisToCsv(result: AnalysisResult): void {
     row(),
     row('Improvement Suggestions'),
     ...result.suggestions.map((s, i) => row(`${i + 1}.`, s)),
+    ...(result.audit
+      ? [
+          row(),
+          row('On-page Audit', result.audit.score ?? 'n/a'),
+          row('Check', 'Status', 'Evidence', 'Recommendation'),
+          ...result.audit.checks.map((c) =>
+            row(c.label, c.status, c.evidence, c.status === 'fail' ? c.recommendation : ''),
+          ),
+        ]
+      : []),
   ]
   download(lines.join('\n'), `AIO-Analysis-${today()}.csv`, 'text/csv;charset=utf-8;')
 }
@@ -56,7 +66,7 @@ export function exportAnalysisToCsv(result: AnalysisResult): void {
 
 export function exportHistoryToCsv(history: ScanHistoryEntry[]): void {
   const header = row(
-    'ID', 'Date', 'Source', 'Type', 'Engine', 'Model',
+    'ID', 'Date', 'Source', 'Type', 'Engine', 'Model', 'Model Used',
     'Visibility', 'Intent', 'Intent Confidence', 'Tone', 'Reading Level',
   )
   const rows = history.map((e) =>
@@ -67,6 +77,7 @@ export function exportHistoryToCsv(history: ScanHistoryEntry[]): void {
       e.type,
       e.engine,
       e.model,
+      e.generatedBy?.model ?? '',
       e.visibilityScore,
       e.intent,
       `${e.intentConfidence}%`,
@@ -0,0 +1,166 @@
+// PATH: src/lib/http-client.ts
+//
+// ─── Provider HTTP client with record/replay cassettes ───────────────────────
+//
+// Every AI provider request goes through providerFetch(). By default it is a
+// plain fetch; AI_CASSETTE_MODE switches it to cassette mode:
+//
+//   record  → call the real API and save the request/response pair to disk
+//   replay  → answer from disk only; a missing cassette is an error
+//   auto    → replay when a cassette exists, otherwise record
+//
+// Cassettes live in AI_CASSETTE_DIR (default: cassettes/) as
+// <host>/<hash>.json. The hash covers method, URL and the JSON body with keys
+// sorted, so a changed prompt (e.g. in buildAnalysisPrompt) is a new cassette
+// and a replay miss shows exactly which request changed. Credentials never
+// reach the hash or the file: headers are ignored and secret query params
+// (Gemini's `key=`) are stripped.
+//
+// In replay mode the provider API keys only need a placeholder value.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+export type CassetteMode = 'off' | 'record' | 'replay' | 'auto'
+
+export interface Cassette {
+  request: { method: string; url: string; body: unknown }
+  response: { status: number; headers: Record<string, string>; body: string }
+  recordedAt: string
+}
+
+/** Thrown in replay mode when no cassette matches the request. */
+export class CassetteMissError extends Error {
+  constructor(
+    public readonly hash: string,
+    public readonly file: string,
+  ) {
+    super(
+      `No cassette for request ${hash} (${file}). ` +
+        'Re-record with AI_CASSETTE_MODE=record or AI_CASSETTE_MODE=auto.',
+    )
+    this.name = 'CassetteMissError'
+  }
+}
+
+const SECRET_PARAMS = ['key', 'api_key', 'apikey', 'token']
+
+// Response headers worth keeping: the clients read retry-after on 429s
+const KEPT_HEADERS = ['content-type', 'retry-after']
+
+export function getCassetteMode(): CassetteMode {
+  const mode = process.env['AI_CASSETTE_MODE']?.trim().toLowerCase()
+  return mode === 'record' || mode === 'replay' || mode === 'auto' ? mode : 'off'
+}
+
+function getCassetteDir(): string {
+  return path.resolve(process.env['AI_CASSETTE_DIR'] || 'cassettes')
+}
+
+// ─── Normalisation ────────────────────────────────────────────────────────────
+
+function scrubUrl(url: string): string {
+  const parsed = new URL(url)
+  for (const param of SECRET_PARAMS) parsed.searchParams.delete(param)
+  parsed.searchParams.sort()
+  return parsed.toString()
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((k) => [k, sortKeys((value as Record<string, unknown>)[k])]),
+    )
+  }
+  return value
+}
+
+function parseBody(body: RequestInit['body']): unknown {
+  if (body === undefined || body === null) return null
+  if (typeof body !== 'string') throw new Error('providerFetch only supports string bodies')
+  try {
+    return sortKeys(JSON.parse(body))
+  } catch {
+    return body
+  }
+}
+
+export function normalizeRequest(url: string, init: RequestInit = {}): Cassette['request'] {
+  return {
+    method: (init.method ?? 'GET').toUpperCase(),
+    url: scrubUrl(url),
+    body: parseBody(init.body),
+  }
+}
+
+export function hashRequest(request: Cassette['request']): string {
+  return createHash('sha256').update(JSON.stringify(request)).digest('hex').slice(0, 16)
+}
+
+// ─── Storage ──────────────────────────────────────────────────────────────────
+
+function cassettePath(request: Cassette['request'], hash: string): string {
+  return path.join(getCassetteDir(), new URL(request.url).host, `${hash}.json`)
+}
+
+async function loadCassette(file: string): Promise<Cassette | null> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as Cassette
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw e
+  }
+}
+
+async function saveCassette(file: string, cassette: Cassette): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true })
+  await writeFile(file, JSON.stringify(cassette, null, 2) + '\n', 'utf8')
+}
+
+function toResponse(cassette: Cassette): Response {
+  return new Response(cassette.response.body, {
+    status: cassette.response.status,
+    headers: cassette.response.headers,
+  })
+}
+
+// ─── Client ───────────────────────────────────────────────────────────────────
+
+/** fetch() for AI provider APIs, with optional record/replay (see header). */
+export async function providerFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const mode = getCassetteMode()
+  if (mode === 'off') return fetch(url, init)
+
+  const request = normalizeRequest(url, init)
+  const hash = hashRequest(request)
+  const file = cassettePath(request, hash)
+
+  if (mode !== 'record') {
+    const cassette = await loadCassette(file)
+    if (cassette) return toResponse(cassette)
+    if (mode === 'replay') throw new CassetteMissError(hash, file)
+  }
+
+  const res = await fetch(url, init)
+  const body = await res.text()
+  const headers = Object.fromEntries(
+    KEPT_HEADERS.flatMap((h) => {
+      const value = res.headers.get(h)
+      return value === null ? [] : [[h, value]]
+    }),
+  )
+  const cassette: Cassette = {
+    request,
+    response: { status: res.status, headers, body },
+    recordedAt: new Date().toISOString(),
+  }
+
+  // Rate limits and outages are not worth replaying; 4xx request errors are
+  if (res.status !== 429 && res.status < 500) await saveCassette(file, cassette)
+  return toResponse(cassette)
+}
@@ -0,0 +1,343 @@
+// PATH: src/lib/safe-fetch.ts
+//
+// ─── Outbound HTTP for user-supplied URLs (SSRF protection) ──────────────────
+//
+// Every request to a URL a user typed (analyzed pages, competitor pages, site
+// crawls, alert webhooks) goes through safeFetch(). It only talks to public
+// internet addresses:
+//
+//   - http(s) only, no credentials in the URL
+//   - the host is resolved with a validating DNS lookup: the connection goes to
+//     the address that was checked, so a rebinding DNS answer cannot swap in a
+//     private address between check and connect
+//   - loopback, private, link-local (cloud metadata), CGNAT, multicast and
+//     reserved ranges are blocked, for IPv4, IPv6 and IPv4-mapped IPv6
+//   - redirects are followed by hand and every hop is checked again
+//   - the whole exchange has one deadline and the decoded body a size cap
+//
+// isPublicUrl() is the synchronous part of the check (no DNS), for validating
+// URLs when they are saved.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { lookup as dnsLookup, type LookupAddress, type LookupOptions } from 'node:dns'
+import http from 'node:http'
+import https from 'node:https'
+import { BlockList, isIP } from 'node:net'
+import zlib from 'node:zlib'
+
+/** Thrown when a URL (or a redirect hop) points to a non-public address. */
+export class UnsafeUrlError extends Error {
+  constructor(
+    public readonly url: string,
+    reason: string,
+  ) {
+    super(`Blocked request to ${url}: ${reason}`)
+    this.name = 'UnsafeUrlError'
+  }
+}
+
+export interface SafeFetchOptions {
+  method?: 'GET' | 'POST'
+  headers?: Record<string, string>
+  body?: string
+  /** deadline for the whole exchange, redirects included (default 10 s) */
+  timeoutMs?: number
+  /** cap on the decoded response body (default 5 MB) */
+  maxBytes?: number
+  /** redirect hops to follow (default 5) */
+  maxRedirects?: number
+}
+
+export interface SafeResponse {
+  ok: boolean
+  status: number
+  /** final URL, after redirects */
+  url: string
+  headers: Record<string, string>
+  body: string
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024
+const DEFAULT_MAX_REDIRECTS = 5
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308])
+
+// ─── Address checks ───────────────────────────────────────────────────────────
+
+const blocked = new BlockList()
+for (const [net, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, cloud metadata (169.254.169.254)
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.88.99.0', 24], // 6to4 relay
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+] as const) {
+  blocked.addSubnet(net, prefix, 'ipv4')
+}
+for (const [net, prefix] of [
+  ['::', 128], // unspecified
+  ['::1', 128], // loopback
+  ['100::', 64], // discard
+  ['2001::', 23], // IETF protocol assignments (Teredo, ORCHID, …)
+  ['2001:db8::', 32], // documentation
+  ['2002::', 16], // 6to4
+  ['fc00::', 7], // unique local, incl. AWS metadata fd00:ec2::254
+  ['fe80::', 10], // link-local
+  ['fec0::', 10], // site-local (deprecated)
+  ['ff00::', 8], // multicast
+] as const) {
+  blocked.addSubnet(net, prefix, 'ipv6')
+}
+
+/** The 8 hextets of an IPv6 address, or null when it does not parse. */
+function ipv6Hextets(address: string): number[] | null {
+  let ip = address.toLowerCase()
+  // Trailing dotted IPv4 (::ffff:127.0.0.1) → two hextets
+  const v4 = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(ip)
+  if (v4) {
+    const [a, b, c, d] = v4.slice(1).map(Number) as [number, number, number, number]
+    ip = `${ip.slice(0, v4.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+  }
+  const [head = '', tail, ...rest] = ip.split('::')
+  if (rest.length > 0) return null
+  const left = head ? head.split(':') : []
+  const right = tail ? tail.split(':') : []
+  const missing = 8 - left.length - right.length
+  if (tail === undefined ? missing !== 0 : missing < 1) return null
+  const parts = [...left, ...Array<string>(tail === undefined ? 0 : missing).fill('0'), ...right]
+  const hextets = parts.map((p) => (/^[\da-f]{1,4}$/.test(p) ? parseInt(p, 16) : NaN))
+  return hextets.some(Number.isNaN) ? null : hextets
+}
+
+/** The IPv4 address embedded in an IPv4-mapped, -compatible or NAT64 IPv6 address. */
+function embeddedIpv4(hextets: number[]): string | null {
+  const prefix = hextets.slice(0, 6)
+  const mapped =
+    prefix.slice(0, 5).every((h) => h === 0) && (prefix[5] === 0xffff || prefix[5] === 0)
+  const nat64 = prefix[0] === 0x64 && prefix[1] === 0xff9b && prefix.slice(2).every((h) => h === 0)
+  if (!mapped && !nat64) return null
+  const [hi = 0, lo = 0] = hextets.slice(6)
+  return [hi >> 8, hi & 0xff, lo >> 8, lo & 0xff].join('.')
+}
+
+/** True when `address` (an IP literal) is a public unicast address. */
+export function isPublicAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').split('%')[0] ?? ''
+  const family = isIP(ip)
+  if (family === 4) return !blocked.check(ip, 'ipv4')
+  if (family !== 6) return false
+
+  const hextets = ipv6Hextets(ip)
+  if (!hextets) return false
+  const v4 = embeddedIpv4(hextets)
+  // ::  and ::1 are in the list as IPv6; any other embedded IPv4 is judged as IPv4
+  if (v4 && !hextets.slice(0, 7).every((h) => h === 0)) return isPublicAddress(v4)
+  return !blocked.check(ip, 'ipv6')
+}
+
+const BLOCKED_HOSTNAMES =
+  /(^|\.)(localhost|local|internal|home\.arpa)$|^metadata\.google\.internal$/i
+
+/**
+ * Synchronous URL check, without DNS: http(s), no credentials, and not an IP
+ * literal or a well-known name for a non-public address. A URL that passes can
+ * still resolve to one — safeFetch() checks the resolved address.
+ */
+export function isPublicUrl(url: string): boolean {
+  return checkUrl(url) === null
+}
+
+/** Why `url` is not allowed, or null when it passes the synchronous check. */
+function checkUrl(url: string): string | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return 'invalid URL'
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return `protocol ${parsed.protocol} is not allowed`
+  }
+  if (parsed.username || parsed.password) return 'credentials in the URL are not allowed'
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '')
+  if (!host) return 'missing host'
+  if (isIP(host)) return isPublicAddress(host) ? null : `${host} is not a public address`
+  if (BLOCKED_HOSTNAMES.test(host)) return `${host} is not a public host`
+  return null
+}
+
+// DNS lookup for http(s).request that fails when any resolved address is not
+// public. Node skips `lookup` for IP literals, which checkUrl() covers.
+function safeLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (err: Error | null, address: string | LookupAddress[], family?: number) => void,
+): void {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '')
+    const unsafe = addresses.find((a) => !isPublicAddress(a.address))
+    if (unsafe) {
+      return callback(
+        new UnsafeUrlError(hostname, `resolves to ${unsafe.address}, not a public address`),
+        '',
+      )
+    }
+    const first = addresses[0]
+    if (!first) return callback(new Error(`No address found for ${hostname}`), '')
+    if (options.all) return callback(null, addresses)
+    callback(null, first.address, first.family)
+  })
+}
+
+// ─── Request ──────────────────────────────────────────────────────────────────
+
+interface Hop {
+  status: number
+  headers: Record<string, string>
+  body: string
+  location: string | null
+}
+
+function flattenHeaders(headers: http.IncomingHttpHeaders): Record<string, string> {
+  const flat: Record<string, string> = {}
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) flat[name] = Array.isArray(value) ? value.join(', ') : value
+  }
+  return flat
+}
+
+function decoder(encoding: string | undefined): NodeJS.ReadWriteStream | null {
+  switch (encoding?.trim().toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return zlib.createGunzip()
+    case 'deflate':
+      return zlib.createInflate()
+    case 'br':
+      return zlib.createBrotliDecompress()
+    default:
+      return null
+  }
+}
+
+function requestOnce(
+  url: URL,
+  method: string,
+  headers: Record<string, string>,
+  body: string | undefined,
+  signal: AbortSignal,
+  maxBytes: number,
+): Promise<Hop> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http
+    const req = client.request(
+      url,
+      {
+        method,
+        headers: {
+          'Accept-Encoding': 'gzip, deflate, br',
+          ...headers,
+          ...(body !== undefined ? { 'Content-Length': String(Buffer.byteLength(body)) } : {}),
+        },
+        lookup: safeLookup,
+        signal,
+      },
+      (res) => {
+        const status = res.statusCode ?? 0
+        const location = REDIRECT_STATUSES.has(status) ? (res.headers.location ?? null) : null
+        const flat = flattenHeaders(res.headers)
+        // A redirect's body is never read
+        if (location) {
+          res.resume()
+          return resolve({ status, headers: flat, body: '', location })
+        }
+
+        const stream = decoder(res.headers['content-encoding'])
+        const source: NodeJS.ReadableStream = stream ? res.pipe(stream) : res
+        const chunks: Buffer[] = []
+        let size = 0
+        source.on('data', (chunk: Buffer) => {
+          size += chunk.length
+          if (size > maxBytes) {
+            req.destroy(new Error(`Response from ${url.host} is larger than ${maxBytes} bytes`))
+            return
+          }
+          chunks.push(chunk)
+        })
+        source.on('end', () =>
+          resolve({
+            status,
+            headers: flat,
+            body: Buffer.concat(chunks).toString('utf8'),
+            location: null,
+          }),
+        )
+        source.on('error', reject)
+        res.on('error', reject)
+      },
+    )
+    req.on('error', reject)
+    req.end(body)
+  })
+}
+
+/**
+ * Requests a user-supplied URL (see header). Throws UnsafeUrlError when the URL
+ * or a redirect hop is not a public address, and an Error on network failures,
+ * the deadline or the size cap. HTTP error statuses are returned, not thrown.
+ */
+export async function safeFetch(
+  url: string,
+  options: SafeFetchOptions = {},
+): Promise<SafeResponse> {
+  const {
+    headers = {},
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxBytes = DEFAULT_MAX_BYTES,
+    maxRedirects = DEFAULT_MAX_REDIRECTS,
+  } = options
+  let method: string = options.method ?? 'GET'
+  let body = options.body
+  const signal = AbortSignal.timeout(timeoutMs)
+
+  let current = url
+  for (let hops = 0; ; hops++) {
+    const reason = checkUrl(current)
+    if (reason) throw new UnsafeUrlError(current, reason)
+
+    const hop = await requestOnce(new URL(current), method, headers, body, signal, maxBytes).catch(
+      (e: unknown) => {
+        throw signal.aborted ? new Error(`Timed out after ${timeoutMs} ms fetching ${url}`) : e
+      },
+    )
+    if (!hop.location) {
+      return {
+        ok: hop.status >= 200 && hop.status < 300,
+        status: hop.status,
+        url: current,
+        headers: hop.headers,
+        body: hop.body,
+      }
+    }
+
+    if (hops >= maxRedirects) throw new Error(`Too many redirects fetching ${url}`)
+    current = new URL(hop.location, current).toString()
+    // Same rules as fetch(): 303, and 301/302 after a POST, continue as GET
+    if (hop.status === 303 || ((hop.status === 301 || hop.status === 302) && method === 'POST')) {
+      method = 'GET'
+      body = undefined
+    }
+  }
+}
@@ -1,185 +1,165 @@
 // PATH: src/lib/services/ai-router.ts
-// AI Router — seleziona automaticamente il provider disponibile.
+// AI Router — per ogni task prova i provider della sua catena, in ordine,
+// finché uno risponde. Catene e provider sono definiti in ./providers.
 //
-// SIMULAZIONE engine (step 1):
-//   1° OpenRouter (modelli reali) → 2° Groq (Llama 70B) → 3° Gemini (fallback)
-//
-// ANALISI brand (step 2):
-//   1° Cerebras (ultra veloce) → 2° Groq → 3° Gemini (fallback)
-
-import type { MonitoringEngine } from '@/types'
-import { callOpenRouterForEngine, isOpenRouterAvailable } from './openrouter'
-import { callGroq, isGroqAvailable, GROQ_MODELS } from './groq'
-import { callCerebras, isCerebrasAvailable, CEREBRAS_MODELS } from './cerebras'
-
-async function callGeminiFallback(prompt: string): Promise<string> {
-  const apiKey = process.env['GEMINI_API_KEY']
-  if (!apiKey) throw new Error('GEMINI_API_KEY non configurata')
-
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      contents: [{ parts: [{ text: prompt }] }],
-      generationConfig: { temperature: 0.2, maxOutputTokens: 2048 },
-    }),
-    signal: AbortSignal.timeout(30_000),
-  })
+// Default:
+//   simulate               → OpenRouter (modelli reali) → Groq → Gemini
+//   analyze / sentiment /
+//   hallucination          → Cerebras → Groq → Gemini
+//   content                → Gemini → Groq → Cerebras
+
+import type { AiTask, MonitoringEngine, TokenUsage, UsageAttribution } from '@/types'
+import { getEngine } from '@/lib/engine-catalog'
+import { getProvider, getTaskChain, listProviders, type ProviderRequest } from './providers'
+import {
+  acquireProvider,
+  getCircuitResetAt,
+  getProviderHealth,
+  recordFailure,
+  recordSuccess,
+} from './provider-health'
+import { recordUsage } from './usage'
+
+// Esito di una chiamata instradata: testo, provider/modello effettivi e token consumati
+export interface RoutedCompletion {
+  text: string
+  provider: string
+  model: string
+  usage: TokenUsage | null
+}
 
-  if (!res.ok) throw new Error(`Gemini API error ${res.status}`)
-  const data = (await res.json()) as {
-    candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>
-  }
-  const text = data.candidates?.[0]?.content?.parts?.[0]?.text
-  if (!text) throw new Error('Risposta vuota da Gemini')
-  return text
+// Parametri di default per task (sovrascrivibili dal chiamante)
+const TASK_DEFAULTS: Record<AiTask, { temperature: number; maxTokens: number }> = {
+  simulate: { temperature: 0.3, maxTokens: 2048 },
+  analyze: { temperature: 0.1, maxTokens: 1024 },
+  sentiment: { temperature: 0.1, maxTokens: 1024 },
+  hallucination: { temperature: 0.1, maxTokens: 1024 },
+  content: { temperature: 0.3, maxTokens: 2048 },
+  // Il testo riscritto è lungo quanto l'originale
+  rewrite: { temperature: 0.4, maxTokens: 8192 },
 }
 
-// ─── simulateEngineResponse ────────────────────────────────────────────────────
-// Step 1: simula la risposta dell'engine al prompt.
-// Provider: OpenRouter → Groq → Gemini
+const TASK_LABEL: Record<AiTask, string> = {
+  simulate: 'la simulazione',
+  analyze: "l'analisi brand",
+  sentiment: "l'analisi del sentiment",
+  hallucination: 'il controllo allucinazioni',
+  content: "l'analisi contenuti",
+  rewrite: 'la riscrittura contenuti',
+}
 
-export async function simulateEngineResponse(
-  promptText: string,
-  engine: MonitoringEngine,
-): Promise<{ text: string; provider: string }> {
-  const enginePersona: Record<MonitoringEngine, string> = {
-    chatgpt:
-      'You are ChatGPT, a helpful AI assistant by OpenAI. Answer conversationally and helpfully. Include relevant brands, products, and services where appropriate.',
-    gemini:
-      'You are Google Gemini, a helpful AI assistant by Google. Answer factually with well-structured information. Include relevant brands and services where appropriate.',
-    perplexity:
-      'You are Perplexity AI, a search-focused AI assistant. Answer with verified facts, include brand mentions naturally, and reference sources where possible.',
-  }
+export type RouteOptions = Partial<Omit<ProviderRequest, 'task' | 'prompt' | 'model'>> & {
+  /** a chi addebitare token e costo in `ai_usage` */
+  attribution?: UsageAttribution
+  /** provider e modello da provare per primi (es. il modello scelto nell'optimizer) */
+  preferred?: { provider: string; model: string } | null
+}
 
-  const fullPrompt = `${enginePersona[engine]}\n\nUser question: "${promptText}"\n\nProvide a realistic, helpful response (150-300 words).`
+// ─── routeCompletion ──────────────────────────────────────────────────────────
+// Percorre la catena del task saltando i provider non configurati e quelli
+// con il circuito aperto (vedi ./provider-health). Con `preferred` la catena parte
+// da quel provider, che riceve il modello richiesto; gli altri usano il proprio default.
+// Se falliscono tutti, l'errore elenca il motivo di ciascun tentativo.
+// Ogni chiamata riuscita viene registrata in `ai_usage` (vedi ./usage).
+
+export async function routeCompletion(
+  task: AiTask,
+  prompt: string,
+  options: RouteOptions = {},
+): Promise<RoutedCompletion> {
+  const { attribution, preferred, ...overrides } = options
+  const request: ProviderRequest = { task, prompt, ...TASK_DEFAULTS[task], ...overrides }
+  const target = request.engine ? ` per ${request.engine}` : ''
   const errors: string[] = []
 
-  // Tentativo 1: OpenRouter (modelli reali per ogni engine)
-  if (isOpenRouterAvailable()) {
-    try {
-      const text = await callOpenRouterForEngine(fullPrompt, engine)
-      return { text, provider: `openrouter:${engine}` }
-    } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e)
-      errors.push(`OpenRouter: ${msg}`)
-      console.warn(`[ai-router] OpenRouter fallito per ${engine}:`, msg)
+  for (const id of getTaskChain(task, preferred?.provider)) {
+    const provider = getProvider(id)
+    if (!provider?.isAvailable()) continue
+
+    if (!acquireProvider(provider.id)) {
+      const resetAt = getCircuitResetAt(provider.id)
+      errors.push(
+        `${provider.label}: circuito aperto` +
+          (resetAt ? ` fino a ${resetAt.toISOString()}` : ', chiamata di prova in corso'),
+      )
+      continue
     }
-  }
 
-  // Tentativo 2: Groq (Llama 70B)
-  if (isGroqAvailable()) {
     try {
-      const text = await callGroq(fullPrompt, {
-        model: GROQ_MODELS.LLAMA_70B,
-        temperature: 0.3,
-        systemPrompt: enginePersona[engine],
-      })
-      return { text, provider: 'groq:llama-3.3-70b' }
+      const { text, model, usage } = await provider.complete(
+        id === preferred?.provider ? { ...request, model: preferred.model } : request,
+      )
+      recordSuccess(provider.id)
+      await recordUsage({ task, provider: provider.id, model, usage, attribution })
+      return { text, provider: `${provider.id}:${model}`, model, usage }
     } catch (e) {
+      recordFailure(provider.id, e)
       const msg = e instanceof Error ? e.message : String(e)
-      errors.push(`Groq: ${msg}`)
-      console.warn(`[ai-router] Groq fallito per ${engine}:`, msg)
+      errors.push(`${provider.label}: ${msg}`)
+      console.warn(`[ai-router] ${provider.label} fallito (${task})${target}:`, msg)
     }
   }
 
-  // Tentativo 3: Gemini (fallback finale)
-  try {
-    const text = await callGeminiFallback(fullPrompt)
-    return { text, provider: 'gemini:flash-1.5' }
-  } catch (e) {
-    errors.push(`Gemini: ${e instanceof Error ? e.message : String(e)}`)
+  if (errors.length === 0) {
+    throw new Error(`Nessun provider AI configurato per ${TASK_LABEL[task]}${target}`)
   }
-
   throw new Error(
-    `Tutti i provider AI hanno fallito per la simulazione di "${engine}":\n` +
+    `Tutti i provider AI hanno fallito per ${TASK_LABEL[task]}${target}:\n` +
       errors.map((e, i) => `  ${i + 1}. ${e}`).join('\n'),
   )
 }
 
+// ─── simulateEngineResponse ────────────────────────────────────────────────────
+// Step 1 (modalità simulata): imita l'engine con il prompt persona del catalogo
+// (src/lib/engine-catalog.ts). ./engines la usa quando l'engine non è interrogato in modo nativo.
+
+export async function simulateEngineResponse(
+  promptText: string,
+  engine: MonitoringEngine,
+  attribution?: UsageAttribution,
+): Promise<RoutedCompletion> {
+  const persona = getEngine(engine).persona
+
+  const fullPrompt = `${persona}\n\nUser question: "${promptText}"\n\nProvide a realistic, helpful response (150-300 words).`
+  return routeCompletion('simulate', fullPrompt, {
+    engine,
+    systemPrompt: persona,
+    attribution,
+  })
+}
+
 // ─── analyzeResponseForBrand ──────────────────────────────────────────────────
 // Step 2: analizza la risposta per metriche brand.
-// Provider: Cerebras → Groq → Gemini
 
 export async function analyzeResponseForBrand(
   analysisPrompt: string,
-): Promise<{ text: string; provider: string }> {
-  const errors: string[] = []
-
-  // Tentativo 1: Cerebras (ultra veloce, 1M token/giorno)
-  if (isCerebrasAvailable()) {
-    try {
-      const text = await callCerebras(analysisPrompt, {
-        model: CEREBRAS_MODELS.LLAMA_70B,
-        temperature: 0.1,
-        maxTokens: 1024,
-      })
-      return { text, provider: 'cerebras:llama-3.3-70b' }
-    } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e)
-      errors.push(`Cerebras: ${msg}`)
-      console.warn('[ai-router] Cerebras fallito per analisi:', msg)
-    }
-  }
-
-  // Tentativo 2: Groq
-  if (isGroqAvailable()) {
-    try {
-      const text = await callGroq(analysisPrompt, {
-        model: GROQ_MODELS.LLAMA_70B,
-        temperature: 0.1,
-        maxTokens: 1024,
-      })
-      return { text, provider: 'groq:llama-3.3-70b' }
-    } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e)
-      errors.push(`Groq: ${msg}`)
-      console.warn('[ai-router] Groq fallito per analisi:', msg)
-    }
-  }
-
-  // Tentativo 3: Gemini (fallback finale)
-  try {
-    const text = await callGeminiFallback(analysisPrompt)
-    return { text, provider: 'gemini:flash-1.5' }
-  } catch (e) {
-    errors.push(`Gemini: ${e instanceof Error ? e.message : String(e)}`)
-  }
-
-  throw new Error(
-    'Tutti i provider AI hanno fallito per l\'analisi brand:\n' +
-      errors.map((e, i) => `  ${i + 1}. ${e}`).join('\n'),
-  )
+  attribution?: UsageAttribution,
+): Promise<RoutedCompletion> {
+  return routeCompletion('analyze', analysisPrompt, { attribution })
 }
 
 // ─── getProviderStatus ────────────────────────────────────────────────────────
 
 export function getProviderStatus() {
-  return {
-    openrouter: {
-      configured: isOpenRouterAvailable(),
-      freeLimit: '50 req/giorno',
-      bestFor: 'Simulazione con modelli reali (ChatGPT, Gemini, Perplexity)',
-      signupUrl: 'https://openrouter.ai',
-    },
-    groq: {
-      configured: isGroqAvailable(),
-      freeLimit: '500 000 token/giorno',
-      bestFor: 'Simulazione fallback, veloce e affidabile',
-      signupUrl: 'https://console.groq.com',
-    },
-    cerebras: {
-      configured: isCerebrasAvailable(),
-      freeLimit: '1 000 000 token/giorno',
-      bestFor: 'Analisi brand (ultra veloce, JSON parsing)',
-      signupUrl: 'https://cloud.cerebras.ai',
-    },
-    gemini: {
-      configured: Boolean(process.env['GEMINI_API_KEY']),
-      freeLimit: '10-20 req/giorno (Google AI Studio)',
-      bestFor: 'Fallback finale, già integrato',
-      signupUrl: 'https://aistudio.google.com',
-    },
-  }
-}
\ No newline at end of file
+  return Object.fromEntries(
+    listProviders().map((p) => [
+      p.id,
+      {
+        label: p.label,
+        configured: p.isAvailable(),
+        freeLimit: p.freeLimit,
+        freeTier: p.freeTier,
+        bestFor: p.bestFor,
+        signupUrl: p.signupUrl,
+        capabilities: [...p.capabilities],
+        defaultModel: p.defaultModel,
+        models: p.models.map((m) => m.id),
+      },
+    ]),
+  )
+}
+
+/** Stato live dei circuit breaker, per GET /api/providers. */
+export function getProviderCircuits() {
+  return getProviderHealth(listProviders().map((p) => p.id))
+}
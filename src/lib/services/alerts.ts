@@ -1,4 +1,6 @@
 import type { AlertEvent, AlertRule, Brand, MonitoringResult } from '@/types'
+import { safeFetch } from '@/lib/safe-fetch'
+import { isMeanChangeSignificant, isProportionChangeSignificant } from '@/lib/stats'
 
 // ─── Resend mailer ────────────────────────────────────────────────────────────
 
@@ -129,15 +131,16 @@ function buildAlertEmail(event: AlertEvent, brand: Brand): string {
 
 async function sendWebhook(url: string, event: AlertEvent): Promise<boolean> {
   try {
-    const res = await fetch(url, {
+    const res = await safeFetch(url, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json', 'X-AIO-Pulse-Event': event.type },
       body: JSON.stringify({ event, timestamp: Date.now() }),
-      signal: AbortSignal.timeout(5000),
+      timeoutMs: 5000,
+      maxBytes: 64 * 1024,
     })
     return res.ok
-  } catch {
-    console.error('[alerts] Webhook failed:', url)
+  } catch (e) {
+    console.error('[alerts] Webhook failed:', url, e instanceof Error ? e.message : e)
     return false
   }
 }
@@ -179,6 +182,27 @@ export interface AlertTriggerContext {
   brand: Brand
 }
 
+// Multi-sample results (sample_count > 1) carry their own variance, so a change
+// must also be statistically significant at 95% to alert. Single-sample rows
+// read as n = 1 estimates; when both sides are single samples there is nothing
+// to test against and the plain threshold rules apply.
+
+function mentionEstimate(r: MonitoringResult) {
+  return r.sample_stats?.mention_rate ?? { n: 1, successes: r.brand_mentioned ? 1 : 0 }
+}
+
+function visibilityEstimate(r: MonitoringResult) {
+  return r.sample_stats?.visibility ?? { n: 1, mean: r.visibility_score, variance: 0 }
+}
+
+function sentimentEstimate(r: MonitoringResult) {
+  return r.sample_stats?.sentiment ?? { n: 1, mean: r.sentiment_score ?? 0, variance: 0 }
+}
+
+function isMentionChangeSignificant(result: MonitoringResult, previous: MonitoringResult) {
+  return isProportionChangeSignificant(mentionEstimate(previous), mentionEstimate(result)) ?? true
+}
+
 export function shouldTriggerAlert(rule: AlertRule, ctx: AlertTriggerContext): boolean {
   const { result, previousResult } = ctx
   const { type, condition } = rule
@@ -186,24 +210,41 @@ export function shouldTriggerAlert(rule: AlertRule, ctx: AlertTriggerContext): b
   switch (type) {
     case 'mention_new':
       // Brand wasn't mentioned before, now it is
-      return result.brand_mentioned && (previousResult ? !previousResult.brand_mentioned : true)
+      if (!previousResult) return result.brand_mentioned
+      return (
+        result.brand_mentioned &&
+        !previousResult.brand_mentioned &&
+        isMentionChangeSignificant(result, previousResult)
+      )
 
     case 'mention_lost':
       // Brand was mentioned before, now it isn't
-      return !result.brand_mentioned && previousResult?.brand_mentioned === true
+      return (
+        !result.brand_mentioned &&
+        previousResult?.brand_mentioned === true &&
+        isMentionChangeSignificant(result, previousResult)
+      )
 
     case 'sentiment_drop': {
       if (!result.sentiment_score || !previousResult?.sentiment_score) return false
       const drop = previousResult.sentiment_score - result.sentiment_score
       const threshold = condition.threshold ?? 0.3
-      return drop >= threshold
+      return (
+        drop >= threshold &&
+        (isMeanChangeSignificant(sentimentEstimate(previousResult), sentimentEstimate(result)) ??
+          true)
+      )
     }
 
     case 'sentiment_spike': {
       if (!result.sentiment_score || !previousResult?.sentiment_score) return false
       const rise = result.sentiment_score - previousResult.sentiment_score
       const threshold = condition.threshold ?? 0.3
-      return rise >= threshold
+      return (
+        rise >= threshold &&
+        (isMeanChangeSignificant(sentimentEstimate(previousResult), sentimentEstimate(result)) ??
+          true)
+      )
     }
 
     case 'competitor_ahead': {
@@ -229,7 +270,11 @@ export function shouldTriggerAlert(rule: AlertRule, ctx: AlertTriggerContext): b
       if (!previousResult) return false
       const change = Math.abs(result.visibility_score - previousResult.visibility_score)
       const threshold = condition.threshold ?? 20
-      return change >= threshold
+      return (
+        change >= threshold &&
+        (isMeanChangeSignificant(visibilityEstimate(previousResult), visibilityEstimate(result)) ??
+          true)
+      )
     }
 
     default:
@@ -244,6 +289,11 @@ export function buildAlertEvent(
   result: MonitoringResult,
   brand: Brand,
 ): Omit<AlertEvent, 'id' | 'created_at'> {
+  const visibility = result.sample_stats?.visibility
+  const visibilityDetail = visibility
+    ? ` (mean of ${visibility.n} samples, 95% CI ${Math.round(visibility.ci_low)}–${Math.round(visibility.ci_high)})`
+    : ''
+
   const messages: Record<string, { title: string; message: string }> = {
     mention_new: {
       title: `${brand.name} mentioned on ${result.engine}`,
@@ -267,7 +317,7 @@ export function buildAlertEvent(
     },
     visibility_change: {
       title: `Visibility change detected for ${brand.name}`,
-      message: `The visibility score for ${brand.name} on ${result.engine} has changed significantly. Current score: ${result.visibility_score}/100.`,
+      message: `The visibility score for ${brand.name} on ${result.engine} has changed significantly. Current score: ${result.visibility_score}/100${visibilityDetail}.`,
     },
     sentiment_spike: {
       title: `Positive sentiment spike for ${brand.name}`,
@@ -287,7 +337,12 @@ export function buildAlertEvent(
     type: rule.type,
     title: msg.title,
     message: msg.message,
-    data: { result_id: result.id, engine: result.engine, score: result.visibility_score },
+    data: {
+      result_id: result.id,
+      engine: result.engine,
+      score: result.visibility_score,
+      sample_count: result.sample_count,
+    },
     channels_sent: [],
     is_read: false,
   }
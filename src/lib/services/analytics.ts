@@ -0,0 +1,266 @@
+// PATH: src/lib/services/analytics.ts
+// Analytics — the metrics behind the Dashboard and Analytics pages, for one
+// brand or all of a user's brands over the last N days.
+//
+// Monitoring metrics come from the daily `brand_health_scores` rollups (daily
+// series and per-engine breakdown) plus `monitoring_results` for mention
+// positions; intent and content-type distributions come from `analysis_scans`.
+// Every headline metric is also computed for the preceding period.
+
+import { type createServerClient, fetchAllRows } from '@/lib/supabase'
+import type {
+  AnalysisScanSummary,
+  AnalyticsContentTypeStat,
+  AnalyticsDaily,
+  AnalyticsEngineStat,
+  AnalyticsIntentStat,
+  AnalyticsSummary,
+  AnalyticsTotals,
+  BrandHealthScore,
+  IntentType,
+  MonitoringEngine,
+} from '@/types'
+
+type Db = ReturnType<typeof createServerClient>
+
+type HealthRow = Pick<
+  BrandHealthScore,
+  | 'date'
+  | 'visibility_score'
+  | 'sentiment_score'
+  | 'hallucination_rate'
+  | 'result_count'
+  | 'mention_count'
+  | 'citation_count'
+  | 'health_score'
+  | 'engine_breakdown'
+>
+
+type PositionRow = { mention_position: number; created_at: string }
+
+// PostgREST answers at most 1,000 rows per request, so the queries below are
+// read page by page with fetchAllRows (up to 20,000 rows per table)
+const RECENT_SCANS = 10
+
+const round = (n: number, digits = 1) => Math.round(n * 10 ** digits) / 10 ** digits
+const dayOf = (timestamp: string) => timestamp.split('T')[0]!
+
+function isoDaysAgo(days: number): string {
+  return dayOf(new Date(Date.now() - days * 86_400_000).toISOString())
+}
+
+/** Mean of `value` weighted by each row's answer count; null without answers. */
+function weighted<T extends { result_count: number }>(rows: T[], value: (r: T) => number) {
+  const total = rows.reduce((a, r) => a + r.result_count, 0)
+  return total > 0 ? rows.reduce((a, r) => a + value(r) * r.result_count, 0) / total : null
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, v) => a + v, 0) / values.length : null
+}
+
+function totalsOf(
+  health: HealthRow[],
+  positions: PositionRow[],
+  scans: AnalysisScanSummary[],
+): AnalyticsTotals {
+  const results = health.reduce((a, r) => a + r.result_count, 0)
+  const healthScore = weighted(health, (r) => r.health_score)
+  const visibility = weighted(health, (r) => r.visibility_score)
+  const avgPosition = mean(positions.map((p) => p.mention_position))
+  const avgScanScore = mean(scans.map((s) => s.visibility_score))
+
+  return {
+    healthScore: healthScore === null ? null : round(healthScore),
+    visibility: visibility === null ? null : round(visibility),
+    mentionRate:
+      results > 0 ? round(health.reduce((a, r) => a + r.mention_count, 0) / results, 3) : null,
+    avgPosition: avgPosition === null ? null : round(avgPosition),
+    results,
+    citations: health.reduce((a, r) => a + r.citation_count, 0),
+    scans: scans.length,
+    avgScanScore: avgScanScore === null ? null : round(avgScanScore),
+  }
+}
+
+function dailySeries(
+  health: HealthRow[],
+  scans: AnalysisScanSummary[],
+  since: string,
+): AnalyticsDaily[] {
+  const days = new Map<string, { health: HealthRow[]; scans: AnalysisScanSummary[] }>()
+  const day = (date: string) => {
+    const d = days.get(date) ?? { health: [], scans: [] }
+    days.set(date, d)
+    return d
+  }
+  for (const r of health) day(r.date).health.push(r)
+  for (const s of scans) day(dayOf(s.created_at)).scans.push(s)
+
+  return [...days]
+    .filter(([date]) => date >= since)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, d]) => {
+      const healthScore = weighted(d.health, (r) => r.health_score)
+      const visibility = weighted(d.health, (r) => r.visibility_score)
+      const scanScore = mean(d.scans.map((s) => s.visibility_score))
+      return {
+        date,
+        health_score: healthScore === null ? null : round(healthScore),
+        visibility_score: visibility === null ? null : round(visibility),
+        results: d.health.reduce((a, r) => a + r.result_count, 0),
+        mentions: d.health.reduce((a, r) => a + r.mention_count, 0),
+        citations: d.health.reduce((a, r) => a + r.citation_count, 0),
+        scans: d.scans.length,
+        scan_score: scanScore === null ? null : round(scanScore),
+      }
+    })
+}
+
+function engineStats(health: HealthRow[]): AnalyticsEngineStat[] {
+  const byEngine = new Map<
+    MonitoringEngine,
+    Array<NonNullable<HealthRow['engine_breakdown'][MonitoringEngine]>>
+  >()
+  for (const r of health) {
+    for (const [engine, metrics] of Object.entries(r.engine_breakdown ?? {})) {
+      if (!metrics) continue
+      const list = byEngine.get(engine as MonitoringEngine) ?? []
+      list.push(metrics)
+      byEngine.set(engine as MonitoringEngine, list)
+    }
+  }
+
+  return [...byEngine]
+    .map(([engine, rows]) => {
+      const results = rows.reduce((a, r) => a + r.result_count, 0)
+      return {
+        engine,
+        results,
+        visibility_score: round(weighted(rows, (r) => r.visibility_score) ?? 0),
+        sentiment_score: round(weighted(rows, (r) => r.sentiment_score) ?? 0, 3),
+        hallucination_rate: round(weighted(rows, (r) => r.hallucination_rate) ?? 0, 3),
+        mention_rate:
+          results > 0 ? round(rows.reduce((a, r) => a + r.mention_count, 0) / results, 3) : 0,
+        citations: rows.reduce((a, r) => a + r.citation_count, 0),
+        health_score: round(weighted(rows, (r) => r.health_score) ?? 0),
+      }
+    })
+    .sort((a, b) => b.health_score - a.health_score)
+}
+
+function intentStats(scans: AnalysisScanSummary[]): AnalyticsIntentStat[] {
+  const byIntent = new Map<IntentType, number[]>()
+  for (const s of scans) {
+    if (!s.intent) continue
+    const scores = byIntent.get(s.intent)
+    if (scores) scores.push(s.visibility_score)
+    else byIntent.set(s.intent, [s.visibility_score])
+  }
+  const total = [...byIntent.values()].reduce((a, v) => a + v.length, 0)
+  return [...byIntent]
+    .map(([intent, scores]) => ({
+      intent,
+      scans: scores.length,
+      share: round(scores.length / total, 3),
+      avgScore: round(mean(scores) ?? 0),
+    }))
+    .sort((a, b) => b.scans - a.scans)
+}
+
+function contentTypeStats(scans: AnalysisScanSummary[]): AnalyticsContentTypeStat[] {
+  const byType = new Map<string, number[]>()
+  for (const s of scans) {
+    const type = s.content_type?.trim()
+    if (!type) continue
+    const scores = byType.get(type)
+    if (scores) scores.push(s.visibility_score)
+    else byType.set(type, [s.visibility_score])
+  }
+  return [...byType]
+    .map(([contentType, scores]) => ({
+      contentType,
+      scans: scores.length,
+      avgScore: round(mean(scores) ?? 0),
+    }))
+    .sort((a, b) => b.scans - a.scans)
+}
+
+export async function getAnalyticsSummary(
+  db: Db,
+  userId: string,
+  options: { days: number; brandId?: string },
+): Promise<AnalyticsSummary> {
+  const since = isoDaysAgo(options.days - 1)
+  const previousSince = isoDaysAgo(2 * options.days - 1)
+
+  // `id` breaks ties in the order, so no row moves between pages
+  const healthPage = (from: number, to: number) => {
+    let query = db
+      .from('brand_health_scores')
+      .select(
+        'date, visibility_score, sentiment_score, hallucination_rate, result_count, mention_count, citation_count, health_score, engine_breakdown',
+        { count: 'exact' },
+      )
+      .eq('user_id', userId)
+      .gte('date', previousSince)
+    if (options.brandId) query = query.eq('brand_id', options.brandId)
+    return query.order('date', { ascending: false }).order('id').range(from, to)
+  }
+
+  const positionsPage = (from: number, to: number) => {
+    let query = db
+      .from('monitoring_results')
+      .select('mention_position, created_at', { count: 'exact' })
+      .eq('user_id', userId)
+      .eq('brand_mentioned', true)
+      .not('mention_position', 'is', null)
+      .gte('created_at', previousSince)
+    if (options.brandId) query = query.eq('brand_id', options.brandId)
+    return query.order('created_at', { ascending: false }).order('id').range(from, to)
+  }
+
+  // Scans are not tied to a brand: the brand filter does not apply to them
+  const scansPage = (from: number, to: number) =>
+    db
+      .from('analysis_scans')
+      .select(
+        'id, client_id, source, type, engine, visibility_score, intent, content_type, created_at',
+        { count: 'exact' },
+      )
+      .eq('user_id', userId)
+      .gte('created_at', previousSince)
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(from, to)
+
+  const [health, positions, scans] = await Promise.all([
+    fetchAllRows<HealthRow>('health scores', healthPage),
+    fetchAllRows<PositionRow>('results', positionsPage),
+    fetchAllRows<AnalysisScanSummary>('scans', scansPage),
+  ])
+
+  const current = <T>(rows: T[], dateOf: (r: T) => string) => rows.filter((r) => dateOf(r) >= since)
+  const previous = <T>(rows: T[], dateOf: (r: T) => string) => rows.filter((r) => dateOf(r) < since)
+  const positionDate = (p: PositionRow) => dayOf(p.created_at)
+  const scanDate = (s: AnalysisScanSummary) => dayOf(s.created_at)
+
+  const currentHealth = current(health, (r) => r.date)
+  const currentScans = current(scans, scanDate)
+
+  return {
+    days: options.days,
+    brandId: options.brandId ?? null,
+    totals: totalsOf(currentHealth, current(positions, positionDate), currentScans),
+    previous: totalsOf(
+      previous(health, (r) => r.date),
+      previous(positions, positionDate),
+      previous(scans, scanDate),
+    ),
+    daily: dailySeries(currentHealth, currentScans, since),
+    byEngine: engineStats(currentHealth),
+    intents: intentStats(currentScans),
+    contentTypes: contentTypeStats(currentScans),
+    recentScans: currentScans.slice(0, RECENT_SCANS),
+  }
+}
@@ -0,0 +1,379 @@
+// PATH: src/lib/services/audit.ts
+//
+// ─── On-page AIO audit ───────────────────────────────────────────────────────
+//
+// Rule-based checks on the page model (./html-extractor), run next to the LLM
+// analysis so the optimizer score comes with verifiable evidence:
+//
+//   faq_schema          → FAQPage / QAPage markup
+//   question_headings   → subheadings phrased as the questions users ask
+//   definition_first    → the first paragraph defines the topic ("X is a …")
+//   numbered_lists      → at least one ordered list of 3+ steps
+//   statistics_density  → percentages, amounts and figures per word
+//   author_markup       → a named author backed by schema.org markup
+//   publish_date        → a publish/update date from the last 24 months
+//   outbound_citations  → links from the content to 2+ external domains
+//   reading_level       → Flesch reading ease and sentence length
+//
+// Each check maps to the ENGINE_SIGNALS it verifies, which gives a per-engine
+// pass rate. Markup checks are not applicable to pasted text.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {
+  AuditCheck,
+  AuditCheckId,
+  AuditEngine,
+  AuditEngineScore,
+  AuditReport,
+  AuditStatus,
+  ExtractedPage,
+} from '@/types'
+import { normalizeDomain } from './citations'
+
+// ─── Engine signals ───────────────────────────────────────────────────────────
+// What each engine rewards, shown on the Engine Monitor page. Checks refer to
+// the entries by key, so the audit and the advice stay in sync.
+
+const SIGNALS = {
+  chatgpt: {
+    definitions: 'Define key terms clearly in the first paragraph',
+    numberedLists: 'Use numbered lists for step-by-step content',
+    examples: 'Include concrete examples with measurable outcomes',
+    faq: 'Add FAQ sections with question-answer format',
+    sources: 'Cite authoritative sources explicitly',
+  },
+  gemini: {
+    entities: 'Optimize for Knowledge Graph entity recognition',
+    schema: 'Use structured data / schema markup',
+    temporal: 'Include geographic and temporal signals',
+    eeat: 'Improve E-E-A-T signals (author bio, credentials)',
+    headings: 'Add clear topic headings that match search queries',
+  },
+  perplexity: {
+    statistics: 'Increase factual density with statistics and data',
+    dates: 'Add publication dates and source attribution',
+    declarative: 'Use direct, declarative sentence structures',
+    numbers: 'Include numerical data and comparative metrics',
+    citations: 'Add primary source links and citations',
+  },
+  claude: {
+    reasoning: 'Develop logical argument chains with clear reasoning',
+    nuance: 'Acknowledge nuance, counterarguments, and edge cases',
+    language: 'Use precise technical language appropriate to context',
+    hierarchy: 'Structure content with clear conceptual hierarchy',
+    synthesis: 'Include comparative analysis and synthesis',
+  },
+} as const satisfies Record<AuditEngine, Record<string, string>>
+
+export const AUDIT_ENGINES: AuditEngine[] = ['chatgpt', 'gemini', 'perplexity', 'claude']
+
+export const ENGINE_SIGNALS: Record<AuditEngine, string[]> = {
+  chatgpt: Object.values(SIGNALS.chatgpt),
+  gemini: Object.values(SIGNALS.gemini),
+  perplexity: Object.values(SIGNALS.perplexity),
+  claude: Object.values(SIGNALS.claude),
+}
+
+export function getEngineSignals(engineId: string): string[] {
+  return ENGINE_SIGNALS[engineId.toLowerCase() as AuditEngine] ?? []
+}
+
+// ─── Text helpers ─────────────────────────────────────────────────────────────
+
+const QUESTION_START =
+  /^(how|what|why|when|where|which|who|whose|can|could|does|do|did|is|are|should|will|would)\b/i
+
+const DEFINITION =
+  /\b(is|are|refers? to|means|describes|stands for|is defined as)\s+(an?|the|one of|any|used|when|how)\b/i
+
+// Currency amounts, percentages, multipliers and large or decimal figures.
+// Repetitions are bounded: on a run like "1,1,1,…" an open-ended `[\d,.]*` is
+// retried from every digit, which is quadratic on a 50k-character page.
+const STATISTIC =
+  /[$€£]\s?\d[\d,.]{0,20}(?:\s?(?:k|m|bn|million|billion|thousand)\b)?|\b\d[\d,.]{0,20}\s?(?:%|percent\b|per cent\b|x\b|times\b|million\b|billion\b|thousand\b)|\b\d{1,3}(?:,\d{3}){1,6}\b|\b\d{1,15}\.\d{1,15}\b/gi
+
+const words = (text: string) => text.split(/\s+/).filter((w) => /[\p{L}\p{N}]/u.test(w))
+
+function sentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter((s) => words(s).length > 0)
+}
+
+function syllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '')
+  if (w.length <= 3) return 1
+  const trimmed = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '')
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 1)
+}
+
+const quote = (text: string, max = 120) =>
+  `"${text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text}"`
+
+const plural = (n: number, one: string, many = `${one}s`) => `${n} ${n === 1 ? one : many}`
+
+// ─── Checks ───────────────────────────────────────────────────────────────────
+
+interface AuditContext {
+  /** false for pasted text, where markup-based signals cannot exist */
+  markup: boolean
+  now: number
+}
+
+interface CheckDefinition {
+  id: AuditCheckId
+  label: string
+  weight: number
+  recommendation: string
+  signals: Partial<Record<AuditEngine, string[]>>
+  run(page: ExtractedPage, ctx: AuditContext): { status: AuditStatus; evidence: string }
+}
+
+const NOT_APPLICABLE = {
+  status: 'not_applicable' as const,
+  evidence: 'Markup cannot be checked on pasted text',
+}
+
+const STALE_AFTER_MS = 2 * 365 * 86_400_000
+
+const CHECKS: CheckDefinition[] = [
+  {
+    id: 'faq_schema',
+    label: 'FAQ schema markup',
+    weight: 1,
+    recommendation: 'Mark up question-and-answer content with schema.org FAQPage JSON-LD.',
+    signals: { chatgpt: [SIGNALS.chatgpt.faq], gemini: [SIGNALS.gemini.schema] },
+    run(page, ctx) {
+      if (!ctx.markup) return NOT_APPLICABLE
+      const schemaFaqs = page.faqs.filter((f) => f.source === 'schema').length
+      if (page.schema.some((e) => /\b(FAQPage|QAPage)\b/.test(e.type))) {
+        return { status: 'pass', evidence: `FAQPage markup with ${plural(schemaFaqs, 'question')}` }
+      }
+      const contentFaqs = page.faqs.length - schemaFaqs
+      return {
+        status: 'fail',
+        evidence:
+          contentFaqs > 0
+            ? `No FAQPage markup, although ${plural(contentFaqs, 'question/answer block')} could be marked up`
+            : 'No FAQPage markup and no question/answer blocks',
+      }
+    },
+  },
+  {
+    id: 'question_headings',
+    label: 'Question-style headings',
+    weight: 1,
+    recommendation: 'Phrase some H2/H3 headings as the questions your audience asks.',
+    signals: { chatgpt: [SIGNALS.chatgpt.faq], gemini: [SIGNALS.gemini.headings] },
+    run(page) {
+      const subheadings = page.headings.filter((h) => h.level >= 2 && h.level <= 4)
+      if (subheadings.length === 0) return { status: 'fail', evidence: 'No subheadings found' }
+      const questions = subheadings.filter(
+        (h) => h.text.endsWith('?') || QUESTION_START.test(h.text),
+      )
+      const pass =
+        questions.length >= 2 ||
+        (questions.length >= 1 && questions.length / subheadings.length >= 0.25)
+      const examples = questions.slice(0, 2).map((h) => quote(h.text, 80))
+      return {
+        status: pass ? 'pass' : 'fail',
+        evidence:
+          `${questions.length} of ${plural(subheadings.length, 'subheading')} phrased as questions` +
+          (examples.length > 0 ? ` (${examples.join(', ')})` : ''),
+      }
+    },
+  },
+  {
+    id: 'definition_first',
+    label: 'Definition in the first paragraph',
+    weight: 2,
+    recommendation: 'Open with a one-sentence definition of the topic ("X is a …").',
+    signals: { chatgpt: [SIGNALS.chatgpt.definitions], gemini: [SIGNALS.gemini.entities] },
+    run(page) {
+      const headingTexts = new Set(page.headings.map((h) => h.text))
+      const first = page.mainText
+        .split('\n')
+        .find((line) => !headingTexts.has(line) && words(line).length >= 8)
+      if (!first) return { status: 'fail', evidence: 'No opening paragraph found' }
+      const opening = sentences(first).slice(0, 2)
+      const definition = opening.find((s) => DEFINITION.test(s))
+      return definition
+        ? { status: 'pass', evidence: `Opens with a definition: ${quote(definition)}` }
+        : {
+            status: 'fail',
+            evidence: `Opening paragraph has no definition: ${quote(opening[0] ?? first)}`,
+          }
+    },
+  },
+  {
+    id: 'numbered_lists',
+    label: 'Numbered lists',
+    weight: 1,
+    recommendation: 'Present steps, rankings and processes as numbered lists.',
+    signals: { chatgpt: [SIGNALS.chatgpt.numberedLists], claude: [SIGNALS.claude.hierarchy] },
+    run(page) {
+      const numbered = page.lists.filter((l) => l.ordered && l.items.length >= 3)
+      if (numbered.length > 0) {
+        return {
+          status: 'pass',
+          evidence: `${plural(numbered.length, 'numbered list')} (${numbered
+            .slice(0, 3)
+            .map((l) => plural(l.items.length, 'item'))
+            .join(', ')})`,
+        }
+      }
+      const bulleted = page.lists.filter((l) => !l.ordered).length
+      return {
+        status: 'fail',
+        evidence: `No numbered list of 3+ items${bulleted > 0 ? `; ${plural(bulleted, 'bulleted list')}` : ''}`,
+      }
+    },
+  },
+  {
+    id: 'statistics_density',
+    label: 'Statistics density',
+    weight: 2,
+    recommendation: 'Back claims with figures: percentages, amounts and sourced data points.',
+    signals: {
+      chatgpt: [SIGNALS.chatgpt.examples],
+      perplexity: [SIGNALS.perplexity.statistics, SIGNALS.perplexity.numbers],
+    },
+    run(page) {
+      const total = page.wordCount
+      const stats = page.mainText.match(STATISTIC) ?? []
+      const needed = Math.max(2, Math.ceil(total / 300))
+      const examples = [...new Set(stats.map((s) => s.trim()))].slice(0, 3)
+      return {
+        status: stats.length >= needed ? 'pass' : 'fail',
+        evidence:
+          `${plural(stats.length, 'statistic')} in ${plural(total, 'word')} (target ${needed})` +
+          (examples.length > 0 ? `, e.g. ${examples.join(', ')}` : ''),
+      }
+    },
+  },
+  {
+    id: 'author_markup',
+    label: 'Author / E-E-A-T markup',
+    weight: 1,
+    recommendation: 'Name the author and add schema.org author markup linking to a bio.',
+    signals: { gemini: [SIGNALS.gemini.eeat], perplexity: [SIGNALS.perplexity.dates] },
+    run(page, ctx) {
+      if (!ctx.markup) return NOT_APPLICABLE
+      const inSchema = page.schema.some(
+        (e) => e.type === 'Person' || e.data['author'] !== undefined,
+      )
+      if (!page.author) return { status: 'fail', evidence: 'No author found' }
+      return inSchema
+        ? { status: 'pass', evidence: `Author "${page.author}" with schema.org markup` }
+        : { status: 'fail', evidence: `Byline "${page.author}" without schema.org author markup` }
+    },
+  },
+  {
+    id: 'publish_date',
+    label: 'Publish / update date',
+    weight: 1,
+    recommendation: 'Show a publish date and refresh the page with a visible "updated" date.',
+    signals: { gemini: [SIGNALS.gemini.temporal], perplexity: [SIGNALS.perplexity.dates] },
+    run(page, ctx) {
+      if (!ctx.markup) return NOT_APPLICABLE
+      const latest = [page.modified, page.published]
+        .filter((d): d is string => d !== null)
+        .sort()
+        .pop()
+      if (!latest) return { status: 'fail', evidence: 'No publish or update date found' }
+      const label = page.modified === latest ? 'Updated' : 'Published'
+      return ctx.now - Date.parse(latest) > STALE_AFTER_MS
+        ? { status: 'fail', evidence: `${label} ${latest.slice(0, 10)}, more than 24 months ago` }
+        : { status: 'pass', evidence: `${label} ${latest.slice(0, 10)}` }
+    },
+  },
+  {
+    id: 'outbound_citations',
+    label: 'Outbound citations',
+    weight: 2,
+    recommendation: 'Link to primary sources and studies from within the content.',
+    signals: { chatgpt: [SIGNALS.chatgpt.sources], perplexity: [SIGNALS.perplexity.citations] },
+    run(page) {
+      const outbound = page.links.filter((l) => l.inContent && !l.internal)
+      const domains = [...new Set(outbound.map((l) => normalizeDomain(l.href)))]
+      return {
+        status: domains.length >= 2 ? 'pass' : 'fail',
+        evidence:
+          outbound.length === 0
+            ? 'No outbound links in the content'
+            : `${plural(outbound.length, 'outbound link')} to ${plural(domains.length, 'domain')} (${domains
+                .slice(0, 3)
+                .join(', ')})`,
+      }
+    },
+  },
+  {
+    id: 'reading_level',
+    label: 'Reading level',
+    weight: 1,
+    recommendation: 'Keep sentences short and direct: about 20 words or fewer on average.',
+    signals: { perplexity: [SIGNALS.perplexity.declarative], claude: [SIGNALS.claude.language] },
+    run(page) {
+      const list = sentences(page.mainText)
+      const all = list.flatMap(words)
+      if (all.length < 50)
+        return { status: 'not_applicable', evidence: 'Too little text to measure' }
+
+      const perSentence = all.length / list.length
+      // Flesch reading ease is calibrated for English only
+      const english = !page.lang || page.lang.toLowerCase().startsWith('en')
+      const ease = english
+        ? Math.round(
+            206.835 -
+              1.015 * perSentence -
+              (84.6 * all.reduce((a, w) => a + syllables(w), 0)) / all.length,
+          )
+        : null
+      const pass = perSentence <= 25 && (ease === null || ease >= 30)
+      return {
+        status: pass ? 'pass' : 'fail',
+        evidence:
+          `${Math.round(perSentence)} words per sentence` +
+          (ease === null ? '' : `, Flesch reading ease ${ease}`),
+      }
+    },
+  },
+]
+
+// ─── runAudit ─────────────────────────────────────────────────────────────────
+
+function weightedScore(checks: AuditCheck[]): number | null {
+  const applicable = checks.filter((c) => c.status !== 'not_applicable')
+  const total = applicable.reduce((a, c) => a + c.weight, 0)
+  if (total === 0) return null
+  const passed = applicable.filter((c) => c.status === 'pass').reduce((a, c) => a + c.weight, 0)
+  return Math.round((passed / total) * 100)
+}
+
+export function runAudit(
+  page: ExtractedPage,
+  options: { markup: boolean; now?: number },
+): AuditReport {
+  const ctx: AuditContext = { markup: options.markup, now: options.now ?? Date.now() }
+  const checks: AuditCheck[] = CHECKS.map(({ run, ...check }) => ({ ...check, ...run(page, ctx) }))
+
+  const byEngine: AuditEngineScore[] = AUDIT_ENGINES.map((engine) => {
+    const mapped = checks.filter((c) => c.signals[engine])
+    const applicable = mapped.filter((c) => c.status !== 'not_applicable')
+    return {
+      engine,
+      score: weightedScore(mapped),
+      passed: applicable.filter((c) => c.status === 'pass').length,
+      applicable: applicable.length,
+    }
+  })
+
+  return {
+    score: weightedScore(checks),
+    passed: checks.filter((c) => c.status === 'pass').length,
+    failed: checks.filter((c) => c.status === 'fail').length,
+    checks,
+    byEngine,
+  }
+}
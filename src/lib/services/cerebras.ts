@@ -4,6 +4,10 @@
 // Setup: https://cloud.cerebras.ai → crea account → genera API key
 // Aggiungi in .env.local: CEREBRAS_API_KEY=csk_...
 
+import type { ProviderCompletion } from '@/types'
+import { providerFetch } from '@/lib/http-client'
+import { ProviderError, rateLimitResetAt } from './provider-health'
+
 interface CerebrasMessage {
   role: 'user' | 'assistant' | 'system'
   content: string
@@ -42,12 +46,13 @@ export type CerebrasModel = (typeof CEREBRAS_MODELS)[keyof typeof CEREBRAS_MODEL
 export async function callCerebras(
   prompt: string,
   options: {
-    model?: CerebrasModel
+    /** uno dei CEREBRAS_MODELS o un altro modello Cerebras (default LLAMA_70B) */
+    model?: string
     temperature?: number
     maxTokens?: number
     systemPrompt?: string
   } = {},
-): Promise<string> {
+): Promise<ProviderCompletion> {
   const apiKey = process.env['CEREBRAS_API_KEY']
   if (!apiKey) {
     throw new Error(
@@ -67,7 +72,7 @@ export async function callCerebras(
   if (systemPrompt) messages.push({ role: 'system', content: systemPrompt })
   messages.push({ role: 'user', content: prompt })
 
-  const res = await fetch('https://api.cerebras.ai/v1/chat/completions', {
+  const res = await providerFetch('https://api.cerebras.ai/v1/chat/completions', {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${apiKey}`,
@@ -86,19 +91,22 @@ export async function callCerebras(
   if (!res.ok) {
     const errText = await res.text()
     if (res.status === 429) {
-      throw new Error(
+      throw new ProviderError(
         `Cerebras rate limit raggiunto (${res.status}). ` +
           'Limite giornaliero di 1 000 000 token esaurito. ' +
           'Il limite si resetta a mezzanotte UTC.',
+        'cerebras',
+        res.status,
+        rateLimitResetAt(res),
       )
     }
-    throw new Error(`Cerebras API error ${res.status}: ${errText}`)
+    throw new ProviderError(`Cerebras API error ${res.status}: ${errText}`, 'cerebras', res.status)
   }
 
   const data = (await res.json()) as CerebrasResponse
   const text = data.choices?.[0]?.message?.content
   if (!text) throw new Error('Risposta vuota da Cerebras API')
-  return text
+  return { text, model: data.model ?? model, usage: data.usage ?? null }
 }
 
 export function isCerebrasAvailable(): boolean {
@@ -0,0 +1,124 @@
+// PATH: src/lib/services/citations.ts
+//
+// ─── Citation extraction ─────────────────────────────────────────────────────
+//
+// Parses the sources an engine answer cites, in reading order:
+//
+//   markdown  → [label](https://…)
+//   footnote  → Perplexity-style [n] markers, resolved against "[n]: url"
+//               definitions in the text or the engine's native citation list
+//   bare      → plain https://… URLs
+//   native    → sources returned by a native engine API but never referenced
+//
+// URLs are deduplicated (fragment and utm_* params dropped) and normalised to
+// a domain (lowercase, no `www.`). Citations of the brand's own `domains` are
+// flagged, which feeds the Sources page and `brand_health_scores.citation_count`.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { Citation, CitationSource } from '@/types'
+
+const MARKDOWN_LINK = /\[([^\]\n]*)\]\((https?:\/\/[^\s)]+)\)/g
+const FOOTNOTE_DEFINITION = /^\s*\[(\d{1,3})\]:?\s+<?(https?:\/\/[^\s>]+)>?.*$/gm
+const FOOTNOTE_MARKER = /\[(\d{1,3})\](?![(:])/g
+const BARE_URL = /https?:\/\/[^\s<>()[\]"'`]+/g
+const TRAILING_PUNCTUATION = /[.,;:!?*_]+$/
+
+export function normalizeDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .split(/[/:?#]/)[0]!
+}
+
+function normalizeUrl(raw: string): string | null {
+  try {
+    const url = new URL(raw.replace(TRAILING_PUNCTUATION, ''))
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+    url.hash = ''
+    for (const key of [...url.searchParams.keys()]) {
+      if (key.startsWith('utm_')) url.searchParams.delete(key)
+    }
+    if (url.pathname.length > 1) url.pathname = url.pathname.replace(/\/+$/, '')
+    return url.toString()
+  } catch {
+    return null
+  }
+}
+
+export function isBrandDomain(domain: string, brandDomains: readonly string[]): boolean {
+  return brandDomains.some((d) => domain === d || domain.endsWith(`.${d}`))
+}
+
+interface Found {
+  url: string
+  source: CitationSource
+  index: number
+}
+
+export function extractCitations(
+  text: string,
+  options: {
+    native?: readonly string[]
+    brandDomains?: readonly (string | null | undefined)[]
+  } = {},
+): Citation[] {
+  const native = options.native ?? []
+  const brandDomains = (options.brandDomains ?? [])
+    .filter((d): d is string => !!d?.trim())
+    .map(normalizeDomain)
+
+  const found: Found[] = []
+  const definitions = new Map<number, string>()
+
+  // Definitions are resolved, not cited, where they stand; blank them out so the
+  // bare-URL pass does not count them twice
+  let rest = text.replace(FOOTNOTE_DEFINITION, (line, n: string, url: string) => {
+    definitions.set(parseInt(n, 10), url)
+    return ' '.repeat(line.length)
+  })
+  rest = rest.replace(MARKDOWN_LINK, (link, _label: string, url: string, index: number) => {
+    found.push({ url, source: 'markdown', index })
+    return ' '.repeat(link.length)
+  })
+  for (const m of rest.matchAll(FOOTNOTE_MARKER)) {
+    const n = parseInt(m[1]!, 10)
+    const url = definitions.get(n) ?? native[n - 1]
+    if (url) found.push({ url, source: 'footnote', index: m.index! })
+  }
+  for (const m of rest.matchAll(BARE_URL)) {
+    found.push({ url: m[0], source: 'bare', index: m.index! })
+  }
+
+  found.sort((a, b) => a.index - b.index)
+  const ordered = [
+    ...found,
+    ...[...definitions.values()].map((url) => ({ url, source: 'footnote' as const })),
+    ...native.map((url) => ({ url, source: 'native' as const })),
+  ]
+
+  const citations: Citation[] = []
+  const seen = new Set<string>()
+  for (const { url: raw, source } of ordered) {
+    const url = normalizeUrl(raw)
+    if (!url || seen.has(url)) continue
+    seen.add(url)
+    const domain = normalizeDomain(url)
+    citations.push({
+      url,
+      domain,
+      source,
+      position: citations.length + 1,
+      is_brand_domain: isBrandDomain(domain, brandDomains),
+    })
+  }
+  return citations
+}
+
+/** Union of several answers' citations (multi-sample runs), renumbered. */
+export function mergeCitations(lists: Citation[][]): Citation[] {
+  const byUrl = new Map<string, Citation>()
+  for (const c of lists.flat()) if (!byUrl.has(c.url)) byUrl.set(c.url, c)
+  return [...byUrl.values()].map((c, i) => ({ ...c, position: i + 1 }))
+}
@@ -0,0 +1,686 @@
+// PATH: src/lib/services/crawler.ts
+// Site crawler — the optimizer's 'site' mode.
+//
+// A crawl starts from a domain (or a page of it) or from a sitemap.xml URL:
+//   1. robots.txt is read once; disallowed URLs are skipped and its Crawl-delay
+//      spaces out page fetches (capped by CRAWL_MAX_DELAY_MS)
+//   2. URLs come from the sitemap (the one given, those listed in robots.txt,
+//      or /sitemap.xml); without one, internal links are followed level by level
+//   3. up to `max_pages` pages are fetched and analyzed, CRAWL_CONCURRENCY at a
+//      time. URLs are normalized (no fragment, no tracking parameters) and
+//      pages whose canonical URL was already analyzed are skipped
+//   4. the site-level report (average scores, worst pages, common audit
+//      issues) is stored on the crawl
+//
+// Crawls are background jobs in the server process: POST /api/crawls returns
+// at once and the client polls the crawl for progress. Deleting a crawl stops it.
+
+import { safeFetch } from '@/lib/safe-fetch'
+import type { createServerClient } from '@/lib/supabase'
+import { mapWithConcurrency } from '@/lib/utils'
+import type { CrawlCreateInput } from '@/lib/validations'
+import { AUDIT_ENGINES } from './audit'
+import { normalizeDomain } from './citations'
+import { analyzePage, BOT_USER_AGENT, fetchUrlContent } from './gemini'
+import type {
+  AuditCheckId,
+  SiteCrawl,
+  SiteCrawlDiscovery,
+  SiteCrawlIssue,
+  SiteCrawlPage,
+  SiteCrawlPageSummary,
+  SiteCrawlReport,
+} from '@/types'
+
+type Db = ReturnType<typeof createServerClient>
+
+type PageRow = Omit<SiteCrawlPage, 'id' | 'crawl_id' | 'created_at'>
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? '', 10)
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+export function getCrawlerConfig() {
+  return {
+    /** pages fetched and analyzed at the same time */
+    concurrency: envInt('CRAWL_CONCURRENCY', 3),
+    /** upper bound for the robots.txt Crawl-delay */
+    maxCrawlDelayMs: envInt('CRAWL_MAX_DELAY_MS', 5_000),
+    /** a running crawl without progress for this long is considered dead */
+    staleAfterMs: envInt('CRAWL_STALE_AFTER_MS', 15 * 60 * 1000),
+    /** queued crawls started by one cron tick or worker tick */
+    batchSize: envInt('CRAWL_BATCH_SIZE', 2),
+    /**
+     * Start crawls in the request that creates them. Serverless functions are
+     * frozen once the response is sent, so on Vercel crawls are only queued and
+     * started by the cron route (`/api/cron/crawls`).
+     */
+    inline: process.env['CRAWL_INLINE']
+      ? process.env['CRAWL_INLINE'] === 'true'
+      : !process.env['VERCEL'],
+  }
+}
+
+// robots.txt product token
+const ROBOTS_AGENT = 'aiopulsebot'
+
+// robots.txt is untrusted input: longer lines and rules are ignored, extra rules dropped
+const MAX_ROBOTS_LINE = 2_000
+const MAX_ROBOTS_RULE_LENGTH = 512
+const MAX_ROBOTS_RULES = 500
+
+// Sitemap files read per crawl (index files included), and URLs kept from them
+const MAX_SITEMAPS = 10
+const MAX_SITEMAP_URLS = 2_000
+
+// ─── URLs ─────────────────────────────────────────────────────────────────────
+
+const TRACKING_PARAM = /^(utm_\w+|gclid|fbclid|msclkid|mc_cid|mc_eid)$/i
+
+const NON_HTML =
+  /\.(pdf|jpe?g|png|gif|webp|avif|svg|ico|css|js|json|xml|txt|zip|gz|mp3|mp4|webm|mov|woff2?|ttf|docx?|xlsx?|pptx?)$/i
+
+/** Absolute http(s) URL without fragment and tracking parameters, or null. */
+export function normalizeCrawlUrl(raw: string, base?: string): string | null {
+  try {
+    const url = new URL(raw.trim(), base)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+    url.hash = ''
+    for (const key of [...url.searchParams.keys()]) {
+      if (TRACKING_PARAM.test(key)) url.searchParams.delete(key)
+    }
+    return url.toString()
+  } catch {
+    return null
+  }
+}
+
+export interface CrawlTarget {
+  /** first page to analyze */
+  start: string
+  /** sitemap given as the crawl input, if any */
+  sitemap: string | null
+}
+
+/**
+ * Reads the crawl input: "example.com", a page URL or a sitemap.xml URL.
+ * Throws a TypeError when it is not a usable http(s) URL.
+ */
+export function resolveCrawlTarget(input: string): CrawlTarget {
+  const raw = /^[a-z][a-z\d+.-]*:\/\//i.test(input.trim())
+    ? input.trim()
+    : `https://${input.trim()}`
+  const url = normalizeCrawlUrl(raw)
+  if (!url || !new URL(url).hostname.includes('.')) {
+    throw new TypeError(`Invalid crawl URL: ${input}`)
+  }
+
+  const parsed = new URL(url)
+  return /\.xml$/i.test(parsed.pathname)
+    ? { start: parsed.origin + '/', sitemap: url }
+    : { start: url, sitemap: null }
+}
+
+async function fetchText(url: string, accept: string): Promise<string | null> {
+  try {
+    const res = await safeFetch(url, {
+      headers: { 'User-Agent': BOT_USER_AGENT, Accept: accept },
+      timeoutMs: 10_000,
+    })
+    return res.ok ? res.body : null
+  } catch {
+    return null
+  }
+}
+
+// ─── robots.txt ───────────────────────────────────────────────────────────────
+
+interface RobotsRule {
+  allow: boolean
+  /** the rule as written, its length decides which rule wins */
+  path: string
+  /** literal parts between the `*` wildcards */
+  segments: string[]
+  /** the rule ends with `$` */
+  anchored: boolean
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[]
+  crawlDelayMs: number
+  sitemaps: string[]
+}
+
+function robotsRule(allow: boolean, path: string): RobotsRule {
+  const anchored = path.endsWith('$')
+  const body = (anchored ? path.slice(0, -1) : path).replace(/\*+/g, '*')
+  return { allow, path, segments: body.split('*'), anchored }
+}
+
+// Wildcard match in linear time: the first segment is a prefix, the others are
+// found left to right (the leftmost match is always the best one for `*`), and
+// with `$` the last segment must end the path.
+function matchesRule(rule: RobotsRule, path: string): boolean {
+  const { segments, anchored } = rule
+  const first = segments[0]!
+  if (!path.startsWith(first)) return false
+  if (segments.length === 1) return !anchored || path.length === first.length
+
+  let pos = first.length
+  for (let i = 1; i < segments.length - 1; i++) {
+    const found = path.indexOf(segments[i]!, pos)
+    if (found === -1) return false
+    pos = found + segments[i]!.length
+  }
+  const last = segments[segments.length - 1]!
+  return anchored
+    ? path.length - last.length >= pos && path.endsWith(last)
+    : path.indexOf(last, pos) !== -1
+}
+
+/** Rules of the group for our bot, or of the `*` group when there is none. */
+export function parseRobots(text: string): RobotsRules {
+  type Group = { agents: string[]; rules: RobotsRule[]; crawlDelay: number | null }
+  const groups: Group[] = []
+  const sitemaps: string[] = []
+  let current: Group | null = null
+  let readingAgents = false
+
+  let ruleCount = 0
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.length > MAX_ROBOTS_LINE) continue
+    const match = /^\s*([a-z-]+)\s*:\s*(.*?)\s*(?:#.*)?$/i.exec(line)
+    if (!match) continue
+    const key = match[1]!.toLowerCase()
+    const value = match[2]!
+
+    if (key === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !readingAgents) {
+        current = { agents: [], rules: [], crawlDelay: null }
+        groups.push(current)
+      }
+      current.agents.push(value.toLowerCase())
+      readingAgents = true
+      continue
+    }
+    readingAgents = false
+
+    if (key === 'sitemap') {
+      if (value) sitemaps.push(value)
+    } else if (current && (key === 'allow' || key === 'disallow')) {
+      // An empty Disallow allows everything
+      if (value && value.length <= MAX_ROBOTS_RULE_LENGTH && ruleCount < MAX_ROBOTS_RULES) {
+        current.rules.push(robotsRule(key === 'allow', value))
+        ruleCount++
+      }
+    } else if (current && key === 'crawl-delay') {
+      const seconds = parseFloat(value)
+      if (Number.isFinite(seconds) && seconds > 0) current.crawlDelay = seconds
+    }
+  }
+
+  const group =
+    groups.find((g) => g.agents.includes(ROBOTS_AGENT)) ??
+    groups.find((g) => g.agents.includes('*'))
+  return {
+    rules: group?.rules ?? [],
+    crawlDelayMs: (group?.crawlDelay ?? 0) * 1000,
+    sitemaps,
+  }
+}
+
+/** The longest matching rule wins; Allow wins a tie. */
+export function isAllowedByRobots(robots: RobotsRules, url: URL): boolean {
+  const path = url.pathname + url.search
+  let best: RobotsRule | null = null
+  for (const rule of robots.rules) {
+    if (!matchesRule(rule, path)) continue
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow)
+    ) {
+      best = rule
+    }
+  }
+  return best?.allow ?? true
+}
+
+// ─── Sitemaps ─────────────────────────────────────────────────────────────────
+
+function decodeXml(value: string): string {
+  return value
+    .trim()
+    .replace(/^<!\[CDATA\[|\]\]>$/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .trim()
+}
+
+/** Page URLs of the sitemaps, following sitemap index files. */
+async function readSitemaps(urls: string[]): Promise<string[]> {
+  const pages: string[] = []
+  const queue = [...urls]
+  const read = new Set<string>()
+
+  while (queue.length > 0 && read.size < MAX_SITEMAPS && pages.length < MAX_SITEMAP_URLS) {
+    const url = queue.shift()!
+    if (read.has(url)) continue
+    read.add(url)
+
+    const xml = await fetchText(url, 'application/xml,text/xml;q=0.9,*/*;q=0.1')
+    if (!xml) continue
+    const locs = [...xml.matchAll(/<loc>([\s\S]*?)<\/loc>/gi)].map((m) => decodeXml(m[1]!))
+    if (/<sitemapindex[\s>]/i.test(xml)) queue.push(...locs)
+    else pages.push(...locs.slice(0, MAX_SITEMAP_URLS - pages.length))
+  }
+  return pages
+}
+
+// ─── Report ───────────────────────────────────────────────────────────────────
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : null
+
+export function buildSiteReport(pages: PageRow[]): SiteCrawlReport {
+  const analyzed = pages.filter((p) => p.status === 'succeeded' && p.result)
+
+  const issues = new Map<AuditCheckId, SiteCrawlIssue & { applicable: number }>()
+  for (const page of analyzed) {
+    for (const check of page.result!.audit?.checks ?? []) {
+      if (check.status === 'not_applicable') continue
+      const issue = issues.get(check.id) ?? {
+        id: check.id,
+        label: check.label,
+        recommendation: check.recommendation,
+        failedPages: 0,
+        share: 0,
+        applicable: 0,
+      }
+      issue.applicable++
+      if (check.status === 'fail') issue.failedPages++
+      issues.set(check.id, issue)
+    }
+  }
+
+  return {
+    pagesAnalyzed: analyzed.length,
+    pagesFailed: pages.length - analyzed.length,
+    averageScore: average(analyzed.map((p) => p.visibility_score ?? 0)),
+    averageAuditScore: average(
+      analyzed.flatMap((p) => (p.audit_score === null ? [] : [p.audit_score])),
+    ),
+    worstPages: [...analyzed]
+      .sort((a, b) => (a.visibility_score ?? 0) - (b.visibility_score ?? 0))
+      .slice(0, 5)
+      .map((p) => ({
+        url: p.url,
+        title: p.title,
+        visibilityScore: p.visibility_score ?? 0,
+        auditScore: p.audit_score,
+      })),
+    commonIssues: [...issues.values()]
+      .filter((i) => i.failedPages > 0)
+      .map(({ applicable, ...issue }) => ({
+        ...issue,
+        share: Math.round((issue.failedPages / applicable) * 100) / 100,
+      }))
+      .sort((a, b) => b.failedPages - a.failedPages || b.share - a.share),
+    byEngine: AUDIT_ENGINES.map((engine) => ({
+      engine,
+      score: average(
+        analyzed.flatMap((p) => {
+          const score = p.result!.audit?.byEngine.find((e) => e.engine === engine)?.score
+          return score === null || score === undefined ? [] : [score]
+        }),
+      ),
+    })),
+  }
+}
+
+// ─── Crawl run ────────────────────────────────────────────────────────────────
+
+// Spaces out calls by `delayMs`, also across concurrent workers
+function createThrottle(delayMs: number): () => Promise<void> {
+  let nextAt = 0
+  return async () => {
+    if (delayMs <= 0) return
+    const now = Date.now()
+    const at = Math.max(now, nextAt)
+    nextAt = at + delayMs
+    if (at > now) await new Promise((resolve) => setTimeout(resolve, at - now))
+  }
+}
+
+// Optimistic lock: only one caller moves the crawl from queued to running
+async function claimCrawl(db: Db, crawlId: string): Promise<SiteCrawl | null> {
+  const now = new Date().toISOString()
+  const { data } = await db
+    .from('site_crawls')
+    .update({ status: 'running', started_at: now, updated_at: now })
+    .eq('id', crawlId)
+    .eq('status', 'queued')
+    .select()
+  return ((data ?? [])[0] as SiteCrawl | undefined) ?? null
+}
+
+/** Saves progress; false when the crawl is gone (deleted) and should stop. */
+async function updateCrawl(db: Db, crawlId: string, fields: Partial<SiteCrawl>): Promise<boolean> {
+  const { data, error } = await db
+    .from('site_crawls')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', crawlId)
+    .eq('status', 'running')
+    .select('id')
+  if (error) {
+    // A lost progress update must not stop the crawl
+    console.error('[crawler] Could not update crawl:', error.message)
+    return true
+  }
+  return (data?.length ?? 0) > 0
+}
+
+/**
+ * Runs a queued crawl to the end. Never throws: failures are stored on the
+ * crawl (status 'failed' and `error`).
+ */
+export async function runSiteCrawl(db: Db, crawlId: string): Promise<void> {
+  const crawl = await claimCrawl(db, crawlId)
+  if (!crawl) return
+
+  const config = getCrawlerConfig()
+  const pages: PageRow[] = []
+  const queued = new Set<string>()
+  const rejected = new Set<string>()
+  const analyzed = new Set<string>()
+  let blocked = 0
+  let duplicates = 0
+  let stopped = false
+
+  try {
+    const target = resolveCrawlTarget(crawl.root_url)
+    const site = normalizeDomain(new URL(target.start).hostname)
+    const robotsUrl = new URL('/robots.txt', target.start).toString()
+    const robots = parseRobots((await fetchText(robotsUrl, 'text/plain')) ?? '')
+    const throttle = createThrottle(Math.min(robots.crawlDelayMs, config.maxCrawlDelayMs))
+
+    // Accepts a URL for analysis once: same site, HTML-like, allowed by robots.txt
+    const enqueue = (raw: string, base?: string): string | null => {
+      const url = normalizeCrawlUrl(raw, base)
+      if (!url || queued.has(url) || rejected.has(url) || queued.size >= crawl.max_pages)
+        return null
+      const parsed = new URL(url)
+      if (normalizeDomain(parsed.hostname) !== site || NON_HTML.test(parsed.pathname)) {
+        rejected.add(url)
+        return null
+      }
+      if (!isAllowedByRobots(robots, parsed)) {
+        rejected.add(url)
+        blocked++
+        return null
+      }
+      queued.add(url)
+      return url
+    }
+
+    // ── Discovery ─────────────────────────────────────────────────────────
+    let level: string[] = []
+    if (!target.sitemap) level.push(...[enqueue(target.start)].filter((u) => u !== null))
+
+    const sitemapUrls = target.sitemap
+      ? [target.sitemap]
+      : robots.sitemaps.length > 0
+        ? robots.sitemaps
+        : [new URL('/sitemap.xml', target.start).toString()]
+    for (const loc of await readSitemaps(sitemapUrls)) {
+      const url = enqueue(loc)
+      if (url) level.push(url)
+    }
+
+    const discovery: SiteCrawlDiscovery =
+      queued.size > (target.sitemap ? 0 : 1) ? 'sitemap' : 'links'
+    stopped = !(await updateCrawl(db, crawl.id, {
+      discovery,
+      pages_found: queued.size,
+      pages_blocked: blocked,
+    }))
+
+    // ── Fetch and analyze, one link level at a time ───────────────────────
+    while (level.length > 0 && !stopped) {
+      const next: string[] = []
+
+      await mapWithConcurrency(level, config.concurrency, async (url) => {
+        if (stopped) return
+        let row: PageRow
+        try {
+          await throttle()
+          const page = await fetchUrlContent(url)
+
+          if (discovery === 'links') {
+            for (const link of page.links) {
+              const found = link.internal ? enqueue(link.href) : null
+              if (found) next.push(found)
+            }
+          }
+
+          // The same page under another URL (e.g. with query parameters)
+          const canonical = page.meta.canonical ? normalizeCrawlUrl(page.meta.canonical, url) : null
+          if (analyzed.has(url) || (canonical && analyzed.has(canonical))) {
+            duplicates++
+            return
+          }
+          analyzed.add(url)
+          if (canonical) analyzed.add(canonical)
+
+          const result = await analyzePage(
+            page,
+            crawl.engine,
+            { userId: crawl.user_id },
+            crawl.model,
+          )
+          row = {
+            url,
+            title: page.title,
+            status: 'succeeded',
+            visibility_score: result.visibilityScore,
+            audit_score: result.audit?.score ?? null,
+            result,
+            error: null,
+          }
+        } catch (e) {
+          row = {
+            url,
+            title: null,
+            status: 'failed',
+            visibility_score: null,
+            audit_score: null,
+            result: null,
+            error: (e instanceof Error ? e.message : String(e)).slice(0, 2000),
+          }
+        }
+
+        pages.push(row)
+        const { error } = await db.from('site_crawl_pages').insert({ ...row, crawl_id: crawl.id })
+        if (error) console.error(`[crawler] Could not save page ${url}:`, error.message)
+
+        stopped ||= !(await updateCrawl(db, crawl.id, {
+          pages_found: queued.size - duplicates,
+          pages_done: pages.length,
+          pages_failed: pages.filter((p) => p.status === 'failed').length,
+          pages_blocked: blocked,
+        }))
+      })
+
+      level = next
+    }
+
+    if (stopped) return
+
+    const report = buildSiteReport(pages)
+    const error =
+      report.pagesAnalyzed > 0
+        ? null
+        : queued.size === 0
+          ? 'No crawlable pages found — check the URL, the sitemap and robots.txt'
+          : 'No page could be analyzed'
+    await updateCrawl(db, crawl.id, {
+      status: error ? 'failed' : 'completed',
+      report,
+      error,
+      pages_found: queued.size - duplicates,
+      finished_at: new Date().toISOString(),
+    })
+  } catch (e) {
+    console.error(`[crawler] Crawl ${crawl.id} failed:`, e)
+    await updateCrawl(db, crawl.id, {
+      status: 'failed',
+      error: e instanceof Error ? e.message : String(e),
+      report: pages.length > 0 ? buildSiteReport(pages) : null,
+      finished_at: new Date().toISOString(),
+    })
+  }
+}
+
+// ─── Jobs ─────────────────────────────────────────────────────────────────────
+
+export class CrawlConflictError extends Error {
+  constructor(public readonly crawlId: string) {
+    super('A site crawl is already running — wait for it to finish or delete it')
+    this.name = 'CrawlConflictError'
+  }
+}
+
+// Crawls whose server process died never finish on their own; without a user,
+// stale crawls of every user are failed
+async function failStaleCrawls(db: Db, userId?: string): Promise<void> {
+  const cutoff = new Date(Date.now() - getCrawlerConfig().staleAfterMs).toISOString()
+  let query = db
+    .from('site_crawls')
+    .update({
+      status: 'failed',
+      error: 'The crawl stopped unexpectedly',
+      finished_at: new Date().toISOString(),
+    })
+    .in('status', ['queued', 'running'])
+    .lt('updated_at', cutoff)
+  if (userId) query = query.eq('user_id', userId)
+  await query
+}
+
+/**
+ * Starts the oldest queued crawls (up to CRAWL_BATCH_SIZE) and waits for them.
+ * Called by the cron route and the worker loop; a crawl another caller already
+ * claimed is skipped. Returns how many crawls were picked up.
+ */
+export async function runQueuedCrawls(db: Db): Promise<number> {
+  await failStaleCrawls(db)
+
+  const { data, error } = await db
+    .from('site_crawls')
+    .select('id')
+    .eq('status', 'queued')
+    .order('created_at', { ascending: true })
+    .limit(getCrawlerConfig().batchSize)
+  if (error) throw new Error(`Failed to load queued crawls: ${error.message}`)
+
+  const ids = (data ?? []).map((row) => row.id as string)
+  await Promise.all(ids.map((id) => runSiteCrawl(db, id)))
+  return ids.length
+}
+
+/**
+ * Queues a crawl, and starts it in the background when crawls run inline (see
+ * getCrawlerConfig). One active crawl per user: throws CrawlConflictError while
+ * another one is queued or running.
+ */
+export async function createSiteCrawl(
+  db: Db,
+  userId: string,
+  input: CrawlCreateInput,
+): Promise<SiteCrawl> {
+  await failStaleCrawls(db, userId)
+
+  const { data: active } = await db
+    .from('site_crawls')
+    .select('id')
+    .eq('user_id', userId)
+    .in('status', ['queued', 'running'])
+    .limit(1)
+  if (active && active.length > 0) throw new CrawlConflictError(active[0]!.id as string)
+
+  const { data, error } = await db
+    .from('site_crawls')
+    .insert({
+      user_id: userId,
+      root_url: input.url,
+      engine: input.engine,
+      model: input.model,
+      max_pages: input.maxPages,
+      status: 'queued',
+    })
+    .select()
+    .single()
+  if (error || !data) throw new Error(`Failed to create crawl: ${error?.message ?? 'no row'}`)
+
+  const crawl = data as SiteCrawl
+  if (getCrawlerConfig().inline) {
+    void runSiteCrawl(db, crawl.id).catch((e) => console.error('[crawler] Crawl failed:', e))
+  }
+  return crawl
+}
+
+export async function listSiteCrawls(
+  db: Db,
+  userId: string,
+  page: number,
+  perPage: number,
+): Promise<{ crawls: SiteCrawl[]; total: number }> {
+  const offset = (page - 1) * perPage
+  const { data, error, count } = await db
+    .from('site_crawls')
+    .select('*', { count: 'exact' })
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + perPage - 1)
+  if (error) throw new Error(`Failed to load crawls: ${error.message}`)
+  return { crawls: (data ?? []) as SiteCrawl[], total: count ?? 0 }
+}
+
+const PAGE_SUMMARY_COLUMNS =
+  'id, crawl_id, url, title, status, visibility_score, audit_score, error, created_at'
+
+/** The crawl with its pages (without full results), or null. */
+export async function getSiteCrawl(
+  db: Db,
+  userId: string,
+  id: string,
+): Promise<(SiteCrawl & { pages: SiteCrawlPageSummary[] }) | null> {
+  const { data, error } = await db
+    .from('site_crawls')
+    .select(`*, pages:site_crawl_pages(${PAGE_SUMMARY_COLUMNS})`)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to load crawl: ${error.message}`)
+  return (data as (SiteCrawl & { pages: SiteCrawlPageSummary[] }) | null) ?? null
+}
+
+/** Deletes a crawl and its pages; a running crawl stops at its next page. */
+export async function deleteSiteCrawl(db: Db, userId: string, id: string): Promise<boolean> {
+  const { data, error } = await db
+    .from('site_crawls')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id')
+  if (error) throw new Error(`Failed to delete crawl: ${error.message}`)
+  return (data?.length ?? 0) > 0
+}
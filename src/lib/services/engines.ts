@@ -0,0 +1,523 @@
+// PATH: src/lib/services/engines.ts
+// Adapter per gli engine monitorati. Quali engine esistono, e quale adapter
+// nativo usa ciascuno, è deciso dal catalogo: src/lib/engine-catalog.ts
+//
+// Adapter NATIVI (API reale con ricerca web):
+//   openai        → OpenAI Responses API + web_search_preview   (OPENAI_API_KEY)
+//   gemini-search → Gemini generateContent + google_search       (GEMINI_API_KEY)
+//   perplexity    → Perplexity Sonar                             (PERPLEXITY_API_KEY)
+//   anthropic     → Claude Messages API + web_search             (ANTHROPIC_API_KEY)
+//   serpapi       → Google AI Overviews via SerpAPI              (SERPAPI_API_KEY)
+//
+// In alternativa la risposta è SIMULATA: prompt "persona" instradato dal router
+// (task 'simulate'). Ogni risultato porta response_mode, così le due serie
+// non si mescolano mai in silenzio. AI_ENGINE_MODE decide la politica:
+//   auto      → nativo se la chiave è configurata, altrimenti simulato (default)
+//   native    → solo nativo: senza chiave (o senza adapter) l'engine fallisce
+//   simulated → sempre simulato
+// Un adapter nativo configurato che fallisce NON ripiega sulla simulazione.
+// Se l'engine non dà alcuna risposta (Google senza AI Overview) queryEngine
+// lancia NoEngineAnswerError: il check fallisce invece di salvare un testo finto.
+// Con AI_MOCK=true le risposte sono sempre simulate dal provider mock.
+
+import type {
+  EngineResponseMode,
+  MonitoringEngine,
+  ProviderCompletion,
+  TokenUsage,
+  UsageAttribution,
+} from '@/types'
+import { providerFetch } from '@/lib/http-client'
+import { ENGINE_CATALOG, getEngine } from '@/lib/engine-catalog'
+import { simulateEngineResponse, type RoutedCompletion } from './ai-router'
+import {
+  acquireProvider,
+  getCircuitResetAt,
+  getProviderHealth,
+  ProviderError,
+  rateLimitResetAt,
+  recordFailure,
+  recordSuccess,
+} from './provider-health'
+import { recordUsage } from './usage'
+
+export type EngineModeSetting = 'auto' | EngineResponseMode
+
+// Risposta di un engine: come RoutedCompletion, più modalità e fonti citate
+export interface EngineAnswer extends RoutedCompletion {
+  mode: EngineResponseMode
+  /** URL citati dall'engine (solo risposte native con ricerca web) */
+  citations: string[]
+}
+
+interface NativeCompletion extends ProviderCompletion {
+  citations: string[]
+}
+
+interface NativeEngineAdapter {
+  /** id usato dal catalogo, dal circuit breaker e in `ai_usage` */
+  id: string
+  label: string
+  model: string
+  envKey: string
+  inputCostPerMTok: number
+  outputCostPerMTok: number
+  /** costo fisso per chiamata (ricerca web), USD */
+  requestCostUsd: number
+  /** null: l'engine non ha mostrato alcuna risposta per il prompt */
+  query(prompt: string): Promise<NativeCompletion | null>
+}
+
+/** L'engine nativo ha risposto senza una risposta AI (es. nessun AI Overview). */
+export class NoEngineAnswerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NoEngineAnswerError'
+  }
+}
+
+export function getEngineMode(): EngineModeSetting {
+  const mode = process.env['AI_ENGINE_MODE']?.trim().toLowerCase()
+  return mode === 'native' || mode === 'simulated' ? mode : 'auto'
+}
+
+function getKey(envKey: string): string | null {
+  const key = process.env[envKey]?.trim()
+  return key ? key : null
+}
+
+async function throwForStatus(res: Response, adapter: NativeEngineAdapter): Promise<never> {
+  const errText = await res.text()
+  throw new ProviderError(
+    `${adapter.label} API error ${res.status}: ${errText.slice(0, 300)}`,
+    adapter.id,
+    res.status,
+    res.status === 429 ? rateLimitResetAt(res) : null,
+  )
+}
+
+const unique = (urls: Array<string | undefined>) => [
+  ...new Set(urls.filter((u): u is string => !!u)),
+]
+
+// ─── OpenAI Responses (ChatGPT) ───────────────────────────────────────────────
+
+interface OpenAiResponse {
+  model?: string
+  output?: Array<{
+    type: string
+    content?: Array<{
+      type: string
+      text?: string
+      annotations?: Array<{ type: string; url?: string }>
+    }>
+  }>
+  usage?: { input_tokens: number; output_tokens: number; total_tokens: number }
+}
+
+const openaiAdapter: NativeEngineAdapter = {
+  id: 'openai',
+  label: 'OpenAI (web search)',
+  model: 'gpt-4o-mini',
+  envKey: 'OPENAI_API_KEY',
+  inputCostPerMTok: 0.15,
+  outputCostPerMTok: 0.6,
+  requestCostUsd: 0.025,
+  async query(prompt) {
+    const res = await providerFetch('https://api.openai.com/v1/responses', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${getKey(this.envKey)}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input: prompt,
+        tools: [{ type: 'web_search_preview' }],
+      }),
+      signal: AbortSignal.timeout(60_000),
+    })
+    if (!res.ok) return throwForStatus(res, this)
+
+    const data = (await res.json()) as OpenAiResponse
+    const parts = (data.output ?? [])
+      .filter((o) => o.type === 'message')
+      .flatMap((o) => o.content ?? [])
+      .filter((c) => c.type === 'output_text')
+    const text = parts
+      .map((c) => c.text ?? '')
+      .join('\n')
+      .trim()
+    if (!text) throw new Error('Risposta vuota da OpenAI Responses API')
+
+    return {
+      text,
+      model: data.model ?? this.model,
+      usage: data.usage
+        ? {
+            prompt_tokens: data.usage.input_tokens,
+            completion_tokens: data.usage.output_tokens,
+            total_tokens: data.usage.total_tokens,
+          }
+        : null,
+      citations: unique(
+        parts.flatMap((c) =>
+          (c.annotations ?? []).filter((a) => a.type === 'url_citation').map((a) => a.url),
+        ),
+      ),
+    }
+  },
+}
+
+// ─── Gemini con grounding (Google Search) ─────────────────────────────────────
+
+interface GeminiGroundedResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> }
+    groundingMetadata?: { groundingChunks?: Array<{ web?: { uri?: string } }> }
+  }>
+  usageMetadata?: {
+    promptTokenCount?: number
+    candidatesTokenCount?: number
+    totalTokenCount?: number
+  }
+  modelVersion?: string
+}
+
+const geminiAdapter: NativeEngineAdapter = {
+  id: 'gemini-search',
+  label: 'Gemini (Google Search grounding)',
+  // il grounding con lo strumento google_search richiede Gemini 2.x
+  model: 'gemini-2.0-flash',
+  envKey: 'GEMINI_API_KEY',
+  inputCostPerMTok: 0.1,
+  outputCostPerMTok: 0.4,
+  requestCostUsd: 0,
+  async query(prompt) {
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent?key=${getKey(this.envKey)}`
+    const res = await providerFetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        tools: [{ google_search: {} }],
+      }),
+      signal: AbortSignal.timeout(60_000),
+    })
+    if (!res.ok) return throwForStatus(res, this)
+
+    const data = (await res.json()) as GeminiGroundedResponse
+    const candidate = data.candidates?.[0]
+    const text = (candidate?.content?.parts ?? [])
+      .map((p) => p.text ?? '')
+      .join('')
+      .trim()
+    if (!text) throw new Error('Risposta vuota da Gemini')
+
+    const meta = data.usageMetadata
+    return {
+      text,
+      model: data.modelVersion ?? this.model,
+      usage: meta
+        ? {
+            prompt_tokens: meta.promptTokenCount ?? 0,
+            completion_tokens: meta.candidatesTokenCount ?? 0,
+            total_tokens: meta.totalTokenCount ?? 0,
+          }
+        : null,
+      citations: unique(
+        (candidate?.groundingMetadata?.groundingChunks ?? []).map((c) => c.web?.uri),
+      ),
+    }
+  },
+}
+
+// ─── Perplexity Sonar ─────────────────────────────────────────────────────────
+
+interface PerplexityResponse {
+  model?: string
+  choices?: Array<{ message?: { content?: string } }>
+  usage?: TokenUsage
+  citations?: string[]
+  search_results?: Array<{ url?: string }>
+}
+
+const perplexityAdapter: NativeEngineAdapter = {
+  id: 'perplexity',
+  label: 'Perplexity Sonar',
+  model: 'sonar',
+  envKey: 'PERPLEXITY_API_KEY',
+  inputCostPerMTok: 1,
+  outputCostPerMTok: 1,
+  requestCostUsd: 0.005,
+  async query(prompt) {
+    const res = await providerFetch('https://api.perplexity.ai/chat/completions', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${getKey(this.envKey)}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: this.model, messages: [{ role: 'user', content: prompt }] }),
+      signal: AbortSignal.timeout(60_000),
+    })
+    if (!res.ok) return throwForStatus(res, this)
+
+    const data = (await res.json()) as PerplexityResponse
+    const text = data.choices?.[0]?.message?.content
+    if (!text) throw new Error('Risposta vuota da Perplexity API')
+
+    return {
+      text,
+      model: data.model ?? this.model,
+      usage: data.usage ?? null,
+      citations: unique([
+        ...(data.citations ?? []),
+        ...(data.search_results ?? []).map((r) => r.url),
+      ]),
+    }
+  },
+}
+
+// ─── Anthropic Messages (Claude) ──────────────────────────────────────────────
+
+interface AnthropicResponse {
+  model?: string
+  content?: Array<{
+    type: string
+    text?: string
+    citations?: Array<{ url?: string }>
+    content?: Array<{ type: string; url?: string }>
+  }>
+  usage?: { input_tokens: number; output_tokens: number }
+}
+
+const anthropicAdapter: NativeEngineAdapter = {
+  id: 'anthropic',
+  label: 'Claude (web search)',
+  model: 'claude-3-5-haiku-latest',
+  envKey: 'ANTHROPIC_API_KEY',
+  inputCostPerMTok: 0.8,
+  outputCostPerMTok: 4,
+  requestCostUsd: 0.01,
+  async query(prompt) {
+    const res = await providerFetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'x-api-key': getKey(this.envKey) ?? '',
+        'anthropic-version': '2023-06-01',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: 2048,
+        messages: [{ role: 'user', content: prompt }],
+        tools: [{ type: 'web_search_20250305', name: 'web_search', max_uses: 3 }],
+      }),
+      signal: AbortSignal.timeout(60_000),
+    })
+    if (!res.ok) return throwForStatus(res, this)
+
+    const data = (await res.json()) as AnthropicResponse
+    const blocks = data.content ?? []
+    const textBlocks = blocks.filter((b) => b.type === 'text')
+    const text = textBlocks
+      .map((b) => b.text ?? '')
+      .join('')
+      .trim()
+    if (!text) throw new Error('Risposta vuota da Anthropic API')
+
+    return {
+      text,
+      model: data.model ?? this.model,
+      usage: data.usage
+        ? {
+            prompt_tokens: data.usage.input_tokens,
+            completion_tokens: data.usage.output_tokens,
+            total_tokens: data.usage.input_tokens + data.usage.output_tokens,
+          }
+        : null,
+      // prima le fonti citate nel testo, poi gli altri risultati di ricerca
+      citations: unique([
+        ...textBlocks.flatMap((b) => (b.citations ?? []).map((c) => c.url)),
+        ...blocks
+          .filter((b) => b.type === 'web_search_tool_result')
+          .flatMap((b) => (b.content ?? []).map((r) => r.url)),
+      ]),
+    }
+  },
+}
+
+// ─── Google AI Overviews (SerpAPI) ────────────────────────────────────────────
+
+interface SerpApiAiOverview {
+  text_blocks?: Array<{
+    snippet?: string
+    list?: Array<{ title?: string; snippet?: string }>
+  }>
+  references?: Array<{ link?: string }>
+  page_token?: string
+}
+
+function aiOverviewText(overview: SerpApiAiOverview): string {
+  return (overview.text_blocks ?? [])
+    .flatMap((block) => [
+      block.snippet ?? '',
+      ...(block.list ?? []).map((item) =>
+        ['-', item.title, item.snippet].filter(Boolean).join(' '),
+      ),
+    ])
+    .filter(Boolean)
+    .join('\n')
+    .trim()
+}
+
+const serpapiAdapter: NativeEngineAdapter = {
+  id: 'serpapi',
+  label: 'Google AI Overviews (SerpAPI)',
+  model: 'google-ai-overview',
+  envKey: 'SERPAPI_API_KEY',
+  inputCostPerMTok: 0,
+  outputCostPerMTok: 0,
+  requestCostUsd: 0.015,
+  async query(prompt) {
+    const search = async (params: Record<string, string>) => {
+      const qs = new URLSearchParams({ ...params, api_key: getKey(this.envKey) ?? '' })
+      const res = await providerFetch(`https://serpapi.com/search.json?${qs.toString()}`, {
+        signal: AbortSignal.timeout(60_000),
+      })
+      if (!res.ok) return throwForStatus(res, this)
+      return ((await res.json()) as { ai_overview?: SerpApiAiOverview }).ai_overview ?? null
+    }
+
+    let overview = await search({ engine: 'google', q: prompt, hl: 'en', gl: 'us' })
+    // Google a volte carica l'overview in differita: serve una seconda richiesta
+    if (overview?.page_token && !overview.text_blocks?.length) {
+      overview = await search({ engine: 'google_ai_overview', page_token: overview.page_token })
+    }
+
+    // Nessun overview: l'engine non ha risposto, queryNative lo segnala
+    const text = overview ? aiOverviewText(overview) : ''
+    if (!text) return null
+    return {
+      text,
+      model: this.model,
+      usage: null,
+      citations: unique((overview?.references ?? []).map((r) => r.link)),
+    }
+  },
+}
+
+const NATIVE_ADAPTERS = new Map<string, NativeEngineAdapter>(
+  [openaiAdapter, geminiAdapter, perplexityAdapter, anthropicAdapter, serpapiAdapter].map((a) => [
+    a.id,
+    a,
+  ]),
+)
+
+function getNativeAdapter(engine: MonitoringEngine): NativeEngineAdapter | null {
+  const id = getEngine(engine).native
+  return id ? (NATIVE_ADAPTERS.get(id) ?? null) : null
+}
+
+function isNativeAvailable(adapter: NativeEngineAdapter | null): boolean {
+  return adapter !== null && getKey(adapter.envKey) !== null
+}
+
+/** Modalità con cui verrà interrogato l'engine, in base a AI_ENGINE_MODE e alle chiavi. */
+export function resolveResponseMode(engine: MonitoringEngine): EngineResponseMode {
+  if (process.env['AI_MOCK'] === 'true') return 'simulated'
+  const mode = getEngineMode()
+  if (mode !== 'auto') return mode
+  return isNativeAvailable(getNativeAdapter(engine)) ? 'native' : 'simulated'
+}
+
+// ─── queryEngine ──────────────────────────────────────────────────────────────
+
+async function queryNative(
+  engine: MonitoringEngine,
+  promptText: string,
+  attribution?: UsageAttribution,
+): Promise<EngineAnswer> {
+  const adapter = getNativeAdapter(engine)
+  if (!adapter) throw new Error(`AI_ENGINE_MODE=native ma ${engine} non ha un'API nativa`)
+  if (!isNativeAvailable(adapter)) {
+    throw new Error(`AI_ENGINE_MODE=native ma ${adapter.envKey} non è configurata per ${engine}`)
+  }
+  if (!acquireProvider(adapter.id)) {
+    const resetAt = getCircuitResetAt(adapter.id)
+    throw new Error(
+      `${adapter.label}: circuito aperto` +
+        (resetAt ? ` fino a ${resetAt.toISOString()}` : ', chiamata di prova in corso'),
+    )
+  }
+
+  let completion: NativeCompletion | null
+  try {
+    completion = await adapter.query(promptText)
+    recordSuccess(adapter.id)
+  } catch (e) {
+    recordFailure(adapter.id, e)
+    throw e
+  }
+
+  // La chiamata si paga anche quando l'engine non mostra una risposta
+  const usage = completion?.usage ?? null
+  const model = completion?.model ?? adapter.model
+  const costUsd =
+    adapter.requestCostUsd +
+    (usage
+      ? (usage.prompt_tokens * adapter.inputCostPerMTok +
+          usage.completion_tokens * adapter.outputCostPerMTok) /
+        1_000_000
+      : 0)
+  await recordUsage({ task: 'simulate', provider: adapter.id, model, usage, attribution, costUsd })
+
+  if (!completion) throw new NoEngineAnswerError(`${adapter.label}: nessuna risposta per il prompt`)
+  const { text, citations } = completion
+  return { text, provider: `${adapter.id}:${model}`, model, usage, mode: 'native', citations }
+}
+
+/** Interroga un engine secondo AI_ENGINE_MODE (vedi header). */
+export async function queryEngine(
+  promptText: string,
+  engine: MonitoringEngine,
+  attribution?: UsageAttribution,
+): Promise<EngineAnswer> {
+  if (resolveResponseMode(engine) === 'native') {
+    return queryNative(engine, promptText, attribution)
+  }
+  const simulated = await simulateEngineResponse(promptText, engine, attribution)
+  return { ...simulated, mode: 'simulated', citations: [] }
+}
+
+// ─── Stato ────────────────────────────────────────────────────────────────────
+
+/** Modalità e adapter nativo di ogni engine del catalogo, per GET /api/providers. */
+export function getEngineStatus() {
+  const health = getProviderHealth([...NATIVE_ADAPTERS.keys()])
+  return {
+    mode: getEngineMode(),
+    engines: Object.fromEntries(
+      ENGINE_CATALOG.map((e) => {
+        const adapter = getNativeAdapter(e.id)
+        return [
+          e.id,
+          {
+            label: e.label,
+            responseMode: resolveResponseMode(e.id),
+            native: adapter
+              ? {
+                  id: adapter.id,
+                  label: adapter.label,
+                  model: adapter.model,
+                  envKey: adapter.envKey,
+                  configured: isNativeAvailable(adapter),
+                  health: health[adapter.id],
+                }
+              : null,
+          },
+        ]
+      }),
+    ),
+  }
+}
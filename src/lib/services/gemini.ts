@@ -1,40 +1,40 @@
-import type { AnalysisResult, EngineId, IntentType } from '@/types'
+import { z } from 'zod'
+import type {
+  AnalysisResult,
+  EngineId,
+  ExtractedPage,
+  ModelId,
+  PageAnalysisMode,
+  PageSignals,
+  RewriteResult,
+  UsageAttribution,
+} from '@/types'
+import { safeFetch } from '@/lib/safe-fetch'
+import { analysisOutputSchema } from '@/lib/validations'
 import { generateId } from '@/lib/utils'
+import { getEngineSignals, runAudit } from './audit'
+import { extractPage, formatPageForPrompt, pageFromText, pageSignals } from './html-extractor'
+import { getAnalysisModelTarget } from './providers'
+import { routeStructured } from './structured-output'
 
-// ─── Types ────────────────────────────────────────────────────────────────────
-
-interface GeminiPart {
-  text: string
-}
-
-interface GeminiContent {
-  parts: GeminiPart[]
-  role?: string
-}
-
-interface GeminiCandidate {
-  content: GeminiContent
-  finishReason: string
-}
+// ─── Prompt Builder ───────────────────────────────────────────────────────────
 
-interface GeminiResponse {
-  candidates: GeminiCandidate[]
+const ENGINE_CONTEXT: Record<EngineId, string> = {
+  all: 'all major AI search engines (ChatGPT, Gemini, Perplexity, Claude)',
+  chatgpt: 'ChatGPT / SearchGPT (OpenAI)',
+  gemini: 'Google Gemini / SGE (Google AI Overview)',
+  perplexity: 'Perplexity AI (fact-density, citation-readiness)',
+  claude: 'Anthropic Claude (logical depth, chain-of-thought quality)',
 }
 
-// ─── Prompt Builder ───────────────────────────────────────────────────────────
-
-function buildAnalysisPrompt(content: string, engine: EngineId): string {
-  const engineContext: Record<EngineId, string> = {
-    all: 'all major AI search engines (ChatGPT, Gemini, Perplexity, Claude)',
-    chatgpt: 'ChatGPT / SearchGPT (OpenAI)',
-    gemini: 'Google Gemini / SGE (Google AI Overview)',
-    perplexity: 'Perplexity AI (fact-density, citation-readiness)',
-    claude: 'Anthropic Claude (logical depth, chain-of-thought quality)',
-  }
+function buildAnalysisPrompt(content: string, engine: EngineId, isPage: boolean): string {
+  const pageNote = isPage
+    ? 'The content is a web page: its title, meta data, author and dates, schema.org markup, heading outline and FAQ blocks come first, then the main content. Take these structural signals into account.\n\n'
+    : ''
 
-  return `You are an expert in AIO (AI Optimization), AEO (Answer Engine Optimization), and GEO (Generative Engine Optimization). Analyze the following content for visibility and citation potential in ${engineContext[engine]}.
+  return `You are an expert in AIO (AI Optimization), AEO (Answer Engine Optimization), and GEO (Generative Engine Optimization). Analyze the following content for visibility and citation potential in ${ENGINE_CONTEXT[engine]}.
 
-CONTENT TO ANALYZE:
+${pageNote}CONTENT TO ANALYZE:
 """
 ${content.slice(0, 8000)}
 """
@@ -75,129 +75,186 @@ Respond ONLY with a valid JSON object matching this exact schema (no markdown, n
 }`
 }
 
-// ─── Core Gemini Caller ───────────────────────────────────────────────────────
-
-async function callGemini(prompt: string): Promise<string> {
-  const apiKey = process.env['GEMINI_API_KEY']
-  if (!apiKey) throw new Error('GEMINI_API_KEY not configured')
-
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`
-
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      contents: [{ parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.3,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 2048,
-      },
-      safetySettings: [
-        { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
-        { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
-        { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
-        { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
-      ],
-    }),
-  })
-
-  if (!res.ok) {
-    const err = await res.text()
-    throw new Error(`Gemini API error ${res.status}: ${err}`)
-  }
-
-  const data = (await res.json()) as GeminiResponse
-  const text = data.candidates?.[0]?.content?.parts?.[0]?.text
-  if (!text) throw new Error('Empty response from Gemini')
-  return text
-}
-
 // ─── URL Fetcher ──────────────────────────────────────────────────────────────
 
-export async function fetchUrlContent(url: string): Promise<string> {
-  const res = await fetch(url, {
+export const BOT_USER_AGENT =
+  'Mozilla/5.0 (compatible; AIOPulseBot/1.0; +https://aio-pulse.com/bot)'
+
+/** Fetches a page and extracts its structured model (see ./html-extractor). */
+export async function fetchUrlContent(url: string): Promise<ExtractedPage> {
+  const res = await safeFetch(url, {
     headers: {
-      'User-Agent': 'Mozilla/5.0 (compatible; AIOPulseBot/1.0; +https://aio-pulse.com/bot)',
+      'User-Agent': BOT_USER_AGENT,
       Accept: 'text/html,application/xhtml+xml',
     },
-    signal: AbortSignal.timeout(10_000),
+    timeoutMs: 10_000,
   })
 
   if (!res.ok) throw new Error(`Failed to fetch URL: ${res.status}`)
 
-  const html = await res.text()
-
-  // Strip HTML tags and scripts, extract readable text
-  const text = html
-    .replace(/<script[\s\S]*?<\/script>/gi, '')
-    .replace(/<style[\s\S]*?<\/style>/gi, '')
-    .replace(/<[^>]+>/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim()
-    .slice(0, 8000)
-
-  if (text.length < 50) throw new Error('Page content too short or unreadable')
-  return text
+  const page = extractPage(res.body, res.url)
+  if (page.mainText.length < 50) throw new Error('Page content too short or unreadable')
+  return page
 }
 
 // ─── Main Analyzer ────────────────────────────────────────────────────────────
 
 export async function analyzeContent(
   input: string,
-  mode: 'text' | 'url',
+  mode: PageAnalysisMode,
   engine: EngineId,
   source: string,
+  attribution?: UsageAttribution,
+  model: ModelId = 'default',
 ): Promise<AnalysisResult> {
-  // If URL mode, fetch content first
-  const contentToAnalyze = mode === 'url' ? await fetchUrlContent(input) : input
-
-  const prompt = buildAnalysisPrompt(contentToAnalyze, engine)
-  const rawResponse = await callGemini(prompt)
+  // If URL mode, fetch the page first and analyze its structured model
+  const page = mode === 'url' ? await fetchUrlContent(input) : null
+  return analyze(input, page, engine, source, attribution, model)
+}
 
-  // Clean and parse JSON
-  const cleaned = rawResponse
-    .replace(/```json\n?/g, '')
-    .replace(/```\n?/g, '')
-    .trim()
+/** Analyzes a page that was already fetched and extracted (site crawls). */
+export function analyzePage(
+  page: ExtractedPage,
+  engine: EngineId,
+  attribution?: UsageAttribution,
+  model: ModelId = 'default',
+): Promise<AnalysisResult> {
+  const url = page.url ?? ''
+  return analyze(url, page, engine, url, attribution, model)
+}
 
-  let parsed: Omit<AnalysisResult, 'id' | 'source' | 'type' | 'analyzedText' | 'timestamp'>
+async function analyze(
+  input: string,
+  page: ExtractedPage | null,
+  engine: EngineId,
+  source: string,
+  attribution: UsageAttribution | undefined,
+  model: ModelId,
+): Promise<AnalysisResult> {
+  const contentToAnalyze = page ? formatPageForPrompt(page) : input
+
+  const prompt = buildAnalysisPrompt(contentToAnalyze, engine, page !== null)
+  // The selected model is tried first; the 'content' chain covers it when unavailable
+  const target = getAnalysisModelTarget(model)
+  // Validated against the schema, with one repair round-trip on invalid output
+  const routed = await routeStructured('content', prompt, analysisOutputSchema, {
+    attribution,
+    preferred: target,
+  })
+  const providerId = routed.provider.split(':')[0]!
 
-  try {
-    parsed = JSON.parse(cleaned) as typeof parsed
-  } catch {
-    throw new Error('Failed to parse AI response. Please try again.')
+  return {
+    id: generateId('scan'),
+    source,
+    type: page ? 'url' : 'text',
+    analyzedText: (page ? page.mainText : contentToAnalyze).slice(0, 2000),
+    timestamp: Date.now(),
+    ...routed.data,
+    generatedBy: {
+      requested: model,
+      provider: providerId,
+      model: routed.model,
+      fallback: target !== null && providerId !== target.provider,
+    },
+    ...(page ? { page: pageSignals(page) } : {}),
+    audit: runAudit(page ?? pageFromText(input), { markup: page !== null }),
   }
+}
+
+// ─── Rewriter ─────────────────────────────────────────────────────────────────
+
+// Rewrites are re-analyzed, and the analysis prompt reads at most 8000 characters
+const MAX_REWRITE_CHARS = 8000
+
+const rewriteOutputSchema = z.object({
+  rewrittenText: z.string().trim().min(1),
+  changes: z.array(z.string()).default([]),
+})
+
+function buildRewritePrompt(content: string, engine: EngineId, suggestions: string[]): string {
+  const signals = getEngineSignals(engine)
+  const signalList =
+    signals.length > 0
+      ? `\nWhat ${ENGINE_CONTEXT[engine]} rewards:\n${signals.map((s) => `- ${s}`).join('\n')}\n`
+      : ''
+  const suggestionList =
+    suggestions.length > 0
+      ? `\nApply these improvement suggestions from the analysis:\n${suggestions.map((s, i) => `${i + 1}. ${s}`).join('\n')}\n`
+      : ''
+
+  return `You are an expert in AIO (AI Optimization). Rewrite the following content so it is more likely to be cited by ${ENGINE_CONTEXT[engine]}.
 
-  // Validate required fields
-  if (typeof parsed.visibilityScore !== 'number') {
-    throw new Error('Invalid analysis response structure')
+CONTENT TO REWRITE:
+"""
+${content}
+"""
+${signalList}${suggestionList}
+Rules:
+- Keep the meaning, the facts, the language and roughly the length of the original.
+- Never invent facts, statistics, sources, quotes or credentials. Where one would help, insert a placeholder such as [add statistic: market size] instead.
+- Use markdown for headings and lists.
+
+Respond ONLY with a valid JSON object matching this exact schema (no markdown fences, no explanation):
+{
+  "rewrittenText": "<the full rewritten content>",
+  "changes": ["<one line per change you made>"]
+}`
+}
+
+/**
+ * The fetched page with its content replaced by the rewrite: headings, lists,
+ * word count and links come from the rewritten markdown, while head metadata,
+ * schema, author and dates stay those of the page.
+ */
+function rewrittenPage(page: ExtractedPage, rewritten: string): ExtractedPage {
+  return {
+    ...pageFromText(rewritten),
+    url: page.url,
+    title: page.title,
+    lang: page.lang,
+    meta: page.meta,
+    schema: page.schema,
+    author: page.author,
+    published: page.published,
+    modified: page.modified,
   }
+}
+
+/**
+ * Rewrites the analyzed content for `engine`, applying the analysis suggestions,
+ * and re-analyzes the rewrite. In URL mode the page's main text is rewritten and
+ * scored inside the page model, so markup checks still count.
+ */
+export async function rewriteContent(
+  input: string,
+  mode: PageAnalysisMode,
+  engine: EngineId,
+  suggestions: string[],
+  attribution?: UsageAttribution,
+  model: ModelId = 'default',
+): Promise<RewriteResult> {
+  const page = mode === 'url' ? await fetchUrlContent(input) : null
+  const content = page ? page.mainText : input
+  const original = content.slice(0, MAX_REWRITE_CHARS)
+
+  const routed = await routeStructured(
+    'rewrite',
+    buildRewritePrompt(original, engine, suggestions),
+    rewriteOutputSchema,
+    { attribution, preferred: getAnalysisModelTarget(model) },
+  )
+  const rewritten = routed.data.rewrittenText
+
+  const result = page
+    ? await analyze(input, rewrittenPage(page, rewritten), engine, input, attribution, model)
+    : await analyze(rewritten, null, engine, rewritten, attribution, model)
 
   return {
-    id: generateId('scan'),
-    source,
-    type: mode,
-    analyzedText: contentToAnalyze.slice(0, 2000),
-    timestamp: Date.now(),
-    ...parsed,
-    // Ensure arrays
-    suggestions: parsed.suggestions ?? [],
-    keywords: parsed.keywords ?? [],
-    engineBreakdown: parsed.engineBreakdown ?? [],
-    intentSignals: parsed.intentSignals ?? [],
-    // Clamp scores
-    visibilityScore: Math.min(100, Math.max(0, parsed.visibilityScore)),
-    intentConfidence: Math.min(100, Math.max(0, parsed.intentConfidence ?? 0)),
-    contentTypeConfidence: Math.min(100, Math.max(0, parsed.contentTypeConfidence ?? 0)),
-    toneConfidence: Math.min(100, Math.max(0, parsed.toneConfidence ?? 0)),
-    // Defaults
-    intent: (parsed.intent as IntentType) ?? 'Informational',
-    contentType: parsed.contentType ?? 'Article',
-    tone: parsed.tone ?? 'Professional',
-    readingLevel: parsed.readingLevel ?? 'Undergraduate',
-    audience: parsed.audience ?? 'General audience',
+    original,
+    rewritten,
+    changes: routed.data.changes,
+    result,
+    truncated: content.length > MAX_REWRITE_CHARS,
   }
 }
 
@@ -210,11 +267,14 @@ export interface CompetitorResult {
   keywords: Array<{ word: string; impact: number; difficulty: number }>
   engineBreakdown: Array<{ engine: string; score: number; status: string; details: string }>
   suggestions: string[]
+  signals: PageSignals | null
 }
 
-export async function analyzeCompetitor(url: string): Promise<CompetitorResult> {
-  const content = await fetchUrlContent(url)
-  const result = await analyzeContent(content, 'text', 'all', url)
+export async function analyzeCompetitor(
+  url: string,
+  attribution?: UsageAttribution,
+): Promise<CompetitorResult> {
+  const result = await analyzeContent(url, 'url', 'all', url, attribution)
   return {
     url,
     score: result.visibilityScore,
@@ -222,42 +282,6 @@ export async function analyzeCompetitor(url: string): Promise<CompetitorResult>
     keywords: result.keywords,
     engineBreakdown: result.engineBreakdown,
     suggestions: result.suggestions,
+    signals: result.page ?? null,
   }
 }
-
-// ─── Engine Health Check ──────────────────────────────────────────────────────
-
-const ENGINE_SIGNALS: Record<string, string[]> = {
-  chatgpt: [
-    'Define key terms clearly in the first paragraph',
-    'Use numbered lists for step-by-step content',
-    'Include concrete examples with measurable outcomes',
-    'Add FAQ sections with question-answer format',
-    'Cite authoritative sources explicitly',
-  ],
-  gemini: [
-    'Optimize for Knowledge Graph entity recognition',
-    'Use structured data / schema markup',
-    'Include geographic and temporal signals',
-    'Improve E-E-A-T signals (author bio, credentials)',
-    'Add clear topic headings that match search queries',
-  ],
-  perplexity: [
-    'Increase factual density with statistics and data',
-    'Add publication dates and source attribution',
-    'Use direct, declarative sentence structures',
-    'Include numerical data and comparative metrics',
-    'Add primary source links and citations',
-  ],
-  claude: [
-    'Develop logical argument chains with clear reasoning',
-    'Acknowledge nuance, counterarguments, and edge cases',
-    'Use precise technical language appropriate to context',
-    'Structure content with clear conceptual hierarchy',
-    'Include comparative analysis and synthesis',
-  ],
-}
-
-export function getEngineSignals(engineId: string): string[] {
-  return ENGINE_SIGNALS[engineId.toLowerCase()] ?? []
-}
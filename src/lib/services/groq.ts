@@ -3,6 +3,10 @@
 // Setup: https://console.groq.com → crea account → genera API key
 // Aggiungi in .env.local: GROQ_API_KEY=gsk_...
 
+import type { ProviderCompletion } from '@/types'
+import { providerFetch } from '@/lib/http-client'
+import { ProviderError, rateLimitResetAt } from './provider-health'
+
 interface GroqMessage {
   role: 'user' | 'assistant' | 'system'
   content: string
@@ -45,12 +49,13 @@ export type GroqModel = (typeof GROQ_MODELS)[keyof typeof GROQ_MODELS]
 export async function callGroq(
   prompt: string,
   options: {
-    model?: GroqModel
+    /** uno dei GROQ_MODELS o un altro modello Groq (default LLAMA_70B) */
+    model?: string
     temperature?: number
     maxTokens?: number
     systemPrompt?: string
   } = {},
-): Promise<string> {
+): Promise<ProviderCompletion> {
   const apiKey = process.env['GROQ_API_KEY']
   if (!apiKey) {
     throw new Error(
@@ -70,7 +75,7 @@ export async function callGroq(
   if (systemPrompt) messages.push({ role: 'system', content: systemPrompt })
   messages.push({ role: 'user', content: prompt })
 
-  const res = await fetch('https://api.groq.com/openai/v1/chat/completions', {
+  const res = await providerFetch('https://api.groq.com/openai/v1/chat/completions', {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${apiKey}`,
@@ -89,19 +94,22 @@ export async function callGroq(
   if (!res.ok) {
     const errText = await res.text()
     if (res.status === 429) {
-      throw new Error(
+      throw new ProviderError(
         `Groq rate limit raggiunto (${res.status}). ` +
           'Limite giornaliero di 500 000 token esaurito. ' +
           'Il limite si resetta a mezzanotte UTC.',
+        'groq',
+        res.status,
+        rateLimitResetAt(res),
       )
     }
-    throw new Error(`Groq API error ${res.status}: ${errText}`)
+    throw new ProviderError(`Groq API error ${res.status}: ${errText}`, 'groq', res.status)
   }
 
   const data = (await res.json()) as GroqResponse
   const text = data.choices?.[0]?.message?.content
   if (!text) throw new Error('Risposta vuota da Groq API')
-  return text
+  return { text, model: data.model ?? model, usage: data.usage ?? null }
 }
 
 export async function callGroqWithMessages(
@@ -113,7 +121,7 @@ export async function callGroqWithMessages(
 
   const { model = GROQ_MODELS.LLAMA_70B, temperature = 0.3, maxTokens = 2048 } = options
 
-  const res = await fetch('https://api.groq.com/openai/v1/chat/completions', {
+  const res = await providerFetch('https://api.groq.com/openai/v1/chat/completions', {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${apiKey}`,
@@ -125,7 +133,12 @@ export async function callGroqWithMessages(
 
   if (!res.ok) {
     const errText = await res.text()
-    throw new Error(`Groq API error ${res.status}: ${errText}`)
+    throw new ProviderError(
+      `Groq API error ${res.status}: ${errText}`,
+      'groq',
+      res.status,
+      res.status === 429 ? rateLimitResetAt(res) : null,
+    )
   }
 
   const data = (await res.json()) as GroqResponse
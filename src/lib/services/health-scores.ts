@@ -0,0 +1,175 @@
+// PATH: src/lib/services/health-scores.ts
+// Daily brand health rollup — one `brand_health_scores` row per brand and UTC
+// day, aggregated over every monitoring result of that day (all runs, all
+// engines), with the same metrics per engine in `engine_breakdown`.
+//
+// The pipeline refreshes the day after each run, so the row is always the
+// rollup of the full day so far rather than of the latest run only. Scores use
+// the brand's scoring profile; changing it recomputes every stored day.
+
+import { type createServerClient, fetchAllRows } from '@/lib/supabase'
+import { calculateHealthScore, resolveScoringProfile } from './scoring'
+import { brandShareOfVoice } from './share-of-voice'
+import type {
+  Brand,
+  BrandHealthMetrics,
+  BrandHealthScore,
+  Citation,
+  EngineHealthBreakdown,
+  MonitoringEngine,
+  MonitoringResult,
+} from '@/types'
+
+type Db = ReturnType<typeof createServerClient>
+
+type RollupResult = Pick<
+  MonitoringResult,
+  | 'engine'
+  | 'visibility_score'
+  | 'sentiment_score'
+  | 'brand_mentioned'
+  | 'has_hallucination'
+  | 'mention_position'
+  | 'mention_count'
+  | 'competitor_mentions'
+> & { citations: Citation[] | null }
+
+type ScoredBrand = Pick<Brand, 'id' | 'name' | 'competitors' | 'scoring_profile'>
+
+const ROLLUP_COLUMNS =
+  'engine, visibility_score, sentiment_score, brand_mentioned, has_hallucination, mention_position, mention_count, competitor_mentions, citations'
+
+const round = (n: number, digits = 4) => Math.round(n * 10 ** digits) / 10 ** digits
+
+/** Citations of the brand's own domains — `brand_health_scores.citation_count`. */
+export function countBrandCitations(results: Array<{ citations: Citation[] | null }>): number {
+  return results.reduce(
+    (a, r) => a + (r.citations ?? []).filter((c) => c.is_brand_domain).length,
+    0,
+  )
+}
+
+/** Health metrics over a set of results; sentiment only counts answers that mention the brand. */
+export function summarizeResults(results: RollupResult[], brand: ScoredBrand): BrandHealthMetrics {
+  const n = results.length
+  const visibility = n > 0 ? results.reduce((a, r) => a + r.visibility_score, 0) / n : 0
+
+  const mentioned = results.filter((r) => r.brand_mentioned)
+  const sentiment =
+    mentioned.length > 0
+      ? mentioned.reduce((a, r) => a + (r.sentiment_score ?? 0), 0) / mentioned.length
+      : 0
+
+  const hallucinationRate = n > 0 ? results.filter((r) => r.has_hallucination).length / n : 0
+  const citingRate =
+    n > 0 ? results.filter((r) => (r.citations ?? []).some((c) => c.is_brand_domain)).length / n : 0
+
+  const { score, components } = calculateHealthScore(
+    {
+      visibility,
+      sentiment,
+      hallucination: hallucinationRate,
+      citations: citingRate,
+      share_of_voice: brandShareOfVoice(results, brand),
+    },
+    resolveScoringProfile(brand.scoring_profile),
+  )
+
+  return {
+    result_count: n,
+    visibility_score: round(visibility, 2),
+    sentiment_score: round(sentiment),
+    hallucination_rate: round(hallucinationRate),
+    mention_count: mentioned.length,
+    citation_count: countBrandCitations(results),
+    health_score: score,
+    score_components: components,
+  }
+}
+
+export function buildEngineBreakdown(
+  results: RollupResult[],
+  brand: ScoredBrand,
+): Partial<Record<MonitoringEngine, EngineHealthBreakdown>> {
+  const byEngine = new Map<MonitoringEngine, RollupResult[]>()
+  for (const r of results) {
+    const group = byEngine.get(r.engine)
+    if (group) group.push(r)
+    else byEngine.set(r.engine, [r])
+  }
+  return Object.fromEntries(
+    [...byEngine].map(([engine, rs]) => [engine, summarizeResults(rs, brand)]),
+  ) as Partial<Record<MonitoringEngine, EngineHealthBreakdown>>
+}
+
+/**
+ * Recomputes one brand's row for `date` (YYYY-MM-DD, UTC) from all of that
+ * day's results. Returns null when the day has no results.
+ */
+export async function rollupDailyHealthScore(
+  db: Db,
+  brand: ScoredBrand,
+  userId: string,
+  date: string,
+): Promise<BrandHealthScore | null> {
+  const dayStart = new Date(`${date}T00:00:00.000Z`)
+  const dayEnd = new Date(dayStart.getTime() + 86_400_000)
+
+  const results = await fetchAllRows<RollupResult>(`results for ${date}`, (from, to) =>
+    db
+      .from('monitoring_results')
+      .select(ROLLUP_COLUMNS, { count: 'exact' })
+      .eq('brand_id', brand.id)
+      .eq('user_id', userId)
+      .gte('created_at', dayStart.toISOString())
+      .lt('created_at', dayEnd.toISOString())
+      .order('created_at')
+      .order('id')
+      .range(from, to),
+  )
+  if (results.length === 0) return null
+
+  const { data: saved, error: upsertError } = await db
+    .from('brand_health_scores')
+    .upsert(
+      {
+        brand_id: brand.id,
+        user_id: userId,
+        date,
+        ...summarizeResults(results, brand),
+        engine_breakdown: buildEngineBreakdown(results, brand),
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'brand_id,date' },
+    )
+    .select()
+    .single()
+  if (upsertError || !saved) {
+    throw new Error(`Failed to save health score for ${date}: ${upsertError?.message}`)
+  }
+  return saved as BrandHealthScore
+}
+
+/**
+ * Recomputes every stored day of a brand, e.g. after its scoring profile
+ * changed. Days run sequentially; returns the number of days rewritten.
+ */
+export async function recomputeHealthScores(
+  db: Db,
+  brand: ScoredBrand,
+  userId: string,
+): Promise<number> {
+  const { data, error } = await db
+    .from('brand_health_scores')
+    .select('date')
+    .eq('brand_id', brand.id)
+    .eq('user_id', userId)
+    .order('date', { ascending: true })
+  if (error) throw new Error(`Failed to load health score history: ${error.message}`)
+
+  let recomputed = 0
+  for (const { date } of (data ?? []) as Array<{ date: string }>) {
+    if (await rollupDailyHealthScore(db, brand, userId, date)) recomputed++
+  }
+  return recomputed
+}
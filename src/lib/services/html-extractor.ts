@@ -0,0 +1,1002 @@
+// PATH: src/lib/services/html-extractor.ts
+//
+// ─── HTML page extraction ────────────────────────────────────────────────────
+//
+// Turns a fetched HTML document into a structured page model (ExtractedPage):
+//
+//   title / meta → <title>, description, keywords, robots, canonical, og:*, twitter:*
+//   outline      → every h1-h6 outside navigation and footers, in document order
+//   main content → <main>, else the largest <article>, else [role=main], else
+//                  <body>, without nav, the page header, footer, aside, forms and scripts
+//   structure    → lists, tables, FAQ blocks (FAQPage schema, <details>, and
+//                  question headings), links and images
+//   schema.org   → JSON-LD nodes (including @graph) and microdata itemtypes
+//   author/dates → meta tags, JSON-LD, rel=author / itemprop and <time>
+//
+// The parser is a small tolerant tree builder, not a spec-compliant one: it
+// handles void and raw-text elements, the common implied end tags (p, li, td,
+// tr, option, dt/dd) and stray end tags, which is enough for content pages.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {
+  ExtractedPage,
+  PageFaq,
+  PageHeading,
+  PageImage,
+  PageLink,
+  PageList,
+  PageMeta,
+  PageSchemaEntity,
+  PageSignals,
+  PageTable,
+} from '@/types'
+import { normalizeDomain } from './citations'
+
+// ─── DOM ──────────────────────────────────────────────────────────────────────
+
+interface ElementNode {
+  type: 'element'
+  tag: string
+  attrs: Record<string, string>
+  children: DomNode[]
+  parent: ElementNode | null
+}
+
+interface TextNode {
+  type: 'text'
+  text: string
+}
+
+type DomNode = ElementNode | TextNode
+
+const VOID_TAGS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr',
+])
+
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title'])
+
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'dd',
+  'details',
+  'div',
+  'dl',
+  'dt',
+  'fieldset',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'summary',
+  'table',
+  'tbody',
+  'tfoot',
+  'thead',
+  'tr',
+  'ul',
+  'br',
+  'caption',
+])
+
+// Opening the key tag closes these elements while they are the current node
+const IMPLIED_END: Record<string, string[]> = {
+  li: ['li', 'p'],
+  dt: ['dt', 'dd', 'p'],
+  dd: ['dt', 'dd', 'p'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  option: ['option'],
+  p: ['p'],
+}
+
+// Never part of the readable content
+const NON_CONTENT_TAGS = new Set([
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'iframe',
+  'canvas',
+  'select',
+  'button',
+  'textarea',
+  'title',
+  'head',
+])
+
+// Unclosed inline tags (`<font>x<font>x…`) nest without end on real pages.
+// Below this depth new elements are kept but not entered, which also bounds the
+// search for the element an end tag closes.
+const MAX_DEPTH = 256
+
+// Page chrome, left out of the main content and of the outline
+const CHROME_TAGS = new Set(['nav', 'footer', 'aside', 'form'])
+const CONTENT_SECTIONS = new Set(['article', 'main'])
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  euro: '€',
+  pound: '£',
+  middot: '·',
+  bull: '•',
+  eacute: 'é',
+  egrave: 'è',
+  agrave: 'à',
+  ograve: 'ò',
+  ugrave: 'ù',
+  igrave: 'ì',
+  ccedil: 'ç',
+  auml: 'ä',
+  ouml: 'ö',
+  uuml: 'ü',
+  szlig: 'ß',
+  times: '×',
+  deg: '°',
+}
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const n =
+        code[1] === 'x' || code[1] === 'X'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10)
+      return Number.isFinite(n) && n > 0 && n <= 0x10ffff ? String.fromCodePoint(n) : match
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? match
+  })
+}
+
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  for (const m of source.matchAll(ATTRIBUTE)) {
+    const name = m[1]!.toLowerCase()
+    if (!(name in attrs)) attrs[name] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? '')
+  }
+  return attrs
+}
+
+/** Index of the `>` closing the tag that starts at `from`, skipping quoted values. */
+function tagEnd(html: string, from: number): number {
+  let quote: string | null = null
+  for (let i = from; i < html.length; i++) {
+    const c = html[i]
+    if (quote) {
+      if (c === quote) quote = null
+    } else if (c === '"' || c === "'") {
+      quote = c
+    } else if (c === '>') {
+      return i
+    }
+  }
+  return -1
+}
+
+export function parseHtml(html: string): ElementNode {
+  const root: ElementNode = {
+    type: 'element',
+    tag: '#document',
+    attrs: {},
+    children: [],
+    parent: null,
+  }
+  let current = root
+  let depth = 0
+  let i = 0
+
+  const appendText = (text: string) => {
+    if (!text) return
+    const last = current.children[current.children.length - 1]
+    if (last?.type === 'text') last.text += text
+    else current.children.push({ type: 'text', text })
+  }
+
+  while (i < html.length) {
+    const lt = html.indexOf('<', i)
+    if (lt === -1) {
+      appendText(decodeEntities(html.slice(i)))
+      break
+    }
+    if (lt > i) appendText(decodeEntities(html.slice(i, lt)))
+
+    // Comments, doctype, CDATA and processing instructions
+    if (html.startsWith('<!--', lt)) {
+      const end = html.indexOf('-->', lt + 4)
+      i = end === -1 ? html.length : end + 3
+      continue
+    }
+    if (html[lt + 1] === '!' || html[lt + 1] === '?') {
+      const end = html.indexOf('>', lt)
+      i = end === -1 ? html.length : end + 1
+      continue
+    }
+
+    // End tag: close up to the nearest open element with that name, if any
+    if (html[lt + 1] === '/') {
+      const end = html.indexOf('>', lt)
+      const tag = html
+        .slice(lt + 2, end === -1 ? undefined : end)
+        .trim()
+        .toLowerCase()
+      i = end === -1 ? html.length : end + 1
+      let levels = 1
+      for (let node: ElementNode | null = current; node && node !== root; node = node.parent) {
+        if (node.tag === tag) {
+          current = node.parent ?? root
+          depth -= levels
+          break
+        }
+        levels++
+      }
+      continue
+    }
+
+    const nameMatch = /^[a-zA-Z][\w:-]*/.exec(html.slice(lt + 1, lt + 64))
+    if (!nameMatch) {
+      appendText('<')
+      i = lt + 1
+      continue
+    }
+    const end = tagEnd(html, lt + 1)
+    if (end === -1) {
+      i = html.length
+      continue
+    }
+
+    const tag = nameMatch[0].toLowerCase()
+    const inner = html.slice(lt + 1 + nameMatch[0].length, end)
+    const selfClosing = inner.trimEnd().endsWith('/')
+    i = end + 1
+
+    const implied = IMPLIED_END[tag] ?? (BLOCK_TAGS.has(tag) ? ['p'] : [])
+    while (current !== root && implied.includes(current.tag)) {
+      current = current.parent ?? root
+      depth--
+    }
+
+    const element: ElementNode = {
+      type: 'element',
+      tag,
+      attrs: parseAttributes(selfClosing ? inner.trimEnd().slice(0, -1) : inner),
+      children: [],
+      parent: current,
+    }
+    current.children.push(element)
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      // Searched on `html` itself: lower-casing can change the string length
+      const closeTag = new RegExp(`</${tag}`, 'gi')
+      closeTag.lastIndex = i
+      const close = closeTag.exec(html)?.index ?? -1
+      const raw = html.slice(i, close === -1 ? html.length : close)
+      if (raw)
+        element.children.push({ type: 'text', text: tag === 'title' ? decodeEntities(raw) : raw })
+      const closeEnd = close === -1 ? -1 : html.indexOf('>', close)
+      i = closeEnd === -1 ? html.length : closeEnd + 1
+      continue
+    }
+
+    if (!VOID_TAGS.has(tag) && !selfClosing && depth < MAX_DEPTH) {
+      current = element
+      depth++
+    }
+  }
+
+  return root
+}
+
+// ─── Traversal ────────────────────────────────────────────────────────────────
+
+/** Descendant elements in document order; `skip` prunes a subtree. */
+function* walk(node: ElementNode, skip?: (el: ElementNode) => boolean): Generator<ElementNode> {
+  const stack = [...node.children].reverse()
+  while (stack.length > 0) {
+    const child = stack.pop()!
+    if (child.type !== 'element' || skip?.(child)) continue
+    yield child
+    for (let i = child.children.length - 1; i >= 0; i--) stack.push(child.children[i]!)
+  }
+}
+
+function findAll(
+  node: ElementNode,
+  predicate: (el: ElementNode) => boolean,
+  skip?: (el: ElementNode) => boolean,
+): ElementNode[] {
+  const found: ElementNode[] = []
+  for (const el of walk(node, skip)) if (predicate(el)) found.push(el)
+  return found
+}
+
+function findFirst(node: ElementNode, predicate: (el: ElementNode) => boolean): ElementNode | null {
+  for (const el of walk(node)) if (predicate(el)) return el
+  return null
+}
+
+function hasAncestor(el: ElementNode, tags: Set<string>, stopAt?: ElementNode): boolean {
+  for (let node = el.parent; node && node !== stopAt; node = node.parent) {
+    if (tags.has(node.tag)) return true
+  }
+  return false
+}
+
+const cleanLine = (s: string) => s.replace(/\s+/g, ' ').trim()
+
+/**
+ * Readable text of a node: blocks on their own lines, inline whitespace
+ * collapsed, non-content elements (and `exclude`) skipped.
+ */
+function textOf(node: ElementNode, exclude?: (el: ElementNode) => boolean): string {
+  const parts: string[] = []
+  // Strings on the stack are separators written once an element's children are done
+  const stack: Array<DomNode | string> = [node]
+  while (stack.length > 0) {
+    const n = stack.pop()!
+    if (typeof n === 'string' || n.type === 'text') {
+      parts.push(typeof n === 'string' ? n : n.text)
+      continue
+    }
+    if (NON_CONTENT_TAGS.has(n.tag) || exclude?.(n)) continue
+    const block = BLOCK_TAGS.has(n.tag)
+    if (block) parts.push('\n')
+    if (block) stack.push('\n')
+    else if (n.tag === 'td' || n.tag === 'th') stack.push(' ')
+    for (let i = n.children.length - 1; i >= 0; i--) stack.push(n.children[i]!)
+  }
+  return parts.join('').split('\n').map(cleanLine).filter(Boolean).join('\n')
+}
+
+const inlineText = (node: ElementNode) => cleanLine(textOf(node))
+
+// ─── Main content ─────────────────────────────────────────────────────────────
+
+// A <header> inside an article or <main> holds its title and byline, so it stays
+const isChrome = (el: ElementNode) =>
+  CHROME_TAGS.has(el.tag) ||
+  el.attrs['role'] === 'navigation' ||
+  (el.tag === 'header' && !hasAncestor(el, CONTENT_SECTIONS))
+
+function mainRegion(body: ElementNode): ElementNode {
+  const main = findFirst(body, (el) => el.tag === 'main')
+  if (main) return main
+
+  const articles = findAll(body, (el) => el.tag === 'article')
+  if (articles.length > 0) {
+    return articles.reduce((best, a) => (textOf(a).length > textOf(best).length ? a : best))
+  }
+  return findFirst(body, (el) => el.attrs['role'] === 'main') ?? body
+}
+
+// ─── Structure ────────────────────────────────────────────────────────────────
+
+const MAX_LISTS = 30
+const MAX_LIST_ITEMS = 50
+const MAX_TABLES = 10
+const MAX_TABLE_ROWS = 50
+const MAX_LINKS = 200
+const MAX_IMAGES = 100
+const MAX_MAIN_TEXT = 50_000
+
+function headingLevel(el: ElementNode): PageHeading['level'] | null {
+  const m = /^h([1-6])$/.exec(el.tag)
+  return m ? (Number(m[1]) as PageHeading['level']) : null
+}
+
+function extractLists(region: ElementNode): PageList[] {
+  return findAll(region, (el) => el.tag === 'ul' || el.tag === 'ol', isChrome)
+    .map((list) => ({
+      ordered: list.tag === 'ol',
+      items: list.children
+        .filter((c): c is ElementNode => c.type === 'element' && c.tag === 'li')
+        .map((li) => inlineText(li).slice(0, 300))
+        .filter(Boolean)
+        .slice(0, MAX_LIST_ITEMS),
+    }))
+    .filter((l) => l.items.length > 0)
+    .slice(0, MAX_LISTS)
+}
+
+function extractTables(region: ElementNode): PageTable[] {
+  return findAll(region, (el) => el.tag === 'table', isChrome)
+    .map((table) => {
+      const rows = findAll(
+        table,
+        (el) => el.tag === 'tr',
+        (el) => el.tag === 'table',
+      )
+      const cells = (tr: ElementNode) =>
+        tr.children.filter(
+          (c): c is ElementNode => c.type === 'element' && (c.tag === 'td' || c.tag === 'th'),
+        )
+      const first = rows[0]
+      const headerRow =
+        first &&
+        (hasAncestor(first, new Set(['thead']), table) || cells(first).every((c) => c.tag === 'th'))
+          ? first
+          : null
+      const caption = findFirst(table, (el) => el.tag === 'caption')
+      return {
+        caption: caption ? inlineText(caption) || null : null,
+        headers: headerRow ? cells(headerRow).map(inlineText) : [],
+        rows: rows
+          .filter((r) => r !== headerRow)
+          .map((r) => cells(r).map(inlineText))
+          .filter((r) => r.some(Boolean))
+          .slice(0, MAX_TABLE_ROWS),
+      }
+    })
+    .filter((t) => t.headers.length > 0 || t.rows.length > 0)
+    .slice(0, MAX_TABLES)
+}
+
+/** True when `el` sits in the main content region, outside its page chrome. */
+function inContent(el: ElementNode, region: ElementNode): boolean {
+  for (let node = el.parent; node; node = node.parent) {
+    if (node === region) return true
+    if (isChrome(node)) return false
+  }
+  return false
+}
+
+function extractLinks(body: ElementNode, region: ElementNode, baseUrl: URL | null): PageLink[] {
+  const host = baseUrl ? normalizeDomain(baseUrl.hostname) : null
+  const links: PageLink[] = []
+  const seen = new Set<string>()
+  for (const a of findAll(body, (el) => el.tag === 'a' && !!el.attrs['href'])) {
+    const raw = a.attrs['href']!.trim()
+    if (/^(javascript|mailto|tel|data):/i.test(raw) || raw.startsWith('#')) continue
+    let href: string
+    try {
+      const url = baseUrl ? new URL(raw, baseUrl) : new URL(raw)
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') continue
+      url.hash = ''
+      href = url.toString()
+    } catch {
+      continue
+    }
+    if (seen.has(href)) continue
+    seen.add(href)
+    links.push({
+      href,
+      text: inlineText(a).slice(0, 200) || a.attrs['title'] || a.attrs['aria-label'] || '',
+      internal: host !== null && normalizeDomain(new URL(href).hostname) === host,
+      rel: a.attrs['rel'] || null,
+      inContent: inContent(a, region),
+    })
+    if (links.length >= MAX_LINKS) break
+  }
+  return links
+}
+
+function extractImages(region: ElementNode, baseUrl: URL | null): PageImage[] {
+  return findAll(region, (el) => el.tag === 'img' && !!(el.attrs['src'] || el.attrs['data-src']))
+    .slice(0, MAX_IMAGES)
+    .map((img) => {
+      const raw = (img.attrs['src'] || img.attrs['data-src'])!
+      let src = raw
+      try {
+        src = baseUrl ? new URL(raw, baseUrl).toString() : raw
+      } catch {
+        // keep the raw value
+      }
+      return { src, alt: 'alt' in img.attrs ? img.attrs['alt']!.trim() : null }
+    })
+}
+
+// ─── schema.org ───────────────────────────────────────────────────────────────
+
+type JsonObject = Record<string, unknown>
+
+const isObject = (v: unknown): v is JsonObject =>
+  typeof v === 'object' && v !== null && !Array.isArray(v)
+
+function schemaTypeOf(node: JsonObject): string | null {
+  const type = node['@type']
+  if (typeof type === 'string') return type
+  if (Array.isArray(type)) return type.filter((t) => typeof t === 'string').join(', ') || null
+  return null
+}
+
+function stringValue(v: unknown): string | null {
+  if (typeof v === 'string') return cleanLine(decodeEntities(v.replace(/<[^>]*>/g, ' '))) || null
+  if (typeof v === 'number') return String(v)
+  if (Array.isArray(v)) return stringValue(v[0])
+  if (isObject(v)) return stringValue(v['name'] ?? v['text'] ?? v['@value'])
+  return null
+}
+
+/** Top-level JSON-LD nodes, with arrays and @graph flattened. */
+function jsonLdNodes(root: ElementNode): JsonObject[] {
+  const nodes: JsonObject[] = []
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) value.forEach(collect)
+    else if (isObject(value)) {
+      if (Array.isArray(value['@graph'])) value['@graph'].forEach(collect)
+      if (value['@type']) nodes.push(value)
+    }
+  }
+  const scripts = findAll(
+    root,
+    (el) => el.tag === 'script' && (el.attrs['type'] ?? '').toLowerCase() === 'application/ld+json',
+  )
+  for (const script of scripts) {
+    const raw = script.children.map((c) => (c.type === 'text' ? c.text : '')).join('')
+    try {
+      collect(JSON.parse(raw.trim().replace(/^<!\[CDATA\[|\]\]>$/g, '')))
+    } catch {
+      // invalid markup is common; the page simply has no usable entity there
+    }
+  }
+  return nodes
+}
+
+function extractSchema(root: ElementNode): { entities: PageSchemaEntity[]; nodes: JsonObject[] } {
+  const nodes = jsonLdNodes(root)
+  const entities: PageSchemaEntity[] = nodes.flatMap((node) => {
+    const type = schemaTypeOf(node)
+    return type
+      ? [
+          {
+            type,
+            name: stringValue(node['name'] ?? node['headline']),
+            source: 'json-ld' as const,
+            data: node,
+          },
+        ]
+      : []
+  })
+
+  // Microdata: outermost itemscopes only, typed by the last segment of itemtype
+  const isItem = (e: ElementNode) => 'itemscope' in e.attrs && !!e.attrs['itemtype']
+  for (const el of findAll(root, isItem)) {
+    let nested = false
+    for (let node = el.parent; node && !nested; node = node.parent) nested = isItem(node)
+    if (nested) continue
+    const type = el.attrs['itemtype']!.split(/\s+/)[0]!.replace(/\/$/, '').split('/').pop()
+    if (!type) continue
+    const nameEl = findFirst(el, (e) => e.attrs['itemprop'] === 'name')
+    entities.push({
+      type,
+      name: nameEl ? inlineText(nameEl) || nameEl.attrs['content'] || null : null,
+      source: 'microdata',
+      data: {},
+    })
+  }
+  return { entities, nodes }
+}
+
+const hasType = (node: JsonObject, type: string) =>
+  (schemaTypeOf(node) ?? '').split(', ').includes(type)
+
+// ─── FAQ ──────────────────────────────────────────────────────────────────────
+
+// Blocks nested in these are already part of their container's text
+const ANSWER_CONTAINERS = new Set(['p', 'li'])
+// An answer ends at the next heading or at one of these
+const ANSWER_BOUNDARIES = new Set(['details', 'table', 'figure', 'form', 'hr'])
+
+function extractFaqs(region: ElementNode, nodes: JsonObject[]): PageFaq[] {
+  const faqs: PageFaq[] = []
+
+  for (const node of nodes.filter((n) => hasType(n, 'FAQPage'))) {
+    const questions = Array.isArray(node['mainEntity']) ? node['mainEntity'] : [node['mainEntity']]
+    for (const q of questions) {
+      if (!isObject(q)) continue
+      const question = stringValue(q['name'])
+      const answer = stringValue(q['acceptedAnswer'])
+      if (question && answer) faqs.push({ question, answer, source: 'schema' })
+    }
+  }
+
+  for (const details of findAll(region, (el) => el.tag === 'details', isChrome)) {
+    const summary = findFirst(details, (el) => el.tag === 'summary')
+    if (!summary) continue
+    const question = inlineText(summary)
+    const answer = cleanLine(textOf(details, (el) => el === summary))
+    if (question && answer) faqs.push({ question, answer, source: 'details' })
+  }
+
+  // A heading phrased as a question, answered by the blocks up to the next heading
+  const blocks = [...walk(region, isChrome)]
+  blocks.forEach((el, index) => {
+    const level = headingLevel(el)
+    if (!level || level === 1) return
+    const question = inlineText(el)
+    if (!question.endsWith('?')) return
+    const answer: string[] = []
+    for (let j = index + 1; j < blocks.length; j++) {
+      const next = blocks[j]!
+      if (headingLevel(next) || ANSWER_BOUNDARIES.has(next.tag) || answer.length >= 3) break
+      const isBlock = next.tag === 'p' || next.tag === 'ul' || next.tag === 'ol'
+      if (isBlock && !hasAncestor(next, ANSWER_CONTAINERS)) {
+        const text = inlineText(next)
+        if (text) answer.push(text)
+      }
+    }
+    if (answer.length > 0) {
+      faqs.push({ question, answer: answer.join(' ').slice(0, 1000), source: 'heading' })
+    }
+  })
+
+  const seen = new Set<string>()
+  return faqs.filter((f) => {
+    const key = f.question.toLowerCase()
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+// ─── Meta, author and dates ───────────────────────────────────────────────────
+
+function extractMeta(
+  root: ElementNode,
+  baseUrl: URL | null,
+): { meta: PageMeta; tags: Map<string, string> } {
+  const tags = new Map<string, string>()
+  for (const el of findAll(root, (e) => e.tag === 'meta')) {
+    const key = (
+      el.attrs['property'] ||
+      el.attrs['name'] ||
+      el.attrs['itemprop'] ||
+      ''
+    ).toLowerCase()
+    const content = el.attrs['content']?.trim()
+    if (key && content && !tags.has(key)) tags.set(key, content)
+  }
+
+  const prefixed = (prefix: string) =>
+    Object.fromEntries(
+      [...tags].filter(([k]) => k.startsWith(prefix)).map(([k, v]) => [k.slice(prefix.length), v]),
+    )
+
+  const canonicalEl = findFirst(
+    root,
+    (e) =>
+      e.tag === 'link' && (e.attrs['rel'] ?? '').toLowerCase().split(/\s+/).includes('canonical'),
+  )
+  let canonical = canonicalEl?.attrs['href'] || null
+  if (canonical && baseUrl) {
+    try {
+      canonical = new URL(canonical, baseUrl).toString()
+    } catch {
+      // keep the raw value
+    }
+  }
+
+  return {
+    tags,
+    meta: {
+      description: tags.get('description') ?? tags.get('og:description') ?? null,
+      keywords: (tags.get('keywords') ?? '')
+        .split(',')
+        .map((k) => k.trim())
+        .filter(Boolean),
+      robots: tags.get('robots') ?? null,
+      canonical,
+      openGraph: prefixed('og:'),
+      twitter: prefixed('twitter:'),
+    },
+  }
+}
+
+function extractAuthor(
+  root: ElementNode,
+  tags: Map<string, string>,
+  nodes: JsonObject[],
+): string | null {
+  const fromMeta = tags.get('author') ?? tags.get('article:author')
+  if (fromMeta && !/^https?:/i.test(fromMeta)) return fromMeta
+
+  for (const node of nodes) {
+    const author = stringValue(node['author'])
+    if (author) return author
+  }
+
+  const el = findFirst(
+    root,
+    (e) =>
+      e.attrs['itemprop'] === 'author' ||
+      e.attrs['rel'] === 'author' ||
+      (e.tag !== 'meta' && e.tag !== 'link' && /\b(author|byline)\b/i.test(e.attrs['class'] ?? '')),
+  )
+  const text = el ? inlineText(el).replace(/^by\s+/i, '') : ''
+  return text && text.length <= 100 ? text : null
+}
+
+function normalizeDate(value: string | null | undefined): string | null {
+  if (!value) return null
+  const time = Date.parse(value.trim())
+  return Number.isNaN(time) ? null : new Date(time).toISOString()
+}
+
+function extractDates(
+  root: ElementNode,
+  tags: Map<string, string>,
+  nodes: JsonObject[],
+): { published: string | null; modified: string | null } {
+  const fromSchema = (key: string) => {
+    for (const node of nodes) {
+      const date = normalizeDate(stringValue(node[key]))
+      if (date) return date
+    }
+    return null
+  }
+  const timeEl = (prop: string) => {
+    const el = findFirst(root, (e) => e.attrs['itemprop'] === prop)
+    return normalizeDate(
+      el?.attrs['datetime'] ?? el?.attrs['content'] ?? (el ? inlineText(el) : null),
+    )
+  }
+  const firstTime = findFirst(root, (e) => e.tag === 'time' && !!e.attrs['datetime'])
+
+  return {
+    published:
+      normalizeDate(
+        tags.get('article:published_time') ?? tags.get('date') ?? tags.get('dc.date'),
+      ) ??
+      fromSchema('datePublished') ??
+      timeEl('datePublished') ??
+      normalizeDate(firstTime?.attrs['datetime']),
+    modified:
+      normalizeDate(tags.get('article:modified_time') ?? tags.get('og:updated_time')) ??
+      fromSchema('dateModified') ??
+      timeEl('dateModified'),
+  }
+}
+
+// ─── extractPage ──────────────────────────────────────────────────────────────
+
+export function extractPage(html: string, url?: string): ExtractedPage {
+  let baseUrl: URL | null = null
+  try {
+    baseUrl = url ? new URL(url) : null
+  } catch {
+    baseUrl = null
+  }
+
+  const root = parseHtml(html)
+  const htmlEl = findFirst(root, (el) => el.tag === 'html')
+  const body = findFirst(root, (el) => el.tag === 'body') ?? root
+
+  // <base href> changes how relative links resolve
+  const baseEl = findFirst(root, (el) => el.tag === 'base' && !!el.attrs['href'])
+  if (baseEl) {
+    try {
+      baseUrl = new URL(baseEl.attrs['href']!, baseUrl ?? undefined)
+    } catch {
+      // ignore an invalid <base>
+    }
+  }
+
+  const { meta, tags } = extractMeta(root, baseUrl)
+  const { entities, nodes } = extractSchema(root)
+  const region = mainRegion(body)
+
+  const headings = findAll(body, (el) => headingLevel(el) !== null, isChrome)
+    .map((el) => ({ level: headingLevel(el)!, text: inlineText(el) }))
+    .filter((h) => h.text.length > 0)
+
+  const titleEl = findFirst(root, (el) => el.tag === 'title')
+  const title =
+    // textOf skips <title> as non-content, so read its text node directly
+    cleanLine(titleEl?.children.map((c) => (c.type === 'text' ? c.text : '')).join('') ?? '') ||
+    meta.openGraph['title'] ||
+    headings.find((h) => h.level === 1)?.text ||
+    null
+
+  const mainText = textOf(region, isChrome).slice(0, MAX_MAIN_TEXT)
+  const dates = extractDates(root, tags, nodes)
+
+  return {
+    url: baseUrl?.toString() ?? null,
+    title,
+    lang: htmlEl?.attrs['lang'] || null,
+    meta,
+    headings,
+    mainText,
+    wordCount: mainText.split(/\s+/).filter(Boolean).length,
+    lists: extractLists(region),
+    tables: extractTables(region),
+    faqs: extractFaqs(region, nodes),
+    schema: entities,
+    links: extractLinks(body, region, baseUrl),
+    images: extractImages(region, baseUrl),
+    author: extractAuthor(root, tags, nodes),
+    published: dates.published,
+    modified: dates.modified,
+  }
+}
+
+// ─── Plain text ───────────────────────────────────────────────────────────────
+
+const BARE_URL = /https?:\/\/[^\s<>()[\]"'`]+/g
+
+/**
+ * Page model for pasted text: markdown-style headings (`#`), numbered and
+ * bulleted lists and bare URLs are recognised; markup-only fields stay empty.
+ */
+export function pageFromText(text: string): ExtractedPage {
+  const headings: PageHeading[] = []
+  const lists: PageList[] = []
+  const lines: string[] = []
+  let list: PageList | null = null
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim().replace(/\*\*|__|`/g, '')
+    const heading = /^(#{1,6})\s+(.+?)\s*#*$/.exec(line)
+    const ordered = /^\d{1,3}[.)]\s+(.+)$/.exec(line)
+    const item = ordered ?? /^[-*•+]\s+(.+)$/.exec(line)
+
+    if (item) {
+      if (!list || list.ordered !== !!ordered) {
+        list = { ordered: !!ordered, items: [] }
+        lists.push(list)
+      }
+      list.items.push(cleanLine(item[1]!))
+    } else if (line) {
+      list = null
+    }
+    if (heading) {
+      headings.push({
+        level: heading[1]!.length as PageHeading['level'],
+        text: cleanLine(heading[2]!),
+      })
+    }
+    const content = cleanLine(heading?.[2] ?? item?.[1] ?? line)
+    if (content) lines.push(content)
+  }
+
+  const mainText = lines.join('\n').slice(0, MAX_MAIN_TEXT)
+  const links = [...new Set(text.match(BARE_URL) ?? [])].slice(0, MAX_LINKS).map((href) => ({
+    href: href.replace(/[.,;:!?]+$/, ''),
+    text: '',
+    internal: false,
+    rel: null,
+    inContent: true,
+  }))
+
+  return {
+    url: null,
+    title: headings.find((h) => h.level === 1)?.text ?? null,
+    lang: null,
+    meta: {
+      description: null,
+      keywords: [],
+      robots: null,
+      canonical: null,
+      openGraph: {},
+      twitter: {},
+    },
+    headings,
+    mainText,
+    wordCount: mainText.split(/\s+/).filter(Boolean).length,
+    lists: lists.slice(0, MAX_LISTS),
+    tables: [],
+    faqs: [],
+    schema: [],
+    links,
+    images: [],
+    author: null,
+    published: null,
+    modified: null,
+  }
+}
+
+// ─── Summaries ────────────────────────────────────────────────────────────────
+
+export function pageSignals(page: ExtractedPage): PageSignals {
+  return {
+    title: page.title,
+    description: page.meta.description,
+    lang: page.lang,
+    canonical: page.meta.canonical,
+    author: page.author,
+    published: page.published,
+    modified: page.modified,
+    wordCount: page.wordCount,
+    h1: page.headings.find((h) => h.level === 1)?.text ?? null,
+    headingCount: page.headings.length,
+    listCount: page.lists.length,
+    tableCount: page.tables.length,
+    faqCount: page.faqs.length,
+    schemaTypes: [...new Set(page.schema.map((e) => e.type))],
+    internalLinks: page.links.filter((l) => l.internal).length,
+    externalLinks: page.links.filter((l) => !l.internal).length,
+    imagesWithoutAlt: page.images.filter((i) => !i.alt).length,
+  }
+}
+
+/**
+ * Plain-text rendering of the page for LLM prompts: the structural signals
+ * first, then as much of the main content as fits in `maxChars`.
+ */
+export function formatPageForPrompt(page: ExtractedPage, maxChars = 8000): string {
+  const lines: string[] = []
+  const add = (label: string, value: string | null | undefined) => {
+    if (value) lines.push(`${label}: ${value}`)
+  }
+
+  add('URL', page.url)
+  add('TITLE', page.title)
+  add('META DESCRIPTION', page.meta.description)
+  add('LANGUAGE', page.lang)
+  add('AUTHOR', page.author)
+  add('PUBLISHED', page.published)
+  add('MODIFIED', page.modified)
+  lines.push(
+    `SCHEMA.ORG MARKUP: ${page.schema.length > 0 ? [...new Set(page.schema.map((e) => e.type))].join(', ') : 'none'}`,
+  )
+  lines.push(
+    `STRUCTURE: ${page.wordCount} words, ${page.lists.length} lists, ${page.tables.length} tables, ${page.faqs.length} FAQ entries`,
+  )
+
+  if (page.headings.length > 0) {
+    lines.push('HEADING OUTLINE:')
+    for (const h of page.headings.slice(0, 40)) {
+      lines.push(`${'  '.repeat(h.level - 1)}H${h.level} ${h.text.slice(0, 150)}`)
+    }
+  }
+  if (page.faqs.length > 0) {
+    lines.push('FAQ:')
+    for (const f of page.faqs.slice(0, 10)) {
+      lines.push(`Q: ${f.question.slice(0, 200)}`, `A: ${f.answer.slice(0, 300)}`)
+    }
+  }
+
+  const header = lines.join('\n')
+  const room = Math.max(0, maxChars - header.length - 20)
+  return `${header}\n\nMAIN CONTENT:\n${page.mainText.slice(0, room)}`.slice(0, maxChars)
+}
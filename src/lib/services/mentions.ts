@@ -0,0 +1,372 @@
+// PATH: src/lib/services/mentions.ts
+//
+// ─── Deterministic mention extraction ────────────────────────────────────────
+//
+// Finds the brand and its competitors in an AI answer without asking an LLM:
+//
+//   exact   → name or alias, case/accent-insensitive, on word boundaries
+//   fuzzy   → a split/joined name ("Hub Spot", "Hubspot"), or one or two typos
+//             in names of 8+ characters
+//   domain  → one of the brand's domains, including subdomains
+//
+// Position is the ordinal of the list item the entity first appears in (a
+// numbered item keeps its own number); outside lists it is the rank of the
+// first appearance among all tracked entities. The extraction is reconciled
+// with the LLM analysis in runMonitoringCheck, and disagreements are stored on
+// the result as `mention_disagreements`. Fuzzy matches alone never outvote the
+// analysis.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { Brand, CompetitorMention, MentionDisagreement, MentionType } from '@/types'
+import { normalizeDomain } from './citations'
+
+export type MentionMatchKind = 'exact' | 'fuzzy' | 'domain'
+
+export interface MentionMatch {
+  entity: string
+  kind: MentionMatchKind
+  /** text as it appears in the answer */
+  text: string
+  line: number
+  column: number
+  listOrdinal: number | null
+}
+
+export interface MentionExtraction {
+  brand_mentioned: boolean
+  mention_position: number | null
+  mention_count: number
+  mention_type: MentionType
+  competitor_mentions: CompetitorMention[]
+  matches: MentionMatch[]
+}
+
+const LIST_ITEM = /^(\s*)(?:(\d{1,3})[.)]|[-*•+])\s+/
+const WORD = /[\p{L}\p{N}]+/gu
+const ALNUM = /[\p{L}\p{N}]/u
+
+// ─── Normalisation ────────────────────────────────────────────────────────────
+// Both helpers are length-preserving in UTF-16 units, so match offsets map back
+// to the answer.
+
+function foldChar(ch: string): string {
+  // Astral characters (emoji, …) are two units and have nothing to fold
+  if (ch.length > 1) return ch
+  return (ch.normalize('NFD')[0] ?? ch).toLowerCase()[0] ?? ch
+}
+
+function fold(text: string): string {
+  return Array.from(text, foldChar).join('')
+}
+
+function normalize(text: string): string {
+  return Array.from(text, (ch) => (ALNUM.test(ch) ? foldChar(ch) : ' '.repeat(ch.length))).join('')
+}
+
+function normalizeTerm(term: string): string {
+  return normalize(term).trim().replace(/\s+/g, ' ')
+}
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// ─── Fuzzy matching ───────────────────────────────────────────────────────────
+
+// Short names take no typos: "Slack" is one edit away from "stack", "Notion"
+// from "nation", "Stripe" from "strip"
+function maxEdits(length: number): number {
+  if (length < 8) return 0
+  return length < 12 ? 1 : 2
+}
+
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      row[j] = Math.min(prev[j]! + 1, row[j - 1]! + 1, prev[j - 1]! + cost)
+      rowMin = Math.min(rowMin, row[j]!)
+    }
+    if (rowMin > limit) return limit + 1
+    prev = row
+  }
+  return prev[b.length]!
+}
+
+// ─── Line annotation ──────────────────────────────────────────────────────────
+
+interface AnnotatedLine {
+  text: string
+  listOrdinal: number | null
+}
+
+function annotateLines(text: string): AnnotatedLine[] {
+  let baseIndent: number | null = null
+  let counter = 0
+
+  return text.split('\n').map((line) => {
+    const item = LIST_ITEM.exec(line)
+    if (item) {
+      const indent = item[1]!.length
+      if (baseIndent === null || indent < baseIndent) {
+        baseIndent = indent
+        counter = 0
+      }
+      // Nested items belong to their parent's ordinal
+      if (indent === baseIndent) counter = item[2] ? parseInt(item[2], 10) : counter + 1
+      return { text: line, listOrdinal: counter }
+    }
+    if (line.trim() === '') return { text: line, listOrdinal: null }
+    if (baseIndent !== null && /^\s+/.test(line)) return { text: line, listOrdinal: counter }
+
+    // A heading or paragraph ends the list
+    baseIndent = null
+    counter = 0
+    return { text: line, listOrdinal: null }
+  })
+}
+
+// ─── Matching ─────────────────────────────────────────────────────────────────
+
+interface Entity {
+  name: string
+  terms: string[]
+  domains: string[]
+}
+
+interface Span {
+  entity: string
+  kind: MentionMatchKind
+  start: number
+  end: number
+}
+
+const KIND_PRIORITY: Record<MentionMatchKind, number> = { domain: 0, exact: 1, fuzzy: 2 }
+
+function findSpans(line: string, entities: Entity[]): Span[] {
+  const folded = fold(line)
+  const normalized = normalize(line)
+  const words = [...normalized.matchAll(WORD)].map((m) => ({
+    text: m[0],
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }))
+  const spans: Span[] = []
+
+  for (const entity of entities) {
+    for (const domain of entity.domains) {
+      const re = new RegExp(
+        `(?<![\\p{L}\\p{N}.-])(?:[a-z0-9-]+\\.)*${escapeRegex(domain)}(?!\\.?[\\p{L}\\p{N}-])`,
+        'gu',
+      )
+      for (const m of folded.matchAll(re)) {
+        spans.push({
+          entity: entity.name,
+          kind: 'domain',
+          start: m.index!,
+          end: m.index! + m[0].length,
+        })
+      }
+    }
+
+    for (const term of entity.terms) {
+      const tokens = term.split(' ')
+      const re = new RegExp(
+        `(?<![\\p{L}\\p{N}])${tokens.map(escapeRegex).join(' +')}(?![\\p{L}\\p{N}])`,
+        'gu',
+      )
+      for (const m of normalized.matchAll(re)) {
+        spans.push({
+          entity: entity.name,
+          kind: 'exact',
+          start: m.index!,
+          end: m.index! + m[0].length,
+        })
+      }
+
+      const joined = tokens.join('')
+      const limit = maxEdits(joined.length)
+      // Windows of the same word count, plus one word more or less for split/joined names
+      for (const size of new Set([
+        tokens.length,
+        tokens.length + 1,
+        Math.max(1, tokens.length - 1),
+      ])) {
+        for (let i = 0; i + size <= words.length; i++) {
+          const window = words.slice(i, i + size)
+          const candidate = window.map((w) => w.text).join('')
+          if (candidate[0] !== joined[0]) continue
+          if (editDistance(candidate, joined, limit) > limit) continue
+          spans.push({
+            entity: entity.name,
+            kind: 'fuzzy',
+            start: window[0]!.start,
+            end: window[window.length - 1]!.end,
+          })
+        }
+      }
+    }
+  }
+
+  // Overlaps: domains beat names, exact beats fuzzy, then the longer match wins
+  spans.sort(
+    (a, b) =>
+      KIND_PRIORITY[a.kind] - KIND_PRIORITY[b.kind] ||
+      b.end - b.start - (a.end - a.start) ||
+      a.start - b.start,
+  )
+  const kept: Span[] = []
+  for (const span of spans) {
+    if (!kept.some((k) => span.start < k.end && k.start < span.end)) kept.push(span)
+  }
+  return kept.sort((a, b) => a.start - b.start)
+}
+
+// ─── Extraction ───────────────────────────────────────────────────────────────
+
+function brandEntity(brand: Brand): Entity {
+  const domains = [brand.domain, ...brand.domains]
+    .filter((d): d is string => !!d?.trim())
+    .map(normalizeDomain)
+  return {
+    name: brand.name,
+    terms: [...new Set([brand.name, ...brand.aliases].map(normalizeTerm).filter(Boolean))],
+    domains: [...new Set(domains)],
+  }
+}
+
+export function extractMentions(responseText: string, brand: Brand): MentionExtraction {
+  const brandName = brand.name
+  const entities: Entity[] = [
+    brandEntity(brand),
+    ...brand.competitors
+      .filter((c) => normalizeTerm(c) && normalizeTerm(c) !== normalizeTerm(brandName))
+      .map((c) => ({ name: c, terms: [normalizeTerm(c)], domains: [] })),
+  ]
+
+  const matches: MentionMatch[] = annotateLines(responseText).flatMap((line, index) =>
+    findSpans(line.text, entities).map((span) => ({
+      entity: span.entity,
+      kind: span.kind,
+      text: line.text.slice(span.start, span.end),
+      line: index,
+      column: span.start,
+      listOrdinal: line.listOrdinal,
+    })),
+  )
+
+  // Matches are in reading order, so the first one per entity is its first appearance
+  const firstSeen = new Map<string, MentionMatch>()
+  for (const m of matches) if (!firstSeen.has(m.entity)) firstSeen.set(m.entity, m)
+  const appearanceRank = new Map([...firstSeen.keys()].map((entity, i) => [entity, i + 1]))
+
+  const positionOf = (entity: string): number | null => {
+    const first = firstSeen.get(entity)
+    if (!first) return null
+    return first.listOrdinal ?? appearanceRank.get(entity)!
+  }
+
+  const brandMatches = matches.filter((m) => m.entity === brandName)
+
+  return {
+    brand_mentioned: brandMatches.length > 0,
+    mention_position: positionOf(brandName),
+    mention_count: brandMatches.length,
+    mention_type: brandMatches.length > 0 ? 'direct' : 'none',
+    competitor_mentions: entities
+      .slice(1)
+      .filter((e) => firstSeen.has(e.name))
+      .map((e) => ({
+        name: e.name,
+        position: positionOf(e.name)!,
+        count: matches.filter((m) => m.entity === e.name).length,
+      })),
+    matches,
+  }
+}
+
+// ─── Reconciliation ───────────────────────────────────────────────────────────
+
+export interface AnalysedMentions {
+  brand_mentioned: boolean
+  mention_position: number | null
+  mention_count: number
+  mention_type: MentionType
+  competitor_mentions: CompetitorMention[]
+}
+
+export interface ReconciledMentions extends AnalysedMentions {
+  mention_disagreements: MentionDisagreement[]
+}
+
+/**
+ * Text matches are evidence, so the extractor wins whenever it found the name
+ * or a domain. Fuzzy matches only count when the LLM agrees: a near-miss word
+ * is as likely a dictionary word as a typo. The LLM keeps the last word on what
+ * string matching cannot see: indirect mentions ("the Salesforce-owned chat
+ * app") and competitors nobody listed.
+ */
+export function reconcileMentions(
+  extracted: MentionExtraction,
+  analysis: AnalysedMentions,
+  brand: Brand,
+): ReconciledMentions {
+  const disagreements: MentionDisagreement[] = []
+  const compare = (field: MentionDisagreement['field'], a: unknown, b: unknown) => {
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      disagreements.push({ field, extracted: a, analysis: b })
+    }
+  }
+
+  compare('brand_mentioned', extracted.brand_mentioned, analysis.brand_mentioned)
+  compare('mention_position', extracted.mention_position, analysis.mention_position)
+  compare('mention_count', extracted.mention_count, analysis.mention_count)
+
+  const known = new Set(brand.competitors.map(normalizeTerm))
+  const byName = (list: CompetitorMention[]) =>
+    list
+      .filter((c) => known.has(normalizeTerm(c.name)))
+      .map((c) => `${normalizeTerm(c.name)}:${c.count}`)
+      .sort()
+  compare(
+    'competitor_mentions',
+    byName(extracted.competitor_mentions),
+    byName(analysis.competitor_mentions),
+  )
+
+  const onlyFuzzy = (entity: string) =>
+    extracted.matches.every((m) => m.entity !== entity || m.kind === 'fuzzy')
+  const analysed = new Set(analysis.competitor_mentions.map((c) => normalizeTerm(c.name)))
+
+  const competitorMentions = [
+    ...extracted.competitor_mentions.filter(
+      (c) => !onlyFuzzy(c.name) || analysed.has(normalizeTerm(c.name)),
+    ),
+    ...analysis.competitor_mentions.filter((c) => !known.has(normalizeTerm(c.name))),
+  ]
+
+  if (extracted.brand_mentioned && (!onlyFuzzy(brand.name) || analysis.brand_mentioned)) {
+    return {
+      brand_mentioned: true,
+      mention_position: extracted.mention_position,
+      mention_count: extracted.mention_count,
+      // a near-miss spelling may be the analysis' "indirect" mention; exact text is direct
+      mention_type:
+        onlyFuzzy(brand.name) && analysis.mention_type === 'indirect' ? 'indirect' : 'direct',
+      competitor_mentions: competitorMentions,
+      mention_disagreements: disagreements,
+    }
+  }
+
+  const indirect = analysis.brand_mentioned && analysis.mention_type === 'indirect'
+  return {
+    brand_mentioned: indirect,
+    mention_position: indirect ? analysis.mention_position : null,
+    mention_count: indirect ? analysis.mention_count : 0,
+    mention_type: indirect ? 'indirect' : 'none',
+    competitor_mentions: competitorMentions,
+    mention_disagreements: disagreements,
+  }
+}
@@ -0,0 +1,368 @@
+// PATH: src/lib/services/mock-provider.ts
+// Provider "mock" — risposte deterministiche e offline, per sviluppo e test.
+//
+// Attivazione:
+//   AI_MOCK=true                  → tutte le catene usano solo il mock
+//   AI_CHAIN_<TASK>=mock,...      → mock solo per alcuni task
+//
+// Stesso prompt + stesso AI_MOCK_SEED = stessa risposta. I JSON rispettano gli
+// schemi attesi (analysisOutputSchema, SentimentResult, HallucinationResult,
+// AnalysisResult, rewriteOutputSchema).
+//
+// Fault injection:
+//   AI_MOCK_FAULT=malformed_json | rate_limit | timeout
+//   AI_MOCK_FAULT_RATE=0.3        → frazione (deterministica) di chiamate che falliscono, default 1
+//   AI_MOCK_LATENCY_MS=0          → ritardo simulato per ogni chiamata
+
+import type { AiTask, ProviderCompletion } from '@/types'
+import type { AiProvider, ProviderRequest } from './providers'
+import { ProviderError } from './provider-health'
+
+export const MOCK_MODEL = 'mock-1'
+
+type MockFault = 'malformed_json' | 'rate_limit' | 'timeout'
+
+const MOCK_TASKS: readonly AiTask[] = [
+  'simulate',
+  'analyze',
+  'sentiment',
+  'hallucination',
+  'content',
+  'rewrite',
+]
+
+export function isMockEnabled(): boolean {
+  if (process.env['AI_MOCK'] === 'true') return true
+  return Object.entries(process.env).some(
+    ([key, value]) => key.startsWith('AI_CHAIN_') && /\bmock\b/i.test(value ?? ''),
+  )
+}
+
+// ─── PRNG deterministico ──────────────────────────────────────────────────────
+
+// FNV-1a 32 bit
+function hash(text: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+// mulberry32
+function createRng(seed: number) {
+  let a = seed
+  const next = () => {
+    a = (a + 0x6d2b79f5) | 0
+    let t = Math.imul(a ^ (a >>> 15), 1 | a)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+  return {
+    next,
+    int: (min: number, max: number) => Math.floor(next() * (max - min + 1)) + min,
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)] as T,
+    chance: (p: number) => next() < p,
+  }
+}
+
+type Rng = ReturnType<typeof createRng>
+
+// ─── Fixture ──────────────────────────────────────────────────────────────────
+
+const FIXTURE_BRANDS = ['Northwind', 'Contoso', 'Fabrikam', 'Globex', 'Initech', 'Umbrella']
+
+const FIXTURE_OPENERS = [
+  'Great question! Here are some of the most popular options right now.',
+  'There are several well-regarded choices, depending on your needs and budget.',
+  'Based on current reviews and market share, these stand out.',
+]
+
+const FIXTURE_SOURCES = [
+  'https://www.g2.com/categories',
+  'https://www.capterra.com/reviews',
+  'https://en.wikipedia.org/wiki/Comparison_of_software',
+  'https://www.techradar.com/best',
+]
+
+const FIXTURE_ASPECTS = [
+  'pricing',
+  'ease of use',
+  'customer support',
+  'integrations',
+  'reliability',
+]
+
+const FIXTURE_SUGGESTIONS = [
+  'Add an FAQ section that answers the main question in the first sentence',
+  'Include statistics with their sources to increase factual density',
+  'Define the key term in the first paragraph',
+  'Use numbered lists for step-by-step instructions',
+  'Add author bio and credentials to strengthen E-E-A-T',
+  'Add a publication date and update history',
+  'Add schema.org Article and FAQPage markup',
+]
+
+// ─── Parsing del prompt ───────────────────────────────────────────────────────
+
+function match(prompt: string, re: RegExp): string | null {
+  return prompt.match(re)?.[1]?.trim() ?? null
+}
+
+function splitList(value: string | null): string[] {
+  if (!value || value === 'none') return []
+  return value
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+}
+
+function quotedBlock(prompt: string): string {
+  return match(prompt, /"""\n?([\s\S]*?)\n?"""/) ?? prompt
+}
+
+const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n))
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+// ─── Risposte per task ────────────────────────────────────────────────────────
+
+function simulate(req: ProviderRequest, rng: Rng): string {
+  const question = match(req.prompt, /User question: "([\s\S]*?)"\n/) ?? 'your question'
+  const brands = [...FIXTURE_BRANDS].sort(() => rng.next() - 0.5).slice(0, rng.int(3, 5))
+  const lines = brands.map(
+    (b, i) =>
+      `${i + 1}. **${b}** — ${rng.pick(['strong', 'solid', 'popular', 'affordable'])} choice, ` +
+      `known for ${rng.pick(FIXTURE_ASPECTS)}.`,
+  )
+  const source = req.engine === 'perplexity' ? `\n\nSources: [1] ${rng.pick(FIXTURE_SOURCES)}` : ''
+
+  return (
+    `${rng.pick(FIXTURE_OPENERS)}\n\nRegarding "${question}":\n\n${lines.join('\n')}\n\n` +
+    `The best fit depends on team size, budget and the integrations you need.${source}`
+  )
+}
+
+function analyze(req: ProviderRequest, rng: Rng): string {
+  const competitors = splitList(match(req.prompt, /Known competitors: (.*)/))
+  const mentioned = rng.chance(0.6)
+  const sentimentScore = mentioned ? round2(rng.next() * 1.4 - 0.4) : 0
+  const hallucination = mentioned && rng.chance(0.15)
+
+  return JSON.stringify({
+    brand_mentioned: mentioned,
+    mention_position: mentioned ? rng.int(1, 5) : null,
+    mention_count: mentioned ? rng.int(1, 3) : 0,
+    mention_type: mentioned ? rng.pick(['direct', 'indirect'] as const) : 'none',
+    visibility_score: mentioned ? rng.int(35, 95) : rng.int(0, 15),
+    sentiment: sentimentScore > 0.2 ? 'positive' : sentimentScore < -0.2 ? 'negative' : 'neutral',
+    sentiment_score: sentimentScore,
+    sentiment_reasoning: mentioned
+      ? `The response describes the brand in terms of ${rng.pick(FIXTURE_ASPECTS)}.`
+      : 'The brand is not mentioned in the response.',
+    competitor_mentions: competitors
+      .filter(() => rng.chance(0.5))
+      .map((name) => ({ name, position: rng.int(1, 6), count: rng.int(1, 2) })),
+    has_hallucination: hallucination,
+    hallucination_flags: hallucination
+      ? [
+          {
+            text: 'The brand was founded in 1998.',
+            severity: rng.pick(['low', 'medium', 'high'] as const),
+            type: 'date_error',
+          },
+        ]
+      : [],
+  })
+}
+
+function sentiment(req: ProviderRequest, rng: Rng): string {
+  const score = round2(rng.next() * 2 - 1)
+  const label = score > 0.2 ? 'positive' : score < -0.2 ? 'negative' : 'neutral'
+  const brand = match(req.prompt, /toward the brand "([^"]+)"/) ?? 'the brand'
+
+  return JSON.stringify({
+    sentiment: label,
+    score,
+    confidence: rng.int(60, 95),
+    reasoning: `The text discusses ${brand} with an overall ${label} tone.`,
+    aspects: [...FIXTURE_ASPECTS]
+      .sort(() => rng.next() - 0.5)
+      .slice(0, rng.int(1, 3))
+      .map((aspect) => ({
+        aspect,
+        sentiment: rng.pick(['positive', 'negative', 'neutral'] as const),
+        explanation: `Mentions of ${aspect} in the text.`,
+      })),
+  })
+}
+
+function hallucination(req: ProviderRequest, rng: Rng): string {
+  const brand = match(req.prompt, /factual errors about "([^"]+)"/) ?? 'the brand'
+  const flagged = rng.chance(0.3)
+
+  return JSON.stringify({
+    has_hallucination: flagged,
+    confidence: rng.int(55, 90),
+    flags: flagged
+      ? [
+          {
+            text: `${brand} is headquartered in Paris.`,
+            severity: rng.pick(['low', 'medium', 'high'] as const),
+            type: rng.pick(['factual_error', 'fabrication', 'date_error'] as const),
+          },
+        ]
+      : [],
+    summary: flagged
+      ? `One claim about ${brand} could not be verified against the known facts.`
+      : `No claims about ${brand} contradict the known facts.`,
+  })
+}
+
+function content(req: ProviderRequest, rng: Rng): string {
+  const text = quotedBlock(req.prompt)
+  const counts = new Map<string, number>()
+  for (const word of text.toLowerCase().match(/[a-z][a-z-]{4,}/g) ?? []) {
+    counts.set(word, (counts.get(word) ?? 0) + 1)
+  }
+  const topWords = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, 5)
+    .map(([word]) => word)
+  while (topWords.length < 5) topWords.push(rng.pick(['guide', 'pricing', 'features', 'review']))
+
+  const base = clamp(40 + Math.round(Math.log2(text.length + 1) * 3) + rng.int(-10, 10), 0, 100)
+  const engineScore = () => clamp(base + rng.int(-12, 12), 0, 100)
+  const status = (score: number) =>
+    score >= 75 ? 'optimal' : score >= 50 ? 'needs-work' : 'critical'
+
+  return JSON.stringify({
+    summary:
+      'Mock analysis: the content is readable but could be more citation-ready. ' +
+      'Adding structure and sourced facts would improve its AI visibility.',
+    visibilityScore: base,
+    engineBreakdown: ['ChatGPT', 'Gemini', 'Perplexity', 'Claude'].map((engine) => {
+      const score = engineScore()
+      return {
+        engine,
+        score,
+        status: status(score),
+        details: `Mock insight for ${engine}.`,
+      }
+    }),
+    suggestions: [...FIXTURE_SUGGESTIONS].sort(() => rng.next() - 0.5).slice(0, 5),
+    keywords: topWords.map((word) => ({
+      word,
+      impact: rng.int(40, 95),
+      difficulty: rng.int(10, 80),
+    })),
+    intent: rng.pick(['Informational', 'Commercial', 'Transactional', 'Mixed'] as const),
+    intentConfidence: rng.int(60, 95),
+    intentSignals: ['question-style headings', 'comparison terms', 'how-to phrasing'],
+    contentType: rng.pick(['Article', 'Guide', 'Blog Post', 'Product Page'] as const),
+    contentTypeConfidence: rng.int(60, 95),
+    tone: rng.pick(['Professional', 'Conversational', 'Technical'] as const),
+    toneConfidence: rng.int(60, 95),
+    readingLevel: rng.pick(['High School', 'Undergraduate'] as const),
+    audience: 'General audience researching options',
+  })
+}
+
+// Riscrittura finta ma stabile: definizione in apertura, testo originale, passi numerati
+function rewrite(req: ProviderRequest, rng: Rng): string {
+  const text = quotedBlock(req.prompt)
+  const topic = text.match(/[A-Za-z][\w -]{2,40}/)?.[0]?.trim() ?? 'This topic'
+  const paragraphs = text
+    .split(/\n{2,}/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+
+  return JSON.stringify({
+    rewrittenText: [
+      `${topic} is the subject of this page, explained step by step below.`,
+      ...paragraphs,
+      '## What should you do next?',
+      '1. Review the key points above\n2. Apply them to your own content\n3. Measure the results',
+    ].join('\n\n'),
+    changes: [
+      'Added a one-sentence definition at the start',
+      'Added a question-style heading',
+      'Turned the next steps into a numbered list',
+      rng.pick([
+        'Shortened long sentences',
+        'Made the wording more direct',
+        'Moved the key answer to the top',
+      ]),
+    ],
+  })
+}
+
+const RESPONDERS: Record<AiTask, (req: ProviderRequest, rng: Rng) => string> = {
+  simulate,
+  analyze,
+  sentiment,
+  hallucination,
+  content,
+  rewrite,
+}
+
+// ─── Fault injection ──────────────────────────────────────────────────────────
+
+function getFault(key: number): MockFault | null {
+  const fault = process.env['AI_MOCK_FAULT'] as MockFault | undefined
+  if (!fault || !['malformed_json', 'rate_limit', 'timeout'].includes(fault)) return null
+
+  const rate = parseFloat(process.env['AI_MOCK_FAULT_RATE'] ?? '1')
+  const threshold = Number.isFinite(rate) ? clamp(rate, 0, 1) : 1
+  return createRng(key ^ 0x5eed).next() < threshold ? fault : null
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// ─── Provider ─────────────────────────────────────────────────────────────────
+
+async function completeMock(req: ProviderRequest): Promise<ProviderCompletion> {
+  const seed = process.env['AI_MOCK_SEED'] ?? '0'
+  const key = hash(`${seed}|${req.task}|${req.engine ?? ''}|${req.prompt}`)
+  const latency = parseInt(process.env['AI_MOCK_LATENCY_MS'] ?? '0', 10)
+  if (latency > 0) await sleep(latency)
+
+  const fault = getFault(key)
+  if (fault === 'rate_limit') {
+    throw new ProviderError(
+      'Mock rate limit (429) — AI_MOCK_FAULT=rate_limit',
+      'mock',
+      429,
+      new Date(Date.now() + 60_000),
+    )
+  }
+  if (fault === 'timeout') {
+    await sleep(200)
+    throw new DOMException('The operation was aborted due to timeout', 'TimeoutError')
+  }
+
+  let text = RESPONDERS[req.task](req, createRng(key))
+  if (fault === 'malformed_json') text = `Sure! Here is the JSON:\n${text.slice(0, -7)}`
+
+  const prompt_tokens = Math.ceil(req.prompt.length / 4)
+  const completion_tokens = Math.ceil(text.length / 4)
+  return {
+    text,
+    model: MOCK_MODEL,
+    usage: { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens },
+  }
+}
+
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  capabilities: MOCK_TASKS,
+  defaultModel: MOCK_MODEL,
+  models: [{ id: MOCK_MODEL, inputCostPerMTok: 0, outputCostPerMTok: 0 }],
+  freeLimit: 'illimitato',
+  freeTier: { unit: 'requests', dailyLimit: 1_000_000 },
+  bestFor: 'Sviluppo e test offline, fault injection',
+  signupUrl: '',
+  isAvailable: isMockEnabled,
+  complete: completeMock,
+}
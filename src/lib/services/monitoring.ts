@@ -9,12 +9,17 @@ import type {
   MentionType,
   CompetitorMention,
   HallucinationFlag,
+  MonitoringCheckTelemetry,
+  TokenUsage,
+  UsageAttribution,
 } from '@/types'
+import { estimateMean, estimateProportion } from '@/lib/stats'
 
-import {
-  simulateEngineResponse as routerSimulate,
-  analyzeResponseForBrand as routerAnalyze,
-} from './ai-router'
+import { analyzeResponseForBrand as routerAnalyze } from './ai-router'
+import { routeStructured } from './structured-output'
+import { queryEngine, type EngineAnswer } from './engines'
+import { extractMentions, reconcileMentions } from './mentions'
+import { extractCitations, mergeCitations } from './citations'
 
 function parseJson<T>(raw: string): T {
   const cleaned = raw.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
@@ -31,7 +36,6 @@ const analysisOutputSchema = z.object({
   sentiment: z.enum(['positive', 'negative', 'neutral']).default('neutral'),
   sentiment_score: z.number().min(-1).max(1).default(0),
   sentiment_reasoning: z.string().optional().default(''),
-  cited_urls: z.array(z.string()).optional().default([]),
   competitor_mentions: z
     .array(
       z.object({
@@ -83,7 +87,6 @@ Respond ONLY with a valid JSON object (no markdown, no extra text):
   "sentiment": <"positive" | "negative" | "neutral">,
   "sentiment_score": <float -1.0 to 1.0>,
   "sentiment_reasoning": "<one sentence explanation>",
-  "cited_urls": ["<url>"],
   "competitor_mentions": [
     {"name": "<n>", "position": <integer>, "count": <integer>}
   ],
@@ -100,20 +103,77 @@ Respond ONLY with a valid JSON object (no markdown, no extra text):
 
 // ─── runMonitoringCheck ───────────────────────────────────────────────────────
 
+export interface MonitoringCheckOutput {
+  result: Omit<MonitoringResult, 'id' | 'created_at'>
+  telemetry: MonitoringCheckTelemetry
+}
+
+/** Thrown by runMonitoringCheck; carries the telemetry of the steps that did run. */
+export class MonitoringCheckError extends Error {
+  constructor(
+    message: string,
+    public readonly telemetry: MonitoringCheckTelemetry,
+  ) {
+    super(message)
+    this.name = 'MonitoringCheckError'
+  }
+}
+
+function emptyTelemetry(): MonitoringCheckTelemetry {
+  return {
+    simulation_provider: null,
+    analysis_provider: null,
+    simulation_latency_ms: null,
+    analysis_latency_ms: null,
+    prompt_tokens: 0,
+    completion_tokens: 0,
+  }
+}
+
 export async function runMonitoringCheck(
   prompt: Prompt,
   brand: Brand,
   engine: MonitoringEngine,
   userId: string,
-): Promise<Omit<MonitoringResult, 'id' | 'created_at'>> {
-  const { text: responseText, provider: simulationProvider } =
-    await routerSimulate(prompt.text, engine)
-  console.log(`[monitoring] ${engine} simulato con: ${simulationProvider}`)
+): Promise<MonitoringCheckOutput> {
+  const telemetry = emptyTelemetry()
+
+  const attribution: UsageAttribution = { userId, brandId: brand.id }
+
+  const fail = (step: string, e: unknown): never => {
+    throw new MonitoringCheckError(
+      `${step}: ${e instanceof Error ? e.message : String(e)}`,
+      telemetry,
+    )
+  }
+
+  let answer: EngineAnswer | null = null
+  const simulationStartedAt = Date.now()
+  try {
+    answer = await queryEngine(prompt.text, engine, attribution)
+    telemetry.simulation_provider = answer.provider
+    addUsage(telemetry, answer.usage)
+  } catch (e) {
+    fail('Risposta engine fallita', e)
+  } finally {
+    telemetry.simulation_latency_ms = Date.now() - simulationStartedAt
+  }
+  if (!answer) return fail('Risposta engine fallita', 'nessuna risposta')
+  const responseText = answer.text
 
   const analysisPrompt = buildAnalysisPrompt(responseText, brand, prompt.text)
-  const { text: analysisRaw, provider: analysisProvider } =
-    await routerAnalyze(analysisPrompt)
-  console.log(`[monitoring] ${engine} analisi con: ${analysisProvider}`)
+  let analysisRaw = ''
+  const analysisStartedAt = Date.now()
+  try {
+    const analysisCall = await routerAnalyze(analysisPrompt, attribution)
+    analysisRaw = analysisCall.text
+    telemetry.analysis_provider = analysisCall.provider
+    addUsage(telemetry, analysisCall.usage)
+  } catch (e) {
+    fail('Analisi fallita', e)
+  } finally {
+    telemetry.analysis_latency_ms = Date.now() - analysisStartedAt
+  }
 
   let analysis: AnalysisOutput
   try {
@@ -121,35 +181,180 @@ export async function runMonitoringCheck(
     // Zod valida e applica defaults — nessun campo silenziosamente undefined
     analysis = analysisOutputSchema.parse(rawParsed)
   } catch (e) {
-    throw new Error(
-      `Impossibile parsare/validare la risposta di analisi da ${analysisProvider}. ` +
+    throw new MonitoringCheckError(
+      `Impossibile parsare/validare la risposta di analisi da ${telemetry.analysis_provider}. ` +
         `Errore: ${e instanceof Error ? e.message : String(e)}. ` +
         `Raw: ${analysisRaw.slice(0, 200)}`,
+      telemetry,
     )
   }
 
+  const citations = extractCitations(responseText, {
+    native: answer.citations,
+    brandDomains: [brand.domain, ...brand.domains],
+  })
+
+  // Text matching decides what it can see; the LLM covers indirect mentions
+  const extraction = extractMentions(responseText, brand)
+  const mentions = reconcileMentions(
+    extraction,
+    {
+      brand_mentioned: analysis.brand_mentioned,
+      mention_position: analysis.mention_position ?? null,
+      mention_count: analysis.mention_count,
+      mention_type: analysis.mention_type as MentionType,
+      competitor_mentions: analysis.competitor_mentions as CompetitorMention[],
+    },
+    brand,
+  )
+
   return {
-    prompt_id: prompt.id,
-    brand_id: brand.id,
-    user_id: userId,
-    engine,
-    prompt_text: prompt.text,
-    response_text:
-      responseText.length > 5000 ? responseText.slice(0, 5000) + '…' : responseText,
-    brand_mentioned: analysis.brand_mentioned,
-    mention_position: analysis.mention_position ?? null,
-    mention_count: analysis.mention_count,
-    mention_type: analysis.mention_type as MentionType,
-    visibility_score: Math.min(100, Math.max(0, analysis.visibility_score)),
-    sentiment: analysis.sentiment as SentimentLabel,
-    sentiment_score: Math.min(1, Math.max(-1, analysis.sentiment_score)),
-    cited_urls: analysis.cited_urls,
-    competitor_mentions: analysis.competitor_mentions as CompetitorMention[],
-    has_hallucination: analysis.has_hallucination,
-    hallucination_flags: analysis.hallucination_flags as HallucinationFlag[],
+    telemetry,
+    result: {
+      prompt_id: prompt.id,
+      brand_id: brand.id,
+      user_id: userId,
+      engine,
+      prompt_text: prompt.text,
+      response_text: responseText.length > 5000 ? responseText.slice(0, 5000) + '…' : responseText,
+      response_mode: answer.mode,
+      response_provider: answer.provider,
+      brand_mentioned: mentions.brand_mentioned,
+      mention_position: mentions.mention_position,
+      mention_count: mentions.mention_count,
+      mention_type: mentions.mention_type,
+      visibility_score: Math.min(100, Math.max(0, analysis.visibility_score)),
+      sentiment: analysis.sentiment as SentimentLabel,
+      sentiment_score: Math.min(1, Math.max(-1, analysis.sentiment_score)),
+      cited_urls: citations.map((c) => c.url),
+      citations,
+      competitor_mentions: mentions.competitor_mentions,
+      has_hallucination: analysis.has_hallucination,
+      hallucination_flags: analysis.hallucination_flags as HallucinationFlag[],
+      mention_disagreements: mentions.mention_disagreements,
+      sample_count: 1,
+      mention_rate: mentions.brand_mentioned ? 1 : 0,
+      sample_stats: null,
+    },
   }
 }
 
+// ─── runMonitoringSamples ─────────────────────────────────────────────────────
+// Multi-sample mode: LLM answers vary from call to call, so the engine is asked
+// `samples` times (sequentially, to go easy on provider quotas) and the answers
+// are aggregated into a single result with means, variances and 95% intervals.
+// Failed samples are skipped; the check fails only if every sample fails.
+
+export async function runMonitoringSamples(
+  prompt: Prompt,
+  brand: Brand,
+  engine: MonitoringEngine,
+  userId: string,
+  samples: number,
+): Promise<MonitoringCheckOutput> {
+  if (samples <= 1) return runMonitoringCheck(prompt, brand, engine, userId)
+
+  const telemetry = emptyTelemetry()
+  const results: MonitoringCheckOutput['result'][] = []
+  let lastError: unknown = null
+
+  for (let i = 0; i < samples; i++) {
+    try {
+      const output = await runMonitoringCheck(prompt, brand, engine, userId)
+      mergeTelemetry(telemetry, output.telemetry)
+      results.push(output.result)
+    } catch (e) {
+      lastError = e
+      if (e instanceof MonitoringCheckError) mergeTelemetry(telemetry, e.telemetry)
+    }
+  }
+
+  if (results.length === 0) {
+    throw new MonitoringCheckError(
+      `Tutti i ${samples} campioni sono falliti. Ultimo errore: ` +
+        (lastError instanceof Error ? lastError.message : String(lastError)),
+      telemetry,
+    )
+  }
+  return { telemetry, result: aggregateSamples(results) }
+}
+
+function mergeTelemetry(into: MonitoringCheckTelemetry, from: MonitoringCheckTelemetry): void {
+  into.simulation_provider ??= from.simulation_provider
+  into.analysis_provider ??= from.analysis_provider
+  if (from.simulation_latency_ms !== null) {
+    into.simulation_latency_ms = (into.simulation_latency_ms ?? 0) + from.simulation_latency_ms
+  }
+  if (from.analysis_latency_ms !== null) {
+    into.analysis_latency_ms = (into.analysis_latency_ms ?? 0) + from.analysis_latency_ms
+  }
+  into.prompt_tokens += from.prompt_tokens
+  into.completion_tokens += from.completion_tokens
+}
+
+type SampleResult = MonitoringCheckOutput['result']
+
+export function aggregateSamples(results: SampleResult[]): SampleResult {
+  const mentionRate = estimateProportion(
+    results.filter((r) => r.brand_mentioned).length,
+    results.length,
+  )
+  const visibility = estimateMean(
+    results.map((r) => r.visibility_score),
+    [0, 100],
+  )
+  const sentiment = estimateMean(
+    results.map((r) => r.sentiment_score ?? 0),
+    [-1, 1],
+  )
+  const brandMentioned = mentionRate.rate >= 0.5
+
+  // The stored answer text is the sample that agrees with the majority and sits
+  // closest to the mean visibility, so detail fields match the headline numbers
+  const agreeing = results.filter((r) => r.brand_mentioned === brandMentioned)
+  const representative = (agreeing.length > 0 ? agreeing : results).reduce((best, r) =>
+    Math.abs(r.visibility_score - visibility.mean) <
+    Math.abs(best.visibility_score - visibility.mean)
+      ? r
+      : best,
+  )
+
+  const flags = new Map<string, HallucinationFlag>()
+  for (const flag of results.flatMap((r) => r.hallucination_flags)) {
+    if (!flags.has(flag.text)) flags.set(flag.text, flag)
+  }
+
+  return {
+    ...representative,
+    brand_mentioned: brandMentioned,
+    visibility_score: Math.round(visibility.mean),
+    sentiment_score: sentiment.mean,
+    cited_urls: [...new Set(results.flatMap((r) => r.cited_urls))],
+    citations: mergeCitations(results.map((r) => r.citations)),
+    has_hallucination: flags.size > 0,
+    hallucination_flags: [...flags.values()],
+    sample_count: results.length,
+    mention_rate: mentionRate.rate,
+    sample_stats: {
+      mention_rate: mentionRate,
+      visibility,
+      sentiment,
+      samples: results.map((r) => ({
+        brand_mentioned: r.brand_mentioned,
+        mention_position: r.mention_position,
+        visibility_score: r.visibility_score,
+        sentiment_score: r.sentiment_score ?? 0,
+      })),
+    },
+  }
+}
+
+function addUsage(telemetry: MonitoringCheckTelemetry, usage: TokenUsage | null): void {
+  if (!usage) return
+  telemetry.prompt_tokens += usage.prompt_tokens
+  telemetry.completion_tokens += usage.completion_tokens
+}
+
 // ─── analyzeSentiment ─────────────────────────────────────────────────────────
 
 export interface SentimentResult {
@@ -160,9 +365,31 @@ export interface SentimentResult {
   aspects: Array<{ aspect: string; sentiment: SentimentLabel; explanation: string }>
 }
 
+const sentimentLabel = z.preprocess(
+  (v) => (typeof v === 'string' ? v.toLowerCase().trim() : v),
+  z.enum(['positive', 'negative', 'neutral']),
+)
+
+const sentimentOutputSchema: z.ZodType<SentimentResult, z.ZodTypeDef, unknown> = z.object({
+  sentiment: sentimentLabel,
+  score: z.coerce.number().min(-1).max(1),
+  confidence: z.coerce.number().min(0).max(100).default(0),
+  reasoning: z.string().default(''),
+  aspects: z
+    .array(
+      z.object({
+        aspect: z.string(),
+        sentiment: sentimentLabel,
+        explanation: z.string().default(''),
+      }),
+    )
+    .default([]),
+})
+
 export async function analyzeSentiment(
   text: string,
   brandName: string,
+  attribution?: UsageAttribution,
 ): Promise<SentimentResult> {
   const prompt = `Analyze the sentiment of this text toward the brand "${brandName}".
 
@@ -186,9 +413,11 @@ Respond ONLY with valid JSON (no markdown):
   ]
 }`
 
-  const { text: raw, provider } = await routerAnalyze(prompt)
+  const { data, provider } = await routeStructured('sentiment', prompt, sentimentOutputSchema, {
+    attribution,
+  })
   console.log(`[monitoring] analyzeSentiment con: ${provider}`)
-  return parseJson<SentimentResult>(raw)
+  return data
 }
 
 // ─── detectHallucinations ─────────────────────────────────────────────────────
@@ -200,10 +429,35 @@ export interface HallucinationResult {
   summary: string
 }
 
+const hallucinationOutputSchema: z.ZodType<HallucinationResult, z.ZodTypeDef, unknown> = z
+  .object({
+    has_hallucination: z.boolean().optional(),
+    confidence: z.coerce.number().min(0).max(100).default(0),
+    flags: z
+      .array(
+        z.object({
+          text: z.string(),
+          severity: z.preprocess(
+            (v) => (typeof v === 'string' ? v.toLowerCase().trim() : v),
+            z.enum(['low', 'medium', 'high']),
+          ),
+          type: z.preprocess(
+            (v) => (typeof v === 'string' ? v.toLowerCase().trim().replace(/[\s-]+/g, '_') : v),
+            z.enum(['factual_error', 'attribution_error', 'fabrication', 'date_error']),
+          ),
+        }),
+      )
+      .default([]),
+    summary: z.string().default(''),
+  })
+  // Senza il flag esplicito decidono i claim segnalati
+  .transform((h) => ({ ...h, has_hallucination: h.has_hallucination ?? h.flags.length > 0 }))
+
 export async function detectHallucinations(
   aiResponse: string,
   brandName: string,
   knownFacts: string[],
+  attribution?: UsageAttribution,
 ): Promise<HallucinationResult> {
   const factsBlock =
     knownFacts.length > 0
@@ -233,25 +487,12 @@ Respond ONLY with valid JSON (no markdown):
   "summary": "<one paragraph overall assessment>"
 }`
 
-  const { text: raw, provider } = await routerAnalyze(prompt)
+  const { data, provider } = await routeStructured(
+    'hallucination',
+    prompt,
+    hallucinationOutputSchema,
+    { attribution },
+  )
   console.log(`[monitoring] detectHallucinations con: ${provider}`)
-  return parseJson<HallucinationResult>(raw)
+  return data
 }
-
-// ─── calculateHealthScore ─────────────────────────────────────────────────────
-
-export function calculateHealthScore(
-  visibilityScore: number,
-  sentimentScore: number,
-  hallucinationRate: number,
-): number {
-  const sentimentNorm = ((sentimentScore + 1) / 2) * 100
-  const hallucinationPenalty = hallucinationRate * 30
-
-  const raw =
-    visibilityScore * 0.5 +
-    sentimentNorm * 0.3 +
-    (100 - hallucinationPenalty) * 0.2
-
-  return Math.min(100, Math.max(0, Math.round(raw)))
-}
\ No newline at end of file
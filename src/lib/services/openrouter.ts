@@ -4,7 +4,10 @@
 // Setup: https://openrouter.ai → crea account → genera API key
 // Aggiungi in .env.local: OPENROUTER_API_KEY=sk-or-v1-...
 
-import type { MonitoringEngine } from '@/types'
+import type { MonitoringEngine, ProviderCompletion } from '@/types'
+import { providerFetch } from '@/lib/http-client'
+import { getEngine } from '@/lib/engine-catalog'
+import { ProviderError, rateLimitResetAt } from './provider-health'
 
 interface OpenRouterMessage {
   role: 'user' | 'assistant' | 'system'
@@ -24,19 +27,9 @@ interface OpenRouterResponse {
   usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }
 }
 
-// Mapping engine → modello reale corrispondente
-export const ENGINE_TO_MODEL: Record<MonitoringEngine, string> = {
-  chatgpt:    'openai/gpt-4o-mini',
-  gemini:     'google/gemini-flash-1.5',
-  perplexity: 'perplexity/llama-3.1-sonar-small-128k-online', // ha search web reale!
-}
-
-// Fallback completamente gratuiti (no crediti richiesti)
-export const ENGINE_TO_FALLBACK_MODEL: Record<MonitoringEngine, string> = {
-  chatgpt:    'meta-llama/llama-3.2-3b-instruct:free',
-  gemini:     'google/gemma-2-9b-it:free',
-  perplexity: 'mistralai/mistral-7b-instruct:free',
-}
+// Modello di default per i task generici; per gli engine monitorati il modello
+// (e il fallback gratuito) è nel catalogo: src/lib/engine-catalog.ts
+export const DEFAULT_OPENROUTER_MODEL = 'openai/gpt-4o-mini'
 
 export async function callOpenRouter(
   prompt: string,
@@ -46,7 +39,7 @@ export async function callOpenRouter(
     maxTokens?: number
     systemPrompt?: string
   },
-): Promise<string> {
+): Promise<ProviderCompletion> {
   const apiKey = process.env['OPENROUTER_API_KEY']
   if (!apiKey) {
     throw new Error(
@@ -62,7 +55,7 @@ export async function callOpenRouter(
   if (systemPrompt) messages.push({ role: 'system', content: systemPrompt })
   messages.push({ role: 'user', content: prompt })
 
-  const res = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+  const res = await providerFetch('https://openrouter.ai/api/v1/chat/completions', {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${apiKey}`,
@@ -77,36 +70,46 @@ export async function callOpenRouter(
   if (!res.ok) {
     const errText = await res.text()
     if (res.status === 429) {
-      throw new Error(
+      throw new ProviderError(
         `OpenRouter rate limit raggiunto (${res.status}). ` +
           'Limite di 50 richieste/giorno esaurito.',
+        'openrouter',
+        res.status,
+        rateLimitResetAt(res),
       )
     }
     if (res.status === 402) {
-      throw new Error(
+      throw new ProviderError(
         `OpenRouter: crediti esauriti per il modello "${model}". ` +
           'Prova un modello con suffisso :free',
+        'openrouter',
+        res.status,
       )
     }
-    throw new Error(`OpenRouter API error ${res.status}: ${errText}`)
+    throw new ProviderError(
+      `OpenRouter API error ${res.status}: ${errText}`,
+      'openrouter',
+      res.status,
+    )
   }
 
   const data = (await res.json()) as OpenRouterResponse
   const text = data.choices?.[0]?.message?.content
   if (!text) throw new Error('Risposta vuota da OpenRouter API')
-  return text
+  return { text, model: data.model ?? model, usage: data.usage ?? null }
 }
 
 export async function callOpenRouterForEngine(
   prompt: string,
   engine: MonitoringEngine,
   temperature = 0.3,
-): Promise<string> {
-  const primaryModel = ENGINE_TO_MODEL[engine]
+): Promise<ProviderCompletion> {
+  const { model: primaryModel, fallbackModel } = getEngine(engine).openrouter
   try {
     return await callOpenRouter(prompt, { model: primaryModel, temperature })
   } catch (err) {
-    const fallbackModel = ENGINE_TO_FALLBACK_MODEL[engine]
+    // Il limite è per account, non per modello: inutile provare il fallback
+    if (err instanceof ProviderError && err.isRateLimit) throw err
     console.warn(
       `[openrouter] "${primaryModel}" fallito, provo fallback "${fallbackModel}": ` +
         (err instanceof Error ? err.message : err),
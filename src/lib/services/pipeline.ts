@@ -0,0 +1,337 @@
+// PATH: src/lib/services/pipeline.ts
+// MonitoringPipeline — runs a prompt on a set of engines and takes care of
+// everything that follows: persisting results, firing alert rules and
+// refreshing the brand's daily health rollup.
+//
+// Shared by POST /api/monitoring and the scheduler. The database client is
+// injected so callers (and tests) decide which Supabase client to use.
+//
+// Every run is recorded in `monitoring_runs`, with one `monitoring_run_items`
+// row per engine (providers used, latency, tokens, error text).
+
+import type { createServerClient } from '@/lib/supabase'
+import { isMonitoringEngine } from '@/lib/engine-catalog'
+import { runMonitoringSamples, MonitoringCheckError } from './monitoring'
+import { shouldTriggerAlert, buildAlertEvent, dispatchAlert } from './alerts'
+import { rollupDailyHealthScore } from './health-scores'
+import type {
+  AlertRule,
+  Brand,
+  EngineResponseMode,
+  MonitoringCheckTelemetry,
+  MonitoringEngine,
+  MonitoringResult,
+  MonitoringRunItem,
+  MonitoringRunReport,
+  MonitoringRunStatus,
+  MonitoringTrigger,
+  Prompt,
+} from '@/types'
+
+type Db = ReturnType<typeof createServerClient>
+
+type RunItemInput = Omit<MonitoringRunItem, 'id' | 'run_id' | 'created_at'>
+
+function buildRunItem(
+  engine: MonitoringEngine,
+  startedAt: number,
+  telemetry: MonitoringCheckTelemetry | null,
+  outcome: { resultId?: string; error?: string },
+): RunItemInput {
+  const prompt_tokens = telemetry?.prompt_tokens ?? 0
+  const completion_tokens = telemetry?.completion_tokens ?? 0
+  return {
+    engine,
+    status: outcome.resultId ? 'succeeded' : 'failed',
+    result_id: outcome.resultId ?? null,
+    simulation_provider: telemetry?.simulation_provider ?? null,
+    analysis_provider: telemetry?.analysis_provider ?? null,
+    simulation_latency_ms: telemetry?.simulation_latency_ms ?? null,
+    analysis_latency_ms: telemetry?.analysis_latency_ms ?? null,
+    latency_ms: Date.now() - startedAt,
+    prompt_tokens,
+    completion_tokens,
+    total_tokens: prompt_tokens + completion_tokens,
+    error: outcome.error ? outcome.error.slice(0, 2000) : null,
+  }
+}
+
+/** Keeps only engines in the catalog (src/lib/engine-catalog.ts), preserving order. */
+export function resolveEngines(requested: readonly string[]): MonitoringEngine[] {
+  return requested.filter(isMonitoringEngine)
+}
+
+export interface MonitoringPipelineOptions {
+  /** who started the run — stored on `monitoring_runs.trigger` */
+  trigger?: MonitoringTrigger
+  /** id of the run whose failed engines are being retried */
+  retryOf?: string | null
+}
+
+export class MonitoringPipeline {
+  constructor(private readonly db: Db) {}
+
+  async run(
+    prompt: Prompt,
+    brand: Brand,
+    engines: MonitoringEngine[],
+    options: MonitoringPipelineOptions = {},
+  ): Promise<MonitoringRunReport> {
+    const startedAt = new Date().toISOString()
+    const userId = prompt.user_id
+    const runId = await this.createRun(prompt, engines, options, startedAt)
+
+    // Loaded once before the engine loop (no N+1 per engine)
+    const [previousResults, rules] = await Promise.all([
+      this.loadPreviousResults(prompt.id, engines),
+      this.loadAlertRules(brand.id),
+    ])
+
+    const results: MonitoringResult[] = []
+    const errors: string[] = []
+    const items: RunItemInput[] = []
+    let alertsFired = 0
+
+    await Promise.all(
+      engines.map(async (engine) => {
+        const engineStartedAt = Date.now()
+        let telemetry: MonitoringCheckTelemetry | null = null
+        try {
+          const output = await runMonitoringSamples(
+            prompt,
+            brand,
+            engine,
+            userId,
+            prompt.sample_count ?? 1,
+          )
+          telemetry = output.telemetry
+          const saved = await this.persistResult(output.result)
+          results.push(saved)
+          items.push(buildRunItem(engine, engineStartedAt, telemetry, { resultId: saved.id }))
+
+          // Compare like with like: a native answer never alerts against a simulated one
+          const previousResult = previousResults.find(
+            (r) => r.engine === engine && r.response_mode === saved.response_mode,
+          )
+          alertsFired += await this.evaluateAlerts(rules, saved, previousResult, brand)
+        } catch (engineErr) {
+          const msg = engineErr instanceof Error ? engineErr.message : String(engineErr)
+          console.error(`[pipeline] Engine ${engine} failed:`, engineErr)
+          errors.push(`${engine}: ${msg}`)
+
+          // An alert failure after a successful insert is not an engine failure
+          if (items.some((i) => i.engine === engine)) return
+          if (engineErr instanceof MonitoringCheckError) telemetry = engineErr.telemetry
+          items.push(buildRunItem(engine, engineStartedAt, telemetry, { error: msg }))
+        }
+      }),
+    )
+
+    await this.db
+      .from('prompts')
+      .update({ last_run_at: new Date().toISOString() })
+      .eq('id', prompt.id)
+
+    const healthScore =
+      results.length > 0 ? await this.refreshHealthScore(brand, userId) : null
+
+    const finishedAt = new Date().toISOString()
+    if (runId) await this.finishRun(runId, engines, items, startedAt, finishedAt)
+
+    return {
+      runId,
+      promptId: prompt.id,
+      brandId: brand.id,
+      userId,
+      enginesRequested: engines,
+      results,
+      errors,
+      alertsFired,
+      healthScore,
+      startedAt,
+      finishedAt,
+    }
+  }
+
+  // ── Run history ───────────────────────────────────────────────────────────
+  // Logging failures never break the run itself: the results are what matter.
+
+  private async createRun(
+    prompt: Prompt,
+    engines: MonitoringEngine[],
+    options: MonitoringPipelineOptions,
+    startedAt: string,
+  ): Promise<string | null> {
+    const { data, error } = await this.db
+      .from('monitoring_runs')
+      .insert({
+        prompt_id: prompt.id,
+        brand_id: prompt.brand_id,
+        user_id: prompt.user_id,
+        trigger: options.trigger ?? 'manual',
+        status: 'running',
+        engines_requested: engines,
+        retry_of: options.retryOf ?? null,
+        started_at: startedAt,
+      })
+      .select('id')
+      .single()
+
+    if (error || !data) {
+      console.error('[pipeline] Could not create monitoring run:', error)
+      return null
+    }
+    return data.id as string
+  }
+
+  private async finishRun(
+    runId: string,
+    engines: MonitoringEngine[],
+    items: RunItemInput[],
+    startedAt: string,
+    finishedAt: string,
+  ): Promise<void> {
+    if (items.length > 0) {
+      const { error } = await this.db
+        .from('monitoring_run_items')
+        .insert(items.map((item) => ({ ...item, run_id: runId })))
+      if (error) console.error('[pipeline] Could not save run items:', error)
+    }
+
+    const succeeded = engines.filter((e) =>
+      items.some((i) => i.engine === e && i.status === 'succeeded'),
+    )
+    const failed = engines.filter((e) => !succeeded.includes(e))
+    const status: MonitoringRunStatus =
+      failed.length === 0 ? 'completed' : succeeded.length === 0 ? 'failed' : 'partial'
+
+    await this.db
+      .from('monitoring_runs')
+      .update({
+        status,
+        engines_succeeded: succeeded,
+        engines_failed: failed,
+        finished_at: finishedAt,
+        duration_ms: new Date(finishedAt).getTime() - new Date(startedAt).getTime(),
+      })
+      .eq('id', runId)
+  }
+
+  // ── Persistence ───────────────────────────────────────────────────────────
+
+  // The latest result per engine and response mode: one small query per pair, so
+  // an engine with no recent rows cannot be crowded out by the others
+  private async loadPreviousResults(
+    promptId: string,
+    engines: MonitoringEngine[],
+  ): Promise<MonitoringResult[]> {
+    const modes: EngineResponseMode[] = ['native', 'simulated']
+    const latest = await Promise.all(
+      engines.flatMap((engine) =>
+        modes.map(async (mode) => {
+          const { data } = await this.db
+            .from('monitoring_results')
+            .select('*')
+            .eq('prompt_id', promptId)
+            .eq('engine', engine)
+            .eq('response_mode', mode)
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .maybeSingle()
+          return data as MonitoringResult | null
+        }),
+      ),
+    )
+
+    return latest.filter((r): r is MonitoringResult => r !== null)
+  }
+
+  private async loadAlertRules(brandId: string): Promise<AlertRule[]> {
+    const { data } = await this.db
+      .from('alert_rules')
+      .select('*')
+      .eq('brand_id', brandId)
+      .eq('is_active', true)
+
+    return (data ?? []) as AlertRule[]
+  }
+
+  private async persistResult(
+    resultData: Omit<MonitoringResult, 'id' | 'created_at'>,
+  ): Promise<MonitoringResult> {
+    const { data: saved, error } = await this.db
+      .from('monitoring_results')
+      .insert(resultData)
+      .select()
+      .single()
+
+    if (error || !saved) {
+      console.error(`[pipeline] DB insert error for ${resultData.engine}:`, error)
+      throw new Error('DB insert failed')
+    }
+
+    return saved as MonitoringResult
+  }
+
+  // ── Alerts ────────────────────────────────────────────────────────────────
+
+  private async evaluateAlerts(
+    rules: AlertRule[],
+    result: MonitoringResult,
+    previousResult: MonitoringResult | undefined,
+    brand: Brand,
+  ): Promise<number> {
+    let fired = 0
+
+    for (const rule of rules) {
+      if (!shouldTriggerAlert(rule, { result, previousResult, brand })) continue
+
+      const event = buildAlertEvent(rule, result, brand)
+      const { data: savedEvent } = await this.db
+        .from('alert_events')
+        .insert({ ...event, user_id: result.user_id })
+        .select()
+        .single()
+
+      if (!savedEvent) continue
+      fired++
+
+      let channelsSent: string[] = []
+      try {
+        channelsSent = await dispatchAlert(
+          savedEvent as Parameters<typeof dispatchAlert>[0],
+          rule,
+          brand,
+        )
+      } catch (dispatchErr) {
+        console.error(`[pipeline] dispatchAlert failed for rule ${rule.id}:`, dispatchErr)
+      }
+
+      await this.db
+        .from('alert_events')
+        .update({ channels_sent: channelsSent })
+        .eq('id', savedEvent.id)
+
+      await this.db
+        .from('alert_rules')
+        .update({ last_fired_at: new Date().toISOString() })
+        .eq('id', rule.id)
+    }
+
+    return fired
+  }
+
+  // ── Daily health score ────────────────────────────────────────────────────
+
+  // Re-aggregates the whole UTC day, so concurrent runs never drop each other's results
+  private async refreshHealthScore(brand: Brand, userId: string): Promise<number | null> {
+    const today = new Date().toISOString().split('T')[0]!
+    try {
+      const row = await rollupDailyHealthScore(this.db, brand, userId, today)
+      return row?.health_score ?? null
+    } catch (e) {
+      console.error('[pipeline] Could not refresh daily health score:', e)
+      return null
+    }
+  }
+}
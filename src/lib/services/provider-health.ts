@@ -0,0 +1,207 @@
+// PATH: src/lib/services/provider-health.ts
+// Circuit breaker per i provider AI.
+//
+//   closed    → chiamate normali; AI_CIRCUIT_FAILURE_THRESHOLD errori di fila aprono il circuito
+//   open      → provider saltato dal router fino a reset_at
+//   half_open → dopo reset_at passa UNA chiamata di prova: successo chiude, errore riapre
+//
+// Un 429 apre subito il circuito fino al reset del limite (Retry-After se presente,
+// altrimenti mezzanotte UTC, quando si resettano le quote giornaliere).
+//
+// Lo stato è in memoria per processo, come il fallback di src/lib/ratelimit.ts.
+
+import type { CircuitState, ProviderHealth } from '@/types'
+
+// ─── ProviderError ────────────────────────────────────────────────────────────
+
+/** Errore HTTP di un provider, con lo status e (per i 429) quando il limite si resetta. */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status: number | null = null,
+    public readonly resetAt: Date | null = null,
+  ) {
+    super(message)
+    this.name = 'ProviderError'
+  }
+
+  get isRateLimit(): boolean {
+    return this.status === 429
+  }
+
+  // 400/404/413/422… dipendono dalla richiesta, non dalla salute del provider
+  get isRequestError(): boolean {
+    return (
+      this.status !== null &&
+      this.status >= 400 &&
+      this.status < 500 &&
+      ![401, 402, 403, 408, 429].includes(this.status)
+    )
+  }
+}
+
+function nextMidnightUtc(now: number): Date {
+  const d = new Date(now)
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1))
+}
+
+/** Quando si resetta il limite di una risposta 429: header Retry-After o mezzanotte UTC. */
+export function rateLimitResetAt(res: Response, now = Date.now()): Date {
+  const retryAfter = res.headers.get('retry-after')
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    if (Number.isFinite(seconds) && seconds >= 0) return new Date(now + seconds * 1000)
+    const date = Date.parse(retryAfter)
+    if (!Number.isNaN(date)) return new Date(date)
+  }
+  return nextMidnightUtc(now)
+}
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? '', 10)
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+function getCircuitConfig() {
+  return {
+    /** errori consecutivi prima di aprire il circuito */
+    failureThreshold: envInt('AI_CIRCUIT_FAILURE_THRESHOLD', 3),
+    /** durata dell'apertura per errori non-429 */
+    cooldownMs: envInt('AI_CIRCUIT_COOLDOWN_MS', 60_000),
+  }
+}
+
+// ─── Stato ────────────────────────────────────────────────────────────────────
+
+interface Circuit {
+  state: CircuitState
+  consecutiveFailures: number
+  openedAt: number | null
+  resetAt: number | null
+  probing: boolean
+  lastError: string | null
+  lastSuccessAt: number | null
+  lastFailureAt: number | null
+  totalSuccesses: number
+  totalFailures: number
+}
+
+const _circuits = new Map<string, Circuit>()
+
+function getCircuit(provider: string): Circuit {
+  let circuit = _circuits.get(provider)
+  if (!circuit) {
+    circuit = {
+      state: 'closed',
+      consecutiveFailures: 0,
+      openedAt: null,
+      resetAt: null,
+      probing: false,
+      lastError: null,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      totalSuccesses: 0,
+      totalFailures: 0,
+    }
+    _circuits.set(provider, circuit)
+  }
+  return circuit
+}
+
+// Passa da open a half_open quando reset_at è scaduto
+function refresh(circuit: Circuit, now: number): Circuit {
+  if (circuit.state === 'open' && circuit.resetAt !== null && circuit.resetAt <= now) {
+    circuit.state = 'half_open'
+    circuit.probing = false
+  }
+  return circuit
+}
+
+// ─── API usata dal router ─────────────────────────────────────────────────────
+
+/**
+ * true se il router può chiamare il provider. In half_open riserva la chiamata
+ * di prova: le richieste concorrenti saltano il provider finché non si conclude.
+ */
+export function acquireProvider(provider: string, now = Date.now()): boolean {
+  const circuit = refresh(getCircuit(provider), now)
+  if (circuit.state === 'closed') return true
+  if (circuit.state === 'half_open' && !circuit.probing) {
+    circuit.probing = true
+    return true
+  }
+  return false
+}
+
+export function recordSuccess(provider: string, now = Date.now()): void {
+  const circuit = getCircuit(provider)
+  circuit.state = 'closed'
+  circuit.consecutiveFailures = 0
+  circuit.openedAt = null
+  circuit.resetAt = null
+  circuit.probing = false
+  circuit.lastSuccessAt = now
+  circuit.totalSuccesses++
+}
+
+export function recordFailure(provider: string, error: unknown, now = Date.now()): void {
+  const config = getCircuitConfig()
+  const circuit = getCircuit(provider)
+  const wasProbing = circuit.state === 'half_open'
+
+  circuit.totalFailures++
+  circuit.lastFailureAt = now
+  circuit.lastError = (error instanceof Error ? error.message : String(error)).slice(0, 500)
+  circuit.probing = false
+  if (error instanceof ProviderError && error.isRequestError) return
+
+  circuit.consecutiveFailures++
+
+  const rateLimited = error instanceof ProviderError && error.isRateLimit
+  if (rateLimited || wasProbing || circuit.consecutiveFailures >= config.failureThreshold) {
+    circuit.state = 'open'
+    circuit.openedAt = now
+    circuit.resetAt =
+      rateLimited && error.resetAt ? error.resetAt.getTime() : now + config.cooldownMs
+    console.warn(
+      `[provider-health] Circuito ${provider} aperto fino a ${new Date(circuit.resetAt).toISOString()}`,
+    )
+  }
+}
+
+/** Quando il circuito di un provider torna a provare (null se chiuso). */
+export function getCircuitResetAt(provider: string): Date | null {
+  const circuit = _circuits.get(provider)
+  return circuit?.resetAt ? new Date(circuit.resetAt) : null
+}
+
+export function getProviderHealth(
+  providers: readonly string[],
+  now = Date.now(),
+): Record<string, ProviderHealth> {
+  const iso = (ms: number | null) => (ms === null ? null : new Date(ms).toISOString())
+
+  return Object.fromEntries(
+    providers.map((provider) => {
+      const circuit = refresh(getCircuit(provider), now)
+      return [
+        provider,
+        {
+          provider,
+          state: circuit.state,
+          consecutive_failures: circuit.consecutiveFailures,
+          opened_at: iso(circuit.openedAt),
+          reset_at: iso(circuit.resetAt),
+          last_error: circuit.lastError,
+          last_success_at: iso(circuit.lastSuccessAt),
+          last_failure_at: iso(circuit.lastFailureAt),
+          total_successes: circuit.totalSuccesses,
+          total_failures: circuit.totalFailures,
+        },
+      ]
+    }),
+  )
+}
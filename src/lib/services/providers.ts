@@ -0,0 +1,396 @@
+// PATH: src/lib/services/providers.ts
+// Registry dei provider AI usati dal router.
+//
+// Ogni provider dichiara task supportati, modelli (con costo stimato),
+// budget giornaliero del free tier e disponibilità. Le catene di fallback sono definite
+// per task in DEFAULT_CHAINS e sovrascrivibili via env:
+//   AI_CHAIN_SIMULATE=groq,gemini
+//   AI_CHAIN_ANALYZE=cerebras,groq,gemini
+//
+// Aggiungere un provider = scrivere un adapter e chiamare registerProvider().
+// Con AI_MOCK=true ogni catena usa solo il provider offline "mock" (./mock-provider).
+
+import type {
+  AiTask,
+  ModelId,
+  MonitoringEngine,
+  ProviderCompletion,
+  ProviderFreeTier,
+  TokenUsage,
+} from '@/types'
+import { providerFetch } from '@/lib/http-client'
+import { ENGINE_CATALOG } from '@/lib/engine-catalog'
+import {
+  callOpenRouter,
+  callOpenRouterForEngine,
+  isOpenRouterAvailable,
+  DEFAULT_OPENROUTER_MODEL,
+} from './openrouter'
+import { callGroq, isGroqAvailable, GROQ_MODELS } from './groq'
+import { callCerebras, isCerebrasAvailable, CEREBRAS_MODELS } from './cerebras'
+import { ProviderError, rateLimitResetAt } from './provider-health'
+import { mockProvider } from './mock-provider'
+
+export const AI_TASKS: readonly AiTask[] = [
+  'simulate',
+  'analyze',
+  'sentiment',
+  'hallucination',
+  'content',
+  'rewrite',
+]
+
+// Richiesta normalizzata che il router passa all'adapter
+export interface ProviderRequest {
+  task: AiTask
+  prompt: string
+  systemPrompt?: string
+  /** solo per 'simulate': l'engine da imitare (OpenRouter usa il modello reale) */
+  engine?: MonitoringEngine
+  /** modello specifico del provider (vedi ANALYSIS_MODEL_TARGETS); se assente usa il default */
+  model?: string
+  temperature: number
+  maxTokens: number
+}
+
+export interface ProviderModel {
+  id: string
+  /** costo stimato in USD per milione di token */
+  inputCostPerMTok: number
+  outputCostPerMTok: number
+}
+
+export interface AiProvider {
+  id: string
+  label: string
+  capabilities: readonly AiTask[]
+  defaultModel: string
+  models: readonly ProviderModel[]
+  freeLimit: string
+  /** budget giornaliero del free tier, usato dalla dashboard consumi */
+  freeTier: ProviderFreeTier
+  bestFor: string
+  signupUrl: string
+  isAvailable(): boolean
+  complete(req: ProviderRequest): Promise<ProviderCompletion>
+}
+
+// ─── Gemini (REST diretto, nessun client dedicato) ────────────────────────────
+
+const GEMINI_MODEL = 'gemini-1.5-flash'
+
+export function isGeminiAvailable(): boolean {
+  const key = process.env['GEMINI_API_KEY']
+  return Boolean(key && key.trim().length > 0)
+}
+
+export async function callGemini(
+  prompt: string,
+  options: { model?: string; temperature?: number; maxTokens?: number } = {},
+): Promise<ProviderCompletion> {
+  const apiKey = process.env['GEMINI_API_KEY']
+  if (!apiKey) throw new Error('GEMINI_API_KEY non configurata')
+
+  const { model = GEMINI_MODEL, temperature = 0.2, maxTokens = 2048 } = options
+  const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`
+  const res = await providerFetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      contents: [{ parts: [{ text: prompt }] }],
+      generationConfig: { temperature, topK: 40, topP: 0.95, maxOutputTokens: maxTokens },
+      safetySettings: [
+        { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
+        { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
+        { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
+        { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
+      ],
+    }),
+    signal: AbortSignal.timeout(30_000),
+  })
+
+  if (!res.ok) {
+    const errText = await res.text()
+    throw new ProviderError(
+      `Gemini API error ${res.status}: ${errText.slice(0, 300)}`,
+      'gemini',
+      res.status,
+      res.status === 429 ? rateLimitResetAt(res) : null,
+    )
+  }
+
+  const data = (await res.json()) as {
+    candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>
+    usageMetadata?: {
+      promptTokenCount?: number
+      candidatesTokenCount?: number
+      totalTokenCount?: number
+    }
+  }
+  const text = data.candidates?.[0]?.content?.parts?.[0]?.text
+  if (!text) throw new Error('Risposta vuota da Gemini')
+
+  const meta = data.usageMetadata
+  const usage: TokenUsage | null = meta
+    ? {
+        prompt_tokens: meta.promptTokenCount ?? 0,
+        completion_tokens: meta.candidatesTokenCount ?? 0,
+        total_tokens: meta.totalTokenCount ?? 0,
+      }
+    : null
+  return { text, model, usage }
+}
+
+// ─── Modelli per l'analisi contenuti ──────────────────────────────────────────
+// Il selettore modello dell'optimizer (ModelId) → provider e modello reali.
+// Il provider indicato viene provato per primo; se non è configurato o fallisce
+// la richiesta prosegue sulla catena 'content' con i modelli di default.
+// 'default' = solo la catena.
+
+export const ANALYSIS_MODEL_TARGETS: Record<
+  Exclude<ModelId, 'default'>,
+  { provider: string; model: ProviderModel }
+> = {
+  'gpt-4o': {
+    provider: 'openrouter',
+    model: { id: 'openai/gpt-4o', inputCostPerMTok: 2.5, outputCostPerMTok: 10 },
+  },
+  'gemini-pro': {
+    provider: 'gemini',
+    model: { id: 'gemini-1.5-pro', inputCostPerMTok: 1.25, outputCostPerMTok: 5 },
+  },
+  'claude-3-5-sonnet': {
+    provider: 'openrouter',
+    model: { id: 'anthropic/claude-3.5-sonnet', inputCostPerMTok: 3, outputCostPerMTok: 15 },
+  },
+  'perplexity-sonar': {
+    provider: 'openrouter',
+    model: {
+      id: 'perplexity/llama-3.1-sonar-large-128k-online',
+      inputCostPerMTok: 1,
+      outputCostPerMTok: 1,
+    },
+  },
+}
+
+export function getAnalysisModelTarget(
+  model: ModelId,
+): { provider: string; model: string } | null {
+  if (model === 'default') return null
+  const target = ANALYSIS_MODEL_TARGETS[model]
+  return { provider: target.provider, model: target.model.id }
+}
+
+function analysisModelsFor(providerId: string): ProviderModel[] {
+  return Object.values(ANALYSIS_MODEL_TARGETS)
+    .filter((t) => t.provider === providerId)
+    .map((t) => t.model)
+}
+
+// ─── Provider built-in ────────────────────────────────────────────────────────
+
+// Modelli OpenRouter che imitano gli engine del catalogo; i fallback :free sono a costo zero
+function openrouterModels(): ProviderModel[] {
+  const models = new Map<string, ProviderModel>()
+  for (const { openrouter } of ENGINE_CATALOG) {
+    models.set(openrouter.model, {
+      id: openrouter.model,
+      inputCostPerMTok: openrouter.inputCostPerMTok,
+      outputCostPerMTok: openrouter.outputCostPerMTok,
+    })
+    models.set(openrouter.fallbackModel, {
+      id: openrouter.fallbackModel,
+      inputCostPerMTok: 0,
+      outputCostPerMTok: 0,
+    })
+  }
+  for (const model of analysisModelsFor('openrouter')) {
+    if (!models.has(model.id)) models.set(model.id, model)
+  }
+  return [...models.values()]
+}
+
+const openrouterProvider: AiProvider = {
+  id: 'openrouter',
+  label: 'OpenRouter',
+  capabilities: AI_TASKS,
+  defaultModel: DEFAULT_OPENROUTER_MODEL,
+  models: openrouterModels(),
+  freeLimit: '50 req/giorno',
+  freeTier: { unit: 'requests', dailyLimit: 50 },
+  bestFor: 'Simulazione con i modelli reali degli engine (ChatGPT, Gemini, Perplexity, Claude…)',
+  signupUrl: 'https://openrouter.ai',
+  isAvailable: isOpenRouterAvailable,
+  complete: (req) =>
+    req.engine && !req.model
+      ? callOpenRouterForEngine(req.prompt, req.engine, req.temperature)
+      : callOpenRouter(req.prompt, {
+          model: req.model ?? openrouterProvider.defaultModel,
+          temperature: req.temperature,
+          maxTokens: req.maxTokens,
+          systemPrompt: req.systemPrompt,
+        }),
+}
+
+const groqProvider: AiProvider = {
+  id: 'groq',
+  label: 'Groq',
+  capabilities: AI_TASKS,
+  defaultModel: GROQ_MODELS.LLAMA_70B,
+  models: [
+    { id: GROQ_MODELS.LLAMA_70B, inputCostPerMTok: 0.59, outputCostPerMTok: 0.79 },
+    { id: GROQ_MODELS.LLAMA_8B, inputCostPerMTok: 0.05, outputCostPerMTok: 0.08 },
+  ],
+  freeLimit: '500 000 token/giorno',
+  freeTier: { unit: 'tokens', dailyLimit: 500_000 },
+  bestFor: 'Simulazione fallback, veloce e affidabile',
+  signupUrl: 'https://console.groq.com',
+  isAvailable: isGroqAvailable,
+  complete: (req) =>
+    callGroq(req.prompt, {
+      model: req.model ?? groqProvider.defaultModel,
+      temperature: req.temperature,
+      maxTokens: req.maxTokens,
+      systemPrompt: req.systemPrompt,
+    }),
+}
+
+const cerebrasProvider: AiProvider = {
+  id: 'cerebras',
+  label: 'Cerebras',
+  capabilities: AI_TASKS,
+  defaultModel: CEREBRAS_MODELS.LLAMA_70B,
+  models: [
+    { id: CEREBRAS_MODELS.LLAMA_70B, inputCostPerMTok: 0.85, outputCostPerMTok: 1.2 },
+    { id: CEREBRAS_MODELS.LLAMA_8B, inputCostPerMTok: 0.1, outputCostPerMTok: 0.1 },
+  ],
+  freeLimit: '1 000 000 token/giorno',
+  freeTier: { unit: 'tokens', dailyLimit: 1_000_000 },
+  bestFor: 'Analisi brand (ultra veloce, JSON parsing)',
+  signupUrl: 'https://cloud.cerebras.ai',
+  isAvailable: isCerebrasAvailable,
+  complete: (req) =>
+    callCerebras(req.prompt, {
+      model: req.model ?? cerebrasProvider.defaultModel,
+      temperature: req.temperature,
+      maxTokens: req.maxTokens,
+      systemPrompt: req.systemPrompt,
+    }),
+}
+
+const geminiProvider: AiProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  capabilities: AI_TASKS,
+  defaultModel: GEMINI_MODEL,
+  models: [
+    { id: GEMINI_MODEL, inputCostPerMTok: 0.075, outputCostPerMTok: 0.3 },
+    ...analysisModelsFor('gemini'),
+  ],
+  freeLimit: '10-20 req/giorno (Google AI Studio)',
+  freeTier: { unit: 'requests', dailyLimit: 20 },
+  bestFor: 'Fallback finale e analisi contenuti',
+  signupUrl: 'https://aistudio.google.com',
+  isAvailable: isGeminiAvailable,
+  // Gemini non ha un system prompt separato: il router lo include già nel prompt
+  complete: (req) =>
+    callGemini(req.prompt, {
+      model: req.model,
+      temperature: req.temperature,
+      maxTokens: req.maxTokens,
+    }),
+}
+
+// ─── Registry ─────────────────────────────────────────────────────────────────
+
+const registry = new Map<string, AiProvider>()
+
+export function registerProvider(provider: AiProvider): void {
+  registry.set(provider.id, provider)
+}
+
+export function getProvider(id: string): AiProvider | undefined {
+  return registry.get(id)
+}
+
+export function listProviders(): AiProvider[] {
+  return [...registry.values()]
+}
+
+for (const provider of [
+  openrouterProvider,
+  groqProvider,
+  cerebrasProvider,
+  geminiProvider,
+  mockProvider,
+]) {
+  registerProvider(provider)
+}
+
+// ─── Catene per task ──────────────────────────────────────────────────────────
+
+export const DEFAULT_CHAINS: Record<AiTask, readonly string[]> = {
+  simulate: ['openrouter', 'groq', 'gemini'],
+  analyze: ['cerebras', 'groq', 'gemini'],
+  sentiment: ['cerebras', 'groq', 'gemini'],
+  hallucination: ['cerebras', 'groq', 'gemini'],
+  content: ['gemini', 'groq', 'cerebras'],
+  rewrite: ['gemini', 'groq', 'cerebras'],
+}
+
+/**
+ * Catena di provider per un task: AI_CHAIN_<TASK> se impostata, altrimenti il default.
+ * `preferred` viene messo in testa (e non ripetuto più avanti); ignorato con AI_MOCK.
+ */
+export function getTaskChain(task: AiTask, preferred?: string): string[] {
+  if (process.env['AI_MOCK'] === 'true') return ['mock']
+
+  const override = process.env[`AI_CHAIN_${task.toUpperCase()}`]
+  const ids = override
+    ? override
+        .split(',')
+        .map((id) => id.trim().toLowerCase())
+        .filter(Boolean)
+    : [...DEFAULT_CHAINS[task]]
+  if (preferred) ids.unshift(preferred)
+
+  return [...new Set(ids)].filter((id) => {
+    const provider = registry.get(id)
+    if (!provider) {
+      console.warn(`[providers] Provider sconosciuto "${id}" nella catena ${task}, ignorato`)
+      return false
+    }
+    return provider.capabilities.includes(task)
+  })
+}
+
+export function getTaskChains(): Record<AiTask, string[]> {
+  return Object.fromEntries(AI_TASKS.map((task) => [task, getTaskChain(task)])) as Record<
+    AiTask,
+    string[]
+  >
+}
+
+// ─── Costi ────────────────────────────────────────────────────────────────────
+
+/**
+ * Costo stimato (USD) di una chiamata. I provider restituiscono il nome del modello
+ * con suffissi di versione (es. "openai/gpt-4o-mini-2024-07-18"), quindi basta il prefisso.
+ */
+export function estimateCost(providerId: string, model: string, usage: TokenUsage | null): number {
+  if (!usage) return 0
+  const provider = registry.get(providerId)
+  if (!provider) return 0
+
+  const price =
+    provider.models.find((m) => m.id === model) ??
+    provider.models.find((m) => model.startsWith(m.id)) ??
+    provider.models.find((m) => m.id === provider.defaultModel)
+  if (!price) return 0
+
+  return (
+    (usage.prompt_tokens * price.inputCostPerMTok +
+      usage.completion_tokens * price.outputCostPerMTok) /
+    1_000_000
+  )
+}
@@ -0,0 +1,156 @@
+// PATH: src/lib/services/scans.ts
+// Optimizer scan persistence — results of POST /api/analyze for signed-in
+// users are kept in `analysis_scans`, next to the client-side history.
+//
+// Every row carries the client id of its result (`client_id`), so uploading
+// the local history on login is idempotent: scans the server already has
+// (analyzed while signed in, or uploaded before) are skipped.
+
+import { createServerClient } from '@/lib/supabase'
+import type {
+  AnalysisResult,
+  AnalysisScan,
+  AnalysisScanSummary,
+  EngineId,
+  IntentType,
+  ScanHistoryEntry,
+} from '@/types'
+
+type Db = ReturnType<typeof createServerClient>
+
+const SUMMARY_COLUMNS =
+  'id, client_id, source, type, engine, visibility_score, intent, content_type, created_at'
+
+function scanRow(userId: string, result: AnalysisResult, engine: EngineId, createdAt?: string) {
+  return {
+    user_id: userId,
+    client_id: result.id,
+    source: result.source,
+    type: result.type,
+    engine,
+    visibility_score: result.visibilityScore,
+    intent: result.intent,
+    content_type: result.contentType,
+    result,
+    ...(createdAt ? { created_at: createdAt } : {}),
+  }
+}
+
+// ─── Recording ────────────────────────────────────────────────────────────────
+
+/**
+ * Never throws: failing to store a scan must not fail the analysis.
+ * Returns the stored row, or null when it could not be saved.
+ */
+export async function recordScan(
+  userId: string,
+  result: AnalysisResult,
+  engine: EngineId,
+): Promise<AnalysisScan | null> {
+  try {
+    const { data, error } = await createServerClient()
+      .from('analysis_scans')
+      .insert(scanRow(userId, result, engine))
+      .select()
+      .single()
+    if (error) {
+      console.error('[scans] Could not save scan:', error.message)
+      return null
+    }
+    return data as AnalysisScan
+  } catch (e) {
+    // e.g. Supabase not configured while running offline with AI_MOCK=true
+    console.warn('[scans] Scan not saved:', e instanceof Error ? e.message : e)
+    return null
+  }
+}
+
+/** Uploads local history entries; returns how many were new to the server. */
+export async function importScans(
+  db: Db,
+  userId: string,
+  entries: ScanHistoryEntry[],
+): Promise<number> {
+  if (entries.length === 0) return 0
+  const { data, error } = await db
+    .from('analysis_scans')
+    .upsert(
+      entries.map((entry) =>
+        scanRow(userId, entry, entry.engine, new Date(entry.timestamp).toISOString()),
+      ),
+      { onConflict: 'user_id,client_id', ignoreDuplicates: true },
+    )
+    .select('id')
+  if (error) throw new Error(`Failed to import scans: ${error.message}`)
+  return data?.length ?? 0
+}
+
+// ─── Reading ──────────────────────────────────────────────────────────────────
+
+export interface ScanListOptions {
+  query?: string
+  engine?: EngineId
+  intent?: IntentType
+  sort: 'date' | 'score'
+  page: number
+  perPage: number
+  /** include the full AnalysisResult of every scan (exports) */
+  withResult?: boolean
+}
+
+// `%`, `_` and `\` are wildcards/escapes in ILIKE patterns
+const escapeLike = (s: string) => s.replace(/[\\%_]/g, (c) => `\\${c}`)
+
+export async function listScans(
+  db: Db,
+  userId: string,
+  options: ScanListOptions,
+): Promise<{ scans: Array<AnalysisScanSummary | AnalysisScan>; total: number }> {
+  const offset = (options.page - 1) * options.perPage
+
+  let query = db
+    .from('analysis_scans')
+    .select(options.withResult ? '*' : SUMMARY_COLUMNS, { count: 'exact' })
+    .eq('user_id', userId)
+  if (options.query?.trim()) query = query.ilike('source', `%${escapeLike(options.query.trim())}%`)
+  if (options.engine) query = query.eq('engine', options.engine)
+  if (options.intent) query = query.eq('intent', options.intent)
+
+  query =
+    options.sort === 'score'
+      ? query
+          .order('visibility_score', { ascending: false })
+          .order('created_at', { ascending: false })
+      : query.order('created_at', { ascending: false })
+
+  const { data, error, count } = await query
+    .range(offset, offset + options.perPage - 1)
+    .overrideTypes<Array<AnalysisScanSummary | AnalysisScan>, { merge: false }>()
+  if (error) throw new Error(`Failed to load scans: ${error.message}`)
+  return {
+    scans: data ?? [],
+    total: count ?? 0,
+  }
+}
+
+export async function getScan(db: Db, userId: string, id: string): Promise<AnalysisScan | null> {
+  const { data, error } = await db
+    .from('analysis_scans')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to load scan: ${error.message}`)
+  return (data as AnalysisScan | null) ?? null
+}
+
+// ─── Deleting ─────────────────────────────────────────────────────────────────
+
+/** Deletes one scan, or all of the user's scans without an id; returns the number removed. */
+export async function deleteScans(db: Db, userId: string, id?: string): Promise<number> {
+  let query = db.from('analysis_scans').delete().eq('user_id', userId)
+  if (id) query = query.eq('id', id)
+  const { data, error } = await query.select('id')
+  if (error) throw new Error(`Failed to delete scans: ${error.message}`)
+  return data?.length ?? 0
+}
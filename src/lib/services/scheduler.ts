@@ -0,0 +1,250 @@
+// PATH: src/lib/services/scheduler.ts
+// Scheduler — runs active prompts when their run_frequency says they are due.
+//
+// Two entry points share the same tick:
+//   • GET /api/cron/monitoring → called by Vercel Cron (or any external cron)
+//   • startSchedulerWorker()   → in-process loop for `next start`, enabled with
+//                                SCHEDULER_WORKER_ENABLED=true (see src/instrumentation.ts)
+//
+// Every tick is logged in `scheduler_runs`. The worker loop also starts queued
+// site crawls; on Vercel that is the job of GET /api/cron/crawls.
+
+import { createServerClient } from '@/lib/supabase'
+import { groupBy, mapWithConcurrency } from '@/lib/utils'
+import { runQueuedCrawls } from './crawler'
+import { MonitoringPipeline, resolveEngines } from './pipeline'
+import type { Brand, Prompt, RunFrequency, SchedulerRun, SchedulerTrigger } from '@/types'
+
+type Db = ReturnType<typeof createServerClient>
+
+const FREQUENCY_MS: Record<RunFrequency, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+}
+
+// A prompt run at 10:00:40 must still be due at the 11:00:00 tick
+const DUE_GRACE_MS = 2 * 60 * 1000
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? '', 10)
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+export function getSchedulerConfig() {
+  return {
+    /** max prompts picked up by a single tick */
+    batchSize: envInt('SCHEDULER_BATCH_SIZE', 25),
+    /** prompts of the same user running at the same time */
+    userConcurrency: envInt('SCHEDULER_USER_CONCURRENCY', 2),
+    /** users processed at the same time */
+    maxConcurrency: envInt('SCHEDULER_MAX_CONCURRENCY', 4),
+    /** worker loop interval */
+    intervalMs: envInt('SCHEDULER_INTERVAL_MS', 5 * 60 * 1000),
+  }
+}
+
+// ─── Due selection ────────────────────────────────────────────────────────────
+
+export function isPromptDue(
+  prompt: Pick<Prompt, 'is_active' | 'run_frequency' | 'last_run_at'>,
+  now: Date = new Date(),
+): boolean {
+  if (!prompt.is_active) return false
+  if (!prompt.last_run_at) return true
+  const interval = FREQUENCY_MS[prompt.run_frequency] ?? FREQUENCY_MS.daily
+  return now.getTime() - new Date(prompt.last_run_at).getTime() >= interval - DUE_GRACE_MS
+}
+
+async function selectDuePrompts(db: Db, now: Date, limit: number): Promise<Prompt[]> {
+  const cutoff = (frequency: RunFrequency) =>
+    new Date(now.getTime() - FREQUENCY_MS[frequency] + DUE_GRACE_MS).toISOString()
+
+  const dueFilter = [
+    'last_run_at.is.null',
+    ...(Object.keys(FREQUENCY_MS) as RunFrequency[]).map(
+      (f) => `and(run_frequency.eq.${f},last_run_at.lte."${cutoff(f)}")`,
+    ),
+  ].join(',')
+
+  const { data, error } = await db
+    .from('prompts')
+    .select('*, brand:brands!inner(*)')
+    .eq('is_active', true)
+    .eq('brand.is_active', true)
+    .or(dueFilter)
+    .order('last_run_at', { ascending: true, nullsFirst: true })
+    .limit(limit)
+
+  if (error) throw new Error(`Failed to load due prompts: ${error.message}`)
+  return ((data ?? []) as Prompt[]).filter((p) => isPromptDue(p, now))
+}
+
+// Optimistic lock: only the tick that moves last_run_at forward runs the prompt,
+// so an overlapping cron call and worker loop never run it twice.
+async function claimPrompt(db: Db, prompt: Prompt, now: Date): Promise<boolean> {
+  let query = db.from('prompts').update({ last_run_at: now.toISOString() }).eq('id', prompt.id)
+
+  query = prompt.last_run_at
+    ? query.eq('last_run_at', prompt.last_run_at)
+    : query.is('last_run_at', null)
+
+  const { data, error } = await query.select('id')
+  return !error && (data?.length ?? 0) > 0
+}
+
+// ─── Single prompt run ────────────────────────────────────────────────────────
+
+async function runPrompt(db: Db, prompt: Prompt): Promise<{ saved: number; errors: string[] }> {
+  const engines = resolveEngines(prompt.engines)
+  if (engines.length === 0) return { saved: 0, errors: ['no valid engines configured'] }
+
+  const report = await new MonitoringPipeline(db).run(prompt, prompt.brand as Brand, engines, {
+    trigger: 'scheduler',
+  })
+  return { saved: report.results.length, errors: report.errors }
+}
+
+// ─── runScheduledPrompts ──────────────────────────────────────────────────────
+// One scheduler tick: select due prompts, claim them and run them with
+// per-user concurrency limits. Returns the run log entry.
+
+export async function runScheduledPrompts(
+  trigger: SchedulerTrigger,
+  options: { now?: Date } = {},
+): Promise<Omit<SchedulerRun, 'id'> & { id: string | null }> {
+  const db = createServerClient()
+  const config = getSchedulerConfig()
+  const now = options.now ?? new Date()
+
+  const run: Omit<SchedulerRun, 'id'> & { id: string | null } = {
+    id: null,
+    trigger,
+    status: 'running',
+    prompts_due: 0,
+    prompts_run: 0,
+    prompts_failed: 0,
+    results_saved: 0,
+    errors: [],
+    started_at: new Date().toISOString(),
+    finished_at: null,
+  }
+
+  const { data: logRow } = await db
+    .from('scheduler_runs')
+    .insert({ trigger, status: run.status, started_at: run.started_at })
+    .select('id')
+    .single()
+  run.id = (logRow?.id as string | undefined) ?? null
+
+  try {
+    const due = await selectDuePrompts(db, now, config.batchSize)
+    run.prompts_due = due.length
+
+    const byUser = Object.values(groupBy(due, 'user_id'))
+
+    await mapWithConcurrency(byUser, config.maxConcurrency, (userPrompts) =>
+      mapWithConcurrency(userPrompts, config.userConcurrency, async (prompt) => {
+        // Lost the race with another tick — it is already running this prompt
+        if (!(await claimPrompt(db, prompt, now))) return
+
+        run.prompts_run++
+        try {
+          const outcome = await runPrompt(db, prompt)
+          run.results_saved += outcome.saved
+          if (outcome.saved === 0) run.prompts_failed++
+          run.errors.push(...outcome.errors.map((e) => `prompt ${prompt.id} — ${e}`))
+        } catch (e) {
+          run.prompts_failed++
+          run.errors.push(`prompt ${prompt.id} — ${e instanceof Error ? e.message : String(e)}`)
+        }
+      }),
+    )
+
+    run.status = 'completed'
+  } catch (e) {
+    run.status = 'failed'
+    run.errors.push(e instanceof Error ? e.message : String(e))
+    console.error('[scheduler] tick failed:', e)
+  }
+
+  run.finished_at = new Date().toISOString()
+
+  if (run.id) {
+    await db
+      .from('scheduler_runs')
+      .update({
+        status: run.status,
+        prompts_due: run.prompts_due,
+        prompts_run: run.prompts_run,
+        prompts_failed: run.prompts_failed,
+        results_saved: run.results_saved,
+        errors: run.errors,
+        finished_at: run.finished_at,
+      })
+      .eq('id', run.id)
+  }
+
+  return run
+}
+
+// ─── Worker loop ──────────────────────────────────────────────────────────────
+// Kept on globalThis so dev-mode reloads don't start a second loop.
+
+const workerState = globalThis as typeof globalThis & {
+  __aioSchedulerWorker?: ReturnType<typeof setInterval>
+}
+
+export function startSchedulerWorker(intervalMs = getSchedulerConfig().intervalMs): void {
+  if (workerState.__aioSchedulerWorker) return
+
+  let ticking = false
+  const tick = async () => {
+    if (ticking) return
+    ticking = true
+    try {
+      const run = await runScheduledPrompts('worker')
+      if (run.prompts_due > 0) {
+        console.log(
+          `[scheduler] worker tick: ${run.prompts_run}/${run.prompts_due} prompts run, ` +
+            `${run.results_saved} results saved, ${run.prompts_failed} failed`,
+        )
+      }
+    } catch (e) {
+      console.error('[scheduler] worker tick failed:', e)
+    } finally {
+      ticking = false
+    }
+  }
+
+  // Crawls can outlast a tick, so they run on their own and never delay prompts
+  let crawling = false
+  const crawlTick = async () => {
+    if (crawling) return
+    crawling = true
+    try {
+      const started = await runQueuedCrawls(createServerClient())
+      if (started > 0) console.log(`[scheduler] worker tick: ${started} queued crawls run`)
+    } catch (e) {
+      console.error('[scheduler] crawl tick failed:', e)
+    } finally {
+      crawling = false
+    }
+  }
+
+  workerState.__aioSchedulerWorker = setInterval(() => {
+    void tick()
+    void crawlTick()
+  }, intervalMs)
+  console.log(`[scheduler] worker started (every ${Math.round(intervalMs / 1000)}s)`)
+  void tick()
+  void crawlTick()
+}
+
+export function stopSchedulerWorker(): void {
+  if (!workerState.__aioSchedulerWorker) return
+  clearInterval(workerState.__aioSchedulerWorker)
+  workerState.__aioSchedulerWorker = undefined
+}
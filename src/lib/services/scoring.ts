@@ -0,0 +1,138 @@
+// PATH: src/lib/services/scoring.ts
+// Health score formula — a weighted average of 0-100 component scores, set per
+// brand by its scoring profile (`brands.scoring_profile`, null = default).
+//
+// The default profile is the original fixed formula: visibility × 0.5,
+// sentiment × 0.3 and 100 minus a 30-point hallucination penalty × 0.2.
+// Each component maps its value to 0-100 through a curve, so e.g. a quadratic
+// hallucination penalty forgives occasional errors but punishes frequent ones.
+
+import { z } from 'zod'
+import type {
+  HealthComponent,
+  HealthScoreBreakdown,
+  HealthScoreInputs,
+  ScoreCurve,
+  ScoringProfile,
+} from '@/types'
+
+export const HEALTH_COMPONENTS: HealthComponent[] = [
+  'visibility',
+  'sentiment',
+  'hallucination',
+  'citations',
+  'share_of_voice',
+]
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  components: {
+    visibility: { enabled: true, weight: 0.5, curve: 'linear' },
+    sentiment: { enabled: true, weight: 0.3, curve: 'linear' },
+    hallucination: { enabled: true, weight: 0.2, curve: 'linear' },
+    citations: { enabled: false, weight: 0.1, curve: 'linear' },
+    share_of_voice: { enabled: false, weight: 0.2, curve: 'linear' },
+  },
+  hallucination_penalty: 30,
+}
+
+const componentSchema = z.object({
+  enabled: z.boolean(),
+  weight: z.number().min(0).max(1),
+  curve: z.enum(['linear', 'quadratic', 'sqrt']),
+})
+
+export const scoringProfileSchema = z
+  .object({
+    components: z.object({
+      visibility: componentSchema,
+      sentiment: componentSchema,
+      hallucination: componentSchema,
+      citations: componentSchema,
+      share_of_voice: componentSchema,
+    }),
+    hallucination_penalty: z.number().min(0).max(100),
+  })
+  .refine((p) => Object.values(p.components).some((c) => c.enabled && c.weight > 0), {
+    message: 'At least one component needs a positive weight',
+  })
+
+/** Fills gaps in a stored profile with the defaults. */
+export function resolveScoringProfile(
+  profile: Partial<ScoringProfile> | null | undefined,
+): ScoringProfile {
+  if (!profile) return DEFAULT_SCORING_PROFILE
+  return {
+    components: Object.fromEntries(
+      HEALTH_COMPONENTS.map((c) => [
+        c,
+        { ...DEFAULT_SCORING_PROFILE.components[c], ...profile.components?.[c] },
+      ]),
+    ) as ScoringProfile['components'],
+    hallucination_penalty:
+      profile.hallucination_penalty ?? DEFAULT_SCORING_PROFILE.hallucination_penalty,
+  }
+}
+
+/** Maps x in [0, 1] onto [0, 1]. */
+export function applyCurve(x: number, curve: ScoreCurve): number {
+  const v = Math.min(1, Math.max(0, x))
+  if (curve === 'quadratic') return v * v
+  if (curve === 'sqrt') return Math.sqrt(v)
+  return v
+}
+
+function componentScore(
+  component: HealthComponent,
+  value: number,
+  curve: ScoreCurve,
+  profile: ScoringProfile,
+): number {
+  switch (component) {
+    case 'visibility':
+      return 100 * applyCurve(value / 100, curve)
+    case 'sentiment':
+      return 100 * applyCurve((value + 1) / 2, curve)
+    case 'hallucination':
+      // The curve shapes the penalty, not the score
+      return 100 - profile.hallucination_penalty * applyCurve(value, curve)
+    case 'citations':
+    case 'share_of_voice':
+      return 100 * applyCurve(value, curve)
+  }
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10
+
+/**
+ * Composite 0-100 health score with the contribution of each enabled
+ * component (contributions add up to the unrounded score).
+ */
+export function calculateHealthScore(
+  inputs: HealthScoreInputs,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): HealthScoreBreakdown {
+  const enabled = HEALTH_COMPONENTS.filter(
+    (c) => profile.components[c].enabled && profile.components[c].weight > 0,
+  )
+  const totalWeight = enabled.reduce((a, c) => a + profile.components[c].weight, 0)
+
+  const components = enabled.map((component) => {
+    const { weight, curve } = profile.components[component]
+    const value = inputs[component]
+    const score = componentScore(component, value, curve, profile)
+    const share = weight / totalWeight
+    return {
+      component,
+      value: Math.round(value * 10_000) / 10_000,
+      score: round1(score),
+      weight: Math.round(share * 1000) / 1000,
+      contribution: score * share,
+    }
+  })
+
+  const raw = components.reduce((a, c) => a + c.contribution, 0)
+  return {
+    score: totalWeight > 0 ? Math.min(100, Math.max(0, Math.round(raw))) : 0,
+    components: components.map((c) => ({ ...c, contribution: round1(c.contribution) })),
+  }
+}
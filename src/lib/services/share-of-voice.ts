@@ -0,0 +1,196 @@
+// PATH: src/lib/services/share-of-voice.ts
+// Share of voice — how much of the engines' attention goes to the brand versus
+// each of its competitors. The universe is the brand plus `Brand.competitors`;
+// competitor names the analysis found outside that list are ignored.
+//
+// Each mention is weighted by its position in the answer (1st = 1, 2nd = 1/2,
+// 3rd = 1/3 …), so being listed first counts for more than being listed last.
+
+import type { createServerClient } from '@/lib/supabase'
+import type {
+  Brand,
+  CompetitorMention,
+  MonitoringEngine,
+  MonitoringResult,
+  ShareOfVoiceEntry,
+  ShareOfVoiceSlice,
+  ShareOfVoiceSummary,
+} from '@/types'
+
+type Db = ReturnType<typeof createServerClient>
+
+type MentionFields = Pick<
+  MonitoringResult,
+  'brand_mentioned' | 'mention_position' | 'mention_count' | 'competitor_mentions'
+>
+
+type SovResult = MentionFields &
+  Pick<MonitoringResult, 'prompt_id' | 'prompt_text' | 'engine' | 'created_at'>
+
+const COMPETITOR_COLORS = ['#f97316', '#a855f7', '#06b6d4', '#eab308', '#ef4444', '#10b981']
+
+// Beyond this the window is too large to aggregate in memory; newest results win
+const MAX_RESULTS = 5000
+
+// A mention without a position (e.g. indirect) counts like second place
+const UNRANKED_WEIGHT = 0.5
+
+export function positionWeight(position: number | null): number {
+  return position && position > 0 ? 1 / position : UNRANKED_WEIGHT
+}
+
+const key = (name: string) => name.trim().toLowerCase()
+const round = (n: number) => Math.round(n * 10_000) / 10_000
+
+interface Mention {
+  name: string
+  count: number
+  position: number | null
+}
+
+/** Mentions of the universe's entities in one answer. */
+function mentionsIn(result: MentionFields, brand: Pick<Brand, 'name' | 'competitors'>): Mention[] {
+  const mentions: Mention[] = []
+  if (result.brand_mentioned) {
+    mentions.push({
+      name: brand.name,
+      count: Math.max(1, result.mention_count),
+      position: result.mention_position,
+    })
+  }
+  const found = new Map(
+    (result.competitor_mentions as CompetitorMention[]).map((c) => [key(c.name), c]),
+  )
+  for (const competitor of brand.competitors) {
+    const c = found.get(key(competitor))
+    if (c) mentions.push({ name: competitor, count: Math.max(1, c.count), position: c.position })
+  }
+  return mentions
+}
+
+function slice(
+  results: MentionFields[],
+  brand: Pick<Brand, 'name' | 'competitors'>,
+): ShareOfVoiceSlice {
+  const weighted = new Map<string, number>()
+  for (const r of results) {
+    for (const m of mentionsIn(r, brand)) {
+      weighted.set(m.name, (weighted.get(m.name) ?? 0) + m.count * positionWeight(m.position))
+    }
+  }
+  const total = [...weighted.values()].reduce((a, v) => a + v, 0)
+  const names = [brand.name, ...brand.competitors]
+  return {
+    results: results.length,
+    shares: Object.fromEntries(
+      names.map((n) => [n, total > 0 ? round((weighted.get(n) ?? 0) / total) : 0]),
+    ),
+  }
+}
+
+function groupBy<K>(results: SovResult[], keyOf: (r: SovResult) => K): Map<K, SovResult[]> {
+  const groups = new Map<K, SovResult[]>()
+  for (const r of results) {
+    const group = groups.get(keyOf(r))
+    if (group) group.push(r)
+    else groups.set(keyOf(r), [r])
+  }
+  return groups
+}
+
+function universeOf(brand: Pick<Brand, 'name' | 'competitors'>) {
+  const competitors = [...new Set(brand.competitors.filter((c) => key(c) !== key(brand.name)))]
+  return { name: brand.name, competitors }
+}
+
+/** The brand's share (0-1) over a set of results — the health score component. */
+export function brandShareOfVoice(
+  results: MentionFields[],
+  brand: Pick<Brand, 'name' | 'competitors'>,
+): number {
+  return slice(results, universeOf(brand)).shares[brand.name] ?? 0
+}
+
+export function computeShareOfVoice(
+  results: SovResult[],
+  brand: Pick<Brand, 'name' | 'competitors' | 'color'>,
+  days: number,
+): ShareOfVoiceSummary {
+  const universe = universeOf(brand)
+  const { competitors } = universe
+
+  const stats = new Map<string, { mentions: number; weighted: number; positions: number[] }>()
+  const answers = new Map<string, number>()
+  for (const r of results) {
+    for (const m of mentionsIn(r, universe)) {
+      const s = stats.get(m.name) ?? { mentions: 0, weighted: 0, positions: [] }
+      s.mentions += m.count
+      s.weighted += m.count * positionWeight(m.position)
+      if (m.position) s.positions.push(m.position)
+      stats.set(m.name, s)
+      answers.set(m.name, (answers.get(m.name) ?? 0) + 1)
+    }
+  }
+  const totalWeighted = [...stats.values()].reduce((a, s) => a + s.weighted, 0)
+
+  const entities: ShareOfVoiceEntry[] = [brand.name, ...competitors].map((name, i) => {
+    const s = stats.get(name)
+    return {
+      name,
+      is_brand: i === 0,
+      color: i === 0 ? brand.color : COMPETITOR_COLORS[(i - 1) % COMPETITOR_COLORS.length]!,
+      mentions: s?.mentions ?? 0,
+      weighted: round(s?.weighted ?? 0),
+      share: totalWeighted > 0 ? round((s?.weighted ?? 0) / totalWeighted) : 0,
+      results: answers.get(name) ?? 0,
+      avg_position: s?.positions.length
+        ? Math.round((s.positions.reduce((a, p) => a + p, 0) / s.positions.length) * 10) / 10
+        : null,
+    }
+  })
+
+  return {
+    days,
+    results: results.length,
+    entities,
+    daily: [...groupBy(results, (r) => r.created_at.split('T')[0]!)]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, rs]) => ({ date, ...slice(rs, universe) })),
+    byEngine: [...groupBy(results, (r) => r.engine)].map(([engine, rs]) => ({
+      engine: engine as MonitoringEngine,
+      ...slice(rs, universe),
+    })),
+    byPrompt: [...groupBy(results, (r) => r.prompt_id)].map(([prompt_id, rs]) => ({
+      prompt_id,
+      prompt_text: rs[0]!.prompt_text,
+      ...slice(rs, universe),
+    })),
+  }
+}
+
+export async function getShareOfVoice(
+  db: Db,
+  userId: string,
+  brand: Pick<Brand, 'id' | 'name' | 'competitors' | 'color'>,
+  options: { days: number; engine?: MonitoringEngine; promptId?: string },
+): Promise<ShareOfVoiceSummary> {
+  const since = new Date(Date.now() - (options.days - 1) * 86_400_000).toISOString().split('T')[0]!
+
+  let query = db
+    .from('monitoring_results')
+    .select(
+      'prompt_id, prompt_text, engine, created_at, brand_mentioned, mention_position, mention_count, competitor_mentions',
+    )
+    .eq('user_id', userId)
+    .eq('brand_id', brand.id)
+    .gte('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(MAX_RESULTS)
+  if (options.engine) query = query.eq('engine', options.engine)
+  if (options.promptId) query = query.eq('prompt_id', options.promptId)
+
+  const { data, error } = await query
+  if (error) throw new Error(`Failed to load share of voice: ${error.message}`)
+
+  return computeShareOfVoice((data ?? []) as SovResult[], brand, options.days)
+}
@@ -0,0 +1,134 @@
+// PATH: src/lib/services/sources.ts
+// Source-domain analytics — which domains the engines cite in their answers for
+// a brand, how often the brand's own domains are among them, and the trend.
+//
+// Domain counts come from the `citation_domains_daily` view (one row per
+// day/brand/engine/domain over `monitoring_results.citations`).
+
+import { type createServerClient, fetchAllRows } from '@/lib/supabase'
+import { isBrandDomain, normalizeDomain } from './citations'
+import type {
+  Brand,
+  CitationDomainDaily,
+  MonitoringEngine,
+  SourcesSummary,
+} from '@/types'
+
+type Db = ReturnType<typeof createServerClient>
+
+const TOP_DOMAINS = 25
+
+export async function getSourcesSummary(
+  db: Db,
+  userId: string,
+  brand: Pick<Brand, 'id' | 'domain' | 'domains'>,
+  options: { days: number; engine?: MonitoringEngine },
+): Promise<SourcesSummary> {
+  const since = new Date(Date.now() - (options.days - 1) * 86_400_000).toISOString().split('T')[0]!
+
+  // One row per day × engine × domain: read page by page, newest days first so a
+  // capped read drops the oldest ones
+  const domainsPage = (from: number, to: number) => {
+    let query = db
+      .from('citation_domains_daily')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .eq('brand_id', brand.id)
+      .gte('date', since)
+    if (options.engine) query = query.eq('engine', options.engine)
+    return query
+      .order('date', { ascending: false })
+      .order('engine')
+      .order('domain')
+      .range(from, to)
+  }
+
+  // Answer counts need the results table: one answer can cite many domains
+  const countResults = () => {
+    let q = db
+      .from('monitoring_results')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('brand_id', brand.id)
+      .gte('created_at', since)
+    if (options.engine) q = q.eq('engine', options.engine)
+    return q
+  }
+
+  const [rows, totalRes, citedRes, brandCitedRes] = await Promise.all([
+    fetchAllRows<CitationDomainDaily>('sources', domainsPage),
+    countResults(),
+    countResults().not('citations', 'eq', '[]'),
+    countResults().contains('citations', [{ is_brand_domain: true }]),
+  ])
+
+  const domains = new Map<string, SourcesSummary['topDomains'][number]>()
+  const daily = new Map<string, SourcesSummary['daily'][number] & { seen: Set<string> }>()
+  const engines = new Map<MonitoringEngine, SourcesSummary['byEngine'][number]>()
+
+  for (const r of rows) {
+    const domain = domains.get(r.domain) ?? {
+      domain: r.domain,
+      is_brand_domain: r.is_brand_domain,
+      citations: 0,
+      results: 0,
+      engines: [],
+    }
+    domain.citations += r.citations
+    domain.results += r.results
+    if (!domain.engines.includes(r.engine)) domain.engines.push(r.engine)
+    domains.set(r.domain, domain)
+
+    const day = daily.get(r.date) ?? {
+      date: r.date,
+      citations: 0,
+      brandCitations: 0,
+      domains: 0,
+      seen: new Set<string>(),
+    }
+    day.citations += r.citations
+    if (r.is_brand_domain) day.brandCitations += r.citations
+    day.seen.add(r.domain)
+    daily.set(r.date, day)
+
+    const engine = engines.get(r.engine) ?? { engine: r.engine, citations: 0, brandCitations: 0 }
+    engine.citations += r.citations
+    if (r.is_brand_domain) engine.brandCitations += r.citations
+    engines.set(r.engine, engine)
+  }
+
+  const ownDomains = [
+    ...new Set(
+      [brand.domain, ...brand.domains].filter((d): d is string => !!d?.trim()).map(normalizeDomain),
+    ),
+  ]
+
+  const totalResults = totalRes.count ?? 0
+  const brandCitations = rows.filter((r) => r.is_brand_domain).reduce((a, r) => a + r.citations, 0)
+
+  return {
+    days: options.days,
+    totalResults,
+    resultsWithCitations: citedRes.count ?? 0,
+    totalCitations: rows.reduce((a, r) => a + r.citations, 0),
+    brandCitations,
+    totalDomains: domains.size,
+    brandCitationRate:
+      totalResults > 0 ? Math.round(((brandCitedRes.count ?? 0) / totalResults) * 1000) / 1000 : 0,
+    topDomains: [...domains.values()]
+      .sort((a, b) => b.citations - a.citations || a.domain.localeCompare(b.domain))
+      .slice(0, TOP_DOMAINS),
+    daily: [...daily.values()]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(({ seen, ...d }) => ({ ...d, domains: seen.size })),
+    brandDomains: ownDomains.map((own) => {
+      const matching = [...domains.values()].filter((d) => isBrandDomain(d.domain, [own]))
+      return {
+        domain: own,
+        citations: matching.reduce((a, d) => a + d.citations, 0),
+        results: matching.reduce((a, d) => a + d.results, 0),
+      }
+    }),
+    byEngine: [...engines.values()].sort((a, b) => b.citations - a.citations),
+  }
+}
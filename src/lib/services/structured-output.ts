@@ -0,0 +1,142 @@
+// PATH: src/lib/services/structured-output.ts
+// Structured output — JSON answers from the AI router, validated with Zod.
+//
+// The schema coerces and fills in defaults, so an answer is only rejected when
+// a field is truly unusable. A rejected answer gets one repair round-trip: the
+// model sees its previous output and the validation errors and is asked for the
+// corrected JSON. Token usage of both calls is summed.
+
+import type { ZodError, ZodTypeAny, z } from 'zod'
+import type { AiTask, TokenUsage } from '@/types'
+import { routeCompletion, type RouteOptions, type RoutedCompletion } from './ai-router'
+
+// ─── StructuredOutputError ────────────────────────────────────────────────────
+
+/** Thrown when the answer is still invalid after the repair attempts. */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly task: AiTask,
+    public readonly issues: string[],
+    public readonly raw: string,
+  ) {
+    super(message)
+    this.name = 'StructuredOutputError'
+  }
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+/**
+ * Parses a JSON answer, tolerating markdown fences and text around the object.
+ * Throws a SyntaxError when no JSON object can be read.
+ */
+export function parseJsonAnswer(raw: string): unknown {
+  const cleaned = raw
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim()
+  try {
+    return JSON.parse(cleaned)
+  } catch (e) {
+    const start = cleaned.indexOf('{')
+    const end = cleaned.lastIndexOf('}')
+    if (start === -1 || end <= start) throw e
+    return JSON.parse(cleaned.slice(start, end + 1))
+  }
+}
+
+/** One line per issue: `path: message`. */
+export function formatZodIssues(error: ZodError): string[] {
+  return error.issues.map((i) => `${i.path.length > 0 ? i.path.join('.') : '(root)'}: ${i.message}`)
+}
+
+type Validation<T> = { ok: true; data: T } | { ok: false; issues: string[] }
+
+function validate<S extends ZodTypeAny>(raw: string, schema: S): Validation<z.output<S>> {
+  let json: unknown
+  try {
+    json = parseJsonAnswer(raw)
+  } catch (e) {
+    return { ok: false, issues: [`invalid JSON: ${e instanceof Error ? e.message : String(e)}`] }
+  }
+  const parsed = schema.safeParse(json)
+  return parsed.success
+    ? { ok: true, data: parsed.data as z.output<S> }
+    : { ok: false, issues: formatZodIssues(parsed.error) }
+}
+
+function buildRepairPrompt(prompt: string, raw: string, issues: string[]): string {
+  return `${prompt}
+
+Your previous response could not be used:
+"""
+${raw.slice(0, 6000)}
+"""
+
+It failed validation with these errors:
+${issues.map((i) => `- ${i}`).join('\n')}
+
+Respond again ONLY with the corrected JSON object (no markdown, no explanation).`
+}
+
+function addUsage(a: TokenUsage | null, b: TokenUsage | null): TokenUsage | null {
+  if (!a || !b) return a ?? b
+  return {
+    prompt_tokens: a.prompt_tokens + b.prompt_tokens,
+    completion_tokens: a.completion_tokens + b.completion_tokens,
+    total_tokens: a.total_tokens + b.total_tokens,
+  }
+}
+
+// ─── routeStructured ──────────────────────────────────────────────────────────
+
+export interface StructuredCompletion<T> extends RoutedCompletion {
+  data: T
+  /** how many repair round-trips were needed (0 = valid at the first answer) */
+  repairs: number
+}
+
+export type StructuredOptions = RouteOptions & {
+  /** repair round-trips before giving up (default 1) */
+  maxRepairs?: number
+}
+
+/**
+ * Routes `prompt` for `task` and validates the JSON answer against `schema`.
+ * `text`, `provider` and `model` describe the answer that was accepted.
+ */
+export async function routeStructured<S extends ZodTypeAny>(
+  task: AiTask,
+  prompt: string,
+  schema: S,
+  options: StructuredOptions = {},
+): Promise<StructuredCompletion<z.output<S>>> {
+  const { maxRepairs = 1, ...routeOptions } = options
+
+  let completion = await routeCompletion(task, prompt, routeOptions)
+  let usage = completion.usage
+  let result = validate(completion.text, schema)
+
+  for (let repairs = 1; !result.ok && repairs <= maxRepairs; repairs++) {
+    console.warn(`[structured-output] ${task}: invalid answer, repair ${repairs}:`, result.issues)
+    completion = await routeCompletion(
+      task,
+      buildRepairPrompt(prompt, completion.text, result.issues),
+      routeOptions,
+    )
+    usage = addUsage(usage, completion.usage)
+    result = validate(completion.text, schema)
+    if (result.ok) return { ...completion, usage, data: result.data, repairs }
+  }
+
+  if (!result.ok) {
+    throw new StructuredOutputError(
+      `Invalid AI response for ${task} from ${completion.provider}: ${result.issues.slice(0, 5).join('; ')}`,
+      task,
+      result.issues,
+      completion.text,
+    )
+  }
+  return { ...completion, usage, data: result.data, repairs: 0 }
+}
@@ -0,0 +1,171 @@
+// PATH: src/lib/services/usage.ts
+// AI usage accounting — every successful router call is stored in `ai_usage`
+// with its tokens and estimated cost, attributed to user, brand and task.
+//
+// Reads go through the `ai_usage_daily` view (one row per day/provider/model/task).
+
+import { createServerClient } from '@/lib/supabase'
+import { estimateCost, getProvider, listProviders } from './providers'
+import type {
+  AiTask,
+  AiUsageDaily,
+  ProviderBudget,
+  TokenUsage,
+  UsageAttribution,
+  UsageSummary,
+} from '@/types'
+
+type Db = ReturnType<typeof createServerClient>
+
+// ─── Recording ────────────────────────────────────────────────────────────────
+
+export interface UsageRecord {
+  task: AiTask
+  provider: string
+  model: string
+  usage: TokenUsage | null
+  attribution?: UsageAttribution
+  /** calls outside the provider registry (native engine APIs) price themselves */
+  costUsd?: number
+}
+
+/** Never throws: losing a usage row must not fail the AI call that produced it. */
+export async function recordUsage(record: UsageRecord): Promise<void> {
+  const prompt_tokens = record.usage?.prompt_tokens ?? 0
+  const completion_tokens = record.usage?.completion_tokens ?? 0
+
+  try {
+    const { error } = await createServerClient()
+      .from('ai_usage')
+      .insert({
+        user_id: record.attribution?.userId ?? null,
+        brand_id: record.attribution?.brandId ?? null,
+        task: record.task,
+        provider: record.provider,
+        model: record.model,
+        prompt_tokens,
+        completion_tokens,
+        total_tokens: record.usage?.total_tokens ?? prompt_tokens + completion_tokens,
+        cost_usd: record.costUsd ?? estimateCost(record.provider, record.model, record.usage),
+      })
+    if (error) console.error('[usage] Could not record AI usage:', error.message)
+  } catch (e) {
+    // e.g. Supabase not configured while running offline with AI_MOCK=true
+    console.warn('[usage] AI usage not recorded:', e instanceof Error ? e.message : e)
+  }
+}
+
+// ─── Reporting ────────────────────────────────────────────────────────────────
+
+const round = (n: number, digits = 6) => Math.round(n * 10 ** digits) / 10 ** digits
+
+function sumBy<K extends string | null>(
+  rows: AiUsageDaily[],
+  key: (r: AiUsageDaily) => K,
+): Map<K, { requests: number; tokens: number; cost: number }> {
+  const map = new Map<K, { requests: number; tokens: number; cost: number }>()
+  for (const r of rows) {
+    const entry = map.get(key(r)) ?? { requests: 0, tokens: 0, cost: 0 }
+    entry.requests += r.requests
+    entry.tokens += r.total_tokens
+    entry.cost += r.cost_usd
+    map.set(key(r), entry)
+  }
+  return map
+}
+
+// Free-tier quotas belong to the app's API keys, so today's budget use is app-wide
+async function getTodayBudgets(db: Db): Promise<ProviderBudget[]> {
+  const today = new Date().toISOString().split('T')[0]
+  const { data } = await db
+    .from('ai_usage_daily')
+    .select('provider, requests, total_tokens')
+    .eq('date', today)
+
+  const rows = (data ?? []) as Pick<AiUsageDaily, 'provider' | 'requests' | 'total_tokens'>[]
+
+  return listProviders().map((p) => {
+    const providerRows = rows.filter((r) => r.provider === p.id)
+    const used =
+      p.freeTier.unit === 'tokens'
+        ? providerRows.reduce((a, r) => a + r.total_tokens, 0)
+        : providerRows.reduce((a, r) => a + r.requests, 0)
+    return {
+      provider: p.id,
+      label: p.label,
+      unit: p.freeTier.unit,
+      limit: p.freeTier.dailyLimit,
+      used,
+      percent: Math.round((used / p.freeTier.dailyLimit) * 1000) / 10,
+    }
+  })
+}
+
+export async function getUsageSummary(
+  db: Db,
+  userId: string,
+  options: { days: number; brandId?: string },
+): Promise<UsageSummary> {
+  const since = new Date(Date.now() - (options.days - 1) * 86_400_000).toISOString().split('T')[0]
+
+  let query = db
+    .from('ai_usage_daily')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('date', since)
+    .order('date', { ascending: true })
+  if (options.brandId) query = query.eq('brand_id', options.brandId)
+
+  const [{ data, error }, budgets] = await Promise.all([query, getTodayBudgets(db)])
+  if (error) throw new Error(`Failed to load AI usage: ${error.message}`)
+  const rows = (data ?? []) as AiUsageDaily[]
+
+  const brandIds = [...new Set(rows.map((r) => r.brand_id).filter((id): id is string => !!id))]
+  const { data: brands } = brandIds.length
+    ? await db.from('brands').select('id, name').in('id', brandIds)
+    : { data: [] as Array<{ id: string; name: string }> }
+  const brandName = new Map((brands ?? []).map((b) => [b.id as string, b.name as string]))
+
+  const daily = new Map<string, UsageSummary['daily'][number]>()
+  for (const r of rows) {
+    const day = daily.get(r.date) ?? { date: r.date, cost: 0, tokens: 0, byProvider: {} }
+    day.cost += r.cost_usd
+    day.tokens += r.total_tokens
+    day.byProvider[r.provider] = (day.byProvider[r.provider] ?? 0) + r.cost_usd
+    daily.set(r.date, day)
+  }
+
+  const totals = rows.reduce(
+    (a, r) => ({
+      cost: a.cost + r.cost_usd,
+      tokens: a.tokens + r.total_tokens,
+      requests: a.requests + r.requests,
+    }),
+    { cost: 0, tokens: 0, requests: 0 },
+  )
+
+  return {
+    days: options.days,
+    totalCost: round(totals.cost),
+    totalTokens: totals.tokens,
+    totalRequests: totals.requests,
+    daily: [...daily.values()].map((d) => ({ ...d, cost: round(d.cost) })),
+    byProvider: [...sumBy(rows, (r) => r.provider)].map(([provider, v]) => ({
+      provider,
+      ...v,
+      cost: round(v.cost),
+    })),
+    byBrand: [...sumBy(rows, (r) => r.brand_id)].map(([brand_id, v]) => ({
+      brand_id,
+      brand_name: brand_id ? (brandName.get(brand_id) ?? 'Deleted brand') : 'No brand',
+      tokens: v.tokens,
+      cost: round(v.cost),
+    })),
+    byTask: [...sumBy(rows, (r) => r.task)].map(([task, v]) => ({
+      task,
+      ...v,
+      cost: round(v.cost),
+    })),
+    budgets: budgets.filter((b) => getProvider(b.provider)?.isAvailable() || b.used > 0),
+  }
+}
@@ -0,0 +1,114 @@
+// PATH: src/lib/stats.ts
+//
+// ─── Small-sample statistics ─────────────────────────────────────────────────
+//
+// Used by multi-sample monitoring: LLM answers are non-deterministic, so a
+// prompt can be run k times per engine and compared run-to-run with
+// confidence intervals and significance tests instead of raw deltas.
+//
+// All intervals and tests are two-sided at 95%. Samples are small (k ≤ 10),
+// hence Student's t for means and Wilson intervals for proportions.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { MeanEstimate, ProportionEstimate } from '@/types'
+
+const Z_95 = 1.96
+
+// Two-sided 95% critical values of Student's t for df = 1…30
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145,
+  2.131, 2.12, 2.11, 2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048,
+  2.045, 2.042,
+]
+
+export function tCritical95(df: number): number {
+  if (df < 1) return Infinity
+  return T_95[Math.floor(df) - 1] ?? Z_95
+}
+
+export function mean(values: readonly number[]): number {
+  return values.length === 0 ? 0 : values.reduce((a, v) => a + v, 0) / values.length
+}
+
+export function variance(values: readonly number[]): number {
+  if (values.length < 2) return 0
+  const m = mean(values)
+  return values.reduce((a, v) => a + (v - m) ** 2, 0) / (values.length - 1)
+}
+
+/** Mean with a t-based 95% CI, optionally clamped to the metric's range. */
+export function estimateMean(
+  values: readonly number[],
+  bounds: [number, number] = [-Infinity, Infinity],
+): MeanEstimate {
+  const n = values.length
+  const m = mean(values)
+  const v = variance(values)
+  const half = n > 1 ? tCritical95(n - 1) * Math.sqrt(v / n) : 0
+  return {
+    n,
+    mean: m,
+    variance: v,
+    ci_low: Math.max(bounds[0], m - half),
+    ci_high: Math.min(bounds[1], m + half),
+  }
+}
+
+/** Proportion with a Wilson 95% CI (well-behaved at 0/n and n/n). */
+export function estimateProportion(successes: number, n: number): ProportionEstimate {
+  if (n === 0) return { n, successes, rate: 0, ci_low: 0, ci_high: 1 }
+  const p = successes / n
+  const z2 = Z_95 ** 2
+  const centre = (p + z2 / (2 * n)) / (1 + z2 / n)
+  const half = (Z_95 * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / (1 + z2 / n)
+  return {
+    n,
+    successes,
+    rate: p,
+    ci_low: Math.max(0, centre - half),
+    ci_high: Math.min(1, centre + half),
+  }
+}
+
+// ─── Significance tests ───────────────────────────────────────────────────────
+
+/**
+ * Welch's t-test between two means. A single-sample side has no variance of its
+ * own, so it borrows the other side's (a prediction-interval test). Returns null
+ * when neither side has a variance estimate — the caller decides the fallback.
+ */
+export function isMeanChangeSignificant(
+  before: Pick<MeanEstimate, 'n' | 'mean' | 'variance'>,
+  after: Pick<MeanEstimate, 'n' | 'mean' | 'variance'>,
+): boolean | null {
+  if (before.n < 2 && after.n < 2) return null
+
+  const v1 = before.n > 1 ? before.variance : after.variance
+  const v2 = after.n > 1 ? after.variance : before.variance
+  const diff = after.mean - before.mean
+  const se2 = v1 / before.n + v2 / after.n
+  if (se2 === 0) return diff !== 0
+
+  const df =
+    before.n < 2 || after.n < 2
+      ? Math.max(before.n, after.n) - 1
+      : se2 ** 2 /
+        ((v1 / before.n) ** 2 / (before.n - 1) + (v2 / after.n) ** 2 / (after.n - 1))
+
+  return Math.abs(diff) / Math.sqrt(se2) >= tCritical95(df)
+}
+
+/** Two-proportion z-test (pooled). Returns null when both sides are single samples. */
+export function isProportionChangeSignificant(
+  before: Pick<ProportionEstimate, 'n' | 'successes'>,
+  after: Pick<ProportionEstimate, 'n' | 'successes'>,
+): boolean | null {
+  if (before.n < 2 && after.n < 2) return null
+  if (before.n === 0 || after.n === 0) return false
+
+  const pooled = (before.successes + after.successes) / (before.n + after.n)
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / before.n + 1 / after.n))
+  const diff = after.successes / after.n - before.successes / before.n
+  if (se === 0) return false
+  return Math.abs(diff) / se >= Z_95
+}
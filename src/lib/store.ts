@@ -38,9 +38,10 @@ export const useAppStore = create<AppStore>()(
       // Scan history
       scanHistory: [],
       addScan: (result, engine, model) => {
+        // Keep the result id: the server dedupes uploaded history on it
         const entry: ScanHistoryEntry = {
           ...result,
-          id: generateId('scan'),
+          id: result.id || generateId('scan'),
           engine,
           model,
           timestamp: Date.now(),
@@ -68,3 +69,26 @@ export const useAppStore = create<AppStore>()(
 export const selectScanHistory = (s: AppStore) => s.scanHistory
 export const selectShareStats  = (s: AppStore) => s.shareStats
 export const selectSidebarOpen = (s: AppStore) => s.sidebarOpen
+
+// ─── History sync ─────────────────────────────────────────────────────────────
+
+/**
+ * Uploads the local scan history to the signed-in account (POST /api/scans).
+ * Scans the server already has are skipped; returns how many were imported.
+ * The account owns the scans from then on, so the local copy is cleared: scans
+ * deleted on the server later must not be uploaded again at the next login.
+ */
+export async function syncScanHistory(accessToken: string): Promise<number> {
+  const scans = useAppStore.getState().scanHistory
+  if (scans.length === 0) return 0
+
+  const res = await fetch('/api/scans', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify({ scans }),
+  })
+  const json = (await res.json()) as { success: boolean; data?: { imported: number }; message?: string }
+  if (!json.success) throw new Error(json.message ?? 'Scan history sync failed')
+  useAppStore.getState().clearHistory()
+  return json.data?.imported ?? 0
+}
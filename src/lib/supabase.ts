@@ -28,6 +28,38 @@ export function createServerClient() {
   })
 }
 
+// PostgREST answers at most 1,000 rows per request (its default max-rows), so
+// larger reads go page by page
+const PAGE_SIZE = 1000
+const MAX_ROWS = 20_000
+
+type RowsPage = PromiseLike<{
+  data: unknown[] | null
+  error: { message: string } | null
+  count: number | null
+}>
+
+/**
+ * Reads every row of a query, or the first `maxRows`. `page(from, to)` builds the
+ * query with `{ count: 'exact' }` and a total order, ending in `.range(from, to)`.
+ */
+export async function fetchAllRows<T>(
+  what: string,
+  page: (from: number, to: number) => RowsPage,
+  maxRows = MAX_ROWS,
+): Promise<T[]> {
+  const rows: T[] = []
+  let total = maxRows
+  while (rows.length < total) {
+    const { data, error, count } = await page(rows.length, rows.length + PAGE_SIZE - 1)
+    if (error) throw new Error(`Failed to load ${what}: ${error.message}`)
+    if (!data || data.length === 0) break
+    rows.push(...(data as T[]))
+    if (count !== null) total = Math.min(count, maxRows)
+  }
+  return rows.slice(0, maxRows)
+}
+
 export class AuthError extends Error {
   constructor(
     message: string,
@@ -59,6 +91,15 @@ export async function getCurrentUserId(authHeader?: string | null): Promise<stri
   return data.user.id
 }
 
+// For public routes (optimizer, competitor): the caller's id when signed in, otherwise null
+export async function getOptionalUserId(authHeader?: string | null): Promise<string | null> {
+  try {
+    return await getCurrentUserId(authHeader)
+  } catch {
+    return null
+  }
+}
+
 interface RouteContext {
   params: Record<string, string | string[] | undefined>
 }
@@ -144,6 +144,29 @@ export async function retry<T>(fn: () => Promise<T>, attempts = 3, delayMs = 500
   throw new Error('retry exhausted')
 }
 
+/**
+ * Runs `fn` over `items` with at most `limit` calls in flight.
+ * Results keep the input order; rejections propagate like Promise.all.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++
+      results[i] = await fn(items[i] as T, i)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker))
+  return results
+}
+
 // ─── ID Generation ────────────────────────────────────────────────────────────
 
 export function generateId(prefix = 'id'): string {
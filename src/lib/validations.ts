@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import type { IntentType } from '@/types'
 
 // ─── Analysis ─────────────────────────────────────────────────────────────────
 
@@ -13,6 +14,66 @@ export const analyzeTextSchema = z.object({
 
 export type AnalyzeTextInput = z.infer<typeof analyzeTextSchema>
 
+// Rewrite of the analyzed content: the analyze request plus the suggestions to apply
+export const rewriteSchema = analyzeTextSchema.extend({
+  suggestions: z.array(z.string().max(500)).max(10).default([]),
+})
+
+export type RewriteInput = z.infer<typeof rewriteSchema>
+
+// ─── Analysis output ──────────────────────────────────────────────────────────
+// The AI's analysis JSON (src/lib/services/gemini.ts); results uploaded from the
+// local history are checked against it too. Models often return numbers as
+// strings and vary the casing of enum values: both are coerced. Only
+// visibilityScore is required, everything else has a default.
+
+const score = z.coerce.number().transform((n) => Math.min(100, Math.max(0, Math.round(n))))
+
+/** Case-insensitive enum: `"commercial"` and `"needs work"` are accepted. */
+function looseEnum<const T extends readonly [string, ...string[]]>(values: T) {
+  const key = (s: string) => s.toLowerCase().replace(/[\s_-]+/g, '')
+  return z.preprocess(
+    (v) => (typeof v === 'string' ? (values.find((x) => key(x) === key(v)) ?? v) : v),
+    z.enum(values),
+  )
+}
+
+const INTENTS = [
+  'Informational',
+  'Navigational',
+  'Transactional',
+  'Commercial',
+  'Mixed',
+] as const satisfies readonly IntentType[]
+
+export const analysisOutputSchema = z.object({
+  summary: z.string().default(''),
+  visibilityScore: score,
+  engineBreakdown: z
+    .array(
+      z.object({
+        engine: z.string(),
+        score,
+        status: looseEnum(['optimal', 'needs-work', 'critical'] as const),
+        details: z.string().default(''),
+      }),
+    )
+    .default([]),
+  suggestions: z.array(z.string()).default([]),
+  keywords: z
+    .array(z.object({ word: z.string(), impact: score.default(0), difficulty: score.default(0) }))
+    .default([]),
+  intent: looseEnum(INTENTS).default('Informational'),
+  intentConfidence: score.default(0),
+  intentSignals: z.array(z.string()).default([]),
+  contentType: z.string().default('Article'),
+  contentTypeConfidence: score.default(0),
+  tone: z.string().default('Professional'),
+  toneConfidence: score.default(0),
+  readingLevel: z.string().default('Undergraduate'),
+  audience: z.string().default('General audience'),
+})
+
 // ─── Competitor ───────────────────────────────────────────────────────────────
 
 export const competitorSchema = z.object({
@@ -55,3 +116,130 @@ export const searchSchema = z.object({
 })
 
 export type SearchInput = z.infer<typeof searchSchema>
+
+// ─── Scans ────────────────────────────────────────────────────────────────────
+
+const engineIdSchema = z.enum(['all', 'chatgpt', 'gemini', 'perplexity', 'claude'])
+const intentSchema = z.enum([
+  'Informational',
+  'Navigational',
+  'Transactional',
+  'Commercial',
+  'Mixed',
+])
+
+export const scanSearchSchema = searchSchema.extend({
+  engine: engineIdSchema.optional(),
+  intent: intentSchema.optional(),
+  sort: z.enum(['date', 'score']).default('date'),
+  withResult: z
+    .enum(['true', 'false'])
+    .transform((v) => v === 'true')
+    .optional(),
+})
+
+export type ScanSearchInput = z.infer<typeof scanSearchSchema>
+
+const modelIdSchema = z.enum([
+  'default',
+  'gpt-4o',
+  'gemini-pro',
+  'claude-3-5-sonnet',
+  'perplexity-sonar',
+])
+const auditEngineSchema = z.enum(['chatgpt', 'gemini', 'perplexity', 'claude'])
+
+const pageSignalsSchema = z.object({
+  title: z.string().nullable(),
+  description: z.string().nullable(),
+  lang: z.string().nullable(),
+  canonical: z.string().nullable(),
+  author: z.string().nullable(),
+  published: z.string().nullable(),
+  modified: z.string().nullable(),
+  wordCount: z.number(),
+  h1: z.string().nullable(),
+  headingCount: z.number(),
+  listCount: z.number(),
+  tableCount: z.number(),
+  faqCount: z.number(),
+  schemaTypes: z.array(z.string()),
+  internalLinks: z.number(),
+  externalLinks: z.number(),
+  imagesWithoutAlt: z.number(),
+})
+
+const auditReportSchema = z.object({
+  score: z.number().nullable(),
+  passed: z.number(),
+  failed: z.number(),
+  checks: z.array(
+    z.object({
+      id: z.enum([
+        'faq_schema',
+        'question_headings',
+        'definition_first',
+        'numbered_lists',
+        'statistics_density',
+        'author_markup',
+        'publish_date',
+        'outbound_citations',
+        'reading_level',
+      ]),
+      label: z.string(),
+      status: z.enum(['pass', 'fail', 'not_applicable']),
+      evidence: z.string(),
+      recommendation: z.string(),
+      weight: z.number(),
+      signals: z.record(auditEngineSchema, z.array(z.string())),
+    }),
+  ),
+  byEngine: z.array(
+    z.object({
+      engine: auditEngineSchema,
+      score: z.number().nullable(),
+      passed: z.number(),
+      applicable: z.number(),
+    }),
+  ),
+})
+
+// A full ScanHistoryEntry: the analysis output plus the fields added around it
+const scanHistoryEntrySchema = analysisOutputSchema.extend({
+  id: z.string().min(1).max(100),
+  source: z.string().max(15_000),
+  type: z.enum(['text', 'url']),
+  analyzedText: z.string().max(5_000).default(''),
+  timestamp: z.number().int().positive(),
+  engine: engineIdSchema,
+  model: modelIdSchema,
+  generatedBy: z
+    .object({
+      requested: modelIdSchema,
+      provider: z.string(),
+      model: z.string(),
+      fallback: z.boolean(),
+    })
+    .optional(),
+  page: pageSignalsSchema.optional(),
+  audit: auditReportSchema.optional(),
+})
+
+// Local history entries uploaded on login; the store keeps at most 50
+export const scanImportSchema = z.object({
+  scans: z.array(scanHistoryEntrySchema).max(50),
+})
+
+// ─── Site crawls ──────────────────────────────────────────────────────────────
+
+export const crawlCreateSchema = z.object({
+  // A domain, a page URL to start from, or a sitemap.xml URL
+  url: z.string().trim().min(1, 'A domain or sitemap URL is required').max(2048),
+  maxPages: z.coerce.number().int().min(1).max(50).default(10),
+  engine: engineIdSchema.default('all'),
+  model: z
+    .enum(['default', 'gpt-4o', 'gemini-pro', 'claude-3-5-sonnet', 'perplexity-sonar'])
+    .default('default'),
+})
+
+export type CrawlCreateInput = z.infer<typeof crawlCreateSchema>
@@ -1,3 +1,5 @@
+import type { MonitoringEngineId } from '@/lib/engine-catalog'
+
 // ─── Primitive Aliases ────────────────────────────────────────────────────────
 export type Nullable<T> = T | null
 export type Optional<T> = T | undefined
@@ -22,10 +24,14 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
 
 // ─── AIO Pulse — Analysis ─────────────────────────────────────────────────────
 export type EngineId = 'all' | 'chatgpt' | 'gemini' | 'perplexity' | 'claude'
-export type MonitoringEngine = 'chatgpt' | 'gemini' | 'perplexity'
+/** Engine ids come from the catalog in src/lib/engine-catalog.ts */
+export type MonitoringEngine = MonitoringEngineId
 export type ModelId = 'default' | 'gpt-4o' | 'gemini-pro' | 'claude-3-5-sonnet' | 'perplexity-sonar'
 export type IntentType = 'Informational' | 'Navigational' | 'Transactional' | 'Commercial' | 'Mixed'
-export type AnalysisMode = 'text' | 'url'
+/** 'site' crawls a whole site in the background (see SITE CRAWL below) */
+export type AnalysisMode = 'text' | 'url' | 'site'
+/** Modes that produce a single AnalysisResult */
+export type PageAnalysisMode = Exclude<AnalysisMode, 'site'>
 
 export interface Keyword { word: string; impact: number; difficulty: number }
 export interface KeywordWithDensity extends Keyword { count: number; density: number }
@@ -35,29 +41,233 @@ export interface AIOScore {
 }
 
 export interface AnalysisResult {
-  id: string; source: string; type: AnalysisMode; summary: string
+  id: string; source: string; type: PageAnalysisMode; summary: string
   visibilityScore: number; engineBreakdown: AIOScore[]; suggestions: string[]
   keywords: Keyword[]; analyzedText: string; intent: IntentType
   intentConfidence: number; intentSignals: string[]; contentType: string
   contentTypeConfidence: number; tone: string; toneConfidence: number
   readingLevel: string; audience: string; timestamp: number
+  /** which model produced the analysis; missing on results saved before it was recorded */
+  generatedBy?: AnalysisModelInfo
+  /** structural signals of the analyzed page (URL mode only) */
+  page?: PageSignals
+  /** rule-based on-page checks, next to the LLM's engineBreakdown */
+  audit?: AuditReport
+}
+
+export interface AnalysisModelInfo {
+  /** the model picked in the optimizer */
+  requested: ModelId
+  /** provider id and provider model that actually answered */
+  provider: string; model: string
+  /** true when the requested model was unavailable and the content chain answered instead */
+  fallback: boolean
 }
 
+/** POST /api/rewrite — the analyzed content rewritten for an engine, then re-analyzed */
+export interface RewriteResult {
+  /** the text that was rewritten: the input, or the page's main text in URL mode */
+  original: string; rewritten: string
+  /** what the model changed, one line per change */
+  changes: string[]
+  /** analysis of the rewritten content for the target engine */
+  result: AnalysisResult
+  /** true when the content was over the rewrite limit: only its start was rewritten and re-scored */
+  truncated: boolean
+}
+
+/** One run of a text diff (see src/lib/diff.ts) */
+export interface DiffSegment { type: 'equal' | 'insert' | 'delete'; text: string }
+
 export interface ScanHistoryEntry extends AnalysisResult { engine: EngineId; model: ModelId }
 
+/** Row of `analysis_scans` — an optimizer result saved for a signed-in user. */
+export interface AnalysisScan {
+  id: string; user_id: string
+  /** id of the result on the client (AnalysisResult.id) */
+  client_id: string | null
+  source: string; type: PageAnalysisMode; engine: EngineId
+  visibility_score: number; intent: IntentType; content_type: string
+  result: AnalysisResult; created_at: string
+}
+
+export type AnalysisScanSummary = Omit<AnalysisScan, 'user_id' | 'result'>
+
+// ─── PAGE EXTRACTION ──────────────────────────────────────────────────────────
+/** Structured model of a fetched HTML page (see src/lib/services/html-extractor.ts). */
+export interface ExtractedPage {
+  url: string | null; title: string | null; lang: string | null; meta: PageMeta
+  headings: PageHeading[]
+  /** readable text of the main content region, one block per line */
+  mainText: string; wordCount: number
+  lists: PageList[]; tables: PageTable[]; faqs: PageFaq[]; schema: PageSchemaEntity[]
+  links: PageLink[]; images: PageImage[]
+  author: string | null; published: string | null; modified: string | null
+}
+
+export interface PageMeta {
+  description: string | null; keywords: string[]; robots: string | null; canonical: string | null
+  /** og:* and twitter:* properties, keyed without the prefix */
+  openGraph: Record<string, string>; twitter: Record<string, string>
+}
+
+export interface PageHeading { level: 1 | 2 | 3 | 4 | 5 | 6; text: string }
+export interface PageList { ordered: boolean; items: string[] }
+export interface PageTable { caption: string | null; headers: string[]; rows: string[][] }
+export interface PageFaq { question: string; answer: string; source: 'schema' | 'details' | 'heading' }
+export interface PageSchemaEntity {
+  type: string; name: string | null; source: 'json-ld' | 'microdata'
+  /** the raw JSON-LD node (empty for microdata) */
+  data: Record<string, unknown>
+}
+export interface PageLink {
+  href: string; text: string; internal: boolean; rel: string | null
+  /** inside the main content rather than navigation, header or footer */
+  inContent: boolean
+}
+export interface PageImage { src: string; alt: string | null }
+
+/** Compact summary of an ExtractedPage, stored on analysis and competitor results. */
+export interface PageSignals {
+  title: string | null; description: string | null; lang: string | null; canonical: string | null
+  author: string | null; published: string | null; modified: string | null
+  wordCount: number; h1: string | null; headingCount: number
+  listCount: number; tableCount: number; faqCount: number; schemaTypes: string[]
+  internalLinks: number; externalLinks: number; imagesWithoutAlt: number
+}
+
+// ─── ON-PAGE AUDIT ────────────────────────────────────────────────────────────
+/** Deterministic checks on the page model (see src/lib/services/audit.ts). */
+export type AuditCheckId =
+  | 'faq_schema' | 'question_headings' | 'definition_first' | 'numbered_lists'
+  | 'statistics_density' | 'author_markup' | 'publish_date' | 'outbound_citations' | 'reading_level'
+/** not_applicable: the signal cannot be seen in the input (e.g. markup in pasted text) */
+export type AuditStatus = 'pass' | 'fail' | 'not_applicable'
+export type AuditEngine = Exclude<EngineId, 'all'>
+
+export interface AuditCheck {
+  id: AuditCheckId; label: string; status: AuditStatus
+  /** what was found on the page, e.g. "3 of 8 subheadings are questions" */
+  evidence: string; recommendation: string; weight: number
+  /** the ENGINE_SIGNALS entries this check verifies, per engine */
+  signals: Partial<Record<AuditEngine, string[]>>
+}
+
+export interface AuditEngineScore { engine: AuditEngine; score: number | null; passed: number; applicable: number }
+
+export interface AuditReport {
+  /** 0-100: weighted share of applicable checks that pass */
+  score: number | null; passed: number; failed: number
+  checks: AuditCheck[]; byEngine: AuditEngineScore[]
+}
+
+// ─── SITE CRAWL ───────────────────────────────────────────────────────────────
+/** Site-wide optimizer job (see src/lib/services/crawler.ts). */
+export type SiteCrawlStatus = 'queued' | 'running' | 'completed' | 'failed'
+/** How the crawled URLs were found */
+export type SiteCrawlDiscovery = 'sitemap' | 'links'
+
+/** Row of `site_crawls` */
+export interface SiteCrawl {
+  id: string; user_id: string
+  /** the domain or sitemap.xml URL the crawl started from */
+  root_url: string; engine: EngineId; model: ModelId; max_pages: number
+  status: SiteCrawlStatus; discovery: SiteCrawlDiscovery | null
+  /** progress: pages queued for analysis, pages finished (incl. failed), pages excluded by robots.txt */
+  pages_found: number; pages_done: number; pages_failed: number; pages_blocked: number
+  report: SiteCrawlReport | null; error: string | null
+  created_at: string; started_at: string | null; finished_at: string | null
+  /** last progress update; a running crawl that stops updating is marked failed */
+  updated_at: string
+}
+
+/** Row of `site_crawl_pages` — one analyzed (or failed) page of a crawl */
+export interface SiteCrawlPage {
+  id: string; crawl_id: string; url: string; title: string | null
+  status: 'succeeded' | 'failed'; visibility_score: number | null; audit_score: number | null
+  result: AnalysisResult | null; error: string | null; created_at: string
+}
+
+export type SiteCrawlPageSummary = Omit<SiteCrawlPage, 'result'>
+
+export interface SiteCrawlIssue {
+  id: AuditCheckId; label: string; recommendation: string
+  /** pages where the check failed, and their share of the pages it applied to (0-1) */
+  failedPages: number; share: number
+}
+
+/** Site-level AIO report, built when the crawl finishes */
+export interface SiteCrawlReport {
+  pagesAnalyzed: number; pagesFailed: number
+  averageScore: number | null; averageAuditScore: number | null
+  /** lowest visibility scores first */
+  worstPages: Array<{ url: string; title: string | null; visibilityScore: number; auditScore: number | null }>
+  /** audit checks failed by the most pages first */
+  commonIssues: SiteCrawlIssue[]
+  /** average per-engine audit score over the analyzed pages */
+  byEngine: Array<{ engine: AuditEngine; score: number | null }>
+}
+
+// ─── AI PROVIDERS ─────────────────────────────────────────────────────────────
+/** Router tasks — each one has its own provider chain (see src/lib/services/providers.ts). */
+export type AiTask = 'simulate' | 'analyze' | 'sentiment' | 'hallucination' | 'content' | 'rewrite'
+
+export interface TokenUsage { prompt_tokens: number; completion_tokens: number; total_tokens: number }
+
+/** What every provider client returns: the text plus the model and usage that produced it. */
+export interface ProviderCompletion { text: string; model: string; usage: TokenUsage | null }
+
+/** Who an AI call is billed to in `ai_usage`. */
+export interface UsageAttribution { userId: string | null; brandId?: string | null }
+
+export interface ProviderFreeTier { unit: 'tokens' | 'requests'; dailyLimit: number }
+
+export interface AiUsageDaily {
+  date: string; provider: string; model: string; task: AiTask; brand_id: string | null
+  requests: number; prompt_tokens: number; completion_tokens: number
+  total_tokens: number; cost_usd: number
+}
+
+/** Today's app-wide usage of a provider against its free-tier budget. */
+export interface ProviderBudget {
+  provider: string; label: string; unit: ProviderFreeTier['unit']
+  limit: number; used: number; percent: number
+}
+
+export interface UsageSummary {
+  days: number; totalCost: number; totalTokens: number; totalRequests: number
+  daily: Array<{ date: string; cost: number; tokens: number; byProvider: Record<string, number> }>
+  byProvider: Array<{ provider: string; requests: number; tokens: number; cost: number }>
+  byBrand: Array<{ brand_id: string | null; brand_name: string; tokens: number; cost: number }>
+  byTask: Array<{ task: AiTask; requests: number; tokens: number; cost: number }>
+  budgets: ProviderBudget[]
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+/** Live circuit-breaker state of one provider (in-process, resets on restart). */
+export interface ProviderHealth {
+  provider: string; state: CircuitState; consecutive_failures: number
+  opened_at: string | null; reset_at: string | null; last_error: string | null
+  last_success_at: string | null; last_failure_at: string | null
+  total_successes: number; total_failures: number
+}
+
 // ─── BRANDS ───────────────────────────────────────────────────────────────────
 export interface Brand {
   id: string; user_id: string; name: string; slug: string
   description?: string | null; domain?: string | null
   aliases: string[]; domains: string[]; competitors: string[]
   industry?: string | null; color: string; logo_url?: string | null
+  /** health score formula; null = default profile */
+  scoring_profile: ScoringProfile | null
   is_active: boolean; created_at: string; updated_at: string
 }
 
 export interface BrandCreateInput {
   name: string; description?: string; domain?: string
   aliases?: string[]; domains?: string[]; competitors?: string[]
-  industry?: string; color?: string
+  industry?: string; color?: string; scoring_profile?: ScoringProfile
 }
 
 // ─── PROMPTS ──────────────────────────────────────────────────────────────────
@@ -69,12 +279,15 @@ export interface Prompt {
   language: string; market: string; category: PromptCategory | null
   engines: MonitoringEngine[]; is_active: boolean
   run_frequency: RunFrequency; last_run_at: string | null
+  /** answers collected per engine per run (1 = single-sample) */
+  sample_count: number
   created_at: string; updated_at: string; brand?: Brand
 }
 
 export interface PromptCreateInput {
   brand_id: string; text: string; language?: string; market?: string
   category?: PromptCategory; engines?: MonitoringEngine[]; run_frequency?: RunFrequency
+  sample_count?: number
 }
 
 // ─── MONITORING RESULTS ───────────────────────────────────────────────────────
@@ -88,18 +301,183 @@ export interface HallucinationFlag {
   type: 'factual_error' | 'attribution_error' | 'fabrication' | 'date_error'
 }
 
+export type CitationSource = 'native' | 'markdown' | 'footnote' | 'bare'
+
+/** A source cited by an engine answer; `domain` is lowercase without `www.`. */
+export interface Citation {
+  url: string; domain: string; source: CitationSource
+  position: number; is_brand_domain: boolean
+}
+
+/** Deterministic extractor and LLM analysis disagree; the result stores the reconciled value. */
+export interface MentionDisagreement {
+  field: 'brand_mentioned' | 'mention_position' | 'mention_count' | 'competitor_mentions'
+  extracted: unknown; analysis: unknown
+}
+
+/** native = the engine's own API (with web search); simulated = persona prompt on another model */
+export type EngineResponseMode = 'native' | 'simulated'
+
 export interface MonitoringResult {
   id: string; prompt_id: string; brand_id: string; user_id: string
   engine: MonitoringEngine; prompt_text: string; response_text: string
+  response_mode: EngineResponseMode; response_provider: string | null
   brand_mentioned: boolean; mention_position: number | null
   mention_count: number; mention_type: MentionType | null
   visibility_score: number; sentiment: SentimentLabel | null
-  sentiment_score: number | null; cited_urls: string[]
+  sentiment_score: number | null; cited_urls: string[]; citations: Citation[]
   competitor_mentions: CompetitorMention[]; has_hallucination: boolean
-  hallucination_flags: HallucinationFlag[]; created_at: string
+  hallucination_flags: HallucinationFlag[]; mention_disagreements: MentionDisagreement[]
+  /** answers aggregated into this result; visibility/sentiment scores are their means */
+  sample_count: number; mention_rate: number
+  sample_stats: MonitoringSampleStats | null; created_at: string
   prompt?: Prompt; brand?: Brand
 }
 
+// ─── MULTI-SAMPLE STATISTICS ──────────────────────────────────────────────────
+/** Summary of a numeric sample; `variance` is the unbiased sample variance (0 when n = 1). */
+export interface MeanEstimate {
+  n: number; mean: number; variance: number; ci_low: number; ci_high: number
+}
+
+/** Summary of a yes/no sample, e.g. "brand mentioned". */
+export interface ProportionEstimate {
+  n: number; successes: number; rate: number; ci_low: number; ci_high: number
+}
+
+/** Stored on multi-sample results (`monitoring_results.sample_stats`), 95% intervals. */
+export interface MonitoringSampleStats {
+  mention_rate: ProportionEstimate; visibility: MeanEstimate; sentiment: MeanEstimate
+  samples: Array<{
+    brand_mentioned: boolean; mention_position: number | null
+    visibility_score: number; sentiment_score: number
+  }>
+}
+
+export interface MonitoringRunReport {
+  runId: string | null; promptId: string; brandId: string; userId: string
+  enginesRequested: MonitoringEngine[]; results: MonitoringResult[]
+  errors: string[]; alertsFired: number; healthScore: number | null
+  startedAt: string; finishedAt: string
+}
+
+// ─── SOURCES ──────────────────────────────────────────────────────────────────
+/** Row of the `citation_domains_daily` view. */
+export interface CitationDomainDaily {
+  date: string; brand_id: string; engine: MonitoringEngine; domain: string
+  is_brand_domain: boolean; citations: number; results: number
+}
+
+export interface SourceDomainStat {
+  domain: string; is_brand_domain: boolean; citations: number
+  /** answers citing the domain at least once */
+  results: number; engines: MonitoringEngine[]
+}
+
+export interface SourcesSummary {
+  days: number; totalResults: number; resultsWithCitations: number
+  totalCitations: number; brandCitations: number; totalDomains: number
+  /** share of answers citing one of the brand's own domains (0-1) */
+  brandCitationRate: number
+  topDomains: SourceDomainStat[]
+  /** every configured brand domain, subdomains included, cited or not */
+  brandDomains: Array<{ domain: string; citations: number; results: number }>
+  daily: Array<{ date: string; citations: number; brandCitations: number; domains: number }>
+  byEngine: Array<{ engine: MonitoringEngine; citations: number; brandCitations: number }>
+}
+
+// ─── BRAND HEALTH SCORES ──────────────────────────────────────────────────────
+export type HealthComponent = 'visibility' | 'sentiment' | 'hallucination' | 'citations' | 'share_of_voice'
+export type ScoreCurve = 'linear' | 'quadratic' | 'sqrt'
+
+export interface ScoringComponentConfig { enabled: boolean; weight: number; curve: ScoreCurve }
+
+export interface ScoringProfile {
+  components: Record<HealthComponent, ScoringComponentConfig>
+  /** points the hallucination component loses at a 100% hallucination rate */
+  hallucination_penalty: number
+}
+
+/**
+ * Raw component values: visibility 0-100, sentiment -1..1, hallucination rate,
+ * citations = share of answers citing the brand's domains, share_of_voice 0-1.
+ */
+export type HealthScoreInputs = Record<HealthComponent, number>
+
+export interface HealthScoreComponent {
+  component: HealthComponent; value: number
+  /** 0-100 after the curve */
+  score: number
+  /** normalized over the enabled components */
+  weight: number
+  /** points added to the health score (score × weight) */
+  contribution: number
+}
+
+export interface HealthScoreBreakdown { score: number; components: HealthScoreComponent[] }
+
+/** Daily health metrics, for the whole brand or one engine. */
+export interface BrandHealthMetrics {
+  result_count: number; visibility_score: number; sentiment_score: number
+  hallucination_rate: number; mention_count: number; citation_count: number
+  health_score: number; score_components: HealthScoreComponent[]
+}
+
+export type EngineHealthBreakdown = BrandHealthMetrics
+
+/** One brand per UTC day, rolled up over all of that day's monitoring results. */
+export interface BrandHealthScore extends BrandHealthMetrics {
+  id: string; brand_id: string; user_id: string; date: string
+  engine_breakdown: Partial<Record<MonitoringEngine, EngineHealthBreakdown>>
+  created_at: string; updated_at: string
+}
+
+// ─── SHARE OF VOICE ───────────────────────────────────────────────────────────
+/** The brand or one of `Brand.competitors`; shares are position-weighted and sum to 1. */
+export interface ShareOfVoiceEntry {
+  name: string; is_brand: boolean; color: string
+  mentions: number; weighted: number; share: number
+  /** answers mentioning the entity */
+  results: number; avg_position: number | null
+}
+
+/** Shares by entity name for one slice (day, engine or prompt). */
+export interface ShareOfVoiceSlice { results: number; shares: Record<string, number> }
+
+export interface ShareOfVoiceSummary {
+  days: number; results: number; entities: ShareOfVoiceEntry[]
+  daily: Array<ShareOfVoiceSlice & { date: string }>
+  byEngine: Array<ShareOfVoiceSlice & { engine: MonitoringEngine }>
+  byPrompt: Array<ShareOfVoiceSlice & { prompt_id: string; prompt_text: string }>
+}
+
+// ─── MONITORING RUNS ──────────────────────────────────────────────────────────
+export type MonitoringTrigger = 'manual' | 'scheduler' | 'retry'
+export type MonitoringRunStatus = 'running' | 'completed' | 'partial' | 'failed'
+
+/** Provider, latency and token data collected while checking one engine. */
+export interface MonitoringCheckTelemetry {
+  simulation_provider: string | null; analysis_provider: string | null
+  simulation_latency_ms: number | null; analysis_latency_ms: number | null
+  prompt_tokens: number; completion_tokens: number
+}
+
+export interface MonitoringRunItem extends MonitoringCheckTelemetry {
+  id: string; run_id: string; engine: MonitoringEngine
+  status: 'succeeded' | 'failed'; result_id: string | null
+  latency_ms: number; total_tokens: number; error: string | null; created_at: string
+}
+
+export interface MonitoringRun {
+  id: string; prompt_id: string; brand_id: string; user_id: string
+  trigger: MonitoringTrigger; status: MonitoringRunStatus
+  engines_requested: MonitoringEngine[]; engines_succeeded: MonitoringEngine[]
+  engines_failed: MonitoringEngine[]; retry_of: string | null
+  started_at: string; finished_at: string | null; duration_ms: number | null
+  prompt?: Pick<Prompt, 'text'>; brand?: Pick<Brand, 'name' | 'color'>
+  items?: MonitoringRunItem[]
+}
+
 // ─── ALERTS ───────────────────────────────────────────────────────────────────
 export type AlertType = 'mention_new' | 'mention_lost' | 'sentiment_drop' | 'sentiment_spike' | 'competitor_ahead' | 'hallucination' | 'visibility_change'
 
@@ -128,6 +506,51 @@ export interface AlertRuleCreateInput {
   condition: AlertCondition; channels?: string[]; email?: string; webhook_url?: string
 }
 
+// ─── SCHEDULER ────────────────────────────────────────────────────────────────
+export type SchedulerTrigger = 'cron' | 'worker' | 'manual'
+export type SchedulerRunStatus = 'running' | 'completed' | 'failed'
+
+export interface SchedulerRun {
+  id: string; trigger: SchedulerTrigger; status: SchedulerRunStatus
+  prompts_due: number; prompts_run: number; prompts_failed: number
+  results_saved: number; errors: string[]
+  started_at: string; finished_at: string | null
+}
+
+// ─── ANALYTICS ────────────────────────────────────────────────────────────────
+/** Headline metrics of one period; null when the period has no data for it. */
+export interface AnalyticsTotals {
+  healthScore: number | null; visibility: number | null
+  /** share of answers mentioning the brand (0-1) */
+  mentionRate: number | null; avgPosition: number | null
+  results: number; citations: number; scans: number; avgScanScore: number | null
+}
+
+export interface AnalyticsDaily {
+  date: string; health_score: number | null; visibility_score: number | null
+  results: number; mentions: number; citations: number
+  scans: number; scan_score: number | null
+}
+
+export interface AnalyticsEngineStat {
+  engine: MonitoringEngine; results: number; visibility_score: number
+  sentiment_score: number; hallucination_rate: number; mention_rate: number
+  citations: number; health_score: number
+}
+
+export interface AnalyticsIntentStat { intent: IntentType; scans: number; share: number; avgScore: number }
+export interface AnalyticsContentTypeStat { contentType: string; scans: number; avgScore: number }
+
+export interface AnalyticsSummary {
+  days: number; brandId: string | null
+  totals: AnalyticsTotals
+  /** the same metrics over the preceding period of equal length */
+  previous: AnalyticsTotals
+  daily: AnalyticsDaily[]; byEngine: AnalyticsEngineStat[]
+  intents: AnalyticsIntentStat[]; contentTypes: AnalyticsContentTypeStat[]
+  recentScans: AnalysisScanSummary[]
+}
+
 // ─── Dashboard ────────────────────────────────────────────────────────────────
 export interface StatCard { title: string; value: string | number; change: number; suffix?: string }
 export interface EngineStatItem { name: string; score: number; color: string }
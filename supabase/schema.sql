@@ -30,6 +30,7 @@ create table if not exists brands (
   industry     text,
   color        text default '#6366f1',                -- ui accent color
   logo_url     text,
+  scoring_profile jsonb,                               -- health score formula, null = default
   is_active    boolean default true,
   created_at   timestamptz default now(),
   updated_at   timestamptz default now(),
@@ -48,9 +49,10 @@ create table if not exists prompts (
   language      text default 'en',
   market        text default 'global',
   category      text,                                  -- 'awareness'|'comparison'|'alternative'|'custom'
-  engines       text[] default '{chatgpt,gemini,perplexity}',
+  engines       text[] default '{chatgpt,gemini,perplexity}', -- ids from src/lib/engine-catalog.ts (defaultSelected)
   is_active     boolean default true,
   run_frequency text default 'daily',                 -- 'hourly'|'daily'|'weekly'
+  sample_count  int not null default 1 check (sample_count between 1 and 10), -- answers per engine per run
   last_run_at   timestamptz,
   created_at    timestamptz default now(),
   updated_at    timestamptz default now()
@@ -58,6 +60,7 @@ create table if not exists prompts (
 
 create index if not exists prompts_brand_id_idx on prompts(brand_id);
 create index if not exists prompts_user_id_idx on prompts(user_id);
+create index if not exists prompts_due_idx on prompts(is_active, last_run_at);
 
 -- ─── MONITORING RESULTS ───────────────────────────────────────────────────────
 create table if not exists monitoring_results (
@@ -65,9 +68,11 @@ create table if not exists monitoring_results (
   prompt_id         uuid not null references prompts(id) on delete cascade,
   brand_id          uuid not null references brands(id) on delete cascade,
   user_id           text not null,
-  engine            text not null,                    -- 'chatgpt'|'gemini'|'perplexity'
+  engine            text not null,                    -- engine id from src/lib/engine-catalog.ts
   prompt_text       text not null,                   -- snapshot of prompt at run time
   response_text     text not null,                   -- AI response (truncated at 5000 chars)
+  response_mode     text not null default 'simulated', -- 'native'|'simulated' (engine API vs persona)
+  response_provider text,                            -- e.g. 'openai:gpt-4o-mini', 'groq:llama-3.3-70b-versatile'
   brand_mentioned   boolean default false,
   mention_position  int,                             -- 1 = first mention, null = not mentioned
   mention_count     int default 0,
@@ -76,9 +81,14 @@ create table if not exists monitoring_results (
   sentiment         text,                            -- 'positive'|'negative'|'neutral'
   sentiment_score   float,                          -- -1.0 to 1.0
   cited_urls        text[] default '{}',
+  citations         jsonb not null default '[]',     -- [{url, domain, source, position, is_brand_domain}]
   competitor_mentions jsonb default '[]',            -- [{name, position, count}]
   has_hallucination boolean default false,
   hallucination_flags jsonb default '[]',            -- [{text, severity, type}]
+  mention_disagreements jsonb not null default '[]', -- [{field, extracted, analysis}] extractor vs LLM
+  sample_count      int not null default 1,          -- answers aggregated into this row
+  mention_rate      float,                           -- share of samples mentioning the brand (0-1)
+  sample_stats      jsonb,                           -- means, variances and 95% CIs (multi-sample only)
   raw_response      jsonb,                          -- full API response for debugging
   created_at        timestamptz default now()
 );
@@ -86,9 +96,69 @@ create table if not exists monitoring_results (
 create index if not exists monitoring_results_brand_id_idx on monitoring_results(brand_id);
 create index if not exists monitoring_results_prompt_id_idx on monitoring_results(prompt_id);
 create index if not exists monitoring_results_engine_idx on monitoring_results(engine);
+create index if not exists monitoring_results_response_mode_idx on monitoring_results(engine, response_mode);
 create index if not exists monitoring_results_created_at_idx on monitoring_results(created_at desc);
 create index if not exists monitoring_results_user_id_idx on monitoring_results(user_id);
 
+-- Daily rollup of cited domains read by GET /api/sources
+create or replace view citation_domains_daily with (security_invoker = true) as
+  select
+    r.user_id,
+    r.brand_id,
+    (r.created_at at time zone 'utc')::date as date,
+    r.engine,
+    c->>'domain'                                as domain,
+    bool_or((c->>'is_brand_domain')::boolean)   as is_brand_domain,
+    count(*)::int                               as citations,
+    count(distinct r.id)::int                   as results
+  from monitoring_results r
+  cross join lateral jsonb_array_elements(r.citations) as c
+  group by 1, 2, 3, 4, 5;
+
+-- ─── MONITORING RUNS ──────────────────────────────────────────────────────────
+-- One row per pipeline run (manual click, scheduler tick or retry).
+create table if not exists monitoring_runs (
+  id                 uuid primary key default uuid_generate_v4(),
+  prompt_id          uuid not null references prompts(id) on delete cascade,
+  brand_id           uuid not null references brands(id) on delete cascade,
+  user_id            text not null,
+  trigger            text not null default 'manual',   -- 'manual'|'scheduler'|'retry'
+  status             text not null default 'running',  -- 'running'|'completed'|'partial'|'failed'
+  engines_requested  text[] default '{}',
+  engines_succeeded  text[] default '{}',
+  engines_failed     text[] default '{}',
+  retry_of           uuid references monitoring_runs(id) on delete set null,
+  started_at         timestamptz default now(),
+  finished_at        timestamptz,
+  duration_ms        int
+);
+
+create index if not exists monitoring_runs_user_id_idx on monitoring_runs(user_id);
+create index if not exists monitoring_runs_brand_id_idx on monitoring_runs(brand_id);
+create index if not exists monitoring_runs_prompt_id_idx on monitoring_runs(prompt_id);
+create index if not exists monitoring_runs_started_at_idx on monitoring_runs(started_at desc);
+
+-- One row per engine inside a run
+create table if not exists monitoring_run_items (
+  id                     uuid primary key default uuid_generate_v4(),
+  run_id                 uuid not null references monitoring_runs(id) on delete cascade,
+  engine                 text not null,
+  status                 text not null,                 -- 'succeeded'|'failed'
+  result_id              uuid references monitoring_results(id) on delete set null,
+  simulation_provider    text,                          -- e.g. 'openrouter:chatgpt'
+  analysis_provider      text,                          -- e.g. 'cerebras:llama-3.3-70b'
+  simulation_latency_ms  int,
+  analysis_latency_ms    int,
+  latency_ms             int default 0,                 -- whole engine step incl. DB insert
+  prompt_tokens          int default 0,
+  completion_tokens      int default 0,
+  total_tokens           int default 0,
+  error                  text,
+  created_at             timestamptz default now()
+);
+
+create index if not exists monitoring_run_items_run_id_idx on monitoring_run_items(run_id);
+
 -- ─── ALERT RULES ──────────────────────────────────────────────────────────────
 create table if not exists alert_rules (
   id            uuid primary key default uuid_generate_v4(),
@@ -137,17 +207,136 @@ create table if not exists brand_health_scores (
   visibility_score  float default 0,
   sentiment_score   float default 0,
   hallucination_rate float default 0,
-  mention_count     int default 0,
-  citation_count    int default 0,
+  result_count      int default 0,   -- monitoring results rolled up into the day
+  mention_count     int default 0,   -- results mentioning the brand
+  citation_count    int default 0,   -- citations of the brand's own domains
   health_score      float default 0,  -- composite 0-100
-  engine_breakdown  jsonb default '{}',
+  score_components  jsonb default '[]', -- per-component score and contribution
+  engine_breakdown  jsonb default '{}', -- {engine: same metrics as above}
   created_at        timestamptz default now(),
+  updated_at        timestamptz default now(),    -- last rollup
   unique(brand_id, date)
 );
 
 create index if not exists brand_health_scores_brand_id_idx on brand_health_scores(brand_id);
 create index if not exists brand_health_scores_date_idx on brand_health_scores(date desc);
 
+-- ─── SCHEDULER RUNS ───────────────────────────────────────────────────────────
+-- One row per scheduler tick (cron route or in-process worker).
+create table if not exists scheduler_runs (
+  id              uuid primary key default uuid_generate_v4(),
+  trigger         text not null,                    -- 'cron'|'worker'|'manual'
+  status          text not null default 'running',  -- 'running'|'completed'|'failed'
+  prompts_due     int default 0,
+  prompts_run     int default 0,
+  prompts_failed  int default 0,
+  results_saved   int default 0,
+  errors          jsonb default '[]',
+  started_at      timestamptz default now(),
+  finished_at     timestamptz
+);
+
+create index if not exists scheduler_runs_started_at_idx on scheduler_runs(started_at desc);
+
+-- ─── AI USAGE ─────────────────────────────────────────────────────────────────
+-- One row per successful AI router call: tokens and estimated cost.
+create table if not exists ai_usage (
+  id                 uuid primary key default uuid_generate_v4(),
+  user_id            text,                              -- null for anonymous optimizer calls
+  brand_id           uuid references brands(id) on delete set null,
+  task               text not null,                     -- 'simulate'|'analyze'|'sentiment'|'hallucination'|'content'|'rewrite'
+  provider           text not null,                     -- e.g. 'groq'
+  model              text not null,
+  prompt_tokens      int default 0,
+  completion_tokens  int default 0,
+  total_tokens       int default 0,
+  cost_usd           numeric(12, 6) default 0,          -- estimate from the provider registry prices
+  created_at         timestamptz default now()
+);
+
+create index if not exists ai_usage_user_id_created_at_idx on ai_usage(user_id, created_at desc);
+create index if not exists ai_usage_created_at_idx on ai_usage(created_at desc);
+
+-- Daily rollup read by GET /api/usage
+create or replace view ai_usage_daily with (security_invoker = true) as
+  select
+    user_id,
+    brand_id,
+    (created_at at time zone 'utc')::date as date,
+    task,
+    provider,
+    model,
+    count(*)::int                  as requests,
+    sum(prompt_tokens)::int        as prompt_tokens,
+    sum(completion_tokens)::int    as completion_tokens,
+    sum(total_tokens)::int         as total_tokens,
+    sum(cost_usd)::float           as cost_usd
+  from ai_usage
+  group by 1, 2, 3, 4, 5, 6;
+
+-- ─── ANALYSIS SCANS ───────────────────────────────────────────────────────────
+-- Optimizer results (POST /api/analyze) of signed-in users, plus local history
+-- uploaded on login (POST /api/scans).
+create table if not exists analysis_scans (
+  id                 uuid primary key default uuid_generate_v4(),
+  user_id            text not null,
+  client_id          text,                              -- AnalysisResult.id, dedupes uploads
+  source             text not null,                     -- url or text excerpt
+  type               text not null,                     -- 'text' | 'url'
+  engine             text not null default 'all',       -- optimizer engine id
+  visibility_score   int default 0,
+  intent             text,
+  content_type       text,
+  result             jsonb not null,                    -- full AnalysisResult
+  created_at         timestamptz default now(),
+  unique(user_id, client_id)
+);
+
+create index if not exists analysis_scans_user_id_created_at_idx on analysis_scans(user_id, created_at desc);
+
+-- ─── SITE CRAWLS ──────────────────────────────────────────────────────────────
+-- Site-wide optimizer jobs (POST /api/crawls): up to max_pages pages of one
+-- site are analyzed in the background, then summed up in `report`.
+create table if not exists site_crawls (
+  id                 uuid primary key default uuid_generate_v4(),
+  user_id            text not null,
+  root_url           text not null,                     -- domain or sitemap.xml url
+  engine             text not null default 'all',       -- optimizer engine id
+  model              text not null default 'default',   -- optimizer model id
+  max_pages          int not null default 10,
+  status             text not null default 'queued',    -- 'queued'|'running'|'completed'|'failed'
+  discovery          text,                              -- 'sitemap'|'links'
+  pages_found        int default 0,
+  pages_done         int default 0,
+  pages_failed       int default 0,
+  pages_blocked      int default 0,                     -- disallowed by robots.txt
+  report             jsonb,                             -- SiteCrawlReport
+  error              text,
+  created_at         timestamptz default now(),
+  started_at         timestamptz,
+  finished_at        timestamptz,
+  updated_at         timestamptz default now()           -- last progress update
+);
+
+create index if not exists site_crawls_user_id_created_at_idx on site_crawls(user_id, created_at desc);
+
+-- One row per analyzed (or failed) page
+create table if not exists site_crawl_pages (
+  id                 uuid primary key default uuid_generate_v4(),
+  crawl_id           uuid not null references site_crawls(id) on delete cascade,
+  url                text not null,
+  title              text,
+  status             text not null,                     -- 'succeeded'|'failed'
+  visibility_score   int,
+  audit_score        int,
+  result             jsonb,                             -- full AnalysisResult
+  error              text,
+  created_at         timestamptz default now(),
+  unique(crawl_id, url)
+);
+
+create index if not exists site_crawl_pages_crawl_id_idx on site_crawl_pages(crawl_id);
+
 -- ─── ROW LEVEL SECURITY ───────────────────────────────────────────────────────
 -- Users can only read/write their own data.
 -- The service key (SUPABASE_SERVICE_KEY) used by API routes bypasses RLS
@@ -156,9 +345,16 @@ create index if not exists brand_health_scores_date_idx on brand_health_scores(d
 alter table brands enable row level security;
 alter table prompts enable row level security;
 alter table monitoring_results enable row level security;
+alter table monitoring_runs enable row level security;
+alter table monitoring_run_items enable row level security;
 alter table alert_rules enable row level security;
 alter table alert_events enable row level security;
 alter table brand_health_scores enable row level security;
+alter table scheduler_runs enable row level security; -- service key only, no user policies
+alter table ai_usage enable row level security;
+alter table analysis_scans enable row level security;
+alter table site_crawls enable row level security;
+alter table site_crawl_pages enable row level security;
 
 -- ── brands ────────────────────────────────────────────────────────────────────
 create policy "users_own_brands" on brands
@@ -193,6 +389,38 @@ create policy "users_own_monitoring" on monitoring_results
 create policy "users_insert_monitoring" on monitoring_results for insert
   with check (user_id = auth.uid()::text);
 
+-- ── monitoring_runs ───────────────────────────────────────────────────────────
+create policy "users_own_monitoring_runs" on monitoring_runs
+  for select using (user_id = auth.uid()::text);
+
+create policy "users_own_monitoring_run_items" on monitoring_run_items
+  for select using (
+    exists (
+      select 1 from monitoring_runs r
+      where r.id = run_id and r.user_id = auth.uid()::text
+    )
+  );
+
+-- ── ai_usage ──────────────────────────────────────────────────────────────────
+create policy "users_own_ai_usage" on ai_usage
+  for select using (user_id = auth.uid()::text);
+
+-- ── analysis_scans ────────────────────────────────────────────────────────────
+create policy "users_own_analysis_scans" on analysis_scans
+  for select using (user_id = auth.uid()::text);
+
+create policy "users_delete_analysis_scans" on analysis_scans for delete
+  using (user_id = auth.uid()::text);
+
+-- ── site_crawls ───────────────────────────────────────────────────────────────
+create policy "users_own_site_crawls" on site_crawls
+  for select using (user_id = auth.uid()::text);
+
+create policy "users_own_site_crawl_pages" on site_crawl_pages
+  for select using (
+    exists (select 1 from site_crawls c where c.id = crawl_id and c.user_id = auth.uid()::text)
+  );
+
 -- ── alert_rules ───────────────────────────────────────────────────────────────
 create policy "users_own_alerts" on alert_rules
   for select using (user_id = auth.uid()::text);